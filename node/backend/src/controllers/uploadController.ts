@@ -1,87 +1,162 @@
 import { Request, Response } from 'express';
-import csv from 'csv-parser';
-import { Readable } from 'stream';
-import { Transaction, PersonShare } from '../types/Transaction';
+import { AdvancedAnalyticsService } from '../services/AdvancedAnalyticsService';
+import { CsvParserService } from '../services/CsvParserService';
+import { COLUMN_ROLES, ImportProfileService } from '../services/ImportProfileService';
+import { DatasetMergeService } from '../services/DatasetMergeService';
+import { StoreAnalysisService } from '../services/StoreAnalysisService';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { ImportProfileRepository } from '../repositories/ImportProfileRepository';
+import { PersonMappingRepository } from '../repositories/PersonMappingRepository';
+import { StoreMappingLibraryRepository } from '../repositories/StoreMappingLibraryRepository';
+import { StoreRuleRepository } from '../repositories/StoreRuleRepository';
+import { StoreRuleService } from '../services/StoreRuleService';
+import { PersonMappingService } from '../services/PersonMappingService';
+import {
+  ColumnMapping,
+  ColumnRole,
+  DuplicateHandling,
+  FileImportResult,
+  ImportedFile,
+  ImportProfile,
+  UploadMode,
+  ValidationMode
+} from '../types/Import';
+
+/** Rows parsed by the preview endpoint when no count is given */
+const DEFAULT_PREVIEW_ROWS = 10;
 
 class UploadController {
   constructor() {
     this.handleUpload = this.handleUpload.bind(this);
+    this.handlePreview = this.handlePreview.bind(this);
   }
   /**
    * Handles the CSV file upload and parsing
-   * Stores the parsed data in the session
+   * Accepts one or more files (`file` or `files` fields) and stores the parsed data in the session's dataset
+   * Accepts an optional `validationMode` field: "skip" (default) imports the valid rows,
+   * "reject" refuses the whole upload when any row has an error
+   * Accepts an optional `mode` field: "replace" (default) replaces the contents of the
+   * selected dataset, "append" adds to them
+   * Accepts an optional `duplicates` field: "skip" (default) leaves out transactions already
+   * in the dataset, "flag" imports them marked as possible duplicates
+   * Store names found in the mapping library are renamed to their canonical names before merging
+   * Accepts an optional `profileId` field selecting a saved import profile (Splitwise by default)
+   * Accepts an optional `columnMapping` field (JSON) overriding the detected column roles
    */
   async handleUpload(req: Request, res: Response) {
     try {
-      if (!req.file) {
+      const files = this.getUploadedFiles(req);
+      if (files.length === 0) {
         return res.status(400).json({ error: 'No file uploaded' });
       }
 
-      const results: Transaction[] = [];
-      const fileBuffer = req.file.buffer;
-      const stream = Readable.from(fileBuffer);
-
-      // Create a promise to handle the stream processing
-      const parsePromise = new Promise<void>((resolve, reject) => {
-        stream
-          .pipe(csv())
-          .on('data', (row: any) => {
-            // Skip empty rows
-            if (!row.Date || !row.Description) return;
-
-            // Extract person shares (columns after Currency)
-            const shares: PersonShare[] = [];
-            const knownFields = ['Date', 'Description', 'Category', 'Cost', 'Currency'];
-            
-            Object.entries(row).forEach(([key, value]) => {
-              if (!knownFields.includes(key) && key.trim()) {
-                const amount = parseFloat(value as string);
-                if (!isNaN(amount)) {
-                  shares.push({
-                    name: key,
-                    amount: amount
-                  });
-                }
-              }
-            });
-
-            // Create transaction object
-            const transaction: Transaction = {
-              date: row.Date,
-              description: row.Description,
-              category: row.Category,
-              cost: parseFloat(row.Cost),
-              currency: row.Currency,
-              shares
-            };
-
-            results.push(transaction);
-          })
-          .on('end', () => resolve())
-          .on('error', (error) => reject(error));
+      const profile = this.findProfile(req);
+      if (profile === null) {
+        return res.status(404).json({ error: `Import profile not found: ${req.body.profileId}` });
+      }
+
+      const columnMapping = this.parseColumnMapping(req.body?.columnMapping);
+      if (columnMapping === null) {
+        return res.status(400).json({ error: 'Invalid columnMapping. Expected a JSON object of column names to roles.' });
+      }
+
+      const validationMode: ValidationMode = req.body?.validationMode === 'reject' ? 'reject' : 'skip';
+      const mode: UploadMode = req.body?.mode === 'append' ? 'append' : 'replace';
+      const duplicateHandling: DuplicateHandling = req.body?.duplicates === 'flag' ? 'flag' : 'skip';
+
+      const parsedFiles = await Promise.all(files.map(async file => ({
+        fileName: file.originalname,
+        ...(await CsvParserService.parse(file.buffer, { profile, columnMapping }))
+      })));
+
+      const errorCount = parsedFiles.reduce((sum, file) => sum + file.validation.errorCount, 0);
+      if (validationMode === 'reject' && errorCount > 0) {
+        return res.status(422).json({
+          error: `Upload rejected: ${errorCount} error(s) found`,
+          files: parsedFiles.map(file => ({ fileName: file.fileName, validation: file.validation }))
+        });
+      }
+
+      // Uploading without a selected dataset starts one named after the first file
+      const dataset = DatasetRepository.findById(req.session.datasetId)
+        || DatasetRepository.create(files[0].originalname.replace(/\.csv$/i, ''));
+      const existing = mode === 'append' ? DatasetRepository.getContents(dataset.id) : undefined;
+      let transactions = existing?.transactions || [];
+      let storeMappings = existing?.storeMappings || {};
+      const library = StoreMappingLibraryRepository.findAll();
+      const rules = StoreRuleRepository.findAll();
+      // People merged or renamed in this dataset keep their names when it is uploaded again
+      const personMappings = PersonMappingRepository.findByDataset(dataset.id);
+      const sources: ImportedFile[] = [...(existing?.sources || [])];
+      const importedAt = new Date().toISOString();
+
+      // Merge files one at a time so duplicates across the uploaded files are caught too
+      const fileResults: FileImportResult[] = parsedFiles.map(file => {
+        // Library mappings win; store rules map the names the library does not know
+        const libraryMappings = StoreAnalysisService.getMatchingMappings(file.transactions, library);
+        const libraryNames = new Set(Object.values(libraryMappings).flat());
+        const ruleMappings = StoreRuleService.getRuleMappings(
+          rules,
+          file.transactions.map(t => t.description).filter(description => !libraryNames.has(description))
+        );
+        const fileMappings = StoreAnalysisService.mergeMappings(libraryMappings, ruleMappings);
+        const incoming = PersonMappingService.applyPersonMappings(
+          StoreAnalysisService.applyStoreMappings(file.transactions, fileMappings),
+          personMappings
+        );
+        storeMappings = StoreAnalysisService.mergeMappings(storeMappings, fileMappings);
+        const storeNamesMapped = incoming.filter(t => t.store !== t.description).length;
+
+        const merged = DatasetMergeService.merge(transactions, incoming, duplicateHandling);
+        transactions = merged.transactions;
+
+        sources.push({
+          fileName: file.fileName,
+          importedAt,
+          transactionCount: merged.added.length + merged.flagged.length,
+          totalBalance: file.totalBalance
+        });
+
+        return {
+          fileName: file.fileName,
+          transactionsParsed: file.transactions.length,
+          added: merged.added.length,
+          duplicatesSkipped: merged.skipped.length,
+          duplicatesFlagged: merged.flagged.length,
+          storeNamesMapped,
+          totalBalance: file.totalBalance,
+          reconciliation: file.totalBalance
+            ? AdvancedAnalyticsService.reconcileBalances(file.transactions, file.totalBalance)
+            : undefined,
+          validation: file.validation
+        };
       });
 
-      // Wait for parsing to complete
-      await parsePromise;
+      DatasetRepository.saveContents(dataset.id, { transactions, storeMappings, sources });
+      req.session.datasetId = dataset.id;
 
-      // Store results in session
-      req.session.data = {
-        transactions: results,
-        storeMappings: {}
-      };
+      const dates = transactions.map(t => t.date).sort();
 
       // Return success response with summary
       res.json({
-        message: 'File uploaded and parsed successfully',
+        message: files.length > 1
+          ? `${files.length} files uploaded and parsed successfully`
+          : 'File uploaded and parsed successfully',
         summary: {
-          totalTransactions: results.length,
+          totalTransactions: transactions.length,
+          settlements: transactions.filter(t => t.kind === 'settlement').length,
+          added: fileResults.reduce((sum, file) => sum + file.added, 0),
+          duplicatesSkipped: fileResults.reduce((sum, file) => sum + file.duplicatesSkipped, 0),
+          duplicatesFlagged: fileResults.reduce((sum, file) => sum + file.duplicatesFlagged, 0),
+          storeNamesMapped: fileResults.reduce((sum, file) => sum + file.storeNamesMapped, 0),
           dateRange: {
-            start: results[0]?.date,
-            end: results[results.length - 1]?.date
+            start: dates[0],
+            end: dates[dates.length - 1]
           },
-          people: [...new Set(results.flatMap(t => t.shares.map(s => s.name)))],
-          categories: [...new Set(results.map(t => t.category))]
-        }
+          people: [...new Set(transactions.flatMap(t => t.shares.map(s => s.name)))],
+          categories: [...new Set(transactions.map(t => t.category))]
+        },
+        files: fileResults
       });
 
     } catch (error) {
@@ -89,6 +164,78 @@ class UploadController {
       res.status(500).json({ error: 'Error processing file' });
     }
   }
+
+  /**
+   * Parses the first rows of an uploaded file without touching the dataset
+   * Returns detected columns, their roles and inferred types, and sample transactions
+   * Accepts optional `rows`, `profileId` and `columnMapping` fields
+   */
+  async handlePreview(req: Request, res: Response) {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const profile = this.findProfile(req);
+      if (profile === null) {
+        return res.status(404).json({ error: `Import profile not found: ${req.body.profileId}` });
+      }
+
+      const columnMapping = this.parseColumnMapping(req.body?.columnMapping);
+      if (columnMapping === null) {
+        return res.status(400).json({ error: 'Invalid columnMapping. Expected a JSON object of column names to roles.' });
+      }
+
+      const rows = parseInt(req.body?.rows) || DEFAULT_PREVIEW_ROWS;
+      const preview = await CsvParserService.preview(
+        req.file.buffer,
+        Math.max(1, rows),
+        { profile, columnMapping }
+      );
+
+      res.json(preview);
+    } catch (error) {
+      console.error('Error previewing file:', error);
+      res.status(500).json({ error: 'Error previewing file' });
+    }
+  }
+
+  /**
+   * Collects uploaded files from both the single `file` and multi `files` fields
+   */
+  private getUploadedFiles(req: Request): Express.Multer.File[] {
+    if (!req.files) return req.file ? [req.file] : [];
+    if (Array.isArray(req.files)) return req.files;
+    return [...(req.files.file || []), ...(req.files.files || [])];
+  }
+
+  /**
+   * Resolves the `profileId` form field against built-in and saved profiles
+   * Returns undefined when no profile was requested and null when it does not exist
+   */
+  private findProfile(req: Request): ImportProfile | undefined | null {
+    const profileId = req.body?.profileId;
+    if (!profileId) return undefined;
+    return ImportProfileService.findProfile(profileId, ImportProfileRepository.findAll()) || null;
+  }
+
+  /**
+   * Reads a column mapping sent as a JSON form field
+   * Returns undefined when absent and null when malformed
+   */
+  private parseColumnMapping(raw: unknown): ColumnMapping | undefined | null {
+    if (raw === undefined || raw === '') return undefined;
+
+    try {
+      const mapping = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) return null;
+
+      const valid = Object.values(mapping).every(role => COLUMN_ROLES.includes(role as ColumnRole));
+      return valid ? mapping as ColumnMapping : null;
+    } catch {
+      return null;
+    }
+  }
 }
 
-export const uploadController = new UploadController();
\ No newline at end of file
+export const uploadController = new UploadController();
@@ -0,0 +1,61 @@
+import { SessionData, Store } from 'express-session';
+import { db } from './database';
+
+/** Used when a session cookie has no expiry of its own */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * express-session store backed by the SQLite database
+ * Keeps the session's dataset pointer valid across server restarts
+ */
+export class SqliteSessionStore extends Store {
+  constructor() {
+    super();
+    this.pruneExpired();
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    try {
+      const row = db.prepare('SELECT session FROM sessions WHERE sid = ? AND expires > ?')
+        .get(sid, Date.now()) as { session: string } | undefined;
+      callback(null, row ? JSON.parse(row.session) : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, session: SessionData, callback?: (err?: any) => void): void {
+    try {
+      db.prepare(`
+        INSERT INTO sessions (sid, session, expires) VALUES (?, ?, ?)
+        ON CONFLICT(sid) DO UPDATE SET session = excluded.session, expires = excluded.expires
+      `).run(sid, JSON.stringify(session), this.getExpiry(session));
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    try {
+      db.prepare('DELETE FROM sessions WHERE sid = ?').run(sid);
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, session: SessionData, callback?: () => void): void {
+    db.prepare('UPDATE sessions SET expires = ? WHERE sid = ?').run(this.getExpiry(session), sid);
+    callback?.();
+  }
+
+  private getExpiry(session: SessionData): number {
+    const expires = session.cookie?.expires;
+    return expires ? new Date(expires).getTime() : Date.now() + DEFAULT_TTL_MS;
+  }
+
+  private pruneExpired(): void {
+    db.prepare('DELETE FROM sessions WHERE expires <= ?').run(Date.now());
+  }
+}
@@ -0,0 +1,168 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import { DatasetMergeService } from '../services/DatasetMergeService';
+import { Transaction } from '../types/Transaction';
+import { migrateCategoryReviewsToIds, migrateMoneyToCents } from './database';
+
+/**
+ * A database as created before money was stored in minor units
+ */
+const createMajorUnitDatabase = () => {
+  const database = new Database(':memory:');
+  database.exec(`
+    CREATE TABLE transactions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      description TEXT NOT NULL,
+      cost REAL NOT NULL,
+      shares TEXT NOT NULL,
+      original_shares TEXT
+    );
+    CREATE TABLE dataset_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      total_balance TEXT
+    );
+  `);
+  database.prepare('INSERT INTO transactions (description, cost, shares, original_shares) VALUES (?, ?, ?, ?)').run(
+    'Mayuri',
+    42.56,
+    JSON.stringify([{ name: 'Sharath', amount: 21.28 }, { name: 'Surabhi', amount: -21.28 }]),
+    null
+  );
+  database.prepare('INSERT INTO transactions (description, cost, shares, original_shares) VALUES (?, ?, ?, ?)').run(
+    'Safeway',
+    1.005,
+    JSON.stringify([{ name: 'Sharath', amount: 1.005 }]),
+    JSON.stringify([{ name: 'Sharath S Bhargav', amount: 1.005 }])
+  );
+  database.prepare('INSERT INTO dataset_sources (total_balance) VALUES (?), (NULL)').run(
+    JSON.stringify({ date: '2025-08-16', currency: 'USD', balances: { Sharath: 120.5, Surabhi: -120.5 } })
+  );
+  return database;
+};
+
+describe('migrateMoneyToCents', () => {
+  it('converts costs, shares and import totals into integer minor units', () => {
+    const database = createMajorUnitDatabase();
+    migrateMoneyToCents(database);
+
+    const transactions = database.prepare('SELECT description, cost, shares, original_shares FROM transactions ORDER BY id')
+      .all() as { description: string; cost: number; shares: string; original_shares: string | null }[];
+    expect(transactions.map(row => ({ ...row, shares: JSON.parse(row.shares) }))).toEqual([
+      {
+        description: 'Mayuri',
+        cost: 4256,
+        shares: [{ name: 'Sharath', amount: 2128 }, { name: 'Surabhi', amount: -2128 }],
+        original_shares: null
+      },
+      {
+        description: 'Safeway',
+        cost: 101,
+        shares: [{ name: 'Sharath', amount: 101 }],
+        original_shares: JSON.stringify([{ name: 'Sharath S Bhargav', amount: 101 }])
+      }
+    ]);
+
+    const [source] = database.prepare('SELECT total_balance FROM dataset_sources WHERE total_balance IS NOT NULL')
+      .all() as { total_balance: string }[];
+    expect(JSON.parse(source.total_balance).balances).toEqual({ Sharath: 12050, Surabhi: -12050 });
+  });
+
+  it('stores costs in an integer column and runs only once', () => {
+    const database = createMajorUnitDatabase();
+    migrateMoneyToCents(database);
+    migrateMoneyToCents(database);
+
+    const columns = database.prepare('PRAGMA table_info(transactions)').all() as { name: string; type: string }[];
+    expect(columns.filter(column => column.name.startsWith('cost'))).toMatchObject([{ name: 'cost', type: 'INTEGER' }]);
+    expect(database.prepare("SELECT typeof(cost) AS type, cost FROM transactions WHERE description = 'Mayuri'").get())
+      .toEqual({ type: 'integer', cost: 4256 });
+  });
+});
+
+describe('migrateCategoryReviewsToIds', () => {
+  const dinner: Transaction = {
+    id: '',
+    date: '2025-02-24',
+    description: 'Mayuri',
+    store: 'Mayuri',
+    category: '',
+    cost: 4256,
+    currency: 'USD',
+    shares: [{ name: 'Sharath', amount: 2128 }, { name: 'Surabhi', amount: -2128 }]
+  };
+
+  /**
+   * A database as created before category suggestion reviews were kept by transaction ID
+   */
+  const createContentKeyDatabase = () => {
+    const database = new Database(':memory:');
+    database.exec(`
+      CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dataset_id TEXT NOT NULL,
+        transaction_id TEXT,
+        date TEXT NOT NULL,
+        description TEXT NOT NULL,
+        category TEXT NOT NULL,
+        cost INTEGER NOT NULL,
+        currency TEXT NOT NULL,
+        shares TEXT NOT NULL,
+        original_shares TEXT
+      );
+      CREATE TABLE category_suggestion_reviews (
+        dataset_id TEXT NOT NULL,
+        transaction_key TEXT NOT NULL,
+        suggested_category TEXT NOT NULL,
+        verdict TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (dataset_id, transaction_key, suggested_category)
+      );
+    `);
+    const insertTransaction = database.prepare(`
+      INSERT INTO transactions (dataset_id, transaction_id, date, description, category, cost, currency, shares)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const addTransaction = (transactionId: string | null, transaction: Transaction) => insertTransaction.run(
+      'd1', transactionId, transaction.date, transaction.description, transaction.category, transaction.cost,
+      transaction.currency, JSON.stringify(transaction.shares)
+    );
+    addTransaction(null, dinner);
+    addTransaction(null, dinner);
+    addTransaction('kept-id', { ...dinner, date: '2025-02-25' });
+
+    const insertReview = database.prepare(`
+      INSERT INTO category_suggestion_reviews (dataset_id, transaction_key, suggested_category, verdict, updated_at)
+      VALUES ('d1', ?, ?, 'reject', '2025-03-01T00:00:00.000Z')
+    `);
+    insertReview.run(DatasetMergeService.getDuplicateKey(dinner), 'Dining out');
+    insertReview.run(DatasetMergeService.getDuplicateKey({ ...dinner, date: '2025-02-25' }), 'Groceries');
+    insertReview.run(DatasetMergeService.getDuplicateKey({ ...dinner, date: '2025-01-01' }), 'Groceries');
+    return database;
+  };
+
+  it('keys reviews by the ID of each transaction they were made for', () => {
+    const database = createContentKeyDatabase();
+    migrateCategoryReviewsToIds(database);
+
+    const ids = (database.prepare('SELECT transaction_id FROM transactions ORDER BY id').all() as
+      { transaction_id: string }[]).map(row => row.transaction_id);
+    expect(ids).toEqual(DatasetMergeService.assignIds([dinner, dinner, { ...dinner, id: 'kept-id' }]).map(t => t.id));
+
+    const reviews = database.prepare(`
+      SELECT transaction_id, suggested_category FROM category_suggestion_reviews ORDER BY transaction_id
+    `).all();
+    expect(reviews).toEqual([
+      { transaction_id: ids[0], suggested_category: 'Dining out' },
+      { transaction_id: ids[1], suggested_category: 'Dining out' },
+      { transaction_id: 'kept-id', suggested_category: 'Groceries' }
+    ].sort((a, b) => a.transaction_id.localeCompare(b.transaction_id)));
+  });
+
+  it('runs only once', () => {
+    const database = createContentKeyDatabase();
+    migrateCategoryReviewsToIds(database);
+    migrateCategoryReviewsToIds(database);
+
+    expect(database.prepare('SELECT COUNT(*) AS count FROM category_suggestion_reviews').get()).toEqual({ count: 3 });
+  });
+});
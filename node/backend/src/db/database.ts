@@ -0,0 +1,319 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { DatasetMergeService } from '../services/DatasetMergeService';
+import { MoneyService } from '../services/MoneyService';
+import { PersonShare, TotalBalance, Transaction } from '../types/Transaction';
+
+/** Database file, kept next to the backend sources unless overridden */
+const DATABASE_PATH = process.env.DATABASE_PATH
+  || path.resolve(__dirname, '../../data/spending-analyzer.db');
+
+/**
+ * Tables are created on startup; statements must stay idempotent
+ * Money is stored in integer minor units: transaction costs, the amounts in shares and the import totals
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS datasets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL DEFAULT 'Untitled dataset',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    transaction_id TEXT,
+    date TEXT NOT NULL,
+    description TEXT NOT NULL,
+    category TEXT NOT NULL,
+    original_category TEXT,
+    cost INTEGER NOT NULL,
+    currency TEXT NOT NULL,
+    store TEXT,
+    shares TEXT NOT NULL,
+    original_shares TEXT,
+    kind TEXT,
+    possible_duplicate INTEGER NOT NULL DEFAULT 0,
+    tags TEXT,
+    notes TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_transactions_dataset ON transactions(dataset_id);
+
+  CREATE TABLE IF NOT EXISTS store_mappings (
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    canonical_name TEXT NOT NULL,
+    variation TEXT NOT NULL,
+    PRIMARY KEY (dataset_id, canonical_name, variation)
+  );
+
+  CREATE TABLE IF NOT EXISTS person_mappings (
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    canonical_name TEXT NOT NULL,
+    alias TEXT NOT NULL,
+    PRIMARY KEY (dataset_id, alias)
+  );
+
+  CREATE TABLE IF NOT EXISTS store_group_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    operation TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    mappings_before TEXT NOT NULL,
+    mappings_after TEXT NOT NULL,
+    feedback_changes TEXT NOT NULL DEFAULT '[]',
+    undone INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS store_mapping_library (
+    variation TEXT PRIMARY KEY,
+    canonical_name TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS store_pair_feedback (
+    name_a TEXT NOT NULL,
+    name_b TEXT NOT NULL,
+    verdict TEXT NOT NULL CHECK (verdict IN ('accept', 'reject')),
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (name_a, name_b)
+  );
+
+  CREATE TABLE IF NOT EXISTS store_rules (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    match_type TEXT NOT NULL,
+    pattern TEXT NOT NULL,
+    canonical_name TEXT NOT NULL,
+    case_sensitive INTEGER NOT NULL DEFAULT 0,
+    enabled INTEGER NOT NULL DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS store_metadata (
+    store_name TEXT PRIMARY KEY,
+    chain TEXT,
+    store_type TEXT,
+    neighborhood TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS exchange_rates (
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    date TEXT NOT NULL,
+    rate REAL NOT NULL,
+    PRIMARY KEY (base_currency, quote_currency, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS category_remappings (
+    raw_category TEXT PRIMARY KEY,
+    category TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS category_suggestion_reviews (
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    transaction_id TEXT NOT NULL,
+    suggested_category TEXT NOT NULL,
+    verdict TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (dataset_id, transaction_id, suggested_category)
+  );
+
+  CREATE TABLE IF NOT EXISTS category_parents (
+    category TEXT PRIMARY KEY,
+    parent TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS dataset_sources (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    imported_at TEXT NOT NULL,
+    transaction_count INTEGER NOT NULL,
+    total_balance TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS receipts (
+    id TEXT PRIMARY KEY,
+    dataset_id TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    transaction_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    uploaded_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_receipts_transaction ON receipts(dataset_id, transaction_id);
+
+  CREATE TABLE IF NOT EXISTS import_profiles (
+    id TEXT PRIMARY KEY,
+    profile TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    sid TEXT PRIMARY KEY,
+    session TEXT NOT NULL,
+    expires INTEGER NOT NULL
+  );
+`;
+
+/**
+ * Columns added after a table was first released, so databases created earlier get them too
+ */
+const ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: 'datasets', column: 'name', definition: "TEXT NOT NULL DEFAULT 'Untitled dataset'" },
+  { table: 'transactions', column: 'store', definition: 'TEXT' },
+  { table: 'transactions', column: 'original_shares', definition: 'TEXT' },
+  { table: 'transactions', column: 'original_category', definition: 'TEXT' },
+  { table: 'transactions', column: 'transaction_id', definition: 'TEXT' },
+  { table: 'transactions', column: 'tags', definition: 'TEXT' },
+  { table: 'transactions', column: 'notes', definition: 'TEXT' },
+  { table: 'store_group_history', column: 'feedback_changes', definition: "TEXT NOT NULL DEFAULT '[]'" }
+];
+
+/**
+ * Converts money stored in REAL major units, as databases created before amounts were kept in minor units
+ * hold it, into integer minor units; the type of the transactions' cost column tells which one a database has
+ */
+export const migrateMoneyToCents = (database: Database.Database): void => {
+  const columns = database.prepare('PRAGMA table_info(transactions)').all() as { name: string; type: string }[];
+  if (columns.find(column => column.name === 'cost')?.type !== 'REAL') return;
+
+  const toCentShares = (json: string) => JSON.stringify(
+    (JSON.parse(json) as PersonShare[]).map(share => ({ ...share, amount: MoneyService.fromAmount(share.amount) }))
+  );
+  const toCentBalance = (json: string) => {
+    const totalBalance: TotalBalance = JSON.parse(json);
+    const balances = Object.entries(totalBalance.balances)
+      .map(([person, balance]) => [person, MoneyService.fromAmount(balance)]);
+    return JSON.stringify({ ...totalBalance, balances: Object.fromEntries(balances) });
+  };
+
+  database.transaction(() => {
+    database.exec(`
+      ALTER TABLE transactions RENAME COLUMN cost TO cost_amount;
+      ALTER TABLE transactions ADD COLUMN cost INTEGER NOT NULL DEFAULT 0;
+    `);
+    const transactions = database.prepare('SELECT id, cost_amount, shares, original_shares FROM transactions')
+      .all() as { id: number; cost_amount: number; shares: string; original_shares: string | null }[];
+    const updateTransaction = database.prepare(
+      'UPDATE transactions SET cost = ?, shares = ?, original_shares = ? WHERE id = ?'
+    );
+    transactions.forEach(row => updateTransaction.run(
+      MoneyService.fromAmount(row.cost_amount),
+      toCentShares(row.shares),
+      row.original_shares && toCentShares(row.original_shares),
+      row.id
+    ));
+    database.exec('ALTER TABLE transactions DROP COLUMN cost_amount');
+
+    const sources = database.prepare('SELECT id, total_balance FROM dataset_sources WHERE total_balance IS NOT NULL')
+      .all() as { id: number; total_balance: string }[];
+    const updateSource = database.prepare('UPDATE dataset_sources SET total_balance = ? WHERE id = ?');
+    sources.forEach(row => updateSource.run(toCentBalance(row.total_balance), row.id));
+  })();
+};
+
+/**
+ * Re-keys category suggestion reviews by transaction ID; databases created before transactions had stable
+ * IDs key them by the transaction's content, which changes when the transaction is edited
+ * Transactions still without an ID get the one they would be loaded with, so the reviews stay attached
+ */
+export const migrateCategoryReviewsToIds = (database: Database.Database): void => {
+  const columns = database.prepare('PRAGMA table_info(category_suggestion_reviews)').all() as { name: string }[];
+  if (!columns.some(column => column.name === 'transaction_key')) return;
+
+  database.transaction(() => {
+    const rows = database.prepare(`
+      SELECT id, dataset_id, transaction_id, date, description, category, cost, currency, shares, original_shares
+      FROM transactions
+      ORDER BY id
+    `).all() as {
+      id: number;
+      dataset_id: string;
+      transaction_id: string | null;
+      date: string;
+      description: string;
+      category: string;
+      cost: number;
+      currency: string;
+      shares: string;
+      original_shares: string | null;
+    }[];
+    const updateId = database.prepare('UPDATE transactions SET transaction_id = ? WHERE id = ?');
+    const idsByKey = new Map<string, string[]>();
+
+    const rowsByDataset = new Map<string, typeof rows>();
+    rows.forEach(row => rowsByDataset.set(row.dataset_id, [...(rowsByDataset.get(row.dataset_id) || []), row]));
+    rowsByDataset.forEach((datasetRows, datasetId) => {
+      const transactions = DatasetMergeService.assignIds(datasetRows.map((row): Transaction => ({
+        id: row.transaction_id ?? '',
+        date: row.date,
+        description: row.description,
+        store: row.description,
+        category: row.category,
+        cost: row.cost,
+        currency: row.currency,
+        shares: JSON.parse(row.shares),
+        ...(row.original_shares ? { originalShares: JSON.parse(row.original_shares) } : {})
+      })));
+      transactions.forEach((transaction, index) => {
+        if (datasetRows[index].transaction_id === null) updateId.run(transaction.id, datasetRows[index].id);
+        const key = `${datasetId}\u0000${DatasetMergeService.getDuplicateKey(transaction)}`;
+        idsByKey.set(key, [...(idsByKey.get(key) || []), transaction.id]);
+      });
+    });
+
+    const reviews = database.prepare(`
+      SELECT dataset_id, transaction_key, suggested_category, verdict, updated_at FROM category_suggestion_reviews
+    `).all() as {
+      dataset_id: string;
+      transaction_key: string;
+      suggested_category: string;
+      verdict: string;
+      updated_at: string;
+    }[];
+    database.exec(`
+      DELETE FROM category_suggestion_reviews;
+      ALTER TABLE category_suggestion_reviews RENAME COLUMN transaction_key TO transaction_id;
+    `);
+    const insert = database.prepare(`
+      INSERT OR REPLACE INTO category_suggestion_reviews
+        (dataset_id, transaction_id, suggested_category, verdict, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    // A review of identical rows applied to each of them; reviews of transactions since deleted are dropped
+    reviews.forEach(review => {
+      (idsByKey.get(`${review.dataset_id}\u0000${review.transaction_key}`) || []).forEach(id => {
+        insert.run(review.dataset_id, id, review.suggested_category, review.verdict, review.updated_at);
+      });
+    });
+  })();
+};
+
+fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+
+/**
+ * Shared connection to the embedded SQLite database
+ */
+export const db = new Database(DATABASE_PATH);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+db.exec(SCHEMA);
+
+ADDED_COLUMNS.forEach(({ table, column, definition }) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(existing => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+});
+
+migrateMoneyToCents(db);
+migrateCategoryReviewsToIds(db);
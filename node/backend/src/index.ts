@@ -2,10 +2,20 @@ import express from 'express';
 import cors from 'cors';
 import session from 'express-session';
 import './types/session';
+import { SqliteSessionStore } from './db/SqliteSessionStore';
 import { uploadRoutes } from './routes/uploadRoutes';
 import { storesRouter } from './routes/stores';
+import { storeGroupsRouter } from './routes/storeGroups';
+import { storeRulesRouter } from './routes/storeRules';
+import { storeMetadataRouter } from './routes/storeMetadata';
 import { analysisRouter } from './routes/analysis';
 import { advancedAnalyticsRouter } from './routes/advancedAnalytics';
+import { importProfilesRouter } from './routes/importProfiles';
+import { datasetsRouter } from './routes/datasets';
+import { peopleRouter } from './routes/people';
+import { categoriesRouter } from './routes/categories';
+import { currenciesRouter } from './routes/currencies';
+import { transactionsRouter } from './routes/transactions';
 
 // Initialize express app
 const app = express();
@@ -15,7 +25,7 @@ const port = process.env.PORT || 3000;
 app.use(cors({
   origin: 'http://localhost:5173', // Vite's default port
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
@@ -23,20 +33,30 @@ app.use(express.json());
 
 // Configure session middleware
 app.use(session({
+  store: new SqliteSessionStore(),
   secret: 'your-secret-key', // In production, use environment variable
   resave: false,
   saveUninitialized: false,
   cookie: {
     secure: process.env.NODE_ENV === 'production',
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+    maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days; the dataset itself is persisted
   }
 }));
 
 // Register routes
 app.use('/api/upload', uploadRoutes);
+app.use('/api/stores/groups', storeGroupsRouter);
+app.use('/api/stores/rules', storeRulesRouter);
+app.use('/api/stores/metadata', storeMetadataRouter);
 app.use('/api/stores', storesRouter);
 app.use('/api/analysis', analysisRouter);
 app.use('/api/advanced-analytics', advancedAnalyticsRouter);
+app.use('/api/import-profiles', importProfilesRouter);
+app.use('/api/datasets', datasetsRouter);
+app.use('/api/people', peopleRouter);
+app.use('/api/categories', categoriesRouter);
+app.use('/api/currencies', currenciesRouter);
+app.use('/api/transactions', transactionsRouter);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
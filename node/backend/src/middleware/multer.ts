@@ -15,3 +15,56 @@ export const upload = multer({
     fileSize: 5 * 1024 * 1024 // 5MB limit
   }
 });
+
+// Store mapping files shared between datasets, as exported from the Refine Data page
+export const mappingFileUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    const name = file.originalname.toLowerCase();
+    if (name.endsWith('.csv') || name.endsWith('.json')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV or JSON mapping files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 // 1MB limit
+  }
+});
+
+// Exchange rate tables kept locally, one dated rate per row
+export const rateFileUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV rate files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 1024 * 1024 // 1MB limit
+  }
+});
+
+/** Largest receipt accepted, in bytes */
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+/** Receipt file types that can be viewed in the browser */
+export const RECEIPT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+// Receipt photos and PDFs attached to transactions, kept on the local filesystem
+export const receiptUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (RECEIPT_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only JPEG, PNG, GIF, WebP or PDF receipts are allowed'));
+    }
+  },
+  limits: {
+    fileSize: MAX_RECEIPT_SIZE,
+    files: 1
+  }
+});
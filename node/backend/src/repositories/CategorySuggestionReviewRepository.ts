@@ -0,0 +1,44 @@
+import { db } from '../db/database';
+import { CategorySuggestionVerdict } from '../types/Category';
+
+/**
+ * Category suggestions a dataset's user accepted or rejected in the review queue
+ */
+export class CategorySuggestionReviewRepository {
+  /**
+   * The dataset's rejected suggestions, so they are not suggested again
+   */
+  static findRejected(datasetId: string): { transactionId: string; category: string }[] {
+    const rows = db.prepare(`
+      SELECT transaction_id, suggested_category
+      FROM category_suggestion_reviews
+      WHERE dataset_id = ? AND verdict = 'reject'
+    `).all(datasetId) as { transaction_id: string; suggested_category: string }[];
+
+    return rows.map(row => ({ transactionId: row.transaction_id, category: row.suggested_category }));
+  }
+
+  /**
+   * Records a verdict for each suggestion; the latest verdict wins
+   */
+  static record(
+    datasetId: string,
+    suggestions: { transactionId: string; category: string }[],
+    verdict: CategorySuggestionVerdict
+  ): void {
+    const upsert = db.prepare(`
+      INSERT INTO category_suggestion_reviews (dataset_id, transaction_id, suggested_category, verdict, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(dataset_id, transaction_id, suggested_category) DO UPDATE SET
+        verdict = excluded.verdict,
+        updated_at = excluded.updated_at
+    `);
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      suggestions.forEach(({ transactionId, category }) => {
+        upsert.run(datasetId, transactionId, category, verdict, now);
+      });
+    })();
+  }
+}
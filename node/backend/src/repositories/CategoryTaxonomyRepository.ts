@@ -0,0 +1,55 @@
+import { db } from '../db/database';
+import { CategoryTaxonomy } from '../types/Category';
+
+/**
+ * Category remappings and parent groups, shared by all datasets
+ */
+export class CategoryTaxonomyRepository {
+  static find(): CategoryTaxonomy {
+    const remappings = db.prepare(`
+      SELECT raw_category, category FROM category_remappings ORDER BY raw_category
+    `).all() as { raw_category: string; category: string }[];
+    const parents = db.prepare(`
+      SELECT category, parent FROM category_parents ORDER BY category
+    `).all() as { category: string; parent: string }[];
+
+    return {
+      remappings: Object.fromEntries(remappings.map(row => [row.raw_category, row.category])),
+      parents: Object.fromEntries(parents.map(row => [row.category, row.parent]))
+    };
+  }
+
+  /**
+   * Shows an imported category as another category, replacing any earlier remapping
+   */
+  static saveRemapping(rawCategory: string, category: string): void {
+    db.prepare(`
+      INSERT INTO category_remappings (raw_category, category) VALUES (?, ?)
+      ON CONFLICT(raw_category) DO UPDATE SET category = excluded.category
+    `).run(rawCategory, category);
+  }
+
+  /**
+   * Removes a remapping, returning false when the category had none
+   */
+  static deleteRemapping(rawCategory: string): boolean {
+    return db.prepare('DELETE FROM category_remappings WHERE raw_category = ?').run(rawCategory).changes > 0;
+  }
+
+  /**
+   * Places a category under a parent group, replacing any earlier parent
+   */
+  static saveParent(category: string, parent: string): void {
+    db.prepare(`
+      INSERT INTO category_parents (category, parent) VALUES (?, ?)
+      ON CONFLICT(category) DO UPDATE SET parent = excluded.parent
+    `).run(category, parent);
+  }
+
+  /**
+   * Makes a category top-level again, returning false when it had no parent
+   */
+  static deleteParent(category: string): boolean {
+    return db.prepare('DELETE FROM category_parents WHERE category = ?').run(category).changes > 0;
+  }
+}
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db/database';
+import { Dataset, DatasetContents, DatasetSummary } from '../types/Dataset';
+import { ImportedFile } from '../types/Import';
+import { PersonMappings } from '../types/Person';
+import { Transaction } from '../types/Transaction';
+import { PersonMappingRepository } from './PersonMappingRepository';
+import { ReceiptRepository } from './ReceiptRepository';
+import { StoreMappingRepository } from './StoreMappingRepository';
+import { TransactionRepository } from './TransactionRepository';
+
+interface DatasetRow {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SourceRow {
+  file_name: string;
+  imported_at: string;
+  transaction_count: number;
+  total_balance: string | null;
+}
+
+/**
+ * Named datasets and their contents
+ * The app has no user accounts: every dataset is visible to anyone using this server, and only the
+ * selection of the current dataset belongs to a session
+ */
+export class DatasetRepository {
+  /**
+   * Creates an empty dataset
+   */
+  static create(name: string): Dataset {
+    const now = new Date().toISOString();
+    const dataset: Dataset = { id: randomUUID(), name, createdAt: now, updatedAt: now };
+
+    db.prepare('INSERT INTO datasets (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)')
+      .run(dataset.id, dataset.name, dataset.createdAt, dataset.updatedAt);
+
+    return dataset;
+  }
+
+  /**
+   * Lists all datasets with their transaction counts, most recently changed first
+   */
+  static findAll(): DatasetSummary[] {
+    const rows = db.prepare(`
+      SELECT d.id, d.name, d.created_at, d.updated_at, COUNT(t.id) AS transaction_count
+      FROM datasets d
+      LEFT JOIN transactions t ON t.dataset_id = d.id
+      GROUP BY d.id
+      ORDER BY d.updated_at DESC
+    `).all() as (DatasetRow & { transaction_count: number })[];
+
+    return rows.map(row => ({ ...this.toDataset(row), transactionCount: row.transaction_count }));
+  }
+
+  /**
+   * Looks up a dataset, typically by the id held in the session
+   */
+  static findById(id: string | undefined): Dataset | undefined {
+    if (!id) return undefined;
+
+    const row = db.prepare('SELECT id, name, created_at, updated_at FROM datasets WHERE id = ?')
+      .get(id) as DatasetRow | undefined;
+
+    return row && this.toDataset(row);
+  }
+
+  /**
+   * Renames a dataset, returning false when it does not exist
+   */
+  static rename(id: string, name: string): boolean {
+    return db.prepare('UPDATE datasets SET name = ? WHERE id = ?').run(name, id).changes > 0;
+  }
+
+  /**
+   * Deletes a dataset and everything stored for it, returning false when it does not exist
+   */
+  static delete(id: string): boolean {
+    const deleted = db.prepare('DELETE FROM datasets WHERE id = ?').run(id).changes > 0;
+    if (deleted) ReceiptRepository.deleteFiles(id);
+    return deleted;
+  }
+
+  /**
+   * Loads the files a dataset was imported from
+   */
+  static getSources(datasetId: string): ImportedFile[] {
+    const rows = db.prepare(`
+      SELECT file_name, imported_at, transaction_count, total_balance
+      FROM dataset_sources
+      WHERE dataset_id = ?
+      ORDER BY id
+    `).all(datasetId) as SourceRow[];
+
+    return rows.map(row => ({
+      fileName: row.file_name,
+      importedAt: row.imported_at,
+      transactionCount: row.transaction_count,
+      totalBalance: row.total_balance ? JSON.parse(row.total_balance) : undefined
+    }));
+  }
+
+  /**
+   * Loads transactions, store mappings and sources of a dataset
+   */
+  static getContents(datasetId: string): DatasetContents {
+    return {
+      transactions: TransactionRepository.findByDataset(datasetId),
+      storeMappings: StoreMappingRepository.findByDataset(datasetId),
+      sources: this.getSources(datasetId)
+    };
+  }
+
+  /**
+   * Replaces everything stored for a dataset in a single database transaction
+   */
+  static saveContents(datasetId: string, contents: DatasetContents): void {
+    const insertSource = db.prepare(`
+      INSERT INTO dataset_sources (dataset_id, file_name, imported_at, transaction_count, total_balance)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      TransactionRepository.replaceAll(datasetId, contents.transactions);
+      StoreMappingRepository.replaceAll(datasetId, contents.storeMappings);
+
+      db.prepare('DELETE FROM dataset_sources WHERE dataset_id = ?').run(datasetId);
+      contents.sources.forEach(source => {
+        insertSource.run(
+          datasetId,
+          source.fileName,
+          source.importedAt,
+          source.transactionCount,
+          source.totalBalance ? JSON.stringify(source.totalBalance) : null
+        );
+      });
+
+      this.touch(datasetId);
+    })();
+    this.deleteOrphanedReceipts(datasetId, contents.transactions);
+  }
+
+  /**
+   * Replaces a dataset's transactions, e.g. after their categories were reviewed
+   */
+  static saveTransactions(datasetId: string, transactions: Transaction[]): void {
+    db.transaction(() => {
+      TransactionRepository.replaceAll(datasetId, transactions);
+      this.touch(datasetId);
+    })();
+    this.deleteOrphanedReceipts(datasetId, transactions);
+  }
+
+  /**
+   * Replaces a dataset's person mappings together with the transactions they were applied to
+   */
+  static savePeople(datasetId: string, transactions: Transaction[], personMappings: PersonMappings): void {
+    db.transaction(() => {
+      TransactionRepository.replaceAll(datasetId, transactions);
+      PersonMappingRepository.replaceAll(datasetId, personMappings);
+      this.touch(datasetId);
+    })();
+    this.deleteOrphanedReceipts(datasetId, transactions);
+  }
+
+  /**
+   * Records that a dataset's contents changed
+   */
+  static touch(datasetId: string): void {
+    db.prepare('UPDATE datasets SET updated_at = ? WHERE id = ?')
+      .run(new Date().toISOString(), datasetId);
+  }
+
+  /**
+   * Deletes the receipts of transactions a save left out
+   * Runs after the save is committed, so a failed save keeps its receipt files
+   */
+  private static deleteOrphanedReceipts(datasetId: string, transactions: Transaction[]): void {
+    ReceiptRepository.deleteOrphans(datasetId, new Set(transactions.map(t => t.id)));
+  }
+
+  private static toDataset(row: DatasetRow): Dataset {
+    return { id: row.id, name: row.name, createdAt: row.created_at, updatedAt: row.updated_at };
+  }
+}
@@ -0,0 +1,52 @@
+import { db } from '../db/database';
+import { ExchangeRate } from '../types/Currency';
+
+interface ExchangeRateRow {
+  base_currency: string;
+  quote_currency: string;
+  date: string;
+  rate: number;
+}
+
+/**
+ * Local exchange-rate table, shared by all datasets
+ */
+export class ExchangeRateRepository {
+  static findAll(): ExchangeRate[] {
+    const rows = db.prepare(`
+      SELECT base_currency, quote_currency, date, rate
+      FROM exchange_rates
+      ORDER BY base_currency, quote_currency, date
+    `).all() as ExchangeRateRow[];
+
+    return rows.map(row => ({
+      date: row.date,
+      baseCurrency: row.base_currency,
+      quoteCurrency: row.quote_currency,
+      rate: row.rate
+    }));
+  }
+
+  /**
+   * Adds rates, replacing any already stored for the same currencies and date
+   */
+  static saveAll(rates: ExchangeRate[]): void {
+    const upsert = db.prepare(`
+      INSERT INTO exchange_rates (base_currency, quote_currency, date, rate) VALUES (?, ?, ?, ?)
+      ON CONFLICT(base_currency, quote_currency, date) DO UPDATE SET rate = excluded.rate
+    `);
+
+    db.transaction(() => {
+      rates.forEach(rate => upsert.run(rate.baseCurrency, rate.quoteCurrency, rate.date, rate.rate));
+    })();
+  }
+
+  /**
+   * Deletes a rate, returning false when there was none
+   */
+  static delete(baseCurrency: string, quoteCurrency: string, date: string): boolean {
+    return db.prepare(`
+      DELETE FROM exchange_rates WHERE base_currency = ? AND quote_currency = ? AND date = ?
+    `).run(baseCurrency, quoteCurrency, date).changes > 0;
+  }
+}
@@ -0,0 +1,38 @@
+import { db } from '../db/database';
+import { ImportProfile } from '../types/Import';
+
+export class ImportProfileRepository {
+  /**
+   * Loads all saved import profiles in the order they were created
+   */
+  static findAll(): ImportProfile[] {
+    const rows = db.prepare('SELECT profile FROM import_profiles ORDER BY rowid')
+      .all() as { profile: string }[];
+
+    return rows.map(row => JSON.parse(row.profile));
+  }
+
+  static findById(id: string): ImportProfile | undefined {
+    const row = db.prepare('SELECT profile FROM import_profiles WHERE id = ?')
+      .get(id) as { profile: string } | undefined;
+
+    return row && JSON.parse(row.profile);
+  }
+
+  /**
+   * Inserts a profile, or replaces the saved profile with the same id
+   */
+  static save(profile: ImportProfile): void {
+    db.prepare(`
+      INSERT INTO import_profiles (id, profile) VALUES (?, ?)
+      ON CONFLICT(id) DO UPDATE SET profile = excluded.profile
+    `).run(profile.id, JSON.stringify(profile));
+  }
+
+  /**
+   * Deletes a saved profile, returning false when it did not exist
+   */
+  static delete(id: string): boolean {
+    return db.prepare('DELETE FROM import_profiles WHERE id = ?').run(id).changes > 0;
+  }
+}
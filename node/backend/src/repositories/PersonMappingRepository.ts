@@ -0,0 +1,38 @@
+import { db } from '../db/database';
+import { PersonMappings } from '../types/Person';
+
+export class PersonMappingRepository {
+  /**
+   * Loads a dataset's person mappings as canonical name to aliases
+   */
+  static findByDataset(datasetId: string): PersonMappings {
+    const rows = db.prepare(`
+      SELECT canonical_name, alias
+      FROM person_mappings
+      WHERE dataset_id = ?
+      ORDER BY rowid
+    `).all(datasetId) as { canonical_name: string; alias: string }[];
+
+    return rows.reduce((mappings, row) => {
+      (mappings[row.canonical_name] ||= []).push(row.alias);
+      return mappings;
+    }, {} as PersonMappings);
+  }
+
+  /**
+   * Replaces all person mappings of a dataset
+   */
+  static replaceAll(datasetId: string, mappings: PersonMappings): void {
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO person_mappings (dataset_id, canonical_name, alias)
+      VALUES (?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM person_mappings WHERE dataset_id = ?').run(datasetId);
+      Object.entries(mappings).forEach(([canonicalName, aliases]) => {
+        aliases.forEach(alias => insert.run(datasetId, canonicalName, alias));
+      });
+    })();
+  }
+}
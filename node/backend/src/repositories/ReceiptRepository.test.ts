@@ -0,0 +1,73 @@
+import fs from 'fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Transaction } from '../types/Transaction';
+import { DatasetRepository } from './DatasetRepository';
+import { ReceiptRepository } from './ReceiptRepository';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+const transaction = (id: string): Transaction => ({
+  id,
+  date: '2025-02-24',
+  description: 'Mayuri',
+  store: 'Mayuri',
+  category: 'Groceries',
+  cost: 4256,
+  currency: 'USD',
+  shares: [{ name: 'Sharath', amount: 2128 }, { name: 'Surabhi', amount: -2128 }]
+});
+
+describe('ReceiptRepository', () => {
+  const datasetIds: string[] = [];
+
+  const datasetWithReceipts = () => {
+    const dataset = DatasetRepository.create('Receipts');
+    datasetIds.push(dataset.id);
+    DatasetRepository.saveTransactions(dataset.id, [transaction('t1'), transaction('t2')]);
+    const receipts = ['t1', 't2'].map(id =>
+      ReceiptRepository.create(dataset.id, id, { originalname: `${id}.png`, buffer: PNG }, 'image/png')
+    );
+    return { datasetId: dataset.id, receipts };
+  };
+
+  afterEach(() => {
+    datasetIds.splice(0).forEach(id => DatasetRepository.delete(id));
+  });
+
+  it('stores the file under the receipt ID with the detected type', () => {
+    const { datasetId, receipts: [receipt] } = datasetWithReceipts();
+
+    expect(ReceiptRepository.findById(datasetId, 't1', receipt.id)).toMatchObject({ fileName: 't1.png', mimeType: 'image/png' });
+    expect(fs.readFileSync(ReceiptRepository.getFilePath(datasetId, receipt.id))).toEqual(PNG);
+  });
+
+  it('deletes receipts of transactions a save leaves out', () => {
+    const { datasetId, receipts: [kept, dropped] } = datasetWithReceipts();
+
+    DatasetRepository.saveTransactions(datasetId, [transaction('t1')]);
+
+    expect(ReceiptRepository.countByTransaction(datasetId)).toEqual(new Map([['t1', 1]]));
+    expect(fs.existsSync(ReceiptRepository.getFilePath(datasetId, kept.id))).toBe(true);
+    expect(fs.existsSync(ReceiptRepository.getFilePath(datasetId, dropped.id))).toBe(false);
+  });
+
+  it('keeps receipts of transactions a replacing import brings back under the same ID', () => {
+    const { datasetId } = datasetWithReceipts();
+
+    DatasetRepository.saveContents(datasetId, {
+      transactions: [transaction('t2'), transaction('t3')],
+      storeMappings: {},
+      sources: []
+    });
+
+    expect(ReceiptRepository.countByTransaction(datasetId)).toEqual(new Map([['t2', 1]]));
+  });
+
+  it('deletes the files of a deleted dataset', () => {
+    const { datasetId, receipts: [receipt] } = datasetWithReceipts();
+
+    DatasetRepository.delete(datasetId);
+
+    expect(fs.existsSync(ReceiptRepository.getFilePath(datasetId, receipt.id))).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { db } from '../db/database';
+import { Receipt } from '../types/Receipt';
+
+/**
+ * Receipt files live next to the database, one directory per dataset
+ * A relative RECEIPTS_PATH is resolved from the working directory, as res.sendFile needs an absolute path
+ */
+const RECEIPTS_PATH = process.env.RECEIPTS_PATH
+  ? path.resolve(process.env.RECEIPTS_PATH)
+  : path.resolve(__dirname, '../../data/receipts');
+
+interface ReceiptRow {
+  id: string;
+  transaction_id: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  uploaded_at: string;
+}
+
+/**
+ * Receipt details are stored in the database and the files themselves on the local filesystem
+ */
+export class ReceiptRepository {
+  static findByTransaction(datasetId: string, transactionId: string): Receipt[] {
+    const rows = db.prepare(`
+      SELECT id, transaction_id, file_name, mime_type, size, uploaded_at
+      FROM receipts
+      WHERE dataset_id = ? AND transaction_id = ?
+      ORDER BY uploaded_at
+    `).all(datasetId, transactionId) as ReceiptRow[];
+
+    return rows.map(row => this.toReceipt(row));
+  }
+
+  static findById(datasetId: string, transactionId: string, id: string): Receipt | undefined {
+    const row = db.prepare(`
+      SELECT id, transaction_id, file_name, mime_type, size, uploaded_at
+      FROM receipts
+      WHERE dataset_id = ? AND transaction_id = ? AND id = ?
+    `).get(datasetId, transactionId, id) as ReceiptRow | undefined;
+
+    return row ? this.toReceipt(row) : undefined;
+  }
+
+  /**
+   * Counts the receipts of each transaction in a dataset that has any
+   */
+  static countByTransaction(datasetId: string): Map<string, number> {
+    const rows = db.prepare(`
+      SELECT transaction_id, COUNT(*) AS count
+      FROM receipts
+      WHERE dataset_id = ?
+      GROUP BY transaction_id
+    `).all(datasetId) as { transaction_id: string; count: number }[];
+
+    return new Map(rows.map(row => [row.transaction_id, row.count]));
+  }
+
+  /**
+   * Writes an uploaded file and records it as a receipt of the transaction
+   * @param mimeType - Type detected from the file's content
+   */
+  static create(
+    datasetId: string,
+    transactionId: string,
+    file: { originalname: string; buffer: Buffer },
+    mimeType: string
+  ): Receipt {
+    const receipt: Receipt = {
+      id: randomUUID(),
+      transactionId,
+      fileName: file.originalname,
+      mimeType,
+      size: file.buffer.length,
+      uploadedAt: new Date().toISOString()
+    };
+
+    fs.mkdirSync(this.getDatasetPath(datasetId), { recursive: true });
+    fs.writeFileSync(this.getFilePath(datasetId, receipt.id), file.buffer);
+    db.prepare(`
+      INSERT INTO receipts (id, dataset_id, transaction_id, file_name, mime_type, size, uploaded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(receipt.id, datasetId, transactionId, receipt.fileName, receipt.mimeType, receipt.size, receipt.uploadedAt);
+
+    return receipt;
+  }
+
+  /**
+   * Where a receipt's file is stored; the file is named after the receipt's ID, never the uploaded name
+   */
+  static getFilePath(datasetId: string, id: string): string {
+    return path.join(this.getDatasetPath(datasetId), id);
+  }
+
+  /**
+   * Deletes a receipt and its file, returning false when there was none
+   */
+  static delete(datasetId: string, transactionId: string, id: string): boolean {
+    const deleted = db.prepare('DELETE FROM receipts WHERE dataset_id = ? AND transaction_id = ? AND id = ?')
+      .run(datasetId, transactionId, id).changes > 0;
+    if (deleted) {
+      fs.rmSync(this.getFilePath(datasetId, id), { force: true });
+    }
+    return deleted;
+  }
+
+  /**
+   * Deletes the receipts of transactions a dataset no longer has, e.g. after a transaction was deleted
+   * or a replacing upload; receipts of transactions kept under the same ID stay attached
+   */
+  static deleteOrphans(datasetId: string, transactionIds: Set<string>): void {
+    const rows = db.prepare('SELECT id, transaction_id FROM receipts WHERE dataset_id = ?')
+      .all(datasetId) as Pick<ReceiptRow, 'id' | 'transaction_id'>[];
+
+    rows
+      .filter(row => !transactionIds.has(row.transaction_id))
+      .forEach(row => this.delete(datasetId, row.transaction_id, row.id));
+  }
+
+  /**
+   * Deletes the receipt files of a dataset; their rows go with the dataset
+   */
+  static deleteFiles(datasetId: string): void {
+    fs.rmSync(this.getDatasetPath(datasetId), { recursive: true, force: true });
+  }
+
+  private static getDatasetPath(datasetId: string): string {
+    return path.join(RECEIPTS_PATH, datasetId);
+  }
+
+  private static toReceipt(row: ReceiptRow): Receipt {
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      size: row.size,
+      uploadedAt: row.uploaded_at
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { db } from '../db/database';
+
+/**
+ * Application-wide settings stored as text values by key
+ */
+export class SettingsRepository {
+  static get(key: string): string | undefined {
+    const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  static set(key: string, value: string): void {
+    db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(key, value);
+  }
+
+  static delete(key: string): void {
+    db.prepare('DELETE FROM settings WHERE key = ?').run(key);
+  }
+}
@@ -0,0 +1,148 @@
+import { db } from '../db/database';
+import { StoreAnalysisService } from '../services/StoreAnalysisService';
+import {
+  StoreGroupHistoryEntry,
+  StoreGroupOperation,
+  StoreMappingChange,
+  StorePairFeedbackChange
+} from '../types/Transaction';
+
+type StoreMappings = { [canonicalName: string]: string[] };
+
+interface HistoryRow {
+  id: number;
+  operation: StoreGroupOperation;
+  summary: string;
+  /** The groups the edit changed, as they were before and after it; older entries hold every group */
+  mappings_before: string;
+  mappings_after: string;
+  feedback_changes: string;
+  undone: number;
+  created_at: string;
+}
+
+/**
+ * A history entry together with the store groups the edit changed
+ */
+export interface StoreGroupHistorySnapshot extends StoreGroupHistoryEntry {
+  mappingChanges: StoreMappingChange[];
+  /** Store pair verdicts the edit recorded */
+  feedbackChanges: StorePairFeedbackChange[];
+}
+
+/**
+ * Undo/redo history of store group edits, kept per dataset
+ * Entries are a stack: undone entries sit on top until a new edit discards them
+ */
+export class StoreGroupHistoryRepository {
+  /**
+   * Runs a store group edit, undo or redo as one database transaction, so the mappings, the
+   * store pair feedback and the history cannot disagree
+   */
+  static inTransaction<T>(change: () => T): T {
+    return db.transaction(change)();
+  }
+
+  /**
+   * Lists a dataset's edits, oldest first
+   */
+  static findByDataset(datasetId: string): StoreGroupHistoryEntry[] {
+    const rows = db.prepare(`
+      SELECT id, operation, summary, undone, created_at
+      FROM store_group_history
+      WHERE dataset_id = ?
+      ORDER BY id
+    `).all(datasetId) as HistoryRow[];
+
+    return rows.map(row => this.toEntry(row));
+  }
+
+  /**
+   * Records an edit, discarding any undone edits that could otherwise be redone
+   * Only the groups the edit changed are stored, so undoing it leaves other groups as they are by then
+   */
+  static record(
+    datasetId: string,
+    operation: StoreGroupOperation,
+    summary: string,
+    mappingChanges: StoreMappingChange[],
+    feedbackChanges: StorePairFeedbackChange[] = []
+  ): void {
+    const side = (name: 'before' | 'after'): StoreMappings => {
+      const mappings: StoreMappings = {};
+      mappingChanges.forEach(change => {
+        const variations = change[name];
+        if (variations) mappings[change.canonicalName] = variations;
+      });
+      return mappings;
+    };
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM store_group_history WHERE dataset_id = ? AND undone = 1').run(datasetId);
+      db.prepare(`
+        INSERT INTO store_group_history
+          (dataset_id, operation, summary, mappings_before, mappings_after, feedback_changes, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        datasetId,
+        operation,
+        summary,
+        JSON.stringify(side('before')),
+        JSON.stringify(side('after')),
+        JSON.stringify(feedbackChanges),
+        new Date().toISOString()
+      );
+    })();
+  }
+
+  /**
+   * The most recent edit that has not been undone
+   */
+  static findLastApplied(datasetId: string): StoreGroupHistorySnapshot | undefined {
+    const row = db.prepare(`
+      SELECT * FROM store_group_history
+      WHERE dataset_id = ? AND undone = 0
+      ORDER BY id DESC LIMIT 1
+    `).get(datasetId) as HistoryRow | undefined;
+
+    return row && this.toSnapshot(row);
+  }
+
+  /**
+   * The oldest undone edit, which is the next one to redo
+   */
+  static findFirstUndone(datasetId: string): StoreGroupHistorySnapshot | undefined {
+    const row = db.prepare(`
+      SELECT * FROM store_group_history
+      WHERE dataset_id = ? AND undone = 1
+      ORDER BY id LIMIT 1
+    `).get(datasetId) as HistoryRow | undefined;
+
+    return row && this.toSnapshot(row);
+  }
+
+  static setUndone(id: number, undone: boolean): void {
+    db.prepare('UPDATE store_group_history SET undone = ? WHERE id = ?').run(undone ? 1 : 0, id);
+  }
+
+  private static toEntry(row: HistoryRow): StoreGroupHistoryEntry {
+    return {
+      id: row.id,
+      operation: row.operation,
+      summary: row.summary,
+      createdAt: row.created_at,
+      undone: row.undone === 1
+    };
+  }
+
+  private static toSnapshot(row: HistoryRow): StoreGroupHistorySnapshot {
+    return {
+      ...this.toEntry(row),
+      mappingChanges: StoreAnalysisService.diffMappings(
+        JSON.parse(row.mappings_before),
+        JSON.parse(row.mappings_after)
+      ),
+      feedbackChanges: JSON.parse(row.feedback_changes)
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { db } from '../db/database';
+
+type StoreMappings = { [canonicalName: string]: string[] };
+
+/**
+ * Store name mappings approved in any dataset, reused for every new upload
+ * Each name maps to exactly one canonical name; canonical names are stored mapped to themselves
+ */
+export class StoreMappingLibraryRepository {
+  /**
+   * Loads the library as canonical name to variations
+   */
+  static findAll(): StoreMappings {
+    const rows = db.prepare(`
+      SELECT variation, canonical_name
+      FROM store_mapping_library
+      ORDER BY canonical_name, variation
+    `).all() as { variation: string; canonical_name: string }[];
+
+    return rows.reduce((mappings, row) => {
+      const variations = mappings[row.canonical_name] ||= [];
+      if (row.variation !== row.canonical_name) variations.push(row.variation);
+      return mappings;
+    }, {} as StoreMappings);
+  }
+
+  /**
+   * Adds approved mappings to the library
+   * A name mapped before is moved to its new canonical name; when that name was itself
+   * canonical, its variations move along with it
+   */
+  static save(mappings: StoreMappings): void {
+    const upsert = db.prepare(`
+      INSERT INTO store_mapping_library (variation, canonical_name, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(variation) DO UPDATE SET
+        canonical_name = excluded.canonical_name,
+        updated_at = excluded.updated_at
+    `);
+    const regroup = db.prepare(`
+      UPDATE store_mapping_library SET canonical_name = ?, updated_at = ? WHERE canonical_name = ?
+    `);
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      Object.entries(mappings).forEach(([canonicalName, variations]) => {
+        upsert.run(canonicalName, canonicalName, now);
+        variations.forEach(variation => {
+          regroup.run(canonicalName, now, variation);
+          upsert.run(variation, canonicalName, now);
+        });
+      });
+    })();
+  }
+
+  /**
+   * Removes a canonical name and all of its variations, returning false when it was not in the library
+   */
+  static deleteGroup(canonicalName: string): boolean {
+    return db.prepare('DELETE FROM store_mapping_library WHERE canonical_name = ?')
+      .run(canonicalName).changes > 0;
+  }
+}
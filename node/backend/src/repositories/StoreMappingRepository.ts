@@ -0,0 +1,39 @@
+import { db } from '../db/database';
+
+type StoreMappings = { [canonicalName: string]: string[] };
+
+export class StoreMappingRepository {
+  /**
+   * Loads a dataset's store mappings as canonical name to variations
+   */
+  static findByDataset(datasetId: string): StoreMappings {
+    const rows = db.prepare(`
+      SELECT canonical_name, variation
+      FROM store_mappings
+      WHERE dataset_id = ?
+      ORDER BY rowid
+    `).all(datasetId) as { canonical_name: string; variation: string }[];
+
+    return rows.reduce((mappings, row) => {
+      (mappings[row.canonical_name] ||= []).push(row.variation);
+      return mappings;
+    }, {} as StoreMappings);
+  }
+
+  /**
+   * Replaces all store mappings of a dataset
+   */
+  static replaceAll(datasetId: string, mappings: StoreMappings): void {
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO store_mappings (dataset_id, canonical_name, variation)
+      VALUES (?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM store_mappings WHERE dataset_id = ?').run(datasetId);
+      Object.entries(mappings).forEach(([canonicalName, variations]) => {
+        variations.forEach(variation => insert.run(datasetId, canonicalName, variation));
+      });
+    })();
+  }
+}
@@ -0,0 +1,75 @@
+import { db } from '../db/database';
+import { StoreMetadata, StoreType } from '../types/StoreMetadata';
+
+interface StoreMetadataRow {
+  store_name: string;
+  chain: string | null;
+  store_type: StoreType | null;
+  neighborhood: string | null;
+  tags: string;
+}
+
+/**
+ * Details of canonical stores, shared by all datasets
+ */
+export class StoreMetadataRepository {
+  static findAll(): StoreMetadata[] {
+    const rows = db.prepare(`
+      SELECT store_name, chain, store_type, neighborhood, tags
+      FROM store_metadata
+      ORDER BY store_name
+    `).all() as StoreMetadataRow[];
+
+    return rows.map(row => this.toMetadata(row));
+  }
+
+  static findByStore(storeName: string): StoreMetadata | undefined {
+    const row = db.prepare(`
+      SELECT store_name, chain, store_type, neighborhood, tags
+      FROM store_metadata
+      WHERE store_name = ?
+    `).get(storeName) as StoreMetadataRow | undefined;
+
+    return row && this.toMetadata(row);
+  }
+
+  /**
+   * Creates or replaces the details of a store
+   */
+  static save(metadata: StoreMetadata): void {
+    db.prepare(`
+      INSERT INTO store_metadata (store_name, chain, store_type, neighborhood, tags, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(store_name) DO UPDATE SET
+        chain = excluded.chain,
+        store_type = excluded.store_type,
+        neighborhood = excluded.neighborhood,
+        tags = excluded.tags,
+        updated_at = excluded.updated_at
+    `).run(
+      metadata.storeName,
+      metadata.chain ?? null,
+      metadata.storeType ?? null,
+      metadata.neighborhood ?? null,
+      JSON.stringify(metadata.tags),
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Deletes the details of a store, returning false when it had none
+   */
+  static delete(storeName: string): boolean {
+    return db.prepare('DELETE FROM store_metadata WHERE store_name = ?').run(storeName).changes > 0;
+  }
+
+  private static toMetadata(row: StoreMetadataRow): StoreMetadata {
+    return {
+      storeName: row.store_name,
+      chain: row.chain ?? undefined,
+      storeType: row.store_type ?? undefined,
+      neighborhood: row.neighborhood ?? undefined,
+      tags: JSON.parse(row.tags)
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db/database';
+import { StorePairFeedbackRepository } from './StorePairFeedbackRepository';
+
+const verdicts = () => StorePairFeedbackRepository.findAll()
+  .map(({ nameA, nameB, verdict }) => `${nameA} / ${nameB}: ${verdict}`);
+
+describe('StorePairFeedbackRepository', () => {
+  beforeEach(() => {
+    db.exec('DELETE FROM store_pair_feedback');
+  });
+
+  it('records each pair once, with its names in sorted order', () => {
+    const changes = StorePairFeedbackRepository.recordGroup(['Safeway', 'Safeway Fuel', 'Safeway'], 'accept');
+
+    expect(changes).toEqual([{ nameA: 'Safeway', nameB: 'Safeway Fuel', before: null, after: 'accept' }]);
+    expect(verdicts()).toEqual(['Safeway / Safeway Fuel: accept']);
+  });
+
+  it('reports the verdict a change replaced', () => {
+    StorePairFeedbackRepository.record([['Safeway', 'Safeway Fuel']], 'accept');
+    const changes = StorePairFeedbackRepository.record([['Safeway Fuel', 'Safeway']], 'reject');
+
+    expect(changes).toEqual([{ nameA: 'Safeway', nameB: 'Safeway Fuel', before: 'accept', after: 'reject' }]);
+  });
+
+  it('undoes and redoes recorded changes', () => {
+    StorePairFeedbackRepository.record([['Safeway', 'Safeway Fuel']], 'accept');
+    const changes = StorePairFeedbackRepository.record([['Safeway', 'Safeway Fuel'], ['Safeway', 'Target']], 'reject');
+
+    StorePairFeedbackRepository.restore(changes, 'before');
+    expect(verdicts()).toEqual(['Safeway / Safeway Fuel: accept']);
+
+    StorePairFeedbackRepository.restore(changes, 'after');
+    expect(verdicts()).toEqual(['Safeway / Safeway Fuel: reject', 'Safeway / Target: reject']);
+  });
+
+  it('leaves pairs changed again since alone', () => {
+    const changes = StorePairFeedbackRepository.record([['Safeway', 'Target']], 'reject');
+    StorePairFeedbackRepository.record([['Safeway', 'Target']], 'accept');
+
+    StorePairFeedbackRepository.restore(changes, 'before');
+
+    expect(verdicts()).toEqual(['Safeway / Target: accept']);
+  });
+});
@@ -0,0 +1,114 @@
+import { db } from '../db/database';
+import { StorePairFeedback, StorePairFeedbackChange, StorePairVerdict } from '../types/Transaction';
+
+interface FeedbackRow {
+  name_a: string;
+  name_b: string;
+  verdict: StorePairVerdict;
+  updated_at: string;
+}
+
+/**
+ * Accepted and rejected store name pairs, shared by all datasets like the mapping library
+ * Each pair is stored once with its names in sorted order; the latest verdict wins
+ */
+export class StorePairFeedbackRepository {
+  static findAll(): StorePairFeedback[] {
+    const rows = db.prepare(`
+      SELECT name_a, name_b, verdict, updated_at
+      FROM store_pair_feedback
+      ORDER BY name_a, name_b
+    `).all() as FeedbackRow[];
+
+    return rows.map(row => ({
+      nameA: row.name_a,
+      nameB: row.name_b,
+      verdict: row.verdict,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  /**
+   * Records the same verdict for every pair of the given names
+   */
+  static recordGroup(names: string[], verdict: StorePairVerdict): StorePairFeedbackChange[] {
+    const distinct = [...new Set(names)];
+    return this.record(
+      distinct.flatMap((name, i) => distinct.slice(i + 1).map(other => [name, other] as [string, string])),
+      verdict
+    );
+  }
+
+  /**
+   * Records a verdict for each pair of names
+   * Returns what changed, so a store group edit can undo it
+   */
+  static record(pairs: [string, string][], verdict: StorePairVerdict): StorePairFeedbackChange[] {
+    const changes: StorePairFeedbackChange[] = [];
+    const recorded = new Set<string>();
+
+    db.transaction(() => {
+      pairs.forEach(pair => {
+        const [nameA, nameB] = this.order(pair);
+        const key = `${nameA}\u0000${nameB}`;
+        if (nameA === nameB || recorded.has(key)) return;
+        recorded.add(key);
+
+        const before = this.findVerdict(nameA, nameB);
+        this.upsert(nameA, nameB, verdict);
+        changes.push({ nameA, nameB, before, after: verdict });
+      });
+    })();
+
+    return changes;
+  }
+
+  /**
+   * Puts back the verdicts from one side of recorded changes: `before` to undo an edit, `after` to redo it
+   * A pair whose verdict was changed again since, e.g. by an edit in another dataset, is left alone
+   */
+  static restore(changes: StorePairFeedbackChange[], side: 'before' | 'after'): void {
+    const current = side === 'before' ? 'after' : 'before';
+
+    db.transaction(() => {
+      changes.forEach(change => {
+        if (this.findVerdict(change.nameA, change.nameB) !== change[current]) return;
+
+        const verdict = change[side];
+        if (verdict === null) {
+          this.delete([change.nameA, change.nameB]);
+        } else {
+          this.upsert(change.nameA, change.nameB, verdict);
+        }
+      });
+    })();
+  }
+
+  /**
+   * Forgets the feedback on a pair, returning false when there was none
+   */
+  static delete(pair: [string, string]): boolean {
+    const [nameA, nameB] = this.order(pair);
+    return db.prepare('DELETE FROM store_pair_feedback WHERE name_a = ? AND name_b = ?')
+      .run(nameA, nameB).changes > 0;
+  }
+
+  private static findVerdict(nameA: string, nameB: string): StorePairVerdict | null {
+    const row = db.prepare('SELECT verdict FROM store_pair_feedback WHERE name_a = ? AND name_b = ?')
+      .get(nameA, nameB) as Pick<FeedbackRow, 'verdict'> | undefined;
+    return row?.verdict ?? null;
+  }
+
+  private static upsert(nameA: string, nameB: string, verdict: StorePairVerdict): void {
+    db.prepare(`
+      INSERT INTO store_pair_feedback (name_a, name_b, verdict, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(name_a, name_b) DO UPDATE SET
+        verdict = excluded.verdict,
+        updated_at = excluded.updated_at
+    `).run(nameA, nameB, verdict, new Date().toISOString());
+  }
+
+  private static order([a, b]: [string, string]): [string, string] {
+    return a < b ? [a, b] : [b, a];
+  }
+}
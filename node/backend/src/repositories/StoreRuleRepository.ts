@@ -0,0 +1,99 @@
+import { db } from '../db/database';
+import { StoreRule, StoreRuleMatchType } from '../types/StoreRule';
+
+interface StoreRuleRow {
+  id: string;
+  match_type: StoreRuleMatchType;
+  pattern: string;
+  canonical_name: string;
+  case_sensitive: number;
+  enabled: number;
+}
+
+/**
+ * Store rules shared by all datasets, kept in evaluation order
+ */
+export class StoreRuleRepository {
+  static findAll(): StoreRule[] {
+    const rows = db.prepare(`
+      SELECT id, match_type, pattern, canonical_name, case_sensitive, enabled
+      FROM store_rules
+      ORDER BY position
+    `).all() as StoreRuleRow[];
+
+    return rows.map(row => this.toRule(row));
+  }
+
+  static findById(id: string): StoreRule | undefined {
+    const row = db.prepare(`
+      SELECT id, match_type, pattern, canonical_name, case_sensitive, enabled
+      FROM store_rules
+      WHERE id = ?
+    `).get(id) as StoreRuleRow | undefined;
+
+    return row && this.toRule(row);
+  }
+
+  /**
+   * Adds a rule after all existing rules
+   */
+  static create(rule: StoreRule): void {
+    db.prepare(`
+      INSERT INTO store_rules (id, position, match_type, pattern, canonical_name, case_sensitive, enabled)
+      VALUES (?, (SELECT COALESCE(MAX(position), 0) + 1 FROM store_rules), ?, ?, ?, ?, ?)
+    `).run(
+      rule.id,
+      rule.matchType,
+      rule.pattern,
+      rule.canonicalName,
+      rule.caseSensitive ? 1 : 0,
+      rule.enabled ? 1 : 0
+    );
+  }
+
+  /**
+   * Replaces a rule, keeping its position; returns false when it does not exist
+   */
+  static update(rule: StoreRule): boolean {
+    return db.prepare(`
+      UPDATE store_rules
+      SET match_type = ?, pattern = ?, canonical_name = ?, case_sensitive = ?, enabled = ?
+      WHERE id = ?
+    `).run(
+      rule.matchType,
+      rule.pattern,
+      rule.canonicalName,
+      rule.caseSensitive ? 1 : 0,
+      rule.enabled ? 1 : 0,
+      rule.id
+    ).changes > 0;
+  }
+
+  /**
+   * Deletes a rule, returning false when it did not exist
+   */
+  static delete(id: string): boolean {
+    return db.prepare('DELETE FROM store_rules WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Puts the rules in the order of the given ids
+   */
+  static reorder(ids: string[]): void {
+    const update = db.prepare('UPDATE store_rules SET position = ? WHERE id = ?');
+    db.transaction(() => {
+      ids.forEach((id, position) => update.run(position + 1, id));
+    })();
+  }
+
+  private static toRule(row: StoreRuleRow): StoreRule {
+    return {
+      id: row.id,
+      matchType: row.match_type,
+      pattern: row.pattern,
+      canonicalName: row.canonical_name,
+      caseSensitive: row.case_sensitive === 1,
+      enabled: row.enabled === 1
+    };
+  }
+}
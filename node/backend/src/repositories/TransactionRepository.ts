@@ -0,0 +1,115 @@
+import { db } from '../db/database';
+import { Transaction, TransactionKind } from '../types/Transaction';
+import { DatasetMergeService } from '../services/DatasetMergeService';
+import { CategoryTaxonomyService } from '../services/CategoryTaxonomyService';
+import { CurrencyService, REPORTING_CURRENCY_SETTING } from '../services/CurrencyService';
+import { CategoryTaxonomyRepository } from './CategoryTaxonomyRepository';
+import { ExchangeRateRepository } from './ExchangeRateRepository';
+import { SettingsRepository } from './SettingsRepository';
+
+interface TransactionRow {
+  transaction_id: string | null;
+  date: string;
+  description: string;
+  category: string;
+  original_category: string | null;
+  cost: number;
+  currency: string;
+  store: string | null;
+  shares: string;
+  original_shares: string | null;
+  kind: TransactionKind | null;
+  possible_duplicate: number;
+  tags: string | null;
+  notes: string | null;
+}
+
+/**
+ * Costs and shares are stored in integer minor units, as they are held everywhere else
+ */
+export class TransactionRepository {
+  /**
+   * Loads a dataset's transactions in the order they were imported
+   * Rows saved before transactions had IDs get the ID their content would have been given at import
+   */
+  static findByDataset(datasetId: string): Transaction[] {
+    const rows = db.prepare(`
+      SELECT transaction_id, date, description, category, original_category, cost, currency, store, shares,
+        original_shares, kind, possible_duplicate, tags, notes
+      FROM transactions
+      WHERE dataset_id = ?
+      ORDER BY id
+    `).all(datasetId) as TransactionRow[];
+
+    return DatasetMergeService.assignIds(rows.map(row => this.toTransaction(row)));
+  }
+
+  /**
+   * Loads a dataset's transactions as analytics show them: with the category taxonomy applied
+   * and amounts in the reporting currency
+   */
+  static findForAnalysis(datasetId: string) {
+    const transactions = this.findByDataset(datasetId);
+    return CurrencyService.convertTransactions(
+      CategoryTaxonomyService.applyTaxonomy(transactions, CategoryTaxonomyRepository.find()),
+      ExchangeRateRepository.findAll(),
+      CurrencyService.getReportingCurrency(SettingsRepository.get(REPORTING_CURRENCY_SETTING), transactions)
+    );
+  }
+
+  /**
+   * Replaces all transactions of a dataset
+   */
+  static replaceAll(datasetId: string, transactions: Transaction[]): void {
+    const insert = db.prepare(`
+      INSERT INTO transactions
+        (dataset_id, transaction_id, date, description, category, original_category, cost, currency, store, shares,
+         original_shares, kind, possible_duplicate, tags, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM transactions WHERE dataset_id = ?').run(datasetId);
+      transactions.forEach(transaction => {
+        insert.run(
+          datasetId,
+          transaction.id,
+          transaction.date,
+          transaction.description,
+          transaction.category,
+          transaction.originalCategory ?? null,
+          transaction.cost,
+          transaction.currency,
+          transaction.store,
+          JSON.stringify(transaction.shares),
+          transaction.originalShares ? JSON.stringify(transaction.originalShares) : null,
+          transaction.kind ?? null,
+          transaction.possibleDuplicate ? 1 : 0,
+          transaction.tags?.length ? JSON.stringify(transaction.tags) : null,
+          transaction.notes || null
+        );
+      });
+    })();
+  }
+
+  private static toTransaction(row: TransactionRow): Transaction {
+    const transaction: Transaction = {
+      id: row.transaction_id ?? '',
+      date: row.date,
+      description: row.description,
+      category: row.category,
+      cost: row.cost,
+      currency: row.currency,
+      // Rows saved before stores were tracked separately have no store
+      store: row.store ?? row.description,
+      shares: JSON.parse(row.shares)
+    };
+    if (row.original_category !== null) transaction.originalCategory = row.original_category;
+    if (row.original_shares) transaction.originalShares = JSON.parse(row.original_shares);
+    if (row.kind) transaction.kind = row.kind;
+    if (row.possible_duplicate) transaction.possibleDuplicate = true;
+    if (row.tags) transaction.tags = JSON.parse(row.tags);
+    if (row.notes) transaction.notes = row.notes;
+    return transaction;
+  }
+}
@@ -1,10 +1,18 @@
 /**
  * Advanced Analytics API Routes
  * Provides REST endpoints for complex spending analysis and insights
+ * Every endpoint answers 409 while some transactions have no exchange rate into the reporting currency
  */
 
 import { Router } from 'express';
 import { AdvancedAnalyticsService } from '../services/AdvancedAnalyticsService';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { CurrencyService, MISSING_RATES_ERROR } from '../services/CurrencyService';
+import { CategoryTaxonomyService } from '../services/CategoryTaxonomyService';
+import { StoreMetadataRepository } from '../repositories/StoreMetadataRepository';
+import { STORE_ATTRIBUTES, StoreMetadataService } from '../services/StoreMetadataService';
+import { StoreAttribute } from '../types/StoreMetadata';
 
 const router = Router();
 
@@ -14,21 +22,21 @@ const router = Router();
  */
 router.get('/payment-patterns', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
-    const transactions = req.session.data.transactions;
-    const storeMappings = req.session.data.storeMappings || {};
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
 
     // Get payment patterns for all people
-    const paymentPatterns = AdvancedAnalyticsService.getPaymentPatterns(
-      transactions, 
-      storeMappings
-    );
+    const paymentPatterns = AdvancedAnalyticsService.getPaymentPatterns(transactions);
 
     res.json(paymentPatterns);
   } catch (error) {
@@ -43,22 +51,22 @@ router.get('/payment-patterns', (req, res) => {
  */
 router.get('/payment-patterns/:person', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
     const personName = req.params.person;
-    const transactions = req.session.data.transactions;
-    const storeMappings = req.session.data.storeMappings || {};
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
 
     // Get payment patterns for all people, then filter for specific person
-    const allPatterns = AdvancedAnalyticsService.getPaymentPatterns(
-      transactions, 
-      storeMappings
-    );
+    const allPatterns = AdvancedAnalyticsService.getPaymentPatterns(transactions);
 
     const personPattern = allPatterns.find(pattern => pattern.person === personName);
 
@@ -78,23 +86,37 @@ router.get('/payment-patterns/:person', (req, res) => {
 /**
  * GET /api/advanced-analytics/stores
  * Returns detailed analytics for all stores
+ * Query params:
+ * - groupBy: chain, storeType, neighborhood or storeTag to combine stores sharing that detail
+ * - chains, storeTypes, neighborhoods, storeTags: comma-separated values to keep
  */
 router.get('/stores', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
-    const transactions = req.session.data.transactions;
-    const storeMappings = req.session.data.storeMappings || {};
+    const groupBy = req.query.groupBy as StoreAttribute | undefined;
+    if (groupBy !== undefined && !STORE_ATTRIBUTES.includes(groupBy)) {
+      return res.status(400).json({
+        error: `Invalid groupBy. Expected one of: ${STORE_ATTRIBUTES.join(', ')}`
+      });
+    }
+
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
 
     // Get store analytics
     const storeAnalytics = AdvancedAnalyticsService.getStoreAnalytics(
-      transactions, 
-      storeMappings
+      transactions,
+      StoreMetadataRepository.findAll(),
+      { groupBy, filters: StoreMetadataService.parseFilters(req.query) }
     );
 
     res.json(storeAnalytics);
@@ -107,24 +129,30 @@ router.get('/stores', (req, res) => {
 /**
  * GET /api/advanced-analytics/categories/trends
  * Returns trend analysis for all spending categories
+ * Query: level=category (default) or level=parent to roll categories up into their parent groups
  */
 router.get('/categories/trends', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
-    const transactions = req.session.data.transactions;
-    const storeMappings = req.session.data.storeMappings || {};
+    const level = CategoryTaxonomyService.parseLevel(req.query.level);
+    if (!level) {
+      return res.status(400).json({ error: 'level must be category or parent' });
+    }
 
-    // Get category trends
-    const categoryTrends = AdvancedAnalyticsService.getCategoryTrends(
-      transactions, 
-      storeMappings
-    );
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
+
+    // Get category trends, per category or rolled up into parent groups
+    const categoryTrends = AdvancedAnalyticsService.getCategoryTrends(transactions, level);
 
     res.json(categoryTrends);
   } catch (error) {
@@ -139,14 +167,18 @@ router.get('/categories/trends', (req, res) => {
  */
 router.get('/balance', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
-    const transactions = req.session.data.transactions;
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
 
     // Get balance analytics
     const balanceAnalytics = AdvancedAnalyticsService.getBalanceAnalytics(transactions);
@@ -165,14 +197,18 @@ router.get('/balance', (req, res) => {
  */
 router.get('/heatmap', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
-    const transactions = req.session.data.transactions;
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
     
     // Parse optional date range query parameters
     const startDate = req.query.startDate as string;
@@ -216,21 +252,21 @@ router.get('/heatmap', (req, res) => {
  */
 router.get('/budget-intelligence', (req, res) => {
   try {
-    // Check if transaction data exists in session
-    if (!req.session.data?.transactions) {
+    // Check that the session points at a stored dataset
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({ 
         error: 'No transaction data found. Please upload a CSV file first.' 
       });
     }
 
-    const transactions = req.session.data.transactions;
-    const storeMappings = req.session.data.storeMappings || {};
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
 
     // Get budget intelligence insights
-    const budgetIntelligence = AdvancedAnalyticsService.getBudgetIntelligence(
-      transactions, 
-      storeMappings
-    );
+    const budgetIntelligence = AdvancedAnalyticsService.getBudgetIntelligence(transactions);
 
     res.json(budgetIntelligence);
   } catch (error) {
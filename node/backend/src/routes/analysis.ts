@@ -1,23 +1,35 @@
 import { Router } from 'express';
 import { AnalysisService } from '../services/AnalysisService';
-import { AnalysisFilters } from '../types/Transaction';
+import { STORE_ATTRIBUTES, StoreMetadataService } from '../services/StoreMetadataService';
+import { AnalysisFilters, SpendingDimension } from '../types/Transaction';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { CurrencyService, MISSING_RATES_ERROR } from '../services/CurrencyService';
+import { StoreMetadataRepository } from '../repositories/StoreMetadataRepository';
+import { ReceiptRepository } from '../repositories/ReceiptRepository';
 
 const router = Router();
 
 /**
  * Get metadata about the dataset for populating filters
+ * This and every other analytics route answer 409 while some transactions have no exchange rate
+ * into the reporting currency, listing the currencies and dates that need one
  */
 router.get('/metadata', (req, res) => {
   try {
-    if (!req.session.data?.transactions) {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({
         error: 'No transaction data found. Please upload a CSV file first.'
       });
     }
 
     // Get metadata including all stores from transactions
-    const storeMappings = req.session.data.storeMappings || {};
-    const metadata = AnalysisService.getMetadata(req.session.data.transactions, storeMappings);
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
+    const metadata = AnalysisService.getMetadata(transactions, StoreMetadataRepository.findAll(), currency);
 
     res.json(metadata);
   } catch (error) {
@@ -28,10 +40,15 @@ router.get('/metadata', (req, res) => {
 
 /**
  * Get spending analysis based on provided filters and grouping
+ * groupBy=parentCategory rolls categories up into their parent groups, and parentCategories filters by them
+ * groupBy can also be a store attribute (chain, storeType, neighborhood or storeTag), and the
+ * chains, storeTypes, neighborhoods and storeTags query params filter by store details
+ * groupBy=tag groups by transaction tags, and the tags query param keeps transactions with any of the tags
  */
 router.get('/', (req, res) => {
   try {
-    if (!req.session.data?.transactions) {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({
         error: 'No transaction data found. Please upload a CSV file first.'
       });
@@ -43,40 +60,57 @@ router.get('/', (req, res) => {
       endDate: req.query.endDate as string,
       people: req.query.people ? (req.query.people as string).split(',') : undefined,
       categories: req.query.categories ? (req.query.categories as string).split(',') : undefined,
-      stores: req.query.stores ? (req.query.stores as string).split(',') : undefined
+      parentCategories: req.query.parentCategories
+        ? (req.query.parentCategories as string).split(',')
+        : undefined,
+      stores: req.query.stores ? (req.query.stores as string).split(',') : undefined,
+      tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
+      includeSettlements: req.query.includeSettlements === 'true',
+      ...StoreMetadataService.parseFilters(req.query)
     };
 
-    const groupBy = req.query.groupBy as 'time' | 'category' | 'store' | 'person';
+    const groupBy = req.query.groupBy as 'time' | SpendingDimension;
     const timeInterval = req.query.interval as 'day' | 'week' | 'month';
     const page = parseInt(req.query.page as string) || 1;
     const pageSize = parseInt(req.query.pageSize as string) || 20;
 
-    const storeMappings = req.session.data.storeMappings || {};
+    const { transactions, currency } = TransactionRepository.findForAnalysis(dataset.id);
+    if (currency.unconverted.length > 0) {
+      return res.status(409).json({ error: MISSING_RATES_ERROR, details: CurrencyService.describeMissingRates(currency) });
+    }
+    const storeMetadata = StoreMetadataRepository.findAll();
 
     let result;
     if (groupBy === 'time') {
       result = AnalysisService.getSpendingOverTime(
-        req.session.data.transactions,
+        transactions,
         filters,
-        storeMappings,
-        timeInterval
+        timeInterval,
+        storeMetadata
       );
-    } else if (['category', 'store', 'person'].includes(groupBy)) {
+    } else if (['category', 'parentCategory', 'store', 'person', 'tag', ...STORE_ATTRIBUTES].includes(groupBy)) {
       result = AnalysisService.getSpendingBy(
-        req.session.data.transactions,
+        transactions,
         filters,
-        storeMappings,
-        groupBy as 'category' | 'store' | 'person'
+        groupBy,
+        storeMetadata
       );
     } else {
-      // Default to detailed transactions
-      result = AnalysisService.getDetailedTransactions(
-        req.session.data.transactions,
+      // Default to detailed transactions, with how many receipts each has
+      const detailed = AnalysisService.getDetailedTransactions(
+        transactions,
         filters,
-        storeMappings,
         page,
-        pageSize
+        pageSize,
+        storeMetadata
       );
+      const receiptCounts = ReceiptRepository.countByTransaction(dataset.id);
+      result = {
+        ...detailed,
+        transactions: detailed.transactions.map(transaction => receiptCounts.has(transaction.id)
+          ? { ...transaction, receiptCount: receiptCounts.get(transaction.id) }
+          : transaction)
+      };
     }
 
     res.json(result);
@@ -0,0 +1,210 @@
+import { Router } from 'express';
+import { CategoryTaxonomyService, UNCATEGORIZED_LABEL } from '../services/CategoryTaxonomyService';
+import { CategoryTaxonomyRepository } from '../repositories/CategoryTaxonomyRepository';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { CategorySuggestionReviewRepository } from '../repositories/CategorySuggestionReviewRepository';
+import { CategoryClassifierService } from '../services/CategoryClassifierService';
+
+const router = Router();
+
+const NO_DATASET_ERROR = 'No transaction data found. Please upload a CSV file first.';
+
+/**
+ * Checks a list of reviewed suggestions: [{ transactionId, category }]
+ */
+const isSuggestionList = (value: unknown): value is { transactionId: string; category: string }[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item =>
+    typeof item?.transactionId === 'string' && typeof item?.category === 'string' && item.category.trim()
+  );
+
+/**
+ * The dataset's review queue, without the suggestions already rejected
+ */
+const getSuggestions = (datasetId: string) => CategoryClassifierService.getSuggestions(
+  TransactionRepository.findByDataset(datasetId),
+  CategorySuggestionReviewRepository.findRejected(datasetId)
+);
+
+/**
+ * Get the category taxonomy, plus the categories imported into the current dataset if one is selected
+ */
+router.get('/', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    const rawCategories = dataset
+      ? [...new Set(
+        TransactionRepository.findByDataset(dataset.id).map(t => t.category.trim() || UNCATEGORIZED_LABEL)
+      )].sort()
+      : [];
+
+    res.json({ taxonomy: CategoryTaxonomyRepository.find(), rawCategories });
+  } catch (error) {
+    console.error('Error fetching category taxonomy:', error);
+    res.status(500).json({ error: 'Error fetching category taxonomy' });
+  }
+});
+
+/**
+ * Show an imported category as another category
+ * Body: { category }
+ */
+router.put('/remappings/:rawCategory', (req, res) => {
+  try {
+    const { rawCategory } = req.params;
+    const errors = CategoryTaxonomyService.validateName(req.body?.category, 'category');
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid category remapping', details: errors });
+    }
+
+    const category = req.body.category.trim();
+    if (category === rawCategory) {
+      CategoryTaxonomyRepository.deleteRemapping(rawCategory);
+    } else {
+      CategoryTaxonomyRepository.saveRemapping(rawCategory, category);
+    }
+
+    res.json({ taxonomy: CategoryTaxonomyRepository.find() });
+  } catch (error) {
+    console.error('Error saving category remapping:', error);
+    res.status(500).json({ error: 'Error saving category remapping' });
+  }
+});
+
+/**
+ * Show an imported category under its own name again
+ */
+router.delete('/remappings/:rawCategory', (req, res) => {
+  try {
+    if (!CategoryTaxonomyRepository.deleteRemapping(req.params.rawCategory)) {
+      return res.status(404).json({ error: `No remapping found for category: ${req.params.rawCategory}` });
+    }
+
+    res.json({ taxonomy: CategoryTaxonomyRepository.find() });
+  } catch (error) {
+    console.error('Error deleting category remapping:', error);
+    res.status(500).json({ error: 'Error deleting category remapping' });
+  }
+});
+
+/**
+ * Place a category under a parent group
+ * Body: { parent }
+ */
+router.put('/parents/:category', (req, res) => {
+  try {
+    const { category } = req.params;
+    const nameErrors = CategoryTaxonomyService.validateName(req.body?.parent, 'parent');
+    if (nameErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid parent category', details: nameErrors });
+    }
+
+    const parent = req.body.parent.trim();
+    const errors = CategoryTaxonomyService.validateParent(CategoryTaxonomyRepository.find(), category, parent);
+    if (errors.length > 0) {
+      return res.status(409).json({ error: 'Invalid parent category', details: errors });
+    }
+
+    CategoryTaxonomyRepository.saveParent(category, parent);
+
+    res.json({ taxonomy: CategoryTaxonomyRepository.find() });
+  } catch (error) {
+    console.error('Error saving parent category:', error);
+    res.status(500).json({ error: 'Error saving parent category' });
+  }
+});
+
+/**
+ * Make a category top-level again
+ */
+router.delete('/parents/:category', (req, res) => {
+  try {
+    if (!CategoryTaxonomyRepository.deleteParent(req.params.category)) {
+      return res.status(404).json({ error: `Category has no parent: ${req.params.category}` });
+    }
+
+    res.json({ taxonomy: CategoryTaxonomyRepository.find() });
+  } catch (error) {
+    console.error('Error deleting parent category:', error);
+    res.status(500).json({ error: 'Error deleting parent category' });
+  }
+});
+
+/**
+ * Get the review queue: suggested categories for uncategorized and likely miscategorized transactions
+ */
+router.get('/suggestions', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    res.json({ suggestions: getSuggestions(dataset.id) });
+  } catch (error) {
+    console.error('Error fetching category suggestions:', error);
+    res.status(500).json({ error: 'Error fetching category suggestions' });
+  }
+});
+
+/**
+ * Set the suggested categories on their transactions
+ * Body: { suggestions: [{ transactionId, category }] }
+ */
+router.post('/suggestions/accept', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { suggestions } = req.body ?? {};
+    if (!isSuggestionList(suggestions)) {
+      return res.status(400).json({ error: 'suggestions must list at least one { transactionId, category }' });
+    }
+
+    const accepted = suggestions.map(({ transactionId, category }) => ({ transactionId, category: category.trim() }));
+    const result = CategoryClassifierService.applySuggestions(
+      TransactionRepository.findByDataset(dataset.id),
+      accepted
+    );
+    if (result.updated === 0) {
+      return res.status(404).json({ error: 'None of the suggested transactions were found' });
+    }
+
+    DatasetRepository.saveTransactions(dataset.id, result.transactions);
+    CategorySuggestionReviewRepository.record(dataset.id, accepted, 'accept');
+
+    res.json({ updated: result.updated, suggestions: getSuggestions(dataset.id) });
+  } catch (error) {
+    console.error('Error accepting category suggestions:', error);
+    res.status(500).json({ error: 'Error accepting category suggestions' });
+  }
+});
+
+/**
+ * Keep the transactions' categories and stop suggesting these categories for them
+ * Body: { suggestions: [{ transactionId, category }] }
+ */
+router.post('/suggestions/reject', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { suggestions } = req.body ?? {};
+    if (!isSuggestionList(suggestions)) {
+      return res.status(400).json({ error: 'suggestions must list at least one { transactionId, category }' });
+    }
+
+    CategorySuggestionReviewRepository.record(dataset.id, suggestions, 'reject');
+
+    res.json({ suggestions: getSuggestions(dataset.id) });
+  } catch (error) {
+    console.error('Error rejecting category suggestions:', error);
+    res.status(500).json({ error: 'Error rejecting category suggestions' });
+  }
+});
+
+export { router as categoriesRouter };
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { CurrencyService, REPORTING_CURRENCY_SETTING } from '../services/CurrencyService';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { ExchangeRateRepository } from '../repositories/ExchangeRateRepository';
+import { SettingsRepository } from '../repositories/SettingsRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { rateFileUpload } from '../middleware/multer';
+
+const router = Router();
+
+/**
+ * Reporting currency, exchange rates and how well they cover the current dataset
+ */
+const getCurrencyState = (datasetId: string | undefined) => {
+  const transactions = datasetId ? TransactionRepository.findByDataset(datasetId) : [];
+  const configuredReportingCurrency = SettingsRepository.get(REPORTING_CURRENCY_SETTING) ?? null;
+  const rates = ExchangeRateRepository.findAll();
+  const { currency } = CurrencyService.convertTransactions(
+    transactions,
+    rates,
+    CurrencyService.getReportingCurrency(configuredReportingCurrency ?? undefined, transactions)
+  );
+
+  return {
+    ...currency,
+    configuredReportingCurrency,
+    datasetCurrencies: [...new Set(transactions.map(t => t.currency).filter(Boolean))].sort(),
+    rates
+  };
+};
+
+/**
+ * Get the reporting currency, the exchange-rate table and the currencies of the current dataset
+ * Without a configured reporting currency, the dataset's most common currency is used
+ */
+router.get('/', (req, res) => {
+  try {
+    res.json(getCurrencyState(DatasetRepository.findById(req.session.datasetId)?.id));
+  } catch (error) {
+    console.error('Error fetching currencies:', error);
+    res.status(500).json({ error: 'Error fetching currencies' });
+  }
+});
+
+/**
+ * Set the currency all analytics are reported in
+ * Body: { currency } - a three-letter code, or null to use each dataset's most common currency
+ */
+router.put('/reporting', (req, res) => {
+  try {
+    const { currency } = req.body ?? {};
+    if (currency === null) {
+      SettingsRepository.delete(REPORTING_CURRENCY_SETTING);
+    } else if (CurrencyService.isCurrencyCode(currency)) {
+      SettingsRepository.set(REPORTING_CURRENCY_SETTING, currency);
+    } else {
+      return res.status(400).json({ error: 'currency must be a three-letter currency code such as USD, or null' });
+    }
+
+    res.json(getCurrencyState(DatasetRepository.findById(req.session.datasetId)?.id));
+  } catch (error) {
+    console.error('Error setting reporting currency:', error);
+    res.status(500).json({ error: 'Error setting reporting currency' });
+  }
+});
+
+/**
+ * Add an exchange rate, replacing any rate for the same currencies and date
+ * Body: { date, baseCurrency, quoteCurrency, rate } - 1 baseCurrency is worth rate quoteCurrency
+ */
+router.post('/rates', (req, res) => {
+  try {
+    const errors = CurrencyService.validateRate(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid exchange rate', details: errors });
+    }
+
+    const { date, baseCurrency, quoteCurrency, rate } = req.body;
+    ExchangeRateRepository.saveAll([{ date, baseCurrency, quoteCurrency, rate }]);
+
+    res.json(getCurrencyState(DatasetRepository.findById(req.session.datasetId)?.id));
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    res.status(500).json({ error: 'Error saving exchange rate' });
+  }
+});
+
+/**
+ * Import dated rates from a local CSV file with the columns date, baseCurrency, quoteCurrency and rate
+ * Nothing is imported when any row is invalid
+ */
+router.post('/rates/import', rateFileUpload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const { rates, errors } = await CurrencyService.parseRateFile(req.file.buffer);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid rate file', details: errors });
+    }
+
+    ExchangeRateRepository.saveAll(rates);
+
+    res.json({
+      ...getCurrencyState(DatasetRepository.findById(req.session.datasetId)?.id),
+      ratesImported: rates.length
+    });
+  } catch (error) {
+    console.error('Error importing exchange rates:', error);
+    res.status(500).json({ error: 'Error importing exchange rates' });
+  }
+});
+
+/**
+ * Delete one dated exchange rate
+ */
+router.delete('/rates/:baseCurrency/:quoteCurrency/:date', (req, res) => {
+  try {
+    const { baseCurrency, quoteCurrency, date } = req.params;
+    if (!ExchangeRateRepository.delete(baseCurrency, quoteCurrency, date)) {
+      return res.status(404).json({ error: `No ${baseCurrency}/${quoteCurrency} rate found for ${date}` });
+    }
+
+    res.json(getCurrencyState(DatasetRepository.findById(req.session.datasetId)?.id));
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    res.status(500).json({ error: 'Error deleting exchange rate' });
+  }
+});
+
+export { router as currenciesRouter };
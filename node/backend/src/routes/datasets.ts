@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+
+const router = Router();
+
+/** Longest dataset name accepted */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Reads and trims a dataset name from the request body
+ * Returns null when it is missing or too long
+ */
+const parseName = (body: unknown): string | null => {
+  const value = body && typeof body === 'object' ? (body as { name?: unknown }).name : undefined;
+  const name = typeof value === 'string' ? value.trim() : '';
+  return name && name.length <= MAX_NAME_LENGTH ? name : null;
+};
+
+/**
+ * List all datasets on this server and the one selected in this session
+ * Datasets are not tied to a session, so every session lists, renames and deletes the same ones
+ */
+router.get('/', (req, res) => {
+  try {
+    const datasets = DatasetRepository.findAll();
+    const current = datasets.find(dataset => dataset.id === req.session.datasetId);
+
+    res.json({ datasets, currentDatasetId: current?.id ?? null });
+  } catch (error) {
+    console.error('Error fetching datasets:', error);
+    res.status(500).json({ error: 'Error fetching datasets' });
+  }
+});
+
+/**
+ * Create an empty dataset and switch to it
+ */
+router.post('/', (req, res) => {
+  try {
+    const name = parseName(req.body);
+    if (!name) {
+      return res.status(400).json({ error: `Dataset name is required (at most ${MAX_NAME_LENGTH} characters)` });
+    }
+
+    const dataset = DatasetRepository.create(name);
+    req.session.datasetId = dataset.id;
+
+    res.status(201).json(dataset);
+  } catch (error) {
+    console.error('Error creating dataset:', error);
+    res.status(500).json({ error: 'Error creating dataset' });
+  }
+});
+
+/**
+ * Rename a dataset
+ */
+router.put('/:id', (req, res) => {
+  try {
+    const name = parseName(req.body);
+    if (!name) {
+      return res.status(400).json({ error: `Dataset name is required (at most ${MAX_NAME_LENGTH} characters)` });
+    }
+
+    if (!DatasetRepository.rename(req.params.id, name)) {
+      return res.status(404).json({ error: `Dataset not found: ${req.params.id}` });
+    }
+
+    res.json(DatasetRepository.findById(req.params.id));
+  } catch (error) {
+    console.error('Error renaming dataset:', error);
+    res.status(500).json({ error: 'Error renaming dataset' });
+  }
+});
+
+/**
+ * Switch the session to another dataset
+ */
+router.post('/:id/select', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.params.id);
+    if (!dataset) {
+      return res.status(404).json({ error: `Dataset not found: ${req.params.id}` });
+    }
+
+    req.session.datasetId = dataset.id;
+    res.json(dataset);
+  } catch (error) {
+    console.error('Error switching dataset:', error);
+    res.status(500).json({ error: 'Error switching dataset' });
+  }
+});
+
+/**
+ * Delete a dataset with all of its transactions and mappings
+ */
+router.delete('/:id', (req, res) => {
+  try {
+    if (!DatasetRepository.delete(req.params.id)) {
+      return res.status(404).json({ error: `Dataset not found: ${req.params.id}` });
+    }
+
+    if (req.session.datasetId === req.params.id) {
+      delete req.session.datasetId;
+    }
+
+    res.json({ message: 'Dataset deleted' });
+  } catch (error) {
+    console.error('Error deleting dataset:', error);
+    res.status(500).json({ error: 'Error deleting dataset' });
+  }
+});
+
+export { router as datasetsRouter };
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { ImportProfileService } from '../services/ImportProfileService';
+import { ImportProfileRepository } from '../repositories/ImportProfileRepository';
+
+const router = Router();
+
+/**
+ * List built-in and saved import profiles
+ */
+router.get('/', (req, res) => {
+  try {
+    res.json(ImportProfileService.getProfiles(ImportProfileRepository.findAll()));
+  } catch (error) {
+    console.error('Error fetching import profiles:', error);
+    res.status(500).json({ error: 'Error fetching import profiles' });
+  }
+});
+
+/**
+ * Save a new import profile
+ */
+router.post('/', (req, res) => {
+  try {
+    const errors = ImportProfileService.validateProfile(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid import profile', details: errors });
+    }
+
+    const profile = ImportProfileService.createProfile(req.body);
+    ImportProfileRepository.save(profile);
+
+    res.status(201).json(profile);
+  } catch (error) {
+    console.error('Error saving import profile:', error);
+    res.status(500).json({ error: 'Error saving import profile' });
+  }
+});
+
+/**
+ * Replace a saved import profile
+ */
+router.put('/:id', (req, res) => {
+  try {
+    if (!ImportProfileRepository.findById(req.params.id)) {
+      return res.status(404).json({ error: `Import profile not found: ${req.params.id}` });
+    }
+
+    const errors = ImportProfileService.validateProfile(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid import profile', details: errors });
+    }
+
+    const profile = ImportProfileService.createProfile(req.body, req.params.id);
+    ImportProfileRepository.save(profile);
+
+    res.json(profile);
+  } catch (error) {
+    console.error('Error updating import profile:', error);
+    res.status(500).json({ error: 'Error updating import profile' });
+  }
+});
+
+/**
+ * Delete a saved import profile
+ */
+router.delete('/:id', (req, res) => {
+  try {
+    if (!ImportProfileRepository.delete(req.params.id)) {
+      return res.status(404).json({ error: `Import profile not found: ${req.params.id}` });
+    }
+
+    res.json({ message: 'Import profile deleted' });
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    res.status(500).json({ error: 'Error deleting import profile' });
+  }
+});
+
+export { router as importProfilesRouter };
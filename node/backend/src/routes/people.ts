@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { PersonMappingRepository } from '../repositories/PersonMappingRepository';
+import { PersonMappingService } from '../services/PersonMappingService';
+import { PersonMappings } from '../types/Person';
+
+const router = Router();
+
+const NO_DATASET_ERROR = 'No transaction data found. Please upload a CSV file first.';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Stores new person mappings for a dataset and recomputes each transaction's shares
+ */
+const applyMappings = (datasetId: string, mappings: PersonMappings) => {
+  DatasetRepository.savePeople(
+    datasetId,
+    PersonMappingService.applyPersonMappings(TransactionRepository.findByDataset(datasetId), mappings),
+    mappings
+  );
+};
+
+const getPeople = (datasetId: string) => PersonMappingService.getPeople(
+  TransactionRepository.findByDataset(datasetId),
+  PersonMappingRepository.findByDataset(datasetId)
+);
+
+/**
+ * Get everyone in the dataset under their canonical names, with the names they were imported under
+ */
+router.get('/', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    res.json({ people: getPeople(dataset.id) });
+  } catch (error) {
+    console.error('Error fetching people:', error);
+    res.status(500).json({ error: 'Error fetching people' });
+  }
+});
+
+/**
+ * Get people that are probably the same person under different names
+ */
+router.get('/suggestions', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    res.json({ suggestions: PersonMappingService.suggestMerges(TransactionRepository.findByDataset(dataset.id)) });
+  } catch (error) {
+    console.error('Error fetching person suggestions:', error);
+    res.status(500).json({ error: 'Error fetching person suggestions' });
+  }
+});
+
+/**
+ * Merge people into one, shown under canonicalName or the first of the names
+ * People who share a transaction are different people and cannot be merged
+ */
+router.post('/merge', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { names, canonicalName } = req.body ?? {};
+    if (!isStringArray(names) || names.length < 2) {
+      return res.status(400).json({ error: 'names must list at least two people' });
+    }
+    if (canonicalName !== undefined && (typeof canonicalName !== 'string' || !canonicalName.trim())) {
+      return res.status(400).json({ error: 'canonicalName must be a non-empty name' });
+    }
+
+    const known = new Set(getPeople(dataset.id).map(person => person.name));
+    const missing = names.filter(name => !known.has(name));
+    if (missing.length > 0) {
+      return res.status(404).json({ error: `People not found: ${missing.join(', ')}` });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    const together = PersonMappingService.findPeopleTogether(transactions, names);
+    if (together) {
+      return res.status(409).json({
+        error: `${together[0]} and ${together[1]} share transactions, so they are different people`
+      });
+    }
+
+    const mappings = PersonMappingRepository.findByDataset(dataset.id);
+    const requestedName = canonicalName?.trim() || names[0];
+    const targetName = PersonMappingService.resolveCanonicalName(mappings, names, requestedName);
+    if (known.has(targetName) && !names.includes(targetName)) {
+      return res.status(409).json({ error: `${requestedName} is already another person` });
+    }
+
+    applyMappings(dataset.id, PersonMappingService.mergePeople(
+      mappings,
+      PersonMappingService.getImportedNames(transactions),
+      names,
+      targetName
+    ));
+
+    res.json({ people: getPeople(dataset.id) });
+  } catch (error) {
+    console.error('Error merging people:', error);
+    res.status(500).json({ error: 'Error merging people' });
+  }
+});
+
+/**
+ * Show a person under a new name in all analytics
+ */
+router.post('/rename', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { name, newName } = req.body ?? {};
+    if (typeof name !== 'string' || typeof newName !== 'string' || !newName.trim()) {
+      return res.status(400).json({ error: 'name and newName are required' });
+    }
+
+    const known = new Set(getPeople(dataset.id).map(person => person.name));
+    if (!known.has(name)) {
+      return res.status(404).json({ error: `Person not found: ${name}` });
+    }
+    const mappings = PersonMappingRepository.findByDataset(dataset.id);
+    const targetName = PersonMappingService.resolveCanonicalName(mappings, [name], newName.trim());
+    if (targetName !== name && known.has(targetName)) {
+      return res.status(409).json({ error: `${newName.trim()} is already another person; merge them instead` });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    applyMappings(dataset.id, PersonMappingService.renamePerson(
+      mappings,
+      PersonMappingService.getImportedNames(transactions),
+      name,
+      newName.trim()
+    ));
+
+    res.json({ people: getPeople(dataset.id) });
+  } catch (error) {
+    console.error('Error renaming person:', error);
+    res.status(500).json({ error: 'Error renaming person' });
+  }
+});
+
+/**
+ * Split an alias off a person so it shows as a person of its own again
+ */
+router.delete('/:name/aliases/:alias', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { name, alias } = req.params;
+    const mappings = PersonMappingRepository.findByDataset(dataset.id);
+    if (!mappings[name]?.includes(alias)) {
+      return res.status(404).json({ error: `${alias} is not an alias of ${name}` });
+    }
+
+    applyMappings(dataset.id, PersonMappingService.removeAlias(mappings, name, alias));
+
+    res.json({ people: getPeople(dataset.id) });
+  } catch (error) {
+    console.error('Error removing person alias:', error);
+    res.status(500).json({ error: 'Error removing person alias' });
+  }
+});
+
+export { router as peopleRouter };
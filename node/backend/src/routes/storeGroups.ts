@@ -0,0 +1,530 @@
+import { Router } from 'express';
+import { StoreAnalysisService } from '../services/StoreAnalysisService';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { StoreMappingRepository } from '../repositories/StoreMappingRepository';
+import { StoreGroupHistoryRepository } from '../repositories/StoreGroupHistoryRepository';
+import { StorePairFeedbackRepository } from '../repositories/StorePairFeedbackRepository';
+import { StoreRuleRepository } from '../repositories/StoreRuleRepository';
+import { StoreRuleService } from '../services/StoreRuleService';
+import { StoreMappingFileService } from '../services/StoreMappingFileService';
+import { mappingFileUpload } from '../middleware/multer';
+import {
+  StoreGrouping,
+  StoreGroupOperation,
+  StoreMappingConflictResolution,
+  StorePairFeedbackChange
+} from '../types/Transaction';
+
+const router = Router();
+
+const NO_DATASET_ERROR = 'No transaction data found. Please upload a CSV file first.';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Stores new mappings for a dataset and recomputes each transaction's canonical store
+ */
+const applyMappings = (datasetId: string, mappings: { [canonicalName: string]: string[] }) => {
+  DatasetRepository.saveContents(datasetId, {
+    transactions: StoreAnalysisService.applyStoreMappings(
+      TransactionRepository.findByDataset(datasetId),
+      mappings
+    ),
+    storeMappings: mappings,
+    sources: DatasetRepository.getSources(datasetId)
+  });
+};
+
+/**
+ * Applies an edit to a dataset's store groups and records it in the undo history
+ * `recordFeedback` stores what the edit says about store pairs, in the same database transaction, and
+ * returns the changes so undo and redo can revert and re-apply them
+ */
+const saveEdit = (
+  datasetId: string,
+  operation: StoreGroupOperation,
+  summary: string,
+  mappings: { [canonicalName: string]: string[] },
+  recordFeedback: () => StorePairFeedbackChange[] = () => []
+) => {
+  StoreGroupHistoryRepository.inTransaction(() => {
+    const changes = StoreAnalysisService.diffMappings(StoreMappingRepository.findByDataset(datasetId), mappings);
+    applyMappings(datasetId, mappings);
+    StoreGroupHistoryRepository.record(datasetId, operation, summary, changes, recordFeedback());
+  });
+};
+
+/**
+ * Current groups, scored with the default similarity strategy, plus whether undo and redo are available
+ */
+const getGroupsState = (datasetId: string) => {
+  const history = StoreGroupHistoryRepository.findByDataset(datasetId);
+  return {
+    groups: StoreAnalysisService.toGroups(StoreMappingRepository.findByDataset(datasetId))
+      .map(group => StoreAnalysisService.scoreGroup(group)),
+    canUndo: history.some(entry => !entry.undone),
+    canRedo: history.some(entry => entry.undone)
+  };
+};
+
+/**
+ * Get the dataset's store groups
+ */
+router.get('/', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    res.json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error fetching store groups:', error);
+    res.status(500).json({ error: 'Error fetching store groups' });
+  }
+});
+
+/**
+ * Add groups, typically accepted suggestions
+ * Body: { groups: [{ canonicalName, variations }] }
+ * Variations of a group that already exists are added to it
+ */
+router.post('/', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const groups: StoreGrouping[] = req.body?.groups;
+    const valid = Array.isArray(groups) && groups.length > 0 && groups.every(group =>
+      typeof group?.canonicalName === 'string' && group.canonicalName.trim() && isStringArray(group.variations)
+    );
+    if (!valid) {
+      return res.status(400).json({
+        error: 'Invalid groups. Expected { groups: [{ canonicalName, variations }] }.'
+      });
+    }
+
+    const additions = Object.fromEntries(groups.map(group => [group.canonicalName.trim(), group.variations]));
+    const mappings = StoreAnalysisService.mergeMappings(
+      StoreMappingRepository.findByDataset(dataset.id),
+      additions
+    );
+    const summary = groups.length === 1
+      ? `Added group ${groups[0].canonicalName.trim()}`
+      : `Added ${groups.length} groups`;
+    saveEdit(dataset.id, 'add', summary, mappings, () => groups.flatMap(group =>
+      StorePairFeedbackRepository.recordGroup([group.canonicalName.trim(), ...group.variations], 'accept')
+    ));
+
+    res.status(201).json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error adding store groups:', error);
+    res.status(500).json({ error: 'Error adding store groups' });
+  }
+});
+
+/**
+ * Merge two groups; the most frequent name becomes the canonical name
+ * Body: { canonicalNames: [first, second] }
+ */
+router.post('/merge', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const canonicalNames = req.body?.canonicalNames;
+    if (!isStringArray(canonicalNames) || canonicalNames.length !== 2 || canonicalNames[0] === canonicalNames[1]) {
+      return res.status(400).json({ error: 'Expected { canonicalNames: [first, second] } naming two groups.' });
+    }
+
+    const mappings = StoreMappingRepository.findByDataset(dataset.id);
+    const missing = canonicalNames.find(name => !mappings[name]);
+    if (missing) {
+      return res.status(404).json({ error: `Store group not found: ${missing}` });
+    }
+
+    const [first, second] = canonicalNames.map(name => ({ canonicalName: name, variations: mappings[name] }));
+    const { newGroup } = StoreAnalysisService.mergeGroups(
+      first,
+      second,
+      TransactionRepository.findByDataset(dataset.id)
+    );
+    saveEdit(
+      dataset.id,
+      'merge',
+      `Merged ${first.canonicalName} and ${second.canonicalName} into ${newGroup.canonicalName}`,
+      StoreAnalysisService.replaceGroups(mappings, canonicalNames, [newGroup]),
+      () => StorePairFeedbackRepository.recordGroup([newGroup.canonicalName, ...newGroup.variations], 'accept')
+    );
+
+    res.json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error merging store groups:', error);
+    res.status(500).json({ error: 'Error merging store groups' });
+  }
+});
+
+/**
+ * Move some variations of a group into a new group
+ * Body: { canonicalName, variations }
+ */
+router.post('/split', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { canonicalName, variations } = req.body || {};
+    if (typeof canonicalName !== 'string' || !isStringArray(variations) || variations.length === 0) {
+      return res.status(400).json({ error: 'Expected { canonicalName, variations } with at least one variation.' });
+    }
+
+    const mappings = StoreMappingRepository.findByDataset(dataset.id);
+    if (!mappings[canonicalName]) {
+      return res.status(404).json({ error: `Store group not found: ${canonicalName}` });
+    }
+
+    const unknown = variations.find(variation => !mappings[canonicalName].includes(variation));
+    if (unknown) {
+      return res.status(400).json({ error: `${unknown} is not a variation of ${canonicalName}` });
+    }
+
+    const { originalGroup, newGroup } = StoreAnalysisService.splitGroup(
+      { canonicalName, variations: mappings[canonicalName] },
+      variations,
+      TransactionRepository.findByDataset(dataset.id)
+    );
+    saveEdit(
+      dataset.id,
+      'split',
+      `Split ${newGroup.canonicalName} out of ${canonicalName}`,
+      StoreAnalysisService.replaceGroups(mappings, [canonicalName], [originalGroup, newGroup]),
+      () => StorePairFeedbackRepository.record(
+        [originalGroup.canonicalName, ...originalGroup.variations].flatMap(remaining =>
+          variations.map(split => [remaining, split] as [string, string])
+        ),
+        'reject'
+      )
+    );
+
+    res.json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error splitting store group:', error);
+    res.status(500).json({ error: 'Error splitting store group' });
+  }
+});
+
+/**
+ * Rename a group's canonical name
+ * Body: { canonicalName, newName }
+ */
+router.post('/rename', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const canonicalName = req.body?.canonicalName;
+    const newName = typeof req.body?.newName === 'string' ? req.body.newName.trim() : '';
+    if (typeof canonicalName !== 'string' || !newName) {
+      return res.status(400).json({ error: 'Expected { canonicalName, newName }.' });
+    }
+
+    const mappings = StoreMappingRepository.findByDataset(dataset.id);
+    if (!mappings[canonicalName]) {
+      return res.status(404).json({ error: `Store group not found: ${canonicalName}` });
+    }
+    if (newName !== canonicalName && mappings[newName]) {
+      return res.status(409).json({ error: `A store group named ${newName} already exists. Merge the groups instead.` });
+    }
+
+    const renamed = StoreAnalysisService.renameGroup({ canonicalName, variations: mappings[canonicalName] }, newName);
+    saveEdit(
+      dataset.id,
+      'rename',
+      `Renamed ${canonicalName} to ${newName}`,
+      StoreAnalysisService.replaceGroups(mappings, [canonicalName], [renamed])
+    );
+
+    res.json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error renaming store group:', error);
+    res.status(500).json({ error: 'Error renaming store group' });
+  }
+});
+
+/**
+ * Take one variation out of a group so it is shown under its own name again
+ */
+router.delete('/:canonicalName/variations/:variation', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { canonicalName, variation } = req.params;
+    const mappings = StoreMappingRepository.findByDataset(dataset.id);
+    if (!mappings[canonicalName]?.includes(variation)) {
+      return res.status(404).json({ error: `${variation} is not a variation of ${canonicalName}` });
+    }
+
+    saveEdit(
+      dataset.id,
+      'remove-variation',
+      `Removed ${variation} from ${canonicalName}`,
+      StoreAnalysisService.replaceGroups(mappings, [canonicalName], [{
+        canonicalName,
+        variations: mappings[canonicalName].filter(name => name !== variation)
+      }]),
+      () => StorePairFeedbackRepository.record(
+        [canonicalName, ...mappings[canonicalName]]
+          .filter(name => name !== variation)
+          .map(name => [name, variation] as [string, string]),
+        'reject'
+      )
+    );
+
+    res.json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error removing variation:', error);
+    res.status(500).json({ error: 'Error removing variation' });
+  }
+});
+
+/**
+ * Ungroup a store; its variations go back to their original names
+ * No pair feedback is recorded: deleting a group discards it, it does not say the names differ
+ */
+router.delete('/:canonicalName', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const { canonicalName } = req.params;
+    const mappings = StoreMappingRepository.findByDataset(dataset.id);
+    if (!mappings[canonicalName]) {
+      return res.status(404).json({ error: `Store group not found: ${canonicalName}` });
+    }
+
+    saveEdit(
+      dataset.id,
+      'delete',
+      `Deleted group ${canonicalName}`,
+      StoreAnalysisService.replaceGroups(mappings, [canonicalName], [])
+    );
+
+    res.json(getGroupsState(dataset.id));
+  } catch (error) {
+    console.error('Error deleting store group:', error);
+    res.status(500).json({ error: 'Error deleting store group' });
+  }
+});
+
+/**
+ * Group the dataset's store names using the store rules
+ * Names that are already grouped keep their group
+ */
+router.post('/apply-rules', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const mappings = StoreMappingRepository.findByDataset(dataset.id);
+    const groupedNames = new Set(
+      Object.entries(mappings).flatMap(([canonicalName, variations]) => [canonicalName, ...variations])
+    );
+    const ruleMappings = StoreRuleService.getRuleMappings(
+      StoreRuleRepository.findAll(),
+      TransactionRepository.findByDataset(dataset.id)
+        .map(t => t.description)
+        .filter(description => !groupedNames.has(description))
+    );
+    const namesMapped = Object.values(ruleMappings).flat().length;
+
+    if (namesMapped > 0) {
+      saveEdit(
+        dataset.id,
+        'apply-rules',
+        `Applied store rules to ${namesMapped} name(s)`,
+        StoreAnalysisService.mergeMappings(mappings, ruleMappings)
+      );
+    }
+
+    res.json({ ...getGroupsState(dataset.id), namesMapped });
+  } catch (error) {
+    console.error('Error applying store rules:', error);
+    res.status(500).json({ error: 'Error applying store rules' });
+  }
+});
+
+/**
+ * Download the dataset's store mappings
+ * Query params:
+ * - format: csv (default) with one "canonicalName,variation" row per variation, or json
+ */
+router.get('/export', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const format = req.query.format ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return res.status(400).json({ error: 'Invalid format. Expected csv or json.' });
+    }
+
+    const content = StoreMappingFileService.serialize(StoreMappingRepository.findByDataset(dataset.id), format);
+    res.attachment(`store-mappings.${format}`);
+    res.type(format === 'csv' ? 'text/csv' : 'application/json');
+    res.send(content);
+  } catch (error) {
+    console.error('Error exporting store mappings:', error);
+    res.status(500).json({ error: 'Error exporting store mappings' });
+  }
+});
+
+/**
+ * Import store mappings from a CSV or JSON file in the export format
+ * Form fields:
+ * - file: the mapping file
+ * - conflicts: "skip" (default) keeps names already mapped to another canonical name where they
+ *   are, "overwrite" moves them to the imported canonical name
+ * - dryRun: "true" reports what would change without saving anything
+ * Conflicts are returned either way so they can be reviewed
+ */
+router.post('/import', mappingFileUpload.single('file'), async (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const resolution: StoreMappingConflictResolution = req.body?.conflicts === 'overwrite' ? 'overwrite' : 'skip';
+    const dryRun = req.body?.dryRun === 'true';
+
+    const { mappings: imported, errors } = await StoreMappingFileService.parse(
+      req.file.buffer,
+      StoreMappingFileService.detectFormat(req.file.originalname)
+    );
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid mapping file', details: errors });
+    }
+
+    const { mappings, conflicts, namesImported } = StoreMappingFileService.importMappings(
+      StoreMappingRepository.findByDataset(dataset.id),
+      imported,
+      resolution
+    );
+
+    if (!dryRun && namesImported > 0) {
+      saveEdit(dataset.id, 'import', `Imported ${namesImported} name(s) from ${req.file.originalname}`, mappings);
+    }
+
+    res.json({ ...getGroupsState(dataset.id), namesImported, conflicts, dryRun });
+  } catch (error) {
+    console.error('Error importing store mappings:', error);
+    res.status(500).json({ error: 'Error importing store mappings' });
+  }
+});
+
+/**
+ * List the dataset's store group edits, oldest first
+ */
+router.get('/history', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    res.json({ entries: StoreGroupHistoryRepository.findByDataset(dataset.id) });
+  } catch (error) {
+    console.error('Error fetching store group history:', error);
+    res.status(500).json({ error: 'Error fetching store group history' });
+  }
+});
+
+/**
+ * Revert the most recent store group edit, including the store pair feedback it recorded
+ * Only the groups the edit changed are put back; changes made since by uploads or saved mappings stay
+ */
+router.post('/undo', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const entry = StoreGroupHistoryRepository.findLastApplied(dataset.id);
+    if (!entry) {
+      return res.status(409).json({ error: 'Nothing to undo' });
+    }
+
+    StoreGroupHistoryRepository.inTransaction(() => {
+      applyMappings(dataset.id, StoreAnalysisService.applyMappingChanges(
+        StoreMappingRepository.findByDataset(dataset.id),
+        entry.mappingChanges,
+        'before'
+      ));
+      StorePairFeedbackRepository.restore(entry.feedbackChanges, 'before');
+      StoreGroupHistoryRepository.setUndone(entry.id, true);
+    });
+
+    res.json({ ...getGroupsState(dataset.id), undone: entry.summary });
+  } catch (error) {
+    console.error('Error undoing store group edit:', error);
+    res.status(500).json({ error: 'Error undoing store group edit' });
+  }
+});
+
+/**
+ * Re-apply the most recently undone store group edit
+ */
+router.post('/redo', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const entry = StoreGroupHistoryRepository.findFirstUndone(dataset.id);
+    if (!entry) {
+      return res.status(409).json({ error: 'Nothing to redo' });
+    }
+
+    StoreGroupHistoryRepository.inTransaction(() => {
+      applyMappings(dataset.id, StoreAnalysisService.applyMappingChanges(
+        StoreMappingRepository.findByDataset(dataset.id),
+        entry.mappingChanges,
+        'after'
+      ));
+      StorePairFeedbackRepository.restore(entry.feedbackChanges, 'after');
+      StoreGroupHistoryRepository.setUndone(entry.id, false);
+    });
+
+    res.json({ ...getGroupsState(dataset.id), redone: entry.summary });
+  } catch (error) {
+    console.error('Error redoing store group edit:', error);
+    res.status(500).json({ error: 'Error redoing store group edit' });
+  }
+});
+
+export { router as storeGroupsRouter };
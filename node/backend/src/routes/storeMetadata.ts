@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { StoreMetadataService } from '../services/StoreMetadataService';
+import { StoreMetadataRepository } from '../repositories/StoreMetadataRepository';
+
+const router = Router();
+
+/**
+ * List the details of every store that has any
+ */
+router.get('/', (req, res) => {
+  try {
+    res.json({ metadata: StoreMetadataRepository.findAll() });
+  } catch (error) {
+    console.error('Error fetching store details:', error);
+    res.status(500).json({ error: 'Error fetching store details' });
+  }
+});
+
+/**
+ * Set the details of a canonical store, replacing any it had
+ * Body: { chain?, storeType?, neighborhood?, tags? }
+ */
+router.put('/:storeName', (req, res) => {
+  try {
+    const storeName = req.params.storeName.trim();
+    if (!storeName) {
+      return res.status(400).json({ error: 'Store name is required' });
+    }
+
+    const errors = StoreMetadataService.validateMetadata(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid store details', details: errors });
+    }
+
+    const metadata = StoreMetadataService.createMetadata(storeName, req.body);
+    StoreMetadataRepository.save(metadata);
+
+    res.json(metadata);
+  } catch (error) {
+    console.error('Error saving store details:', error);
+    res.status(500).json({ error: 'Error saving store details' });
+  }
+});
+
+/**
+ * Remove the details of a store
+ */
+router.delete('/:storeName', (req, res) => {
+  try {
+    if (!StoreMetadataRepository.delete(req.params.storeName)) {
+      return res.status(404).json({ error: `No details found for store: ${req.params.storeName}` });
+    }
+
+    res.json({ message: 'Store details deleted' });
+  } catch (error) {
+    console.error('Error deleting store details:', error);
+    res.status(500).json({ error: 'Error deleting store details' });
+  }
+});
+
+export { router as storeMetadataRouter };
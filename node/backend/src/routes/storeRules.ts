@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import { StoreRuleService } from '../services/StoreRuleService';
+import { StoreRuleRepository } from '../repositories/StoreRuleRepository';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+
+const router = Router();
+
+/**
+ * List store rules in evaluation order
+ */
+router.get('/', (req, res) => {
+  try {
+    res.json({ rules: StoreRuleRepository.findAll() });
+  } catch (error) {
+    console.error('Error fetching store rules:', error);
+    res.status(500).json({ error: 'Error fetching store rules' });
+  }
+});
+
+/**
+ * Add a rule after the existing ones
+ * Body: { matchType: 'regex' | 'contains' | 'prefix', pattern, canonicalName, caseSensitive?, enabled? }
+ */
+router.post('/', (req, res) => {
+  try {
+    const errors = StoreRuleService.validateRule(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid store rule', details: errors });
+    }
+
+    const rule = StoreRuleService.createRule(req.body);
+    StoreRuleRepository.create(rule);
+
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error saving store rule:', error);
+    res.status(500).json({ error: 'Error saving store rule' });
+  }
+});
+
+/**
+ * Put the rules in a new order
+ * Body: { ids: string[] } listing every rule id once
+ */
+router.put('/order', (req, res) => {
+  try {
+    const ids = req.body?.ids;
+    const existingIds = StoreRuleRepository.findAll().map(rule => rule.id);
+    const isPermutation = Array.isArray(ids)
+      && ids.length === existingIds.length
+      && new Set(ids).size === ids.length
+      && ids.every(id => existingIds.includes(id));
+    if (!isPermutation) {
+      return res.status(400).json({ error: 'Expected { ids } listing every rule id exactly once.' });
+    }
+
+    StoreRuleRepository.reorder(ids);
+    res.json({ rules: StoreRuleRepository.findAll() });
+  } catch (error) {
+    console.error('Error reordering store rules:', error);
+    res.status(500).json({ error: 'Error reordering store rules' });
+  }
+});
+
+/**
+ * Replace a rule, keeping its place in the order
+ */
+router.put('/:id', (req, res) => {
+  try {
+    if (!StoreRuleRepository.findById(req.params.id)) {
+      return res.status(404).json({ error: `Store rule not found: ${req.params.id}` });
+    }
+
+    const errors = StoreRuleService.validateRule(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid store rule', details: errors });
+    }
+
+    const rule = StoreRuleService.createRule(req.body, req.params.id);
+    StoreRuleRepository.update(rule);
+
+    res.json(rule);
+  } catch (error) {
+    console.error('Error updating store rule:', error);
+    res.status(500).json({ error: 'Error updating store rule' });
+  }
+});
+
+/**
+ * Delete a rule
+ */
+router.delete('/:id', (req, res) => {
+  try {
+    if (!StoreRuleRepository.delete(req.params.id)) {
+      return res.status(404).json({ error: `Store rule not found: ${req.params.id}` });
+    }
+
+    res.json({ message: 'Store rule deleted' });
+  } catch (error) {
+    console.error('Error deleting store rule:', error);
+    res.status(500).json({ error: 'Error deleting store rule' });
+  }
+});
+
+/**
+ * Show which of the current dataset's descriptions rules would match
+ * Body: { rule } to try out a single, possibly unsaved, rule; without a body every saved rule
+ * is tested, with each description listed only under the first rule that matches it
+ */
+router.post('/test', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({
+        error: 'No transaction data found. Please upload a CSV file first.'
+      });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+
+    if (req.body?.rule !== undefined) {
+      const errors = StoreRuleService.validateRule(req.body.rule);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid store rule', details: errors });
+      }
+
+      const rule = StoreRuleService.createRule(req.body.rule);
+      return res.json({ results: [StoreRuleService.testRule(rule, transactions)] });
+    }
+
+    res.json({ results: StoreRuleService.testRules(StoreRuleRepository.findAll(), transactions) });
+  } catch (error) {
+    console.error('Error testing store rules:', error);
+    res.status(500).json({ error: 'Error testing store rules' });
+  }
+});
+
+export { router as storeRulesRouter };
@@ -1,24 +1,90 @@
 import { Router } from 'express';
 import { StoreAnalysisService } from '../services/StoreAnalysisService';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { StoreMappingRepository } from '../repositories/StoreMappingRepository';
+import { StoreMappingLibraryRepository } from '../repositories/StoreMappingLibraryRepository';
+import { StorePairFeedbackRepository } from '../repositories/StorePairFeedbackRepository';
+import { StoreRuleRepository } from '../repositories/StoreRuleRepository';
+import { StoreRuleService } from '../services/StoreRuleService';
+import {
+  DEFAULT_STRATEGY,
+  SIMILARITY_STRATEGIES,
+  isSimilarityStrategyName
+} from '../services/SimilarityStrategies';
 
 const router = Router();
 
+/**
+ * Whether a request body is a plain object of canonical names, each listing non-empty variations
+ */
+const isStoreMappings = (value: unknown): value is { [canonicalName: string]: string[] } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.entries(value).every(([canonicalName, variations]) =>
+    canonicalName.trim() !== '' &&
+    Array.isArray(variations) &&
+    variations.every(variation => typeof variation === 'string' && variation.trim() !== '')
+  );
+
 /**
  * Get suggested store name groupings based on similarity
+ * Names already covered by the dataset's mappings, the mapping library or a store rule are not
+ * suggested again, and accepted or rejected pairs from earlier edits are honored
+ * Query params:
+ * - strategy: levenshtein (default), token-set, jaro-winkler or prefix
+ * - threshold: score between 0 and 1 above which names are grouped; defaults to the strategy's own
+ * - stripStoreNumbers: 'true' to ignore store numbers such as "#1234"
  */
 router.get('/suggestions', (req, res) => {
   try {
-    if (!req.session.data?.transactions) {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({
         error: 'No transaction data found. Please upload a CSV file first.'
       });
     }
 
+    const strategy = req.query.strategy ?? DEFAULT_STRATEGY;
+    if (!isSimilarityStrategyName(strategy)) {
+      return res.status(400).json({
+        error: `Invalid strategy. Expected one of: ${Object.keys(SIMILARITY_STRATEGIES).join(', ')}`
+      });
+    }
+
+    const threshold = req.query.threshold === undefined
+      ? SIMILARITY_STRATEGIES[strategy].defaultThreshold
+      : Number(req.query.threshold);
+    if (!(threshold > 0 && threshold < 1)) {
+      return res.status(400).json({ error: 'Invalid threshold. Expected a number between 0 and 1.' });
+    }
+
+    const options = { strategy, threshold, stripStoreNumbers: req.query.stripStoreNumbers === 'true' };
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    // Rules are evaluated before fuzzy matching, but explicit mappings take precedence over them
+    const ruleMappings = StoreRuleService.getRuleMappings(
+      StoreRuleRepository.findAll(),
+      transactions.map(t => t.description)
+    );
+    const knownMappings = StoreAnalysisService.mergeMappings(
+      StoreAnalysisService.mergeMappings(ruleMappings, StoreMappingLibraryRepository.findAll()),
+      StoreMappingRepository.findByDataset(dataset.id)
+    );
+
     const suggestions = StoreAnalysisService.analyzeSimilarStores(
-      req.session.data.transactions
+      transactions,
+      knownMappings,
+      options,
+      StorePairFeedbackRepository.findAll()
+    );
+    const knownNames = new Set(
+      Object.entries(knownMappings).flatMap(([canonical, variations]) => [canonical, ...variations])
     );
+    const coveredStoreNames = new Set(
+      transactions.map(t => t.description).filter(name => knownNames.has(name))
+    ).size;
 
-    res.json({ suggestions });
+    res.json({ suggestions, coveredStoreNames, ...options });
   } catch (error) {
     console.error('Error generating store suggestions:', error);
     res.status(500).json({ error: 'Error generating store suggestions' });
@@ -27,31 +93,41 @@ router.get('/suggestions', (req, res) => {
 
 /**
  * Apply store name mappings to transactions
+ * The mappings are added to the dataset's existing mappings and saved to the mapping library
  */
 router.post('/mappings', (req, res) => {
   try {
-    if (!req.session.data?.transactions) {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
       return res.status(400).json({
         error: 'No transaction data found. Please upload a CSV file first.'
       });
     }
 
     const mappings = req.body;
-    if (!mappings || typeof mappings !== 'object') {
+    if (!isStoreMappings(mappings)) {
       return res.status(400).json({
-        error: 'Invalid mappings format. Expected object with canonical names as keys.'
+        error: 'Invalid mappings format. Expected object with canonical names as keys and lists of store names as values.'
       });
     }
 
-    // Apply mappings to transactions
-    const updatedTransactions = StoreAnalysisService.applyStoreMappings(
-      req.session.data.transactions,
+    // Apply the dataset's combined mappings; original descriptions are kept
+    const storeMappings = StoreAnalysisService.mergeMappings(
+      StoreMappingRepository.findByDataset(dataset.id),
       mappings
     );
+    const updatedTransactions = StoreAnalysisService.applyStoreMappings(
+      TransactionRepository.findByDataset(dataset.id),
+      storeMappings
+    );
 
-    // Update session data
-    req.session.data.transactions = updatedTransactions;
-    req.session.data.storeMappings = mappings;
+    // Persist the updated dataset
+    DatasetRepository.saveContents(dataset.id, {
+      transactions: updatedTransactions,
+      storeMappings,
+      sources: DatasetRepository.getSources(dataset.id)
+    });
+    StoreMappingLibraryRepository.save(mappings);
 
     res.json({
       message: 'Store mappings applied successfully',
@@ -63,4 +139,91 @@ router.post('/mappings', (req, res) => {
   }
 });
 
+/**
+ * Get the mapping library shared by all datasets
+ */
+router.get('/library', (req, res) => {
+  try {
+    res.json(StoreMappingLibraryRepository.findAll());
+  } catch (error) {
+    console.error('Error fetching mapping library:', error);
+    res.status(500).json({ error: 'Error fetching mapping library' });
+  }
+});
+
+/**
+ * Remove a canonical store name and its variations from the mapping library
+ * Datasets that were already mapped keep their names
+ */
+router.delete('/library/:canonicalName', (req, res) => {
+  try {
+    if (!StoreMappingLibraryRepository.deleteGroup(req.params.canonicalName)) {
+      return res.status(404).json({ error: `Store not found in mapping library: ${req.params.canonicalName}` });
+    }
+
+    res.json({ message: 'Mapping removed from library' });
+  } catch (error) {
+    console.error('Error deleting library mapping:', error);
+    res.status(500).json({ error: 'Error deleting library mapping' });
+  }
+});
+
+/**
+ * List accepted and rejected store name pairs
+ */
+router.get('/feedback', (req, res) => {
+  try {
+    res.json({ feedback: StorePairFeedbackRepository.findAll() });
+  } catch (error) {
+    console.error('Error fetching store feedback:', error);
+    res.status(500).json({ error: 'Error fetching store feedback' });
+  }
+});
+
+/**
+ * Record feedback on a suggested group
+ * Body: { verdict: 'accept' | 'reject', names: string[] }
+ * The verdict applies to every pair of the names, e.g. rejecting a dismissed suggestion
+ * keeps it from being suggested again
+ */
+router.post('/feedback', (req, res) => {
+  try {
+    const { verdict, names } = req.body || {};
+    const validNames = Array.isArray(names) && names.length >= 2 && names.every(name => typeof name === 'string');
+    if ((verdict !== 'accept' && verdict !== 'reject') || !validNames) {
+      return res.status(400).json({
+        error: "Invalid feedback. Expected { verdict: 'accept' | 'reject', names } with at least two names."
+      });
+    }
+
+    StorePairFeedbackRepository.recordGroup(names, verdict);
+    res.json({ feedback: StorePairFeedbackRepository.findAll() });
+  } catch (error) {
+    console.error('Error saving store feedback:', error);
+    res.status(500).json({ error: 'Error saving store feedback' });
+  }
+});
+
+/**
+ * Forget the feedback on one pair of names
+ * Query params: nameA, nameB
+ */
+router.delete('/feedback', (req, res) => {
+  try {
+    const { nameA, nameB } = req.query;
+    if (typeof nameA !== 'string' || typeof nameB !== 'string') {
+      return res.status(400).json({ error: 'nameA and nameB query parameters are required' });
+    }
+
+    if (!StorePairFeedbackRepository.delete([nameA, nameB])) {
+      return res.status(404).json({ error: `No feedback found for ${nameA} and ${nameB}` });
+    }
+
+    res.json({ message: 'Feedback removed' });
+  } catch (error) {
+    console.error('Error removing store feedback:', error);
+    res.status(500).json({ error: 'Error removing store feedback' });
+  }
+});
+
 export { router as storesRouter };
\ No newline at end of file
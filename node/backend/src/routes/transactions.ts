@@ -0,0 +1,326 @@
+import { RequestHandler, Router } from 'express';
+import multer from 'multer';
+import { MAX_RECEIPT_SIZE, receiptUpload } from '../middleware/multer';
+import { DatasetRepository } from '../repositories/DatasetRepository';
+import { PersonMappingRepository } from '../repositories/PersonMappingRepository';
+import { ReceiptRepository } from '../repositories/ReceiptRepository';
+import { StoreMappingRepository } from '../repositories/StoreMappingRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { PersonMappingService } from '../services/PersonMappingService';
+import { ReceiptService } from '../services/ReceiptService';
+import { StoreAnalysisService } from '../services/StoreAnalysisService';
+import { TransactionService } from '../services/TransactionService';
+import { Transaction } from '../types/Transaction';
+
+const router = Router();
+
+const NO_DATASET_ERROR = 'No transaction data found. Please upload a CSV file first.';
+
+const findMissingIds = (transactions: Transaction[], ids: string[]): string[] => {
+  const known = new Set(transactions.map(t => t.id));
+  return ids.filter(id => !known.has(id));
+};
+
+/**
+ * Accepts one receipt file in the "receipt" field, answering with the reason when it is too large or not a receipt
+ */
+const acceptReceipt: RequestHandler = (req, res, next) => {
+  receiptUpload.single('receipt')(req, res, error => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: `Receipts must be at most ${MAX_RECEIPT_SIZE / (1024 * 1024)} MB` });
+    }
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    next();
+  });
+};
+
+/**
+ * Derives the canonical store and person names of an entered or edited transaction from the
+ * dataset's store and person mappings, as an upload would
+ */
+const applyMappings = (datasetId: string, transaction: Transaction): Transaction => {
+  const [mapped] = PersonMappingService.applyPersonMappings(
+    StoreAnalysisService.applyStoreMappings([transaction], StoreMappingRepository.findByDataset(datasetId)),
+    PersonMappingRepository.findByDataset(datasetId)
+  );
+  return mapped;
+};
+
+/**
+ * Add tags to several transactions at once, keeping the tags they already have
+ * Body: { ids, tags }
+ */
+router.post('/tags', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const errors = TransactionService.validateTagging(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid tagging', details: errors });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    const missing = findMissingIds(transactions, req.body.ids);
+    if (missing.length > 0) {
+      return res.status(404).json({ error: 'Transactions not found', details: missing });
+    }
+    const limitErrors = TransactionService.validateAddedTags(transactions, req.body.ids, req.body.tags);
+    if (limitErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid tagging', details: limitErrors });
+    }
+
+    DatasetRepository.saveTransactions(dataset.id, TransactionService.addTags(transactions, req.body.ids, req.body.tags));
+    res.json({ message: 'Tags added', transactionCount: new Set(req.body.ids).size });
+  } catch (error) {
+    console.error('Error adding tags:', error);
+    res.status(500).json({ error: 'Error adding tags' });
+  }
+});
+
+/**
+ * Remove tags from several transactions at once
+ * Body: { ids, tags }
+ */
+router.post('/tags/remove', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const errors = TransactionService.validateTagging(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid tagging', details: errors });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    const missing = findMissingIds(transactions, req.body.ids);
+    if (missing.length > 0) {
+      return res.status(404).json({ error: 'Transactions not found', details: missing });
+    }
+
+    DatasetRepository.saveTransactions(dataset.id, TransactionService.removeTags(transactions, req.body.ids, req.body.tags));
+    res.json({ message: 'Tags removed', transactionCount: new Set(req.body.ids).size });
+  } catch (error) {
+    console.error('Error removing tags:', error);
+    res.status(500).json({ error: 'Error removing tags' });
+  }
+});
+
+/**
+ * Get one transaction of the current dataset as stored: in its imported currency and category,
+ * before the category taxonomy and currency conversion used by analytics
+ */
+router.get('/:id', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const transaction = TransactionRepository.findByDataset(dataset.id).find(t => t.id === req.params.id);
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    res.json(transaction);
+  } catch (error) {
+    console.error('Error fetching transaction:', error);
+    res.status(500).json({ error: 'Error fetching transaction' });
+  }
+});
+
+/**
+ * Enter a transaction by hand
+ * Body: { date, description, category?, cost, currency, shares?, kind?, tags?, notes? } - amounts in
+ * minor units, shares adding up to zero
+ */
+router.post('/', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const errors = TransactionService.validate(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid transaction', details: errors });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    const transaction = applyMappings(
+      dataset.id,
+      TransactionService.create(req.body, transactions.map(t => t.id))
+    );
+    DatasetRepository.saveTransactions(dataset.id, [...transactions, transaction]);
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    console.error('Error creating transaction:', error);
+    res.status(500).json({ error: 'Error creating transaction' });
+  }
+});
+
+/**
+ * Change some fields of a transaction, e.g. to fix a wrong category or amount
+ * Body: any of { date, description, category, cost, currency, shares, kind, tags, notes } - a changed
+ * cost scales the shares with it unless new shares are given
+ */
+router.patch('/:id', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    const index = transactions.findIndex(t => t.id === req.params.id);
+    if (index === -1) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const errors = TransactionService.validate(req.body, transactions[index]);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid transaction', details: errors });
+    }
+
+    const transaction = applyMappings(dataset.id, TransactionService.update(transactions[index], req.body));
+    DatasetRepository.saveTransactions(dataset.id, transactions.map((t, i) => i === index ? transaction : t));
+
+    res.json(transaction);
+  } catch (error) {
+    console.error('Error updating transaction:', error);
+    res.status(500).json({ error: 'Error updating transaction' });
+  }
+});
+
+/**
+ * Delete a transaction and its receipts
+ */
+router.delete('/:id', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const transactions = TransactionRepository.findByDataset(dataset.id);
+    const remaining = transactions.filter(t => t.id !== req.params.id);
+    if (remaining.length === transactions.length) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    DatasetRepository.saveTransactions(dataset.id, remaining);
+    res.json({ message: 'Transaction deleted' });
+  } catch (error) {
+    console.error('Error deleting transaction:', error);
+    res.status(500).json({ error: 'Error deleting transaction' });
+  }
+});
+
+/**
+ * List the receipts attached to a transaction
+ */
+router.get('/:id/receipts', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+    if (!TransactionRepository.findByDataset(dataset.id).some(t => t.id === req.params.id)) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    res.json({ receipts: ReceiptRepository.findByTransaction(dataset.id, req.params.id) });
+  } catch (error) {
+    console.error('Error fetching receipts:', error);
+    res.status(500).json({ error: 'Error fetching receipts' });
+  }
+});
+
+/**
+ * Attach a receipt to a transaction
+ * Multipart form with a JPEG, PNG, GIF, WebP or PDF file in the "receipt" field; the type is checked
+ * against the file's content and stored as detected
+ */
+router.post('/:id/receipts', acceptReceipt, (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+    if (!TransactionRepository.findByDataset(dataset.id).some(t => t.id === req.params.id)) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    const mimeType = ReceiptService.detectMimeType(req.file.buffer);
+    if (!mimeType) {
+      return res.status(400).json({ error: 'The file is not a JPEG, PNG, GIF, WebP or PDF receipt' });
+    }
+
+    res.status(201).json(ReceiptRepository.create(dataset.id, req.params.id, req.file, mimeType));
+  } catch (error) {
+    console.error('Error attaching receipt:', error);
+    res.status(500).json({ error: 'Error attaching receipt' });
+  }
+});
+
+/**
+ * Get a receipt's file, to be shown in the browser
+ */
+router.get('/:id/receipts/:receiptId', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    const receipt = ReceiptRepository.findById(dataset.id, req.params.id, req.params.receiptId);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    res.setHeader('Content-Type', receipt.mimeType);
+    res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(receipt.fileName)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.sendFile(ReceiptRepository.getFilePath(dataset.id, receipt.id), error => {
+      if (error && !res.headersSent) {
+        console.error('Error sending receipt:', error);
+        res.status(404).json({ error: 'Receipt file is missing' });
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching receipt:', error);
+    res.status(500).json({ error: 'Error fetching receipt' });
+  }
+});
+
+/**
+ * Remove a receipt from a transaction and delete its file
+ */
+router.delete('/:id/receipts/:receiptId', (req, res) => {
+  try {
+    const dataset = DatasetRepository.findById(req.session.datasetId);
+    if (!dataset) {
+      return res.status(400).json({ error: NO_DATASET_ERROR });
+    }
+
+    if (!ReceiptRepository.delete(dataset.id, req.params.id, req.params.receiptId)) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    res.json({ message: 'Receipt deleted' });
+  } catch (error) {
+    console.error('Error deleting receipt:', error);
+    res.status(500).json({ error: 'Error deleting receipt' });
+  }
+});
+
+export { router as transactionsRouter };
@@ -4,6 +4,17 @@ import { upload } from '../middleware/multer';
 
 const router = Router();
 
-router.post('/', upload.single('file'), uploadController.handleUpload);
+/** Most files accepted in a single upload */
+const MAX_FILES_PER_UPLOAD = 20;
+
+router.post(
+  '/',
+  upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'files', maxCount: MAX_FILES_PER_UPLOAD }
+  ]),
+  uploadController.handleUpload
+);
+router.post('/preview', upload.single('file'), uploadController.handlePreview);
 
 export const uploadRoutes = router;
@@ -0,0 +1,190 @@
+/**
+ * Benchmark for store name similarity suggestions
+ *
+ * Generates a deterministic fixture of 10,000 distinct store names (merchants plus typo,
+ * casing and suffix variations), checks that the indexed search gives exactly the same
+ * groups as comparing every pair of names, and times a full run.
+ *
+ * Run with: npm run benchmark:stores
+ */
+import levenshtein from 'fast-levenshtein';
+import { StoreAnalysisService } from '../services/StoreAnalysisService';
+import { Transaction, StoreGrouping } from '../types/Transaction';
+
+const DISTINCT_NAMES = 10000;
+/** Names used for the comparison with the pairwise scan, which is too slow for the full fixture */
+const VERIFY_NAMES = 2000;
+/** A full run over the fixture should finish within this many milliseconds */
+const TIME_BUDGET_MS = 3000;
+
+const CONSONANTS = 'bcdfghjklmnprstvwz';
+const VOWELS = 'aeiou';
+const PLACES = [
+  'Valley', 'Market', 'Corner', 'City', 'Express', 'River', 'Harbor', 'Village', 'Park', 'Lake'
+];
+const KINDS = [
+  'grocery', 'cafe', 'pizza', 'deli', 'bakery', 'pharmacy', 'hardware', 'books', 'garden', 'liquor',
+  'sushi', 'tacos', 'diner', 'bistro', 'gas', 'wash', 'fitness', 'salon', 'pets', 'toys'
+];
+const SUFFIXES = [' Inc', ' LLC', ' #12', ' Co', ' Store'];
+
+/**
+ * Small seeded random generator so every run uses the same fixture
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const random = createRandom(42);
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/** Made-up brand name of two to four syllables */
+const createBrand = (): string => {
+  const syllables = 2 + Math.floor(random() * 3);
+  let brand = '';
+  for (let i = 0; i < syllables; i++) {
+    brand += pick([...CONSONANTS]) + pick([...VOWELS]);
+  }
+  return capitalize(brand);
+};
+
+/**
+ * Merchant name in one of the shapes seen in real exports, e.g. "Tomiva Bakery",
+ * "Lerasu Market Pizza" or "Danoko Pharmacy 412"
+ */
+const createMerchant = (): string => {
+  switch (Math.floor(random() * 3)) {
+    case 0: return `${createBrand()} ${capitalize(pick(KINDS))}`;
+    case 1: return `${createBrand()} ${pick(PLACES)} ${capitalize(pick(KINDS))}`;
+    default: return `${createBrand()} ${capitalize(pick(KINDS))} ${Math.floor(random() * 1000)}`;
+  }
+};
+
+const addTypo = (name: string): string => {
+  const position = 1 + Math.floor(random() * (name.length - 2));
+  const letter = String.fromCharCode(97 + Math.floor(random() * 26));
+  switch (Math.floor(random() * 3)) {
+    case 0: return name.slice(0, position) + letter + name.slice(position + 1);
+    case 1: return name.slice(0, position) + letter + name.slice(position);
+    default: return name.slice(0, position) + name.slice(position + 1);
+  }
+};
+
+const createVariation = (name: string): string => {
+  switch (Math.floor(random() * 4)) {
+    case 0: return addTypo(name);
+    case 1: return name.toUpperCase();
+    case 2: return name + pick(SUFFIXES);
+    default: return name.replace(/ /g, '  ').replace(/s\b/, "'s");
+  }
+};
+
+/**
+ * Builds transactions covering `count` distinct store names
+ * Roughly a third of the names are variations of another merchant
+ */
+const createFixture = (count: number): Transaction[] => {
+  const names = new Set<string>();
+  const merchants: string[] = [];
+
+  while (names.size < count) {
+    if (merchants.length > 0 && random() < 0.35) {
+      names.add(createVariation(pick(merchants)));
+    } else {
+      const merchant = createMerchant();
+      merchants.push(merchant);
+      names.add(merchant);
+    }
+  }
+
+  return [...names].flatMap(name =>
+    Array.from({ length: 1 + Math.floor(random() * 5) }, (_, occurrence) => ({
+      id: `${name}-${occurrence}`,
+      date: '2024-01-01',
+      description: name,
+      store: name,
+      category: 'General',
+      cost: 10,
+      currency: 'USD',
+      shares: []
+    }))
+  );
+};
+
+/**
+ * Reference implementation comparing every pair of names, as the suggestions used to
+ */
+const pairwiseSimilarStores = (transactions: Transaction[]): StoreGrouping[] => {
+  const storeNames = [...new Set(transactions.map(t => t.description))];
+  const normalizedNames = storeNames.map(name => ({
+    original: name,
+    normalized: name.toLowerCase().replace(/[^\w\s]/g, '')
+  }));
+  const counts = new Map<string, number>();
+  transactions.forEach(t => counts.set(t.description, (counts.get(t.description) || 0) + 1));
+
+  const groups: StoreGrouping[] = [];
+  const processedNames = new Set<string>();
+
+  normalizedNames.forEach(({ original, normalized }) => {
+    if (processedNames.has(original)) return;
+
+    const similarNames = [original];
+    processedNames.add(original);
+
+    normalizedNames.forEach(({ original: other, normalized: otherNorm }) => {
+      if (original !== other && !processedNames.has(other)) {
+        const distance = levenshtein.get(normalized, otherNorm);
+        const similarity = 1 - distance / Math.max(normalized.length, otherNorm.length);
+        if (similarity > 0.8) {
+          similarNames.push(other);
+          processedNames.add(other);
+        }
+      }
+    });
+
+    if (similarNames.length > 1) {
+      const canonicalName = similarNames.reduce((best, name) =>
+        (counts.get(name) || 0) > (counts.get(best) || 0) ? name : best
+      );
+      groups.push({ canonicalName, variations: similarNames.filter(name => name !== canonicalName) });
+    }
+  });
+
+  return groups;
+};
+
+const time = <T>(run: () => T): { result: T; ms: number } => {
+  const start = process.hrtime.bigint();
+  const result = run();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+};
+
+const transactions = createFixture(DISTINCT_NAMES);
+console.log(`Fixture: ${DISTINCT_NAMES} distinct store names, ${transactions.length} transactions`);
+
+const verifyNames = new Set([...new Set(transactions.map(t => t.description))].slice(0, VERIFY_NAMES));
+const verifyTransactions = transactions.filter(t => verifyNames.has(t.description));
+const indexed = time(() => StoreAnalysisService.analyzeSimilarStores(verifyTransactions));
+const pairwise = time(() => pairwiseSimilarStores(verifyTransactions));
+const groupings = (groups: StoreGrouping[]) =>
+  JSON.stringify(groups.map(({ canonicalName, variations }) => ({ canonicalName, variations })));
+const matches = groupings(indexed.result) === groupings(pairwise.result);
+console.log(
+  `${VERIFY_NAMES} names: indexed ${indexed.ms.toFixed(0)} ms, pairwise ${pairwise.ms.toFixed(0)} ms, ` +
+  `${indexed.result.length} groups, ${matches ? 'identical' : 'DIFFERENT'} results`
+);
+
+const full = time(() => StoreAnalysisService.analyzeSimilarStores(transactions));
+console.log(`${DISTINCT_NAMES} names: indexed ${full.ms.toFixed(0)} ms, ${full.result.length} groups`);
+
+if (!matches) {
+  console.error('Indexed suggestions differ from the pairwise scan');
+  process.exit(1);
+}
+if (full.ms > TIME_BUDGET_MS) {
+  console.error(`Suggestions took longer than ${TIME_BUDGET_MS} ms`);
+  process.exit(1);
+}
@@ -13,12 +13,18 @@ import {
   parseISO,
   getDay
 } from 'date-fns';
-import { Transaction } from '../types/Transaction';
+import { Transaction, TotalBalance } from '../types/Transaction';
+import { StoreAttribute, StoreAttributeFilters, StoreMetadata } from '../types/StoreMetadata';
+import { StoreMetadataService } from './StoreMetadataService';
+import { CategoryLevel } from '../types/Category';
+import { CategoryTaxonomyService } from './CategoryTaxonomyService';
+import { MoneyService } from './MoneyService';
 import {
   PaymentPattern,
   StoreAnalytics,
   CategoryTrend,
   BalanceAnalytics,
+  BalanceReconciliation,
   SpendingHeatmap,
   BudgetIntelligence
 } from '../types/Analytics';
@@ -26,25 +32,10 @@ import {
 export class AdvancedAnalyticsService {
   
   /**
-   * Creates a reverse mapping from store variations to their canonical names
-   * Used throughout the service to normalize store names
+   * Drops settlement payments so only shared expenses count as spending
    */
-  private static createStoreMapping(storeMappings: { [canonicalName: string]: string[] }): Map<string, string> {
-    const storeToCanonical = new Map<string, string>();
-    Object.entries(storeMappings).forEach(([canonical, variations]) => {
-      storeToCanonical.set(canonical, canonical); // Map canonical to itself
-      variations.forEach(variation => {
-        storeToCanonical.set(variation, canonical);
-      });
-    });
-    return storeToCanonical;
-  }
-
-  /**
-   * Gets the canonical store name for a transaction description
-   */
-  private static getCanonicalStoreName(description: string, storeMapping: Map<string, string>): string {
-    return storeMapping.get(description) || description;
+  private static getExpenses(transactions: Transaction[]): Transaction[] {
+    return transactions.filter(t => t.kind !== 'settlement');
   }
 
   /**
@@ -60,15 +51,12 @@ export class AdvancedAnalyticsService {
    * Provides insights into individual spending behavior and preferences
    * 
    * @param transactions - Array of all transactions to analyze
-   * @param storeMappings - Store name mappings for normalization
    * @returns Array of payment patterns for each person
    */
-  static getPaymentPatterns(
-    transactions: Transaction[], 
-    storeMappings: { [canonical: string]: string[] }
-  ): PaymentPattern[] {
+  static getPaymentPatterns(transactions: Transaction[]): PaymentPattern[] {
     try {
-      const storeMapping = this.createStoreMapping(storeMappings);
+      transactions = this.getExpenses(transactions);
+
       const personMap = new Map<string, PaymentPattern>();
 
       // Initialize pattern data for each person
@@ -89,7 +77,7 @@ export class AdvancedAnalyticsService {
 
       // Accumulate data for each person
       transactions.forEach(transaction => {
-        const canonicalStore = this.getCanonicalStoreName(transaction.description, storeMapping);
+        const canonicalStore = transaction.store;
         const transactionDate = parseISO(transaction.date);
         const dayOfWeek = this.getDayName(getDay(transactionDate));
         const month = format(transactionDate, 'yyyy-MM');
@@ -118,7 +106,7 @@ export class AdvancedAnalyticsService {
         const storeData = new Map<string, { frequency: number; totalSpent: number }>();
         
         transactions.forEach(transaction => {
-          const canonicalStore = this.getCanonicalStoreName(transaction.description, storeMapping);
+          const canonicalStore = transaction.store;
           const personShare = transaction.shares.find(s => s.name === pattern.person);
           
           if (personShare) {
@@ -142,9 +130,7 @@ export class AdvancedAnalyticsService {
         );
         const totalSpent = Object.values(pattern.categoryBreakdown)
           .reduce((sum, cat) => sum + cat.amount, 0);
-        pattern.averageTransactionSize = personTransactions.length > 0 
-          ? totalSpent / personTransactions.length 
-          : 0;
+        pattern.averageTransactionSize = MoneyService.average(totalSpent, personTransactions.length);
 
         return pattern;
       });
@@ -159,58 +145,45 @@ export class AdvancedAnalyticsService {
    * Analyzes visit patterns, spending trends, and popularity metrics
    * 
    * @param transactions - Array of all transactions to analyze
-   * @param storeMappings - Store name mappings for normalization
+   * @param storeMetadata - Details of canonical stores, used for grouping and filtering
+   * @param options - groupBy combines stores sharing an attribute value (a store with several
+   *   tags counts towards each); filters keep only stores with the given attribute values
    * @returns Array of store analytics
    */
   static getStoreAnalytics(
-    transactions: Transaction[], 
-    storeMappings: { [canonical: string]: string[] }
+    transactions: Transaction[],
+    storeMetadata: StoreMetadata[] = [],
+    options: { groupBy?: StoreAttribute; filters?: StoreAttributeFilters } = {}
   ): StoreAnalytics[] {
     try {
-      const storeMapping = this.createStoreMapping(storeMappings);
+      const lookup = StoreMetadataService.createLookup(storeMetadata);
+      const { groupBy, filters = {} } = options;
+      transactions = this.getExpenses(transactions)
+        .filter(transaction => StoreMetadataService.matchesFilters(lookup.get(transaction.store), filters));
+
       const storeMap = new Map<string, StoreAnalytics>();
+      const transactionsByStore = new Map<string, Transaction[]>();
 
-      // Group transactions by canonical store name
+      // Group transactions by canonical store name, or by attribute value
       transactions.forEach(transaction => {
-        const canonicalStore = this.getCanonicalStoreName(transaction.description, storeMapping);
-        
-        if (!storeMap.has(canonicalStore)) {
-          storeMap.set(canonicalStore, {
-            storeName: canonicalStore,
-            visitFrequency: 0,
-            averageSpend: 0,
-            totalSpent: 0,
-            popularDays: [],
-            categories: [],
-            firstVisited: transaction.date,
-            lastVisited: transaction.date,
-            monthlyTrend: []
-          });
-        }
-
-        const analytics = storeMap.get(canonicalStore)!;
-        analytics.visitFrequency += 1;
-        analytics.totalSpent += transaction.cost;
-        
-        // Update date range
-        if (transaction.date < analytics.firstVisited) {
-          analytics.firstVisited = transaction.date;
-        }
-        if (transaction.date > analytics.lastVisited) {
-          analytics.lastVisited = transaction.date;
-        }
+        const keys = groupBy
+          ? StoreMetadataService.getGroupLabels(lookup.get(transaction.store), groupBy)
+          : [transaction.store];
+        keys.forEach(key => this.addStoreVisit(storeMap, transactionsByStore, key, transaction));
       });
 
       // Calculate derived metrics for each store
       return Array.from(storeMap.values()).map(analytics => {
-        const storeTransactions = transactions.filter(t => 
-          this.getCanonicalStoreName(t.description, storeMapping) === analytics.storeName
-        );
+        const storeTransactions = transactionsByStore.get(analytics.storeName)!;
+
+        if (groupBy) {
+          analytics.stores = [...new Set(storeTransactions.map(t => t.store))];
+        } else {
+          analytics.metadata = lookup.get(analytics.storeName);
+        }
 
         // Calculate average spend
-        analytics.averageSpend = analytics.visitFrequency > 0 
-          ? analytics.totalSpent / analytics.visitFrequency 
-          : 0;
+        analytics.averageSpend = MoneyService.average(analytics.totalSpent, analytics.visitFrequency);
 
         // Get unique categories
         analytics.categories = [...new Set(storeTransactions.map(t => t.category))];
@@ -250,26 +223,63 @@ export class AdvancedAnalyticsService {
     }
   }
 
+  /**
+   * Counts a visit towards a store's totals and date range, creating its entry on the first visit
+   */
+  private static addStoreVisit(
+    storeMap: Map<string, StoreAnalytics>,
+    transactionsByStore: Map<string, Transaction[]>,
+    storeName: string,
+    transaction: Transaction
+  ): void {
+    if (!storeMap.has(storeName)) {
+      storeMap.set(storeName, {
+        storeName,
+        visitFrequency: 0,
+        averageSpend: 0,
+        totalSpent: 0,
+        popularDays: [],
+        categories: [],
+        firstVisited: transaction.date,
+        lastVisited: transaction.date,
+        monthlyTrend: []
+      });
+      transactionsByStore.set(storeName, []);
+    }
+
+    const analytics = storeMap.get(storeName)!;
+    analytics.visitFrequency += 1;
+    analytics.totalSpent += transaction.cost;
+    transactionsByStore.get(storeName)!.push(transaction);
+
+    // Update date range
+    if (transaction.date < analytics.firstVisited) {
+      analytics.firstVisited = transaction.date;
+    }
+    if (transaction.date > analytics.lastVisited) {
+      analytics.lastVisited = transaction.date;
+    }
+  }
+
   /**
    * Analyzes trends for each spending category
    * Identifies growth patterns, transaction characteristics, and store preferences
    * 
    * @param transactions - Array of all transactions to analyze
-   * @param storeMappings - Store name mappings for normalization
+   * @param level - Whether to analyze each category or roll categories up into their parent groups
    * @returns Array of category trends
    */
-  static getCategoryTrends(
-    transactions: Transaction[], 
-    storeMappings: { [canonical: string]: string[] }
-  ): CategoryTrend[] {
+  static getCategoryTrends(transactions: Transaction[], level: CategoryLevel = 'category'): CategoryTrend[] {
     try {
-      const storeMapping = this.createStoreMapping(storeMappings);
+      transactions = this.getExpenses(transactions);
+      const keyOf = (transaction: Transaction) => CategoryTaxonomyService.getCategoryKey(transaction, level);
+
       const categoryMap = new Map<string, CategoryTrend>();
 
       // Initialize category data
-      const categories = [...new Set(transactions.map(t => t.category))];
+      const categories = [...new Set(transactions.map(keyOf))];
       categories.forEach(category => {
-        const categoryTransactions = transactions.filter(t => t.category === category);
+        const categoryTransactions = transactions.filter(t => keyOf(t) === category);
         if (categoryTransactions.length === 0) return;
 
         // Find largest and smallest transactions
@@ -277,6 +287,9 @@ export class AdvancedAnalyticsService {
         
         categoryMap.set(category, {
           category,
+          ...(level === 'parent'
+            ? { subcategories: [...new Set(categoryTransactions.map(t => t.category))].sort() }
+            : { parentCategory: categoryTransactions[0].parentCategory }),
           monthlySpend: [],
           growthRate: 0,
           largestTransaction: sortedByAmount[0],
@@ -289,7 +302,7 @@ export class AdvancedAnalyticsService {
 
       // Calculate monthly spending and other metrics
       categoryMap.forEach((trend, category) => {
-        const categoryTransactions = transactions.filter(t => t.category === category);
+        const categoryTransactions = transactions.filter(t => keyOf(t) === category);
         
         // Monthly spending calculation
         const monthlyData = new Map<string, { amount: number; count: number }>();
@@ -320,14 +333,12 @@ export class AdvancedAnalyticsService {
 
         // Average transaction size
         const totalAmount = categoryTransactions.reduce((sum, t) => sum + t.cost, 0);
-        trend.averageTransactionSize = categoryTransactions.length > 0 
-          ? totalAmount / categoryTransactions.length 
-          : 0;
+        trend.averageTransactionSize = MoneyService.average(totalAmount, categoryTransactions.length);
 
         // Common stores for this category
         const storeData = new Map<string, { amount: number; frequency: number }>();
         categoryTransactions.forEach(transaction => {
-          const canonicalStore = this.getCanonicalStoreName(transaction.description, storeMapping);
+          const canonicalStore = transaction.store;
           if (!storeData.has(canonicalStore)) {
             storeData.set(canonicalStore, { amount: 0, frequency: 0 });
           }
@@ -403,6 +414,26 @@ export class AdvancedAnalyticsService {
       // Set current balances
       Object.assign(currentBalance, runningBalances);
 
+      // Record who settled up with whom; the payer's share is positive, the recipients' negative
+      const settlementHistory: BalanceAnalytics['settlementHistory'] = [];
+      sortedTransactions
+        .filter(transaction => transaction.kind === 'settlement')
+        .forEach(transaction => {
+          const payer = [...transaction.shares].sort((a, b) => b.amount - a.amount)[0];
+          if (!payer || payer.amount <= 0) return;
+
+          transaction.shares
+            .filter(share => share.amount < 0)
+            .forEach(share => {
+              settlementHistory.push({
+                date: transaction.date,
+                from: payer.name,
+                to: share.name,
+                amount: Math.abs(share.amount)
+              });
+            });
+        });
+
       // Calculate monthly balance changes
       const monthlyChanges = new Map<string, { [person: string]: number }>();
       sortedTransactions.forEach(transaction => {
@@ -458,7 +489,8 @@ export class AdvancedAnalyticsService {
         balanceHistory,
         monthlyBalanceChange,
         paymentFrequency,
-        largestImbalancePeriod
+        largestImbalancePeriod,
+        settlementHistory
       };
     } catch (error) {
       console.error('Error calculating balance analytics:', error);
@@ -467,11 +499,42 @@ export class AdvancedAnalyticsService {
         balanceHistory: [],
         monthlyBalanceChange: [],
         paymentFrequency: {},
-        largestImbalancePeriod: { start: '', end: '', maxImbalance: 0 }
+        largestImbalancePeriod: { start: '', end: '', maxImbalance: 0 },
+        settlementHistory: []
       };
     }
   }
 
+  /**
+   * Compares the balances computed from transactions against the totals
+   * Splitwise reports in its "Total balance" footer row
+   * 
+   * @param transactions - Array of all transactions to analyze
+   * @param totalBalance - Totals parsed from the export footer
+   * @returns Per-person reconciliation result
+   */
+  static reconcileBalances(transactions: Transaction[], totalBalance: TotalBalance): BalanceReconciliation {
+    const { currentBalance } = this.getBalanceAnalytics(transactions);
+    const people = [...new Set([...Object.keys(totalBalance.balances), ...Object.keys(currentBalance)])];
+    const mismatches: BalanceReconciliation['mismatches'] = [];
+
+    people.forEach(person => {
+      const expected = totalBalance.balances[person] || 0;
+      const computed = currentBalance[person] || 0;
+      const difference = computed - expected;
+
+      // Amounts are whole cents, so any difference is a real mismatch
+      if (difference !== 0) {
+        mismatches.push({ person, expected, computed, difference });
+      }
+    });
+
+    return {
+      reconciled: mismatches.length === 0,
+      mismatches
+    };
+  }
+
   /**
    * Creates spending heatmap data for calendar visualization
    * Groups transactions by date with additional calendar metadata
@@ -485,6 +548,8 @@ export class AdvancedAnalyticsService {
     dateRange?: { start: string; end: string }
   ): SpendingHeatmap[] {
     try {
+      transactions = this.getExpenses(transactions);
+
       let filteredTransactions = transactions;
       
       // Apply date range filter if provided
@@ -533,14 +598,12 @@ export class AdvancedAnalyticsService {
    * Uses statistical analysis to suggest budgets and identify unusual spending
    * 
    * @param transactions - Array of all transactions to analyze
-   * @param storeMappings - Store name mappings for normalization
    * @returns Budget intelligence insights
    */
-  static getBudgetIntelligence(
-    transactions: Transaction[], 
-    storeMappings: { [canonical: string]: string[] }
-  ): BudgetIntelligence {
+  static getBudgetIntelligence(transactions: Transaction[]): BudgetIntelligence {
     try {
+      transactions = this.getExpenses(transactions);
+
       const categoryRecommendations: BudgetIntelligence['categoryRecommendations'] = [];
       const anomalies: BudgetIntelligence['anomalies'] = [];
       const predictedNextMonthSpending: BudgetIntelligence['predictedNextMonthSpending'] = [];
@@ -560,9 +623,7 @@ export class AdvancedAnalyticsService {
         });
 
         const monthlyAmounts = Array.from(monthlyData.values());
-        const currentMonthlyAverage = monthlyAmounts.length > 0 
-          ? monthlyAmounts.reduce((sum, amount) => sum + amount, 0) / monthlyAmounts.length 
-          : 0;
+        const currentMonthlyAverage = MoneyService.average(MoneyService.sum(monthlyAmounts), monthlyAmounts.length);
 
         // Determine trend
         let trend: 'increasing' | 'decreasing' | 'stable' = 'stable';
@@ -575,7 +636,7 @@ export class AdvancedAnalyticsService {
         }
 
         // Calculate suggested budget (add 20% buffer to average)
-        const suggestedBudget = currentMonthlyAverage * 1.2;
+        const suggestedBudget = MoneyService.scale(currentMonthlyAverage, 1.2);
         
         // Calculate confidence based on data consistency
         const variance = monthlyAmounts.length > 1 
@@ -593,8 +654,8 @@ export class AdvancedAnalyticsService {
 
         // Predict next month spending based on trend
         let predictedAmount = currentMonthlyAverage;
-        if (trend === 'increasing') predictedAmount *= 1.1;
-        else if (trend === 'decreasing') predictedAmount *= 0.9;
+        if (trend === 'increasing') predictedAmount = MoneyService.scale(predictedAmount, 1.1);
+        else if (trend === 'decreasing') predictedAmount = MoneyService.scale(predictedAmount, 0.9);
 
         predictedNextMonthSpending.push({
           category,
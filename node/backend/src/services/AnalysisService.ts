@@ -1,30 +1,35 @@
-import { Transaction, AnalysisFilters, SpendingData, DatasetMetadata } from '../types/Transaction';
+import {
+  Transaction,
+  AnalysisFilters,
+  SpendingData,
+  SpendingDimension,
+  DatasetMetadata
+} from '../types/Transaction';
+import { StoreMetadata } from '../types/StoreMetadata';
+import { CurrencySummary } from '../types/Currency';
+import { Cents } from '../types/Money';
+import { StoreMetadataService } from './StoreMetadataService';
+import { CategoryTaxonomyService } from './CategoryTaxonomyService';
+
+/** Group of transactions without tags when spending is grouped by tag */
+export const UNTAGGED_LABEL = 'Untagged';
 
 export class AnalysisService {
-  /**
-   * Creates a reverse mapping from store variations to their canonical names
-   */
-  private static createStoreMapping(storeMappings: { [canonicalName: string]: string[] }): Map<string, string> {
-    const storeToCanonical = new Map<string, string>();
-    Object.entries(storeMappings).forEach(([canonical, variations]) => {
-      storeToCanonical.set(canonical, canonical); // Map canonical to itself
-      variations.forEach(variation => {
-        storeToCanonical.set(variation, canonical);
-      });
-    });
-    return storeToCanonical;
-  }
-
   /**
    * Get metadata about the dataset for populating filters
-   * Returns all unique stores from transactions
+   * Returns all unique canonical stores from transactions, with the attribute values of their details,
+   * and the currency amounts are reported in
    */
-  static getMetadata(transactions: Transaction[], storeMappings: { [canonicalName: string]: string[] }): DatasetMetadata {
+  static getMetadata(
+    transactions: Transaction[],
+    storeMetadata: StoreMetadata[],
+    currency: CurrencySummary
+  ): DatasetMetadata {
     const people = [...new Set(transactions.flatMap(t => t.shares.map(s => s.name)))];
     const categories = [...new Set(transactions.map(t => t.category))];
     
     // Get all unique store names from transactions
-    const stores = [...new Set(transactions.map(t => t.description))];
+    const stores = [...new Set(transactions.map(t => t.store))];
     
     const dates = transactions.map(t => t.date).sort();
     const dateRange = {
@@ -35,23 +40,32 @@ export class AnalysisService {
     return {
       people,
       categories,
+      categoryGroups: CategoryTaxonomyService.getCategoryGroups(transactions),
+      currency,
       stores,
+      storeAttributes: StoreMetadataService.getAttributeOptions(
+        stores,
+        StoreMetadataService.createLookup(storeMetadata)
+      ),
+      tags: [...new Set(transactions.flatMap(t => t.tags ?? []))].sort(),
       dateRange
     };
   }
 
   /**
    * Filter transactions based on provided criteria
-   * Matches against both canonical store names (from mappings) and original store names
+   * Matches against both canonical store names and original descriptions
+   * Store attribute filters are matched against the details of the canonical store
    */
   private static filterTransactions(
     transactions: Transaction[],
     filters: AnalysisFilters,
-    storeMappings: { [canonicalName: string]: string[] }
+    storeMetadata: Map<string, StoreMetadata>
   ): Transaction[] {
-    const storeToCanonical = this.createStoreMapping(storeMappings);
-
     return transactions.filter(transaction => {
+      // Settlements are payments between people, not spending
+      if (!filters.includeSettlements && transaction.kind === 'settlement') return false;
+
       // Date range filter
       if (filters.startDate && transaction.date < filters.startDate) return false;
       if (filters.endDate && transaction.date > filters.endDate) return false;
@@ -60,23 +74,30 @@ export class AnalysisService {
       if (filters.categories?.length && !filters.categories.includes(transaction.category)) {
         return false;
       }
+      if (filters.parentCategories?.length &&
+          !filters.parentCategories.includes(CategoryTaxonomyService.getCategoryKey(transaction, 'parent'))) {
+        return false;
+      }
 
       // Store filter - match against both canonical and original store names
       if (filters.stores?.length) {
-        const canonicalName = storeToCanonical.get(transaction.description);
-        const originalStoreName = transaction.description;
-        
-        // Match if the filter includes either:
-        // 1. The canonical name (for mapped stores)
-        // 2. The original store name (for unmapped stores)
-        const matchesFilter = filters.stores.includes(canonicalName || '') || 
-                             filters.stores.includes(originalStoreName);
-        
+        const matchesFilter = filters.stores.includes(transaction.store) ||
+                             filters.stores.includes(transaction.description);
+
         if (!matchesFilter) {
           return false;
         }
       }
 
+      if (!StoreMetadataService.matchesFilters(storeMetadata.get(transaction.store), filters)) {
+        return false;
+      }
+
+      // Tag filter - any of the tags
+      if (filters.tags?.length && !transaction.tags?.some(tag => filters.tags!.includes(tag))) {
+        return false;
+      }
+
       // People filter
       if (filters.people?.length) {
         const transactionPeople = transaction.shares.map(s => s.name);
@@ -95,11 +116,11 @@ export class AnalysisService {
   static getSpendingOverTime(
     transactions: Transaction[],
     filters: AnalysisFilters,
-    storeMappings: { [canonicalName: string]: string[] },
-    interval: 'day' | 'week' | 'month' = 'day'
+    interval: 'day' | 'week' | 'month' = 'day',
+    storeMetadata: StoreMetadata[] = []
   ): SpendingData[] {
-    const filtered = this.filterTransactions(transactions, filters, storeMappings);
-    const groupedData = new Map<string, number>();
+    const filtered = this.filterTransactions(transactions, filters, StoreMetadataService.createLookup(storeMetadata));
+    const groupedData = new Map<string, Cents>();
 
     filtered.forEach(transaction => {
       let groupKey = transaction.date; // For daily grouping
@@ -123,20 +144,20 @@ export class AnalysisService {
   }
 
   /**
-   * Group spending by a specific dimension (category, store, or person)
-   * For stores, shows both canonical names (from mappings) and original store names
+   * Group spending by a specific dimension (category, parent category group, store, person, tag or a store attribute)
+   * Stores are grouped by their canonical names; stores without a value for an attribute are
+   * grouped as "Unassigned", and a store with several tags counts towards each of them
+   * Transactions without tags are grouped as "Untagged", and one with several tags counts towards each of them
    */
   static getSpendingBy(
     transactions: Transaction[],
     filters: AnalysisFilters,
-    storeMappings: { [canonicalName: string]: string[] },
-    dimension: 'category' | 'store' | 'person'
+    dimension: SpendingDimension,
+    storeMetadata: StoreMetadata[] = []
   ): SpendingData[] {
-    const filtered = this.filterTransactions(transactions, filters, storeMappings);
-    const groupedData = new Map<string, number>();
-
-    // Create reverse mapping for store names if needed
-    const storeToCanonical = dimension === 'store' ? this.createStoreMapping(storeMappings) : null;
+    const lookup = StoreMetadataService.createLookup(storeMetadata);
+    const filtered = this.filterTransactions(transactions, filters, lookup);
+    const groupedData = new Map<string, Cents>();
 
     filtered.forEach(transaction => {
       if (dimension === 'person') {
@@ -145,18 +166,26 @@ export class AnalysisService {
           const currentAmount = groupedData.get(share.name) || 0;
           groupedData.set(share.name, currentAmount + share.amount);
         });
-      } else {
-        // Handle category or store grouping
-        let key;
-        if (dimension === 'category') {
-          key = transaction.category;
-        } else { // store
-          // Use canonical name if available, otherwise use original store name
-          const canonicalName = storeToCanonical?.get(transaction.description);
-          key = canonicalName || transaction.description;
-        }
+      } else if (dimension === 'category' || dimension === 'parentCategory') {
+        const key = CategoryTaxonomyService.getCategoryKey(
+          transaction,
+          dimension === 'parentCategory' ? 'parent' : 'category'
+        );
         const currentAmount = groupedData.get(key) || 0;
         groupedData.set(key, currentAmount + transaction.cost);
+      } else if (dimension === 'tag') {
+        (transaction.tags?.length ? transaction.tags : [UNTAGGED_LABEL]).forEach(tag => {
+          const currentAmount = groupedData.get(tag) || 0;
+          groupedData.set(tag, currentAmount + transaction.cost);
+        });
+      } else if (dimension !== 'store') {
+        StoreMetadataService.getGroupLabels(lookup.get(transaction.store), dimension).forEach(label => {
+          const currentAmount = groupedData.get(label) || 0;
+          groupedData.set(label, currentAmount + transaction.cost);
+        });
+      } else {
+        const currentAmount = groupedData.get(transaction.store) || 0;
+        groupedData.set(transaction.store, currentAmount + transaction.cost);
       }
     });
 
@@ -167,36 +196,23 @@ export class AnalysisService {
 
   /**
    * Get detailed transaction data with optional filters
-   * Shows canonical store names for mapped stores
+   * Each transaction carries both its original description and canonical store
    */
   static getDetailedTransactions(
     transactions: Transaction[],
     filters: AnalysisFilters,
-    storeMappings: { [canonicalName: string]: string[] },
     page: number = 1,
-    pageSize: number = 20
+    pageSize: number = 20,
+    storeMetadata: StoreMetadata[] = []
   ): { transactions: Transaction[]; total: number } {
-    const filtered = this.filterTransactions(transactions, filters, storeMappings);
-    const storeToCanonical = this.createStoreMapping(storeMappings);
-
-    // Replace store names with their canonical names where applicable
-    const transformedTransactions = filtered.map(transaction => {
-      const canonicalName = storeToCanonical.get(transaction.description);
-      if (canonicalName) {
-        return {
-          ...transaction,
-          description: canonicalName
-        };
-      }
-      return transaction;
-    });
+    const filtered = this.filterTransactions(transactions, filters, StoreMetadataService.createLookup(storeMetadata));
 
     const start = (page - 1) * pageSize;
     const end = start + pageSize;
 
     return {
-      transactions: transformedTransactions.slice(start, end),
-      total: transformedTransactions.length
+      transactions: filtered.slice(start, end),
+      total: filtered.length
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types/Transaction';
+import { CategoryClassifierService } from './CategoryClassifierService';
+
+const transactionAt = (store: string, category: string, day: number, description = store): Transaction => ({
+  id: `t${day}`,
+  date: `2025-01-${String(day).padStart(2, '0')}`,
+  description,
+  store,
+  category,
+  cost: 1000 + day,
+  currency: 'USD',
+  shares: []
+});
+
+const HISTORY = [
+  transactionAt("Trader Joe's", 'Groceries', 1),
+  transactionAt("Trader Joe's", 'Groceries', 2),
+  transactionAt("Trader Joe's", 'Groceries', 3),
+  transactionAt("Trader Joe's", 'Groceries', 4),
+  transactionAt('Mayuri', 'Dining out', 5),
+  transactionAt('Mayuri', 'Dining out', 6),
+  transactionAt('Mayuri', 'Dining out', 7)
+];
+
+describe('CategoryClassifierService', () => {
+  describe('getSuggestions', () => {
+    it('suggests the category of the store for uncategorized transactions', () => {
+      const uncategorized = transactionAt("Trader Joe's", '', 8);
+      const [suggestion, ...rest] = CategoryClassifierService.getSuggestions([...HISTORY, uncategorized]);
+
+      expect(rest).toEqual([]);
+      expect(suggestion).toMatchObject({
+        transaction: uncategorized,
+        reason: 'uncategorized',
+        suggestedCategory: 'Groceries'
+      });
+    });
+
+    it('flags a category that disagrees with the store history', () => {
+      const suggestions = CategoryClassifierService.getSuggestions([...HISTORY, transactionAt("Trader Joe's", 'Dining out', 8)]);
+
+      expect(suggestions.map(({ reason, suggestedCategory }) => ({ reason, suggestedCategory }))).toEqual([
+        { reason: 'miscategorized', suggestedCategory: 'Groceries' }
+      ]);
+    });
+
+    it('does not flag stores with too little history', () => {
+      const transactions = [...HISTORY.slice(0, 2), ...HISTORY.slice(4), transactionAt("Trader Joe's", 'Dining out', 8)];
+
+      expect(CategoryClassifierService.getSuggestions(transactions)).toEqual([]);
+    });
+
+    it('leaves out suggestions that were rejected', () => {
+      const uncategorized = transactionAt("Trader Joe's", '', 8);
+      const rejected = [{ transactionId: uncategorized.id, category: 'Groceries' }];
+
+      expect(CategoryClassifierService.getSuggestions([...HISTORY, uncategorized], rejected)).toEqual([]);
+    });
+
+    it('keeps leaving out a rejected suggestion after the transaction is edited', () => {
+      const uncategorized = transactionAt("Trader Joe's", '', 8);
+      const edited = { ...uncategorized, date: '2025-01-09', description: "TRADER JOE'S #552", cost: 2500 };
+      const rejected = [{ transactionId: uncategorized.id, category: 'Groceries' }];
+
+      expect(CategoryClassifierService.getSuggestions([...HISTORY, edited], rejected)).toEqual([]);
+    });
+
+    it('suggests nothing without categorized transactions to learn from', () => {
+      expect(CategoryClassifierService.getSuggestions([transactionAt("Trader Joe's", '', 1)])).toEqual([]);
+    });
+  });
+
+  describe('applySuggestions', () => {
+    it('sets the accepted category and keeps the imported one', () => {
+      const transaction = transactionAt("Trader Joe's", 'Dining out', 8);
+      const { transactions, updated } = CategoryClassifierService.applySuggestions(
+        [transaction],
+        [{ transactionId: transaction.id, category: 'Groceries' }]
+      );
+
+      expect(updated).toBe(1);
+      expect(transactions[0]).toMatchObject({ category: 'Groceries', originalCategory: 'Dining out' });
+    });
+
+    it('updates only the accepted one of two identical transactions', () => {
+      const transaction = transactionAt("Trader Joe's", '', 8);
+      const { transactions, updated } = CategoryClassifierService.applySuggestions(
+        [transaction, { ...transaction, id: 't9' }],
+        [{ transactionId: transaction.id, category: 'Groceries' }]
+      );
+
+      expect(updated).toBe(1);
+      expect(transactions.map(t => t.category)).toEqual(['Groceries', '']);
+    });
+  });
+});
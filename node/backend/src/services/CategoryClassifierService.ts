@@ -0,0 +1,238 @@
+import { Transaction } from '../types/Transaction';
+import { CategorySuggestion } from '../types/Category';
+
+/**
+ * Category counts learned from a dataset's categorized expenses
+ */
+interface CategoryModel {
+  /** Number of training transactions per category */
+  categoryCounts: Map<string, number>;
+  /** How often each feature occurs per category */
+  featureCounts: Map<string, Map<string, number>>;
+  /** Total number of features per category */
+  featureTotals: Map<string, number>;
+  /** Distinct features seen, for smoothing */
+  vocabularySize: number;
+}
+
+interface Prediction {
+  category: string;
+  confidence: number;
+}
+
+/** The canonical store says more about a category than any single description word */
+const STORE_FEATURE_WEIGHT = 3;
+
+/** Lowest confidence suggested for a transaction without a category */
+const MIN_UNCATEGORIZED_CONFIDENCE = 0.4;
+
+/** Lowest confidence at which a categorized transaction is flagged as likely miscategorized */
+const MIN_MISCATEGORIZED_CONFIDENCE = 0.8;
+
+/** Other transactions the store needs before its history can overrule an imported category */
+const MIN_STORE_HISTORY = 3;
+
+/** Description words too short or common to say anything about the category */
+const MIN_TOKEN_LENGTH = 3;
+
+/**
+ * Local naive Bayes classifier trained on the dataset's own store → category history and description words
+ * Suggests categories for transactions imported without one and flags those whose category disagrees
+ * strongly with the rest of the dataset
+ */
+export class CategoryClassifierService {
+  /**
+   * Suggests categories for the dataset's expenses, most confident first
+   * @param rejected - Suggestions the user already turned down
+   */
+  static getSuggestions(
+    transactions: Transaction[],
+    rejected: { transactionId: string; category: string }[] = []
+  ): CategorySuggestion[] {
+    const rejectedKeys = new Set(
+      rejected.map(({ transactionId, category }) => this.getReviewKey(transactionId, category))
+    );
+    const expenses = transactions.filter(t => t.kind !== 'settlement');
+    const training = expenses.filter(t => t.category.trim());
+    const model = this.train(training);
+    if (model.categoryCounts.size === 0) return [];
+
+    const storeHistory = this.countStoreCategories(training);
+    const suggestions: CategorySuggestion[] = [];
+
+    expenses.forEach(transaction => {
+      const current = transaction.category.trim();
+      // A transaction must not vote for its own category when it is being checked
+      const prediction = this.predict(model, transaction, current ? transaction : undefined);
+      if (!prediction || prediction.category === current) return;
+
+      if (rejectedKeys.has(this.getReviewKey(transaction.id, prediction.category))) return;
+
+      const history = storeHistory.get(transaction.store);
+      const storeTotal = history
+        ? [...history.values()].reduce((sum, count) => sum + count, 0) - (current ? 1 : 0)
+        : 0;
+
+      if (!current) {
+        if (prediction.confidence < MIN_UNCATEGORIZED_CONFIDENCE) return;
+      } else if (prediction.confidence < MIN_MISCATEGORIZED_CONFIDENCE || storeTotal < MIN_STORE_HISTORY) {
+        return;
+      }
+
+      suggestions.push({
+        transactionId: transaction.id,
+        transaction,
+        reason: current ? 'miscategorized' : 'uncategorized',
+        suggestedCategory: prediction.category,
+        confidence: Math.round(prediction.confidence * 100) / 100,
+        explanation: this.explain(model, transaction, prediction.category, storeTotal, history)
+      });
+    });
+
+    return suggestions.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Sets the accepted categories on the transactions, keeping the imported category
+   * A transaction accepted more than once gets the last category accepted for it
+   */
+  static applySuggestions(
+    transactions: Transaction[],
+    accepted: { transactionId: string; category: string }[]
+  ): { transactions: Transaction[]; updated: number } {
+    const pending = new Map(accepted.map(({ transactionId, category }) => [transactionId, category]));
+
+    let updated = 0;
+    const result = transactions.map(transaction => {
+      const category = pending.get(transaction.id);
+      if (category === undefined || category === transaction.category) return transaction;
+
+      updated++;
+      return {
+        ...transaction,
+        category,
+        originalCategory: transaction.originalCategory ?? transaction.category
+      };
+    });
+
+    return { transactions: result, updated };
+  }
+
+  /**
+   * Identifies a reviewed suggestion: one category for one transaction
+   */
+  private static getReviewKey(transactionId: string, category: string): string {
+    return `${transactionId}\u0000${category}`;
+  }
+
+  private static train(transactions: Transaction[]): CategoryModel {
+    const model: CategoryModel = {
+      categoryCounts: new Map(),
+      featureCounts: new Map(),
+      featureTotals: new Map(),
+      vocabularySize: 0
+    };
+    const vocabulary = new Set<string>();
+
+    transactions.forEach(transaction => {
+      const category = transaction.category.trim();
+      model.categoryCounts.set(category, (model.categoryCounts.get(category) || 0) + 1);
+
+      const counts = model.featureCounts.get(category) || new Map<string, number>();
+      model.featureCounts.set(category, counts);
+      this.getFeatures(transaction).forEach(([feature, weight]) => {
+        vocabulary.add(feature);
+        counts.set(feature, (counts.get(feature) || 0) + weight);
+        model.featureTotals.set(category, (model.featureTotals.get(category) || 0) + weight);
+      });
+    });
+
+    model.vocabularySize = vocabulary.size;
+    return model;
+  }
+
+  /**
+   * Most likely category with its posterior probability
+   * @param excluded - Training transaction left out of the counts
+   */
+  private static predict(model: CategoryModel, transaction: Transaction, excluded?: Transaction): Prediction | null {
+    const features = this.getFeatures(transaction);
+    const excludedCategory = excluded?.category.trim();
+    const totalCount = [...model.categoryCounts.values()].reduce((sum, count) => sum + count, 0)
+      - (excluded ? 1 : 0);
+
+    const scores: [string, number][] = [];
+    model.categoryCounts.forEach((count, category) => {
+      const own = category === excludedCategory;
+      const categoryCount = count - (own ? 1 : 0);
+      if (categoryCount <= 0) return;
+
+      const featureCounts = model.featureCounts.get(category)!;
+      const featureTotal = (model.featureTotals.get(category) || 0)
+        - (own ? features.reduce((sum, [, weight]) => sum + weight, 0) : 0);
+
+      let score = Math.log(categoryCount / totalCount);
+      features.forEach(([feature, weight]) => {
+        const featureCount = (featureCounts.get(feature) || 0) - (own ? weight : 0);
+        score += weight * Math.log((featureCount + 1) / (featureTotal + model.vocabularySize));
+      });
+      scores.push([category, score]);
+    });
+    if (scores.length === 0) return null;
+
+    // Normalize the log scores into probabilities without overflowing
+    const best = Math.max(...scores.map(([, score]) => score));
+    const total = scores.reduce((sum, [, score]) => sum + Math.exp(score - best), 0);
+    const [category, score] = scores.reduce((top, entry) => entry[1] > top[1] ? entry : top);
+    return { category, confidence: Math.exp(score - best) / total };
+  }
+
+  /**
+   * Weighted features of a transaction: its canonical store and the words of its description
+   */
+  private static getFeatures(transaction: Transaction): [string, number][] {
+    const words = new Set(
+      transaction.description.toLowerCase().split(/[^\p{L}]+/u).filter(word => word.length >= MIN_TOKEN_LENGTH)
+    );
+    return [
+      [`store:${transaction.store.toLowerCase()}`, STORE_FEATURE_WEIGHT],
+      ...[...words].map(word => [`word:${word}`, 1] as [string, number])
+    ];
+  }
+
+  private static countStoreCategories(transactions: Transaction[]): Map<string, Map<string, number>> {
+    const history = new Map<string, Map<string, number>>();
+    transactions.forEach(transaction => {
+      const counts = history.get(transaction.store) || new Map<string, number>();
+      history.set(transaction.store, counts);
+      const category = transaction.category.trim();
+      counts.set(category, (counts.get(category) || 0) + 1);
+    });
+    return history;
+  }
+
+  /**
+   * Describes the strongest evidence for a suggestion: the store's history, or else shared description words
+   */
+  private static explain(
+    model: CategoryModel,
+    transaction: Transaction,
+    category: string,
+    storeTotal: number,
+    history: Map<string, number> | undefined
+  ): string {
+    const matching = history?.get(category) || 0;
+    if (storeTotal > 0 && matching > 0) {
+      return `${matching} of ${storeTotal} other transactions at ${transaction.store} are ${category}`;
+    }
+
+    const featureCounts = model.featureCounts.get(category);
+    const words = this.getFeatures(transaction)
+      .map(([feature]) => feature)
+      .filter(feature => feature.startsWith('word:') && featureCounts?.has(feature))
+      .map(feature => `"${feature.slice('word:'.length)}"`);
+    return words.length > 0
+      ? `Descriptions with ${words.join(', ')} are usually ${category}`
+      : `${category} is the most common category`;
+  }
+}
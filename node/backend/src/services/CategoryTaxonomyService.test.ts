@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types/Transaction';
+import { CategoryTaxonomyService, UNCATEGORIZED_LABEL } from './CategoryTaxonomyService';
+
+const transactionIn = (category: string, originalCategory?: string): Transaction => ({
+  id: 't1',
+  date: '2025-01-01',
+  description: 'Lunch',
+  store: 'Mayuri',
+  category,
+  originalCategory,
+  cost: 1200,
+  currency: 'USD',
+  shares: []
+});
+
+const TAXONOMY = {
+  remappings: { 'Life - Other': 'Other' },
+  parents: { 'Dining out': 'Food' }
+};
+
+describe('CategoryTaxonomyService.applyTaxonomy', () => {
+  it('shows remapped categories and records the imported one', () => {
+    const [transaction] = CategoryTaxonomyService.applyTaxonomy([transactionIn('Life - Other')], TAXONOMY);
+
+    expect(transaction).toMatchObject({ category: 'Other', originalCategory: 'Life - Other', parentCategory: 'Other' });
+  });
+
+  it('rolls categories up into their parent group', () => {
+    const [transaction] = CategoryTaxonomyService.applyTaxonomy([transactionIn('Dining out')], TAXONOMY);
+
+    expect(transaction).toMatchObject({ category: 'Dining out', parentCategory: 'Food' });
+    expect(transaction.originalCategory).toBeUndefined();
+  });
+
+  it('shows blank categories as uncategorized without recording them', () => {
+    const [transaction] = CategoryTaxonomyService.applyTaxonomy([transactionIn(' ')], TAXONOMY);
+
+    expect(transaction.category).toBe(UNCATEGORIZED_LABEL);
+    expect(transaction.originalCategory).toBeUndefined();
+  });
+
+  it('keeps the category recorded when it was corrected in review', () => {
+    const [transaction] = CategoryTaxonomyService.applyTaxonomy([transactionIn('Dining out', 'Groceries')], TAXONOMY);
+
+    expect(transaction.originalCategory).toBe('Groceries');
+  });
+});
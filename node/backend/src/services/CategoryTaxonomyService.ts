@@ -0,0 +1,95 @@
+import { Transaction } from '../types/Transaction';
+import { CategoryGroup, CategoryLevel, CategoryTaxonomy } from '../types/Category';
+
+export const CATEGORY_LEVELS: CategoryLevel[] = ['category', 'parent'];
+
+/** Category shown for transactions imported with an empty category */
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+
+/** Longest category or parent name accepted */
+const MAX_NAME_LENGTH = 100;
+
+export class CategoryTaxonomyService {
+  /**
+   * Shows each transaction under its remapped category and the parent group it rolls up into
+   * Categories without a parent are their own parent group, and empty categories are shown as UNCATEGORIZED_LABEL
+   */
+  static applyTaxonomy(transactions: Transaction[], taxonomy: CategoryTaxonomy): Transaction[] {
+    return transactions.map(transaction => {
+      const imported = transaction.category.trim() || UNCATEGORIZED_LABEL;
+      const category = taxonomy.remappings[imported] ?? imported;
+      return {
+        ...transaction,
+        category,
+        // A category corrected in review already records the imported one; a blank one records nothing
+        originalCategory: transaction.originalCategory
+          ?? (category !== transaction.category && transaction.category.trim() ? transaction.category : undefined),
+        parentCategory: taxonomy.parents[category] ?? category
+      };
+    });
+  }
+
+  /**
+   * Category or parent group a transaction is grouped under at a level of the hierarchy
+   */
+  static getCategoryKey(transaction: Transaction, level: CategoryLevel): string {
+    return level === 'parent' ? transaction.parentCategory ?? transaction.category : transaction.category;
+  }
+
+  /**
+   * Lists the parent groups of analyzed transactions with the categories under each
+   */
+  static getCategoryGroups(transactions: Transaction[]): CategoryGroup[] {
+    const groups = new Map<string, Set<string>>();
+    transactions.forEach(transaction => {
+      const parent = this.getCategoryKey(transaction, 'parent');
+      if (!groups.has(parent)) groups.set(parent, new Set());
+      groups.get(parent)!.add(transaction.category);
+    });
+
+    return [...groups.entries()]
+      .map(([parent, categories]) => ({ parent, categories: [...categories].sort() }))
+      .sort((a, b) => a.parent.localeCompare(b.parent));
+  }
+
+  /**
+   * Checks a category name submitted by the client
+   * Returns a list of problems, empty when the name is usable
+   */
+  static validateName(value: unknown, field: string): string[] {
+    if (typeof value !== 'string' || !value.trim()) {
+      return [`${field} is required`];
+    }
+    if (value.trim().length > MAX_NAME_LENGTH) {
+      return [`${field} must be at most ${MAX_NAME_LENGTH} characters`];
+    }
+    return [];
+  }
+
+  /**
+   * Checks that placing a category under a parent keeps the hierarchy two levels deep
+   */
+  static validateParent(taxonomy: CategoryTaxonomy, category: string, parent: string): string[] {
+    if (parent === category) {
+      return ['A category cannot be its own parent'];
+    }
+
+    const errors: string[] = [];
+    if (taxonomy.parents[parent]) {
+      errors.push(`${parent} is already under ${taxonomy.parents[parent]}; parent groups cannot be nested`);
+    }
+    const children = Object.keys(taxonomy.parents).filter(child => taxonomy.parents[child] === category);
+    if (children.length > 0) {
+      errors.push(`${category} is the parent of ${children.join(', ')} and cannot be placed under another group`);
+    }
+    return errors;
+  }
+
+  /**
+   * Reads the hierarchy level from a query parameter, defaulting to individual categories
+   */
+  static parseLevel(value: unknown): CategoryLevel | undefined {
+    if (value === undefined) return 'category';
+    return CATEGORY_LEVELS.find(level => level === value);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParserService } from './CsvParserService';
+
+const HEADER = 'Date,Description,Category,Cost,Currency,Alice,Bob';
+
+const buildCsv = (rowCount: number): Buffer => {
+  const rows = Array.from({ length: rowCount }, (_, index) =>
+    `2025-01-${String((index % 28) + 1).padStart(2, '0')},Store ${index},Groceries,10.00,USD,5.00,-5.00`
+  );
+  return Buffer.from([HEADER, ...rows].join('\n'));
+};
+
+describe('CsvParserService', () => {
+  it('parses a Splitwise export into transactions with IDs', async () => {
+    const { transactions, validation } = await CsvParserService.parse(buildCsv(3));
+
+    expect(validation.errorCount).toBe(0);
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toMatchObject({
+      date: '2025-01-01',
+      description: 'Store 0',
+      cost: 1000,
+      currency: 'USD',
+      shares: [{ name: 'Alice', amount: 500 }, { name: 'Bob', amount: -500 }]
+    });
+    expect(new Set(transactions.map(t => t.id)).size).toBe(3);
+  });
+
+  describe('reading only the first rows', () => {
+    it('stops after maxRows rows of a large file', async () => {
+      const preview = await CsvParserService.preview(buildCsv(20000), 5);
+
+      expect(preview.sampleTransactions).toHaveLength(5);
+      expect(preview.people).toEqual(['Alice', 'Bob']);
+    });
+
+    it('does not fail once the parser has been stopped', async () => {
+      const errors: unknown[] = [];
+      const onError = (error: unknown) => errors.push(error);
+      process.on('uncaughtException', onError);
+      process.on('unhandledRejection', onError);
+
+      try {
+        const { transactions } = await CsvParserService.parse(buildCsv(20000), { maxRows: 2 });
+        // Let the rest of the file flow into the stopped parser
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(transactions).toHaveLength(2);
+        expect(errors).toEqual([]);
+      } finally {
+        process.off('uncaughtException', onError);
+        process.off('unhandledRejection', onError);
+      }
+    });
+
+    it('reads the whole file when it has fewer rows', async () => {
+      const { transactions } = await CsvParserService.parse(buildCsv(3), { maxRows: 10 });
+
+      expect(transactions).toHaveLength(3);
+    });
+  });
+});
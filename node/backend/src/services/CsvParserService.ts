@@ -0,0 +1,413 @@
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+import { format, isValid, parse } from 'date-fns';
+import { Transaction, PersonShare, TotalBalance } from '../types/Transaction';
+import {
+  ColumnMapping,
+  ColumnPreview,
+  ImportProfile,
+  InferredColumnType,
+  UploadPreview,
+  ValidationIssue,
+  ValidationReport
+} from '../types/Import';
+import { Cents } from '../types/Money';
+import { DatasetMergeService } from './DatasetMergeService';
+import { SPLITWISE_PROFILE } from './ImportProfileService';
+import { MoneyService } from './MoneyService';
+
+/** Roles that hold a single field of a row */
+type FieldRole = 'date' | 'description' | 'category' | 'cost' | 'debit' | 'credit' | 'currency';
+
+/** Description Splitwise uses for the per-person totals row at the end of an export */
+const TOTAL_BALANCE_DESCRIPTION = 'Total balance';
+
+/** Category Splitwise assigns to settle-up rows ("A paid B") */
+const SETTLEMENT_CATEGORY = 'Payment';
+
+/** Number of sample values returned per column in a preview */
+const PREVIEW_SAMPLE_VALUES = 5;
+
+/**
+ * A CSV row keyed by header, with its line number in the file
+ */
+interface RawRow {
+  rowNumber: number;
+  values: { [column: string]: string };
+}
+
+/**
+ * A row reduced to its import fields through the column mapping
+ */
+type MappedRow = { [role in FieldRole]?: string } & {
+  rowNumber: number;
+  /** Raw values of every person column, keyed by person name */
+  people: { [person: string]: string };
+};
+
+/**
+ * Options controlling how a CSV file is parsed
+ */
+export interface ParseOptions {
+  /** Import profile describing the file layout; defaults to the Splitwise export */
+  profile?: ImportProfile;
+  /** Role overrides keyed by column header, applied on top of the profile */
+  columnMapping?: ColumnMapping;
+  /** Stop reading after this many data rows */
+  maxRows?: number;
+}
+
+/**
+ * Result of parsing an uploaded CSV file
+ */
+export interface ParsedCsv {
+  /** Rows that passed validation */
+  transactions: Transaction[];
+  /** Totals from the "Total balance" footer row, if present */
+  totalBalance?: TotalBalance;
+  /** Row-level validation results */
+  validation: ValidationReport;
+}
+
+export class CsvParserService {
+  /**
+   * Parses a CSV file into transactions using an import profile
+   * Rows with error-severity issues are left out and reported in the validation report
+   */
+  static async parse(buffer: Buffer, options: ParseOptions = {}): Promise<ParsedCsv> {
+    const profile = options.profile || SPLITWISE_PROFILE;
+    const { headers, rows } = await this.readRows(buffer, options.maxRows);
+    const mapping = this.resolveColumnMapping(headers, profile, options.columnMapping);
+    return this.buildTransactions(rows.map(row => this.mapRow(row, mapping)), mapping, profile);
+  }
+
+  /**
+   * Parses the first rows of a file without storing anything
+   * Reports the detected columns, their roles and inferred types, and sample transactions
+   */
+  static async preview(buffer: Buffer, maxRows: number, options: ParseOptions = {}): Promise<UploadPreview> {
+    const profile = options.profile || SPLITWISE_PROFILE;
+    const { headers, rows } = await this.readRows(buffer, maxRows);
+    const mapping = this.resolveColumnMapping(headers, profile, options.columnMapping);
+    const { transactions, validation } = this.buildTransactions(
+      rows.map(row => this.mapRow(row, mapping)),
+      mapping,
+      profile
+    );
+
+    const columns: ColumnPreview[] = headers.map(name => {
+      const values = rows.map(row => row.values[name]?.trim()).filter(value => value);
+      return {
+        name,
+        role: mapping[name],
+        inferredType: this.inferColumnType(values),
+        sampleValues: values.slice(0, PREVIEW_SAMPLE_VALUES)
+      };
+    });
+
+    return {
+      columns,
+      people: headers.filter(name => mapping[name] === 'person'),
+      sampleTransactions: transactions,
+      validation
+    };
+  }
+
+  /**
+   * Combines the profile's column roles with caller overrides
+   * Headers the profile does not mention get the profile's unmapped role; blank headers are ignored
+   */
+  static resolveColumnMapping(headers: string[], profile: ImportProfile, overrides: ColumnMapping = {}): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    headers.forEach(header => {
+      mapping[header] = overrides[header]
+        || profile.columnMapping[header]
+        || (header.trim() ? profile.unmappedColumns : 'ignore');
+    });
+    return mapping;
+  }
+
+  /**
+   * Streams the CSV and collects its header and rows
+   */
+  private static readRows(buffer: Buffer, maxRows?: number): Promise<{ headers: string[]; rows: RawRow[] }> {
+    return new Promise((resolve, reject) => {
+      let headers: string[] = [];
+      const rows: RawRow[] = [];
+      // The header is line 1, so the first data row is line 2
+      let rowNumber = 1;
+      const source = Readable.from(buffer);
+      const parser = csv();
+
+      source
+        .pipe(parser)
+        .on('headers', (headerList: string[]) => {
+          headers = headerList;
+        })
+        .on('data', (values: { [column: string]: string }) => {
+          if (maxRows !== undefined && rows.length >= maxRows) return;
+          rowNumber += 1;
+          rows.push({ rowNumber, values });
+
+          if (maxRows !== undefined && rows.length >= maxRows) {
+            // Detach the file first so nothing is written into the stopped parser
+            source.unpipe(parser);
+            source.destroy();
+            parser.destroy();
+            resolve({ headers, rows });
+          }
+        })
+        .on('end', () => resolve({ headers, rows }))
+        .on('error', (error) => reject(error));
+    });
+  }
+
+  /**
+   * Picks the import fields out of a raw row using the column mapping
+   */
+  private static mapRow(row: RawRow, mapping: ColumnMapping): MappedRow {
+    const mapped: MappedRow = { rowNumber: row.rowNumber, people: {} };
+
+    Object.entries(row.values).forEach(([column, value]) => {
+      const role = mapping[column];
+      if (role === 'person') {
+        mapped.people[column] = value;
+      } else if (role && role !== 'ignore' && mapped[role] === undefined) {
+        mapped[role] = value;
+      }
+    });
+
+    return mapped;
+  }
+
+  /**
+   * Validates mapped rows and converts the valid ones into transactions, with IDs derived from their content
+   */
+  private static buildTransactions(rows: MappedRow[], mapping: ColumnMapping, profile: ImportProfile): ParsedCsv {
+    const transactions: Transaction[] = [];
+    const issues: ValidationIssue[] = [];
+    let totalBalance: TotalBalance | undefined;
+    let rowsChecked = 0;
+    let rowsRejected = 0;
+
+    rows.forEach(row => {
+      // Skip blank separator rows
+      if (this.isBlankRow(row)) return;
+      rowsChecked += 1;
+
+      const fileShares = this.extractShares(row);
+
+      // The footer row carries totals, not an expense
+      if (this.isTotalBalanceRow(row)) {
+        totalBalance = {
+          date: this.parseDate(row.date, profile) || row.date || '',
+          currency: row.currency || profile.defaultCurrency || '',
+          balances: Object.fromEntries(fileShares.map(share => [share.name, share.amount]))
+        };
+        return;
+      }
+
+      const date = this.parseDate(row.date, profile);
+      const amount = this.resolveAmount(row, profile);
+      const shares = fileShares.length === 0 && amount !== null && profile.defaultOwner
+        ? this.buildDefaultShares(amount, profile)
+        : fileShares;
+
+      const rowIssues = this.validateRow(row, date, amount, shares, mapping, profile);
+      issues.push(...rowIssues);
+
+      if (rowIssues.some(issue => issue.severity === 'error')) {
+        rowsRejected += 1;
+        return;
+      }
+
+      // Credits the profile does not import are reported as warnings above
+      if (amount! < 0 && profile.creditHandling === 'skip') return;
+
+      transactions.push({
+        id: '',
+        date: date!,
+        description: row.description!,
+        store: row.description!,
+        category: row.category || '',
+        cost: amount!,
+        currency: row.currency || profile.defaultCurrency || '',
+        shares,
+        kind: row.category?.trim() === SETTLEMENT_CATEGORY ? 'settlement' : 'expense'
+      });
+    });
+
+    return {
+      transactions: DatasetMergeService.assignIds(transactions),
+      totalBalance,
+      validation: {
+        rowsChecked,
+        rowsRejected,
+        errorCount: issues.filter(issue => issue.severity === 'error').length,
+        warningCount: issues.filter(issue => issue.severity === 'warning').length,
+        issues
+      }
+    };
+  }
+
+  /**
+   * Parses a date using the profile's format and returns it as YYYY-MM-DD
+   * Returns null when the value does not match the format
+   */
+  private static parseDate(value: string | undefined, profile: ImportProfile): string | null {
+    if (!value?.trim()) return null;
+    const parsed = parse(value.trim(), profile.dateFormat, new Date());
+    return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null;
+  }
+
+  /**
+   * Works out the amount spent on a row, applying the profile's sign convention
+   * Spending comes back positive and credits negative, in minor units; null when no amount can be read
+   */
+  private static resolveAmount(row: MappedRow, profile: ImportProfile): Cents | null {
+    // Separate debit/credit columns: whichever one is filled in wins
+    if (row.debit !== undefined || row.credit !== undefined) {
+      const debit = MoneyService.parse(row.debit);
+      const credit = MoneyService.parse(row.credit);
+      if (debit !== null && debit !== 0) return Math.abs(debit);
+      if (credit !== null && credit !== 0) return -Math.abs(credit);
+      if (debit !== null || credit !== null) return 0;
+      return null;
+    }
+
+    const amount = MoneyService.parse(row.cost);
+    if (amount === null) return null;
+    return profile.amountSign === 'negative-debit' && amount !== 0 ? -amount : amount;
+  }
+
+  /**
+   * Splits a cost using the profile's default owner and split percentages
+   * The owner paid the full cost, so their share is what the others owe them; leftover cents of an
+   * uneven split go to the people with the largest remainders so the split adds up to the cost
+   */
+  private static buildDefaultShares(amount: Cents, profile: ImportProfile): PersonShare[] {
+    const owner = profile.defaultOwner!;
+    const split = Object.entries(profile.defaultSplit || { [owner]: 100 });
+    const ownerIndex = split.findIndex(([person]) => person === owner);
+    const parts = MoneyService.allocate(amount, split.map(([, percentage]) => percentage));
+    const shares: PersonShare[] = [];
+    let owedByOthers = 0;
+
+    split.forEach(([person], index) => {
+      if (index === ownerIndex) return;
+      owedByOthers += parts[index];
+      shares.push({ name: person, amount: -parts[index] });
+    });
+
+    return [{ name: owner, amount: owedByOthers }, ...shares];
+  }
+
+  /**
+   * Extracts person shares from every person column
+   */
+  private static extractShares(row: MappedRow): PersonShare[] {
+    const shares: PersonShare[] = [];
+
+    Object.entries(row.people).forEach(([name, value]) => {
+      const amount = MoneyService.parse(value);
+      if (amount !== null) {
+        shares.push({
+          name,
+          amount
+        });
+      }
+    });
+
+    return shares;
+  }
+
+  /**
+   * Checks a single row and returns every problem found
+   * Issues are reported against the CSV column name so they can be found in the file
+   */
+  private static validateRow(
+    row: MappedRow,
+    date: string | null,
+    amount: Cents | null,
+    shares: PersonShare[],
+    mapping: ColumnMapping,
+    profile: ImportProfile
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const columnFor = (...roles: FieldRole[]) =>
+      Object.keys(mapping).find(column => roles.includes(mapping[column] as FieldRole)) || roles[0];
+    const addIssue = (field: string, problem: string, severity: ValidationIssue['severity']) => {
+      issues.push({ rowNumber: row.rowNumber, field, problem, severity });
+    };
+
+    if (!row.date?.trim()) {
+      addIssue(columnFor('date'), 'Date is missing', 'error');
+    } else if (!date) {
+      addIssue(columnFor('date'), `"${row.date}" does not match the date format ${profile.dateFormat}`, 'error');
+    }
+
+    if (!row.description?.trim()) {
+      addIssue(columnFor('description'), 'Description is missing', 'error');
+    }
+
+    if (amount === null) {
+      const raw = row.cost ?? row.debit ?? row.credit;
+      addIssue(
+        columnFor('cost', 'debit', 'credit'),
+        raw?.trim() ? `"${raw}" is not a number` : 'Cost is missing',
+        'error'
+      );
+    } else if (amount < 0 && profile.creditHandling === 'skip') {
+      addIssue(columnFor('cost', 'credit'), 'Credit skipped by the import profile', 'warning');
+    }
+
+    // Files without a category column are expected to be categorized later
+    if (Object.values(mapping).includes('category') && !row.category?.trim()) {
+      addIssue(columnFor('category'), 'Category is empty', 'warning');
+    }
+
+    // Person columns with something other than a number are ignored
+    Object.entries(row.people).forEach(([name, value]) => {
+      if (value.trim() && MoneyService.parse(value) === null) {
+        addIssue(name, `Share "${value}" is not a number and was ignored`, 'warning');
+      }
+    });
+
+    if (shares.length === 0) {
+      addIssue('Shares', 'Row has no person shares', 'warning');
+    } else {
+      const net = MoneyService.sum(shares.map(share => share.amount));
+      if (net !== 0) {
+        addIssue('Shares', `Shares net to ${MoneyService.format(net)} instead of 0`, 'warning');
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Guesses a column's type from its non-empty values
+   */
+  private static inferColumnType(values: string[]): InferredColumnType {
+    if (values.length === 0) return 'empty';
+    if (values.every(value => /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/.test(value))) return 'date';
+    if (values.every(value => MoneyService.parse(value) !== null)) return 'number';
+    return 'text';
+  }
+
+  /**
+   * Checks whether every mapped field in a row is empty
+   */
+  private static isBlankRow(row: MappedRow): boolean {
+    return [row.date, row.description, row.category, row.cost, row.debit, row.credit, row.currency, ...Object.values(row.people)]
+      .every(value => !value?.trim());
+  }
+
+  /**
+   * Checks whether a parsed row is the Splitwise "Total balance" footer
+   * The footer has no category or cost, only per-person totals
+   */
+  private static isTotalBalanceRow(row: MappedRow): boolean {
+    return row.description?.trim() === TOTAL_BALANCE_DESCRIPTION && !row.category && !row.cost;
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types/Transaction';
+import { ExchangeRate } from '../types/Currency';
+import { CurrencyService } from './CurrencyService';
+
+const transactionIn = (currency: string, date: string, cost = 1000): Transaction => ({
+  id: `${currency}-${date}`,
+  date,
+  description: 'Dinner',
+  store: 'Mayuri',
+  category: 'Dining out',
+  cost,
+  currency,
+  shares: [{ name: 'Sharath', amount: cost / 2 }, { name: 'Surabhi', amount: -cost / 2 }]
+});
+
+const RATES: ExchangeRate[] = [
+  { date: '2025-01-01', baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.1 },
+  { date: '2025-02-01', baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.2 },
+  { date: '2025-01-01', baseCurrency: 'GBP', quoteCurrency: 'EUR', rate: 1.2 }
+];
+
+describe('CurrencyService', () => {
+  describe('convertTransactions', () => {
+    it('uses the latest rate on or before each date', () => {
+      const { transactions } = CurrencyService.convertTransactions(
+        [transactionIn('EUR', '2025-01-15'), transactionIn('EUR', '2025-02-15')],
+        RATES,
+        'USD'
+      );
+
+      expect(transactions.map(t => t.cost)).toEqual([1100, 1200]);
+      expect(transactions[0]).toMatchObject({ currency: 'USD', originalCost: 1000, originalCurrency: 'EUR', exchangeRate: 1.1 });
+    });
+
+    it('converts in reverse and through a third currency', () => {
+      const { transactions } = CurrencyService.convertTransactions(
+        [transactionIn('USD', '2025-01-15', 1100), transactionIn('GBP', '2025-01-15')],
+        RATES,
+        'EUR'
+      );
+
+      expect(transactions.map(t => t.cost)).toEqual([1000, 1200]);
+    });
+
+    it('keeps converted shares netting to zero', () => {
+      const [transaction] = CurrencyService.convertTransactions([transactionIn('EUR', '2025-01-15', 333)], RATES, 'USD')
+        .transactions;
+
+      expect(transaction.shares.reduce((total, share) => total + share.amount, 0)).toBe(0);
+    });
+
+    it('reports the currencies and dates that have no rate', () => {
+      const { transactions, currency } = CurrencyService.convertTransactions(
+        [transactionIn('JPY', '2025-03-02'), transactionIn('JPY', '2025-01-05'), transactionIn('INR', '2025-01-05')],
+        RATES,
+        'USD'
+      );
+
+      expect(transactions).toEqual([]);
+      expect(currency.unconverted).toEqual([
+        { currency: 'JPY', transactionCount: 2, firstDate: '2025-01-05', lastDate: '2025-03-02' },
+        { currency: 'INR', transactionCount: 1, firstDate: '2025-01-05', lastDate: '2025-01-05' }
+      ]);
+      expect(CurrencyService.describeMissingRates(currency)).toEqual([
+        'JPY to USD: 2 transactions from 2025-01-05 to 2025-03-02',
+        'INR to USD: 1 transaction on 2025-01-05'
+      ]);
+    });
+  });
+
+  describe('validateRate', () => {
+    it('accepts a complete rate', () => {
+      expect(CurrencyService.validateRate(RATES[0])).toEqual([]);
+    });
+
+    it.each([null, 'EUR', [RATES[0]]])('rejects %j', input => {
+      expect(CurrencyService.validateRate(input)).toEqual(['Exchange rate must be an object']);
+    });
+
+    it('rejects a rate between a currency and itself', () => {
+      expect(CurrencyService.validateRate({ ...RATES[0], quoteCurrency: 'EUR', rate: 0 })).toEqual([
+        'baseCurrency and quoteCurrency must differ',
+        'rate must be a positive number'
+      ]);
+    });
+  });
+});
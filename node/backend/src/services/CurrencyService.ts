@@ -0,0 +1,255 @@
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+import { isValid, parse } from 'date-fns';
+import { Transaction } from '../types/Transaction';
+import { CurrencySummary, ExchangeRate, UnconvertedCurrency } from '../types/Currency';
+import { MoneyService } from './MoneyService';
+
+/** Settings key of the currency analytics are reported in */
+export const REPORTING_CURRENCY_SETTING = 'reportingCurrency';
+
+/** Reporting currency of datasets without transactions when none is configured */
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+/** Error returned by analytics while some transactions cannot be converted into the reporting currency */
+export const MISSING_RATES_ERROR = 'Some transactions have no exchange rate into the reporting currency. '
+  + 'Add rates on the Refine Data page';
+
+/** Header row expected in rate files */
+const RATE_FILE_HEADERS = ['date', 'baseCurrency', 'quoteCurrency', 'rate'];
+
+/** Dated rates of one currency pair, oldest first */
+type RateIndex = Map<string, { date: string; rate: number }[]>;
+
+/**
+ * Result of reading an exchange-rate file
+ */
+export interface ParsedRateFile {
+  rates: ExchangeRate[];
+  /** Problems found in the file; nothing is imported when there are any */
+  errors: string[];
+}
+
+/**
+ * Converts transactions into one reporting currency using a local table of dated exchange rates
+ * A transaction uses the latest rate on or before its date, or the earliest rate when it predates the table;
+ * rates work in both directions and can be chained through a third currency
+ */
+export class CurrencyService {
+  static isCurrencyCode(value: unknown): value is string {
+    return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+  }
+
+  /**
+   * Currency analytics are reported in: the configured one, or else the dataset's most common currency
+   */
+  static getReportingCurrency(configured: string | undefined, transactions: Transaction[]): string {
+    if (configured) return configured;
+
+    const counts = new Map<string, number>();
+    transactions.forEach(t => {
+      if (t.currency) counts.set(t.currency, (counts.get(t.currency) || 0) + 1);
+    });
+    const [mostCommon] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    return mostCommon?.[0] ?? DEFAULT_REPORTING_CURRENCY;
+  }
+
+  /**
+   * Converts costs and shares into the reporting currency
+   * Transactions in a currency without any usable rate are left out and counted in the summary;
+   * analytics refuse to report totals while there are any, see describeMissingRates
+   */
+  static convertTransactions(
+    transactions: Transaction[],
+    rates: ExchangeRate[],
+    reportingCurrency: string
+  ): { transactions: Transaction[]; currency: CurrencySummary } {
+    const index = this.createRateIndex(rates);
+    const unconverted = new Map<string, UnconvertedCurrency>();
+    const converted: Transaction[] = [];
+
+    transactions.forEach(transaction => {
+      // Rows imported without a currency are taken to be in the reporting currency
+      if (!transaction.currency || transaction.currency === reportingCurrency) {
+        converted.push(transaction);
+        return;
+      }
+
+      const rate = this.findRate(index, transaction.currency, reportingCurrency, transaction.date);
+      if (rate === undefined) {
+        const missing = unconverted.get(transaction.currency);
+        unconverted.set(transaction.currency, missing
+          ? {
+            ...missing,
+            transactionCount: missing.transactionCount + 1,
+            firstDate: transaction.date < missing.firstDate ? transaction.date : missing.firstDate,
+            lastDate: transaction.date > missing.lastDate ? transaction.date : missing.lastDate
+          }
+          : { currency: transaction.currency, transactionCount: 1, firstDate: transaction.date, lastDate: transaction.date });
+        return;
+      }
+
+      // Shares are scaled together so they still net to zero after rounding
+      const amounts = MoneyService.scaleAll(transaction.shares.map(share => share.amount), rate);
+      converted.push({
+        ...transaction,
+        cost: MoneyService.scale(transaction.cost, rate),
+        currency: reportingCurrency,
+        shares: transaction.shares.map((share, index) => ({ ...share, amount: amounts[index] })),
+        originalCost: transaction.cost,
+        originalCurrency: transaction.currency,
+        exchangeRate: rate
+      });
+    });
+
+    const unconvertedCurrencies = [...unconverted.values()]
+      .sort((a, b) => b.transactionCount - a.transactionCount);
+
+    return { transactions: converted, currency: { reportingCurrency, unconverted: unconvertedCurrencies } };
+  }
+
+  /**
+   * Lists the currencies and dates that need a rate before analytics can total every transaction
+   * e.g. "EUR to USD: 3 transactions from 2025-03-01 to 2025-04-02"
+   */
+  static describeMissingRates(summary: CurrencySummary): string[] {
+    return summary.unconverted.map(({ currency, transactionCount, firstDate, lastDate }) =>
+      `${currency} to ${summary.reportingCurrency}: ${transactionCount} transaction${transactionCount === 1 ? '' : 's'} `
+      + (firstDate === lastDate ? `on ${firstDate}` : `from ${firstDate} to ${lastDate}`)
+    );
+  }
+
+  /**
+   * Checks an exchange rate submitted by the client
+   * Returns a list of problems, empty when the rate is usable
+   */
+  static validateRate(input: unknown): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Exchange rate must be an object'];
+    }
+
+    const errors: string[] = [];
+    const rate = input as { [field: string]: unknown };
+    if (!this.isDate(rate.date)) {
+      errors.push('date must be a YYYY-MM-DD date');
+    }
+    if (!this.isCurrencyCode(rate.baseCurrency)) {
+      errors.push('baseCurrency must be a three-letter currency code such as EUR');
+    }
+    if (!this.isCurrencyCode(rate.quoteCurrency)) {
+      errors.push('quoteCurrency must be a three-letter currency code such as USD');
+    } else if (rate.quoteCurrency === rate.baseCurrency) {
+      errors.push('baseCurrency and quoteCurrency must differ');
+    }
+    if (typeof rate.rate !== 'number' || !Number.isFinite(rate.rate) || rate.rate <= 0) {
+      errors.push('rate must be a positive number');
+    }
+    return errors;
+  }
+
+  /**
+   * Reads "date,baseCurrency,quoteCurrency,rate" rows, reporting every malformed row
+   * Header names are matched ignoring case, spaces and underscores
+   */
+  static async parseRateFile(buffer: Buffer): Promise<ParsedRateFile> {
+    const { headers, rows } = await new Promise<{ headers: string[]; rows: { [column: string]: string }[] }>(
+      (resolve, reject) => {
+        let headers: string[] = [];
+        const rows: { [column: string]: string }[] = [];
+        Readable.from(buffer)
+          .pipe(csv())
+          .on('headers', (headerList: string[]) => {
+            headers = headerList;
+          })
+          .on('data', (values: { [column: string]: string }) => rows.push(values))
+          .on('end', () => resolve({ headers, rows }))
+          .on('error', reject);
+      }
+    );
+
+    const findHeader = (name: string) =>
+      headers.find(header => header.replace(/[\s_]/g, '').toLowerCase() === name.toLowerCase());
+    const columns = RATE_FILE_HEADERS.map(findHeader);
+    if (columns.some(column => !column)) {
+      return { rates: [], errors: [`Expected a header row with the columns: ${RATE_FILE_HEADERS.join(', ')}`] };
+    }
+
+    const [dateColumn, baseColumn, quoteColumn, rateColumn] = columns as string[];
+    const rates: ExchangeRate[] = [];
+    const errors: string[] = [];
+    rows.forEach((values, index) => {
+      const rate = {
+        date: values[dateColumn]?.trim(),
+        baseCurrency: values[baseColumn]?.trim().toUpperCase(),
+        quoteCurrency: values[quoteColumn]?.trim().toUpperCase(),
+        rate: Number(values[rateColumn]?.trim() || NaN)
+      };
+      // The header is line 1, so the first data row is line 2
+      this.validateRate(rate).forEach(error => errors.push(`Row ${index + 2}: ${error}`));
+      rates.push(rate);
+    });
+
+    if (errors.length === 0 && rates.length === 0) {
+      errors.push('The file contains no rates');
+    }
+
+    return { rates: errors.length === 0 ? rates : [], errors };
+  }
+
+  private static isDate(value: unknown): value is string {
+    return typeof value === 'string'
+      && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      && isValid(parse(value, 'yyyy-MM-dd', new Date()));
+  }
+
+  /**
+   * Indexes rates by currency pair in both directions
+   */
+  private static createRateIndex(rates: ExchangeRate[]): RateIndex {
+    const index: RateIndex = new Map();
+    const add = (from: string, to: string, date: string, rate: number) => {
+      const key = `${from}>${to}`;
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push({ date, rate });
+    };
+
+    rates.forEach(({ baseCurrency, quoteCurrency, date, rate }) => {
+      add(baseCurrency, quoteCurrency, date, rate);
+      add(quoteCurrency, baseCurrency, date, 1 / rate);
+    });
+    index.forEach(entries => entries.sort((a, b) => a.date.localeCompare(b.date)));
+    return index;
+  }
+
+  /**
+   * Rate from one currency to another on a date, directly or through one intermediate currency
+   */
+  private static findRate(index: RateIndex, from: string, to: string, date: string): number | undefined {
+    const direct = this.pickRate(index.get(`${from}>${to}`), date);
+    if (direct !== undefined) return direct;
+
+    for (const key of index.keys()) {
+      if (!key.startsWith(`${from}>`)) continue;
+      const via = key.slice(from.length + 1);
+      const second = this.pickRate(index.get(`${via}>${to}`), date);
+      if (second !== undefined) {
+        return this.pickRate(index.get(key), date)! * second;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Latest rate on or before the date, or the earliest rate when the date comes first
+   */
+  private static pickRate(entries: { date: string; rate: number }[] | undefined, date: string): number | undefined {
+    if (!entries?.length) return undefined;
+
+    let picked = entries[0];
+    for (const entry of entries) {
+      if (entry.date > date) break;
+      picked = entry;
+    }
+    return picked.rate;
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types/Transaction';
+import { DatasetMergeService } from './DatasetMergeService';
+
+const imported = (description: string, cost = 4256, date = '2025-02-24'): Transaction => ({
+  id: '',
+  date,
+  description,
+  store: description,
+  category: 'Groceries',
+  cost,
+  currency: 'USD',
+  shares: [{ name: 'Sharath', amount: cost / 2 }, { name: 'Surabhi', amount: -cost / 2 }]
+});
+
+const idsOf = (transactions: Transaction[]) => transactions.map(t => t.id);
+
+describe('DatasetMergeService', () => {
+  describe('assignIds', () => {
+    it('derives the same ID from the same content', () => {
+      const [first] = DatasetMergeService.assignIds([imported('Mayuri')]);
+      const [second] = DatasetMergeService.assignIds([imported('Mayuri')]);
+
+      expect(first.id).toMatch(/^[0-9a-f]{16}$/);
+      expect(second.id).toBe(first.id);
+      expect(DatasetMergeService.assignIds([imported('Mayuri', 4258)])[0].id).not.toBe(first.id);
+    });
+
+    it('numbers identical rows in order', () => {
+      const [first, second, third] = idsOf(DatasetMergeService.assignIds(
+        [imported('Mayuri'), imported('Mayuri'), imported('Mayuri')]
+      ));
+
+      expect([second, third]).toEqual([`${first}-2`, `${first}-3`]);
+    });
+
+    it('skips IDs already in use', () => {
+      const [hash] = idsOf(DatasetMergeService.assignIds([imported('Mayuri')]));
+
+      expect(idsOf(DatasetMergeService.assignIds([imported('Mayuri')], [hash, `${hash}-2`]))).toEqual([`${hash}-3`]);
+    });
+
+    it('keeps existing IDs', () => {
+      expect(idsOf(DatasetMergeService.assignIds([{ ...imported('Mayuri'), id: 'manual' }]))).toEqual(['manual']);
+    });
+
+    it('hashes the shares as imported, so mapped names keep the ID', () => {
+      const transaction = imported('Mayuri');
+      const mapped = {
+        ...transaction,
+        shares: [{ name: 'Sharath B', amount: 2128 }, { name: 'Surabhi', amount: -2128 }],
+        originalShares: transaction.shares
+      };
+
+      expect(idsOf(DatasetMergeService.assignIds([mapped]))).toEqual(idsOf(DatasetMergeService.assignIds([transaction])));
+    });
+  });
+
+  describe('merge', () => {
+    const existing = DatasetMergeService.assignIds([imported('Mayuri'), imported('Mayuri'), imported('Safeway', 1500)]);
+
+    it('adds only rows the dataset does not have yet, counting identical rows', () => {
+      const incoming = DatasetMergeService.assignIds(
+        [imported('Mayuri'), imported('Mayuri'), imported('Mayuri'), imported('Marshall', 2762)]
+      );
+      const result = DatasetMergeService.merge(existing, incoming, 'skip');
+
+      expect(result.added.map(t => t.description)).toEqual(['Mayuri', 'Marshall']);
+      expect(result.skipped).toHaveLength(2);
+      expect(result.transactions).toHaveLength(5);
+      expect(new Set(idsOf(result.transactions)).size).toBe(5);
+    });
+
+    it('keeps flagged duplicates under IDs of their own', () => {
+      const result = DatasetMergeService.merge(existing, DatasetMergeService.assignIds([imported('Safeway', 1500)]), 'flag');
+
+      expect(result.flagged).toHaveLength(1);
+      expect(result.flagged[0].possibleDuplicate).toBe(true);
+      expect(result.flagged[0].id).toBe(`${existing[2].id}-2`);
+    });
+
+    it('matches an edited transaction by the ID it was imported with', () => {
+      const edited = [{ ...existing[2], category: 'Household supplies' }];
+      const result = DatasetMergeService.merge(edited, DatasetMergeService.assignIds([imported('Safeway', 1500)]), 'skip');
+
+      expect(result.added).toEqual([]);
+      expect(result.transactions).toEqual(edited);
+    });
+  });
+});
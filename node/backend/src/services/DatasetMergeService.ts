@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import { Transaction } from '../types/Transaction';
+import { DuplicateHandling } from '../types/Import';
+import { MoneyService } from './MoneyService';
+
+/**
+ * Result of merging uploaded transactions into a dataset
+ */
+export interface MergeResult {
+  /** The combined dataset */
+  transactions: Transaction[];
+  /** Transactions that were new to the dataset */
+  added: Transaction[];
+  /** Duplicates left out */
+  skipped: Transaction[];
+  /** Duplicates kept and marked for review */
+  flagged: Transaction[];
+}
+
+/** Hex characters of the content hash kept in a transaction ID */
+const ID_HASH_LENGTH = 16;
+
+export class DatasetMergeService {
+  /**
+   * Builds the key two transactions must share to count as duplicates:
+   * same date, description, cost and per-person shares as imported
+   */
+  static getDuplicateKey(transaction: Transaction): string {
+    const shares = [...(transaction.originalShares ?? transaction.shares)]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(share => `${share.name}:${MoneyService.format(share.amount)}`)
+      .join(',');
+    return [transaction.date, transaction.description.trim(), MoneyService.format(transaction.cost), shares].join('|');
+  }
+
+  /**
+   * Gives every transaction without an ID one derived from its content as imported
+   * The ID is a hash of the duplicate key; identical rows get "-2", "-3"... in order, and IDs in use are skipped
+   * @param taken - IDs already used elsewhere in the dataset
+   */
+  static assignIds(transactions: Transaction[], taken: Iterable<string> = []): Transaction[] {
+    const used = new Set([...taken, ...transactions.map(t => t.id).filter(Boolean)]);
+
+    return transactions.map(transaction => {
+      if (transaction.id) return transaction;
+
+      const hash = createHash('sha256').update(this.getDuplicateKey(transaction)).digest('hex').slice(0, ID_HASH_LENGTH);
+      let id = hash;
+      for (let occurrence = 2; used.has(id); occurrence++) {
+        id = `${hash}-${occurrence}`;
+      }
+      used.add(id);
+      return { ...transaction, id };
+    });
+  }
+
+  /**
+   * Merges incoming transactions into an existing dataset
+   * Incoming and stored transactions are matched by ID, so matching is count-aware (two identical
+   * rows in the dataset only absorb two identical incoming rows) and edited transactions still
+   * match the rows they were imported from; flagged duplicates get IDs of their own
+   */
+  static merge(
+    existing: Transaction[],
+    incoming: Transaction[],
+    duplicateHandling: DuplicateHandling
+  ): MergeResult {
+    const existingIds = new Set(existing.map(t => t.id));
+
+    const added: Transaction[] = [];
+    const skipped: Transaction[] = [];
+    const duplicates: Transaction[] = [];
+
+    incoming.forEach(transaction => {
+      if (!existingIds.has(transaction.id)) {
+        added.push(transaction);
+      } else if (duplicateHandling === 'flag') {
+        duplicates.push({ ...transaction, id: '', possibleDuplicate: true });
+      } else {
+        skipped.push(transaction);
+      }
+    });
+
+    const flagged = this.assignIds(duplicates, [...existingIds, ...added.map(t => t.id)]);
+
+    return {
+      transactions: [...existing, ...added, ...flagged],
+      added,
+      skipped,
+      flagged
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ImportProfileService } from './ImportProfileService';
+
+const BANK_PROFILE = {
+  name: 'Bank',
+  columnMapping: { Date: 'date', Memo: 'description', Amount: 'cost' }
+};
+
+describe('ImportProfileService.validateProfile', () => {
+  it('accepts a minimal profile', () => {
+    expect(ImportProfileService.validateProfile(BANK_PROFILE)).toEqual([]);
+  });
+
+  it('rejects input that is not an object', () => {
+    expect(ImportProfileService.validateProfile(null)).toEqual(['Profile must be an object']);
+    expect(ImportProfileService.validateProfile('Bank')).toEqual(['Profile must be an object']);
+    expect(ImportProfileService.validateProfile([BANK_PROFILE])).toEqual(['Profile must be an object']);
+  });
+
+  it('rejects options of the wrong type', () => {
+    expect(ImportProfileService.validateProfile({ ...BANK_PROFILE, name: 42, defaultOwner: 7 })).toEqual([
+      'name is required',
+      'defaultOwner must be a person name'
+    ]);
+  });
+
+  it('accepts a default split that includes the owner', () => {
+    const profile = { ...BANK_PROFILE, defaultOwner: 'Alice', defaultSplit: { Alice: 50, Bob: 50 } };
+
+    expect(ImportProfileService.validateProfile(profile)).toEqual([]);
+  });
+
+  it('requires the owner to be part of the default split', () => {
+    const profile = { ...BANK_PROFILE, defaultOwner: 'Carol', defaultSplit: { Alice: 50, Bob: 50 } };
+
+    expect(ImportProfileService.validateProfile(profile)).toEqual([
+      'defaultOwner must be one of the people in defaultSplit'
+    ]);
+  });
+
+  it('requires a default split to add up to 100', () => {
+    const profile = { ...BANK_PROFILE, defaultOwner: 'Alice', defaultSplit: { Alice: 50, Bob: 40 } };
+
+    expect(ImportProfileService.validateProfile(profile)).toEqual(['defaultSplit percentages must add up to 100']);
+  });
+});
@@ -0,0 +1,135 @@
+import { randomUUID } from 'crypto';
+import { ColumnRole, ImportProfile, ImportProfileInput } from '../types/Import';
+
+/** Every role a column can be assigned in a mapping */
+export const COLUMN_ROLES: ColumnRole[] = [
+  'date',
+  'description',
+  'category',
+  'cost',
+  'debit',
+  'credit',
+  'currency',
+  'person',
+  'ignore'
+];
+
+/**
+ * Profile matching the layout of a Splitwise CSV export
+ * Used whenever an upload does not name a profile
+ */
+export const SPLITWISE_PROFILE: ImportProfile = {
+  id: 'splitwise',
+  name: 'Splitwise export',
+  columnMapping: {
+    Date: 'date',
+    Description: 'description',
+    Category: 'category',
+    Cost: 'cost',
+    Currency: 'currency'
+  },
+  unmappedColumns: 'person',
+  dateFormat: 'yyyy-MM-dd',
+  amountSign: 'positive-debit',
+  creditHandling: 'refund',
+  builtIn: true
+};
+
+export class ImportProfileService {
+  /**
+   * Returns the built-in profiles followed by the user's saved profiles
+   */
+  static getProfiles(savedProfiles: ImportProfile[] = []): ImportProfile[] {
+    return [SPLITWISE_PROFILE, ...savedProfiles];
+  }
+
+  /**
+   * Looks up a profile by id among built-in and saved profiles
+   */
+  static findProfile(id: string, savedProfiles: ImportProfile[] = []): ImportProfile | undefined {
+    return this.getProfiles(savedProfiles).find(profile => profile.id === id);
+  }
+
+  /**
+   * Checks a profile submitted by the client
+   * Returns a list of problems, empty when the profile is usable
+   */
+  static validateProfile(input: unknown): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Profile must be an object'];
+    }
+
+    const errors: string[] = [];
+    const profile = input as { [field: string]: unknown };
+    const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+    if (!isText(profile.name)) {
+      errors.push('name is required');
+    }
+    if (!profile.columnMapping || typeof profile.columnMapping !== 'object' || Array.isArray(profile.columnMapping)) {
+      errors.push('columnMapping must be an object of column names to roles');
+    } else {
+      const roles = Object.values(profile.columnMapping);
+      if (!roles.every(role => COLUMN_ROLES.includes(role as ColumnRole))) {
+        errors.push(`columnMapping roles must be one of: ${COLUMN_ROLES.join(', ')}`);
+      }
+      if (!roles.includes('date')) errors.push('columnMapping needs a date column');
+      if (!roles.includes('description')) errors.push('columnMapping needs a description column');
+      if (!roles.includes('cost') && !roles.includes('debit')) {
+        errors.push('columnMapping needs a cost or debit column');
+      }
+    }
+    if (profile.unmappedColumns !== undefined && profile.unmappedColumns !== 'person' && profile.unmappedColumns !== 'ignore') {
+      errors.push('unmappedColumns must be "person" or "ignore"');
+    }
+    if (profile.dateFormat !== undefined && !isText(profile.dateFormat)) {
+      errors.push('dateFormat must be a non-empty date-fns format string');
+    }
+    if (profile.amountSign !== undefined && profile.amountSign !== 'positive-debit' && profile.amountSign !== 'negative-debit') {
+      errors.push('amountSign must be "positive-debit" or "negative-debit"');
+    }
+    if (profile.creditHandling !== undefined && profile.creditHandling !== 'skip' && profile.creditHandling !== 'refund') {
+      errors.push('creditHandling must be "skip" or "refund"');
+    }
+    if (profile.defaultCurrency !== undefined && typeof profile.defaultCurrency !== 'string') {
+      errors.push('defaultCurrency must be a currency code');
+    }
+    if (profile.defaultOwner !== undefined && typeof profile.defaultOwner !== 'string') {
+      errors.push('defaultOwner must be a person name');
+    }
+    if (profile.defaultSplit !== undefined) {
+      const split = profile.defaultSplit;
+      const percentages = split && typeof split === 'object' && !Array.isArray(split) ? Object.values(split) : [];
+      if (!percentages.length || !percentages.every(value => typeof value === 'number' && value >= 0)) {
+        errors.push('defaultSplit must map people to non-negative percentages');
+      } else if (Math.abs((percentages as number[]).reduce((sum, value) => sum + value, 0) - 100) > 0.01) {
+        errors.push('defaultSplit percentages must add up to 100');
+      } else if (!isText(profile.defaultOwner)) {
+        errors.push('defaultSplit requires a defaultOwner');
+      } else if (!Object.keys(split as object).includes(profile.defaultOwner.trim())) {
+        // The owner pays the whole cost, so their own share must be part of the split
+        errors.push('defaultOwner must be one of the people in defaultSplit');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Builds a profile from validated client input, filling in defaults
+   */
+  static createProfile(input: ImportProfileInput, id: string = randomUUID()): ImportProfile {
+    return {
+      id,
+      name: input.name.trim(),
+      columnMapping: input.columnMapping,
+      unmappedColumns: input.unmappedColumns || 'ignore',
+      dateFormat: input.dateFormat?.trim() || 'yyyy-MM-dd',
+      amountSign: input.amountSign || 'positive-debit',
+      creditHandling: input.creditHandling || 'skip',
+      defaultCurrency: input.defaultCurrency?.trim() || undefined,
+      defaultOwner: input.defaultOwner?.trim() || undefined,
+      defaultSplit: input.defaultSplit
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { MoneyService } from './MoneyService';
+
+describe('MoneyService', () => {
+  describe('parse', () => {
+    it.each([
+      ['1,234.50', 123450],
+      ['$12', 1200],
+      ['-0.5', -50],
+      ['.25', 25],
+      ['0.125', 13],
+      ['-0.125', -13],
+      ['0.124', 12],
+      ['-0.001', 0]
+    ])('reads %s as %i cents', (value, cents) => {
+      expect(MoneyService.parse(value)).toBe(cents);
+    });
+
+    it.each([undefined, '', 'abc', '1.2.3', '-'])('rejects %j', value => {
+      expect(MoneyService.parse(value)).toBeNull();
+    });
+  });
+
+  describe('fromAmount', () => {
+    it('rounds major units half away from zero despite floating point errors', () => {
+      expect(MoneyService.fromAmount(1.005)).toBe(101);
+      expect(MoneyService.fromAmount(-1.005)).toBe(-101);
+      expect(MoneyService.fromAmount(42.56)).toBe(4256);
+      expect(MoneyService.fromAmount(0.1 + 0.2)).toBe(30);
+    });
+  });
+
+  describe('format', () => {
+    it('writes cents as a plain decimal', () => {
+      expect(MoneyService.format(123450)).toBe('1234.50');
+      expect(MoneyService.format(-1205)).toBe('-12.05');
+      expect(MoneyService.format(7)).toBe('0.07');
+    });
+  });
+
+  describe('scale and average', () => {
+    it('rounds half away from zero', () => {
+      expect(MoneyService.scale(1005, 0.5)).toBe(503);
+      expect(MoneyService.scale(-1005, 0.5)).toBe(-503);
+      expect(MoneyService.average(1000, 3)).toBe(333);
+      expect(MoneyService.average(1000, 0)).toBe(0);
+    });
+  });
+
+  describe('scaleAll', () => {
+    it('keeps the scaled amounts adding up to the scaled total', () => {
+      const scaled = MoneyService.scaleAll([333, 333, 334], 1.1);
+
+      expect(MoneyService.sum(scaled)).toBe(MoneyService.scale(1000, 1.1));
+    });
+
+    it('keeps shares netting to zero', () => {
+      expect(MoneyService.sum(MoneyService.scaleAll([167, 167, -334], 1.5))).toBe(0);
+    });
+  });
+
+  describe('allocate', () => {
+    it('hands the leftover cents to the largest remainders', () => {
+      expect(MoneyService.allocate(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+      expect(MoneyService.allocate(-1000, [1, 1, 1])).toEqual([-334, -333, -333]);
+      expect(MoneyService.allocate(101, [50, 50])).toEqual([51, 50]);
+    });
+
+    it('gives nothing when every weight is zero', () => {
+      expect(MoneyService.allocate(1000, [0, 0])).toEqual([0, 0]);
+    });
+  });
+});
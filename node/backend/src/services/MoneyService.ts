@@ -0,0 +1,109 @@
+import { Cents } from '../types/Money';
+
+/** Minor units per major unit; every currency in a dataset is treated as having two decimals */
+const MINOR_UNITS = 100;
+
+/**
+ * Integer minor-unit arithmetic with one set of rounding rules:
+ * - decimal input is read digit by digit, and anything past the second decimal is rounded half away from zero
+ * - scaling (exchange rates, percentages) and averaging round half away from zero
+ * - splitting an amount hands out the leftover cents so the parts always add up to the whole
+ * Sums of Cents are plain integer additions and never need rounding
+ */
+export class MoneyService {
+  /**
+   * Reads a decimal amount such as "1,234.50", "$12" or "-0.125"
+   * Returns null when the text is not a number
+   */
+  static parse(value: string | undefined): Cents | null {
+    const cleaned = value?.replace(/[$,\s]/g, '');
+    const match = cleaned?.match(/^([+-]?)(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[2] && !match[3])) return null;
+
+    const [, sign, whole, fraction = ''] = match;
+    const digits = fraction.padEnd(3, '0');
+    let cents = Number(whole || '0') * MINOR_UNITS + Number(digits.slice(0, 2));
+    if (Number(digits[2]) >= 5) cents += 1;
+    return sign === '-' && cents !== 0 ? -cents : cents;
+  }
+
+  /**
+   * Converts an amount in major units, such as a value stored before amounts were kept in minor units
+   */
+  static fromAmount(amount: number): Cents {
+    return this.round(amount * MINOR_UNITS);
+  }
+
+  /**
+   * Formats minor units as a plain decimal, e.g. -1250 → "-12.50"
+   */
+  static format(cents: Cents): string {
+    const sign = cents < 0 ? '-' : '';
+    const absolute = Math.abs(cents);
+    return `${sign}${Math.floor(absolute / MINOR_UNITS)}.${String(absolute % MINOR_UNITS).padStart(2, '0')}`;
+  }
+
+  static sum(amounts: Cents[]): Cents {
+    return amounts.reduce((total, amount) => total + amount, 0);
+  }
+
+  /**
+   * Multiplies an amount, e.g. by an exchange rate
+   */
+  static scale(cents: Cents, factor: number): Cents {
+    return this.round(cents * factor);
+  }
+
+  /**
+   * Average of a total over a count; 0 when there is nothing to average
+   */
+  static average(total: Cents, count: number): Cents {
+    return count > 0 ? this.round(total / count) : 0;
+  }
+
+  /**
+   * Multiplies several amounts by the same factor while keeping their total equal to the scaled total
+   * The rounding difference goes to the largest amount, so shares that net to zero still do
+   */
+  static scaleAll(amounts: Cents[], factor: number): Cents[] {
+    const scaled = amounts.map(amount => this.scale(amount, factor));
+    const difference = this.scale(this.sum(amounts), factor) - this.sum(scaled);
+    if (difference !== 0 && scaled.length > 0) {
+      const largest = scaled.reduce((top, amount, index) => Math.abs(amount) > Math.abs(scaled[top]) ? index : top, 0);
+      scaled[largest] += difference;
+    }
+    return scaled;
+  }
+
+  /**
+   * Splits an amount in proportion to weights, e.g. split percentages
+   * Parts are rounded down and the leftover cents go to the largest remainders, so they add up to the amount
+   */
+  static allocate(cents: Cents, weights: number[]): Cents[] {
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    if (totalWeight === 0) return weights.map(() => 0);
+
+    const sign = cents < 0 ? -1 : 1;
+    const exact = weights.map(weight => Math.abs(cents) * weight / totalWeight);
+    const parts = exact.map(Math.floor);
+    let leftover = Math.abs(cents) - this.sum(parts);
+    exact
+      .map((value, index) => ({ index, remainder: value - parts[index] }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+      .forEach(({ index }) => {
+        if (leftover <= 0) return;
+        parts[index] += 1;
+        leftover -= 1;
+      });
+    return parts.map(part => part * sign);
+  }
+
+  /**
+   * Rounds to a whole number of minor units, half away from zero
+   * Tiny floating point errors are dropped first so 1.005 * 100 rounds like 100.5
+   */
+  private static round(value: number): Cents {
+    const rounded = Math.round(Math.abs(Number(value.toPrecision(12))));
+    return value < 0 && rounded !== 0 ? -rounded : rounded;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { PersonShare, Transaction } from '../types/Transaction';
+import { PersonMappingService } from './PersonMappingService';
+
+const transactionWith = (id: string, ...shares: PersonShare[]): Transaction => ({
+  id,
+  date: '2025-01-01',
+  description: 'Groceries',
+  store: 'Safeway',
+  category: 'Groceries',
+  cost: shares.reduce((total, share) => total + Math.abs(share.amount), 0),
+  currency: 'USD',
+  shares
+});
+
+describe('PersonMappingService', () => {
+  describe('applyPersonMappings', () => {
+    it('shows aliases under their canonical name and keeps the imported shares', () => {
+      const [transaction] = PersonMappingService.applyPersonMappings(
+        [transactionWith('t1', { name: 'Sharath S Bhargav', amount: 500 }, { name: 'Surabhi', amount: -500 })],
+        { Sharath: ['Sharath S Bhargav'] }
+      );
+
+      expect(transaction.shares).toEqual([{ name: 'Sharath', amount: 500 }, { name: 'Surabhi', amount: -500 }]);
+      expect(transaction.originalShares?.[0].name).toBe('Sharath S Bhargav');
+    });
+  });
+
+  describe('findPeopleTogether', () => {
+    it('finds people who share a transaction', () => {
+      const transactions = [
+        transactionWith('t1', { name: 'Sharath', amount: 500 }),
+        transactionWith('t2', { name: 'Sharath', amount: 500 }, { name: 'Surabhi', amount: -500 })
+      ];
+
+      expect(PersonMappingService.findPeopleTogether(transactions, ['Surabhi', 'Sharath'])).toEqual(['Sharath', 'Surabhi']);
+    });
+
+    it('allows people from different transactions', () => {
+      const transactions = [
+        transactionWith('t1', { name: 'Sharath', amount: 500 }),
+        transactionWith('t2', { name: 'Sharath S Bhargav', amount: 500 })
+      ];
+
+      expect(PersonMappingService.findPeopleTogether(transactions, ['Sharath', 'Sharath S Bhargav'])).toBeUndefined();
+    });
+  });
+
+  describe('mergePeople', () => {
+    const importedNames = new Set(['Sharath', 'Sharath S Bhargav', 'Sharath B', 'Surabhi']);
+
+    it('makes the other names aliases of the canonical name', () => {
+      expect(PersonMappingService.mergePeople({}, importedNames, ['Sharath', 'Sharath B'], 'Sharath'))
+        .toEqual({ Sharath: ['Sharath B'] });
+    });
+
+    it('merges into the owner of a canonical name that is already an alias', () => {
+      const merged = PersonMappingService.mergePeople(
+        { Sharath: ['Sharath S Bhargav'] },
+        importedNames,
+        ['Sharath B'],
+        'Sharath S Bhargav'
+      );
+
+      expect(merged).toEqual({ Sharath: ['Sharath B', 'Sharath S Bhargav'] });
+    });
+
+    it('shows a person under one of their own aliases', () => {
+      expect(PersonMappingService.renamePerson({ Sharath: ['Sharath S Bhargav'] }, importedNames, 'Sharath', 'Sharath S Bhargav'))
+        .toEqual({ 'Sharath S Bhargav': ['Sharath'] });
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { PersonShare, Transaction } from '../types/Transaction';
+import { Person, PersonMappings, PersonMergeSuggestion } from '../types/Person';
+import { SIMILARITY_STRATEGIES } from './SimilarityStrategies';
+
+/** Confidence of a suggestion where every word of one name appears in the other */
+const CONTAINED_WORDS_CONFIDENCE = 0.9;
+
+/** Confidence of a suggestion where only the first names match */
+const SAME_FIRST_NAME_CONFIDENCE = 0.7;
+
+/** Lowest spelling similarity suggested, to catch typos such as "Surabi" for "Surabhi" */
+const MIN_SPELLING_SIMILARITY = 0.8;
+
+/**
+ * Maps the names people were imported under, usually CSV headers, to one name per person
+ * Works like store mappings: the imported shares are kept and the canonical shares are derived from them
+ */
+export class PersonMappingService {
+  /**
+   * Renames shares to their canonical person names
+   * Shares of aliases of the same person in one transaction are combined into a single share
+   */
+  static applyPersonMappings(transactions: Transaction[], mappings: PersonMappings): Transaction[] {
+    const reverseMap = this.createReverseMap(mappings);
+
+    return transactions.map(transaction => {
+      const { originalShares, ...rest } = transaction;
+      const imported = originalShares ?? transaction.shares;
+
+      const combined = new Map<string, number>();
+      imported.forEach(share => {
+        const name = reverseMap.get(share.name) ?? share.name;
+        combined.set(name, (combined.get(name) ?? 0) + share.amount);
+      });
+      const shares: PersonShare[] = [...combined.entries()].map(([name, amount]) => ({ name, amount }));
+
+      const unchanged = shares.length === imported.length
+        && shares.every((share, index) => share.name === imported[index].name);
+      return unchanged
+        ? { ...rest, shares: imported }
+        : { ...rest, shares, originalShares: imported };
+    });
+  }
+
+  /**
+   * Lists everyone in the transactions under their canonical names, most active first
+   */
+  static getPeople(transactions: Transaction[], mappings: PersonMappings): Person[] {
+    const counts = new Map<string, number>();
+    transactions.forEach(transaction => {
+      new Set(transaction.shares.map(share => share.name)).forEach(name => {
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+      });
+    });
+
+    return [...counts.entries()]
+      .map(([name, transactionCount]) => ({
+        name,
+        aliases: (mappings[name] || []).filter(alias => alias !== name),
+        transactionCount
+      }))
+      .sort((a, b) => b.transactionCount - a.transactionCount || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Collects every name people were imported under
+   */
+  static getImportedNames(transactions: Transaction[]): Set<string> {
+    return new Set(transactions.flatMap(transaction =>
+      (transaction.originalShares ?? transaction.shares).map(share => share.name)
+    ));
+  }
+
+  /**
+   * Finds two of the given people that share a transaction, and so cannot be the same person
+   * Merging them would add their shares together, cancelling out what they owe each other
+   */
+  static findPeopleTogether(transactions: Transaction[], names: string[]): [string, string] | undefined {
+    const wanted = new Set(names);
+    for (const transaction of transactions) {
+      const present = [...new Set(transaction.shares.map(share => share.name))].filter(name => wanted.has(name));
+      if (present.length > 1) {
+        return [present[0], present[1]];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the name people merged under canonicalName are shown as
+   * A name that is already an alias of someone outside the merge resolves to that person,
+   * so an alias never becomes the canonical name of another group
+   */
+  static resolveCanonicalName(mappings: PersonMappings, names: string[], canonicalName: string): string {
+    const owner = this.createReverseMap(mappings).get(canonicalName);
+    return owner !== undefined && !names.includes(owner) ? owner : canonicalName;
+  }
+
+  /**
+   * Combines people under one canonical name, which may be one of theirs or a new display name
+   * Callers check findPeopleTogether first; people sharing a transaction are different people
+   */
+  static mergePeople(
+    mappings: PersonMappings,
+    importedNames: Set<string>,
+    names: string[],
+    canonicalName: string
+  ): PersonMappings {
+    const targetName = this.resolveCanonicalName(mappings, names, canonicalName);
+    const merged: PersonMappings = { ...mappings };
+    const members = [...names, targetName].flatMap(name => this.getMembers(mappings, importedNames, name));
+    [...names, targetName].forEach(name => delete merged[name]);
+    return this.withMembers(merged, targetName, members);
+  }
+
+  /**
+   * Shows a person under a new name; the names they were imported under become aliases
+   */
+  static renamePerson(
+    mappings: PersonMappings,
+    importedNames: Set<string>,
+    name: string,
+    newName: string
+  ): PersonMappings {
+    return this.mergePeople(mappings, importedNames, [name], newName);
+  }
+
+  /**
+   * Turns an alias back into a person of their own
+   */
+  static removeAlias(mappings: PersonMappings, name: string, alias: string): PersonMappings {
+    const updated: PersonMappings = { ...mappings };
+    const aliases = (updated[name] || []).filter(existing => existing !== alias);
+    if (aliases.length > 0) {
+      updated[name] = aliases;
+    } else {
+      delete updated[name];
+    }
+    return updated;
+  }
+
+  /**
+   * Suggests pairs of people that are probably the same person
+   * Names that appear together in a transaction belong to different people and are never suggested,
+   * so this mostly finds the same person exported under different headers
+   */
+  static suggestMerges(transactions: Transaction[]): PersonMergeSuggestion[] {
+    const people = this.getPeople(transactions, {});
+    const together = new Set<string>();
+    transactions.forEach(transaction => {
+      const names = transaction.shares.map(share => share.name);
+      names.forEach(a => names.forEach(b => together.add(`${a}\u0000${b}`)));
+    });
+
+    const suggestions: PersonMergeSuggestion[] = [];
+    people.forEach((person, index) => {
+      people.slice(index + 1).forEach(other => {
+        if (together.has(`${person.name}\u0000${other.name}`)) return;
+
+        const match = this.matchNames(person.name, other.name);
+        if (match) {
+          // People are sorted by activity, so the first one has more transactions
+          suggestions.push({ canonicalName: person.name, aliases: [other.name], ...match });
+        }
+      });
+    });
+
+    return suggestions.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Scores how likely two names refer to the same person
+   */
+  private static matchNames(a: string, b: string): { confidence: number; explanation: string } | null {
+    const wordsA = this.toWords(a);
+    const wordsB = this.toWords(b);
+    if (wordsA.length === 0 || wordsB.length === 0) return null;
+
+    const [shorter, longer] = wordsA.length <= wordsB.length ? [a, b] : [b, a];
+    const longerWords = new Set(this.toWords(longer));
+    if (this.toWords(shorter).every(word => longerWords.has(word))) {
+      return {
+        confidence: CONTAINED_WORDS_CONFIDENCE,
+        explanation: `All words of "${shorter}" appear in "${longer}"`
+      };
+    }
+
+    const spelling = SIMILARITY_STRATEGIES.levenshtein;
+    const normalizedA = wordsA.join(' ');
+    const normalizedB = wordsB.join(' ');
+    const score = spelling.score(normalizedA, normalizedB);
+    if (score >= MIN_SPELLING_SIMILARITY) {
+      return {
+        confidence: Math.round(score * 100) / 100,
+        explanation: spelling.explain(normalizedA, normalizedB)
+      };
+    }
+
+    if (wordsA[0] === wordsB[0]) {
+      return { confidence: SAME_FIRST_NAME_CONFIDENCE, explanation: `Same first name "${wordsA[0]}"` };
+    }
+
+    return null;
+  }
+
+  private static toWords(name: string): string[] {
+    return name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+  }
+
+  /**
+   * Imported names currently shown as the given person
+   */
+  private static getMembers(mappings: PersonMappings, importedNames: Set<string>, name: string): string[] {
+    return [...(importedNames.has(name) ? [name] : []), ...(mappings[name] || [])];
+  }
+
+  private static withMembers(mappings: PersonMappings, canonicalName: string, members: string[]): PersonMappings {
+    const aliases = [...new Set(members)].filter(member => member !== canonicalName);
+    return aliases.length > 0 ? { ...mappings, [canonicalName]: aliases } : mappings;
+  }
+
+  private static createReverseMap(mappings: PersonMappings): Map<string, string> {
+    const reverseMap = new Map<string, string>();
+    Object.entries(mappings).forEach(([canonicalName, aliases]) => {
+      aliases.forEach(alias => reverseMap.set(alias, canonicalName));
+    });
+    return reverseMap;
+  }
+}
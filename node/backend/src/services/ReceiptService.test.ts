@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { ReceiptService } from './ReceiptService';
+
+const bytes = (...parts: (string | number[])[]) =>
+  Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)));
+
+describe('ReceiptService.detectMimeType', () => {
+  it.each([
+    ['image/jpeg', bytes([0xff, 0xd8, 0xff, 0xe0], 'JFIF')],
+    ['image/png', bytes([0x89], 'PNG\r\n\x1a\n', [0x00])],
+    ['image/gif', bytes('GIF89a')],
+    ['image/webp', bytes('RIFF', [0x24, 0x00, 0x00, 0x00], 'WEBPVP8 ')],
+    ['application/pdf', bytes('%PDF-1.7\n')]
+  ])('detects %s from the content', (mimeType, buffer) => {
+    expect(ReceiptService.detectMimeType(buffer)).toBe(mimeType);
+  });
+
+  it.each([
+    ['an HTML page', bytes('<html><script>alert(1)</script>')],
+    ['a RIFF file that is not WebP', bytes('RIFF', [0x24, 0x00, 0x00, 0x00], 'WAVEfmt ')],
+    ['a truncated PNG', bytes([0x89], 'PNG')],
+    ['an empty file', bytes()]
+  ])('rejects %s', (_, buffer) => {
+    expect(ReceiptService.detectMimeType(buffer)).toBeUndefined();
+  });
+});
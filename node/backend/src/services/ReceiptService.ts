@@ -0,0 +1,28 @@
+/**
+ * Leading bytes of each receipt file type; null matches any byte
+ */
+const SIGNATURES: { mimeType: string; bytes: (number | null)[] }[] = [
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  // "GIF8"
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  // "RIFF", the file size, then "WEBP"
+  { mimeType: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  // "%PDF"
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] }
+];
+
+/**
+ * Checks receipt files by their content, since the type a client declares cannot be trusted
+ */
+export class ReceiptService {
+  /**
+   * Detects the type of a receipt file from its leading bytes
+   * Returns undefined when the file is none of the accepted receipt types
+   */
+  static detectMimeType(buffer: Buffer): string | undefined {
+    return SIGNATURES.find(({ bytes }) =>
+      buffer.length >= bytes.length && bytes.every((byte, index) => byte === null || buffer[index] === byte)
+    )?.mimeType;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { SimilarityStrategyName } from '../types/Transaction';
+import { isSimilarityStrategyName, SIMILARITY_STRATEGIES } from './SimilarityStrategies';
+
+const STRATEGY_NAMES = Object.keys(SIMILARITY_STRATEGIES) as SimilarityStrategyName[];
+
+describe('SIMILARITY_STRATEGIES', () => {
+  it.each(STRATEGY_NAMES)('%s scores identical names 1', name => {
+    expect(SIMILARITY_STRATEGIES[name].score('mayuri foods', 'mayuri foods')).toBe(1);
+  });
+
+  it.each(STRATEGY_NAMES)('%s scores 0 when a name normalized to nothing', name => {
+    const strategy = SIMILARITY_STRATEGIES[name];
+
+    expect(strategy.score('', '')).toBe(0);
+    expect(strategy.score('', 'safeway')).toBe(0);
+    expect(strategy.score('safeway', '')).toBe(0);
+    expect(strategy.explain('', '')).toBe('Nothing left to compare once normalized');
+  });
+
+  it('levenshtein scores typos relative to the longer name', () => {
+    expect(SIMILARITY_STRATEGIES.levenshtein.score('safeway', 'safewya')).toBeCloseTo(1 - 2 / 7);
+    expect(SIMILARITY_STRATEGIES.levenshtein.explain('safeway', 'safewya')).toBe('2 character edits apart');
+  });
+
+  it('token-set ignores word order and generic words', () => {
+    expect(SIMILARITY_STRATEGIES['token-set'].score('mayuri foods', 'mayuri')).toBe(1);
+    expect(SIMILARITY_STRATEGIES['token-set'].score('joe trader', 'trader joe')).toBe(1);
+    expect(SIMILARITY_STRATEGIES['token-set'].score('safeway', 'target')).toBe(0);
+  });
+
+  it('jaro-winkler favours a shared start', () => {
+    const strategy = SIMILARITY_STRATEGIES['jaro-winkler'];
+
+    expect(strategy.score('target', 'targte')).toBeGreaterThan(strategy.score('target', 'atrget'));
+  });
+
+  it('prefix needs a shared start of at least three characters', () => {
+    expect(SIMILARITY_STRATEGIES.prefix.score('target', 'target optical')).toBe(1);
+    expect(SIMILARITY_STRATEGIES.prefix.score('ta', 'tax')).toBe(0);
+  });
+});
+
+describe('isSimilarityStrategyName', () => {
+  it('accepts only known strategy names', () => {
+    expect(isSimilarityStrategyName('prefix')).toBe(true);
+    expect(isSimilarityStrategyName('toString')).toBe(false);
+    expect(isSimilarityStrategyName(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import levenshtein from 'fast-levenshtein';
+import { SimilarityStrategyName } from '../types/Transaction';
+import { BlockingIndex, CandidateIndex, StoreNameIndex } from './StoreNameIndex';
+
+/**
+ * A way of scoring how similar two normalized store names are
+ * Normalizing, including stripping store numbers, happens before a strategy sees the names, so
+ * every strategy works the same with or without it
+ */
+export interface SimilarityStrategy {
+  name: SimilarityStrategyName;
+  /** Score above which names are grouped unless another threshold is requested */
+  defaultThreshold: number;
+  /** Similarity between 0 and 1 */
+  score(a: string, b: string): number;
+  /** Short reason shown next to a grouped variation */
+  explain(a: string, b: string): string;
+  /** Index used to find the names worth scoring against each other */
+  createIndex(names: string[], threshold: number): CandidateIndex;
+}
+
+/**
+ * Words that say what kind of business a store is rather than which one,
+ * e.g. "Mayuri Foods" is the same store as "Mayuri"
+ */
+const GENERIC_WORDS = new Set([
+  'the', 'and', 'inc', 'llc', 'ltd', 'co', 'corp', 'company',
+  'store', 'stores', 'shop', 'market', 'mart', 'foods', 'food', 'grocery', 'groceries',
+  'supermarket', 'restaurant', 'cafe', 'online', 'com', 'www'
+]);
+
+/** Shortest shared start that the prefix strategy counts as a match */
+const MIN_PREFIX_LENGTH = 3;
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+const toWords = (name: string) => name.split(/\s+/).filter(Boolean);
+
+const toDistinctiveWords = (name: string) => {
+  const words = toWords(name);
+  const distinctive = words.filter(word => !GENERIC_WORDS.has(word));
+  // A name made only of generic words, e.g. "Grocery Store", is compared as it is
+  return new Set(distinctive.length > 0 ? distinctive : words);
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+/**
+ * Jaro similarity: shared characters within a sliding window, penalised for transpositions
+ */
+const jaro = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+};
+
+/**
+ * Blocking keys shared by names that start with the same two letters or have a word in common
+ * Unlike the other indexes this can miss a few similar pairs, e.g. a typo in the first
+ * two letters of a one-word name
+ */
+const wordAndPrefixKeys = (name: string) => [
+  `^${name.slice(0, 2)}`,
+  ...toWords(name).map(word => `w:${word}`)
+];
+
+/**
+ * Edit distance relative to the longer name; good at typos, weak at extra words
+ */
+const levenshteinStrategy: SimilarityStrategy = {
+  name: 'levenshtein',
+  defaultThreshold: 0.8,
+  score: (a, b) => 1 - levenshtein.get(a, b) / Math.max(a.length, b.length),
+  explain: (a, b) => {
+    const distance = levenshtein.get(a, b);
+    return distance === 0
+      ? 'Same name apart from case, punctuation or store number'
+      : `${distance} character edit${distance === 1 ? '' : 's'} apart`;
+  },
+  createIndex: (names, threshold) => new StoreNameIndex(names, threshold)
+};
+
+/**
+ * Overlap of distinctive words; ignores word order and generic words such as "Foods" or "Inc"
+ */
+const tokenSetStrategy: SimilarityStrategy = {
+  name: 'token-set',
+  defaultThreshold: 0.6,
+  score: (a, b) => {
+    const aWords = toDistinctiveWords(a);
+    const bWords = toDistinctiveWords(b);
+    const shared = [...aWords].filter(word => bWords.has(word)).length;
+    return shared / new Set([...aWords, ...bWords]).size;
+  },
+  explain: (a, b) => {
+    const bWords = toDistinctiveWords(b);
+    const shared = [...toDistinctiveWords(a)].filter(word => bWords.has(word));
+    const ignored = [...new Set([...toWords(a), ...toWords(b)])].filter(word => GENERIC_WORDS.has(word));
+    return `Shares the words: ${shared.join(', ')}` +
+      (ignored.length > 0 ? ` (ignoring ${ignored.join(', ')})` : '');
+  },
+  // Names only score above zero when they share a distinctive word
+  createIndex: names => new BlockingIndex(names.map(name => [...toDistinctiveWords(name)]))
+};
+
+/**
+ * Character matches weighted towards a shared start; good at short names and transposed letters
+ */
+const jaroWinklerStrategy: SimilarityStrategy = {
+  name: 'jaro-winkler',
+  defaultThreshold: 0.9,
+  score: (a, b) => {
+    const similarity = jaro(a, b);
+    const prefix = Math.min(commonPrefixLength(a, b), 4);
+    return similarity + prefix * 0.1 * (1 - similarity);
+  },
+  explain: (a, b) => {
+    const prefix = a.slice(0, commonPrefixLength(a, b));
+    return `${percent(jaro(a, b))} of characters match` +
+      (prefix.trim() ? `, both start with "${prefix.trim()}"` : '');
+  },
+  createIndex: names => new BlockingIndex(names.map(wordAndPrefixKeys))
+};
+
+/**
+ * Share of the shorter name that the longer one starts with; groups "Target" with "Target Optical"
+ */
+const prefixStrategy: SimilarityStrategy = {
+  name: 'prefix',
+  defaultThreshold: 0.8,
+  score: (a, b) => {
+    const prefix = commonPrefixLength(a, b);
+    return prefix < MIN_PREFIX_LENGTH ? 0 : prefix / Math.min(a.length, b.length);
+  },
+  explain: (a, b) => `Both start with "${a.slice(0, commonPrefixLength(a, b)).trim()}"`,
+  createIndex: names => new BlockingIndex(names.map(name => [name.slice(0, MIN_PREFIX_LENGTH)]))
+};
+
+/**
+ * Names that normalize to nothing, e.g. a bare store number once store numbers are stripped, say
+ * nothing about the store, so they are not similar to any name, not even to each other
+ */
+const scoringEmptyNamesAsZero = (strategy: SimilarityStrategy): SimilarityStrategy => ({
+  ...strategy,
+  score: (a, b) => a && b ? strategy.score(a, b) : 0,
+  explain: (a, b) => a && b ? strategy.explain(a, b) : 'Nothing left to compare once normalized'
+});
+
+export const SIMILARITY_STRATEGIES: Record<SimilarityStrategyName, SimilarityStrategy> = {
+  'levenshtein': scoringEmptyNamesAsZero(levenshteinStrategy),
+  'token-set': scoringEmptyNamesAsZero(tokenSetStrategy),
+  'jaro-winkler': scoringEmptyNamesAsZero(jaroWinklerStrategy),
+  'prefix': scoringEmptyNamesAsZero(prefixStrategy)
+};
+
+export const DEFAULT_STRATEGY: SimilarityStrategyName = 'levenshtein';
+
+export const isSimilarityStrategyName = (value: unknown): value is SimilarityStrategyName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SIMILARITY_STRATEGIES, value);
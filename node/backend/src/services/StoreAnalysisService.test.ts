@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { StoreGrouping, StorePairFeedback, StorePairVerdict, Transaction } from '../types/Transaction';
+import { StoreAnalysisService } from './StoreAnalysisService';
+
+const transactionsAt = (...descriptions: string[]): Transaction[] =>
+  descriptions.map((description, index) => ({
+    id: `t${index}`,
+    date: '2025-01-01',
+    description,
+    store: description,
+    category: 'Groceries',
+    cost: 1000,
+    currency: 'USD',
+    shares: []
+  }));
+
+describe('StoreAnalysisService.analyzeSimilarStores', () => {
+  it('groups names that differ by a typo', () => {
+    const groups = StoreAnalysisService.analyzeSimilarStores(transactionsAt('Safeway', 'Safeway', 'Safewy'));
+
+    expect(groups.map(({ canonicalName, variations }) => ({ canonicalName, variations }))).toEqual([
+      { canonicalName: 'Safeway', variations: ['Safewy'] }
+    ]);
+  });
+
+  it('does not group names that are only store numbers', () => {
+    const transactions = transactionsAt('#1234', '#5678', 'Store 0042');
+
+    for (const strategy of ['levenshtein', 'token-set', 'jaro-winkler', 'prefix'] as const) {
+      expect(StoreAnalysisService.analyzeSimilarStores(transactions, {}, { strategy, stripStoreNumbers: true }))
+        .toEqual([]);
+    }
+  });
+});
+
+describe('StoreAnalysisService feedback learning', () => {
+  const feedback = (nameA: string, nameB: string, verdict: StorePairVerdict): StorePairFeedback =>
+    ({ nameA, nameB, verdict, updatedAt: '2025-01-01T00:00:00.000Z' });
+
+  const groupsOf = (groups: StoreGrouping[]) =>
+    groups.map(({ canonicalName, variations }) => [canonicalName, ...variations].sort());
+
+  it('groups accepted pairs whatever their score', () => {
+    const groups = StoreAnalysisService.analyzeSimilarStores(
+      transactionsAt('Trader Joes', 'TJs'),
+      {},
+      {},
+      [feedback('TJs', 'Trader Joes', 'accept')]
+    );
+
+    expect(groupsOf(groups)).toEqual([['TJs', 'Trader Joes']]);
+  });
+
+  it('never groups rejected pairs', () => {
+    const groups = StoreAnalysisService.analyzeSimilarStores(
+      transactionsAt('Safeway', 'Safewy'),
+      {},
+      {},
+      [feedback('Safeway', 'Safewy', 'reject')]
+    );
+
+    expect(groups).toEqual([]);
+  });
+
+  it('ignores words learned from an accepted pair when comparing its names', () => {
+    const groups = StoreAnalysisService.analyzeSimilarStores(
+      transactionsAt('Mayuri', 'Mayuri Foods Express', 'Mayuri Express'),
+      {},
+      {},
+      [feedback('Mayuri', 'Mayuri Foods Express', 'accept')]
+    );
+
+    expect(groupsOf(groups)).toEqual([['Mayuri', 'Mayuri Express', 'Mayuri Foods Express']]);
+  });
+
+  it('keeps words learned from an accepted pair when comparing other names', () => {
+    const groups = StoreAnalysisService.analyzeSimilarStores(
+      transactionsAt('Mayuri', 'Mayuri Foods Express', 'Whole Foods', 'Whole Express'),
+      {},
+      {},
+      [feedback('Mayuri', 'Mayuri Foods Express', 'accept')]
+    );
+
+    expect(groupsOf(groups)).toEqual([['Mayuri', 'Mayuri Foods Express']]);
+  });
+
+  it('explains that a variation was grouped before', () => {
+    const group = StoreAnalysisService.scoreGroup(
+      { canonicalName: 'Trader Joes', variations: ['TJs'] },
+      {},
+      [feedback('TJs', 'Trader Joes', 'accept')]
+    );
+
+    expect(group.matches?.[0].explanation).toMatch(/^Grouped together before; /);
+  });
+});
+
+describe('StoreAnalysisService.mergeMappings', () => {
+  it('adds new groups and new variations of existing groups', () => {
+    const merged = StoreAnalysisService.mergeMappings(
+      { Mayuri: ['Mayuri Foods'] },
+      { Mayuri: ['MAYURI', 'Mayuri Foods'], Safeway: ['Safeway #1234'] }
+    );
+
+    expect(merged).toEqual({
+      Mayuri: ['Mayuri Foods', 'MAYURI'],
+      Safeway: ['Safeway #1234']
+    });
+  });
+
+  it('moves a variation out of the group it had before', () => {
+    const merged = StoreAnalysisService.mergeMappings(
+      { Safeway: ['Safeway #1234', 'Safeway Fuel'] },
+      { 'Safeway Gas': ['Safeway Fuel'] }
+    );
+
+    expect(merged).toEqual({
+      Safeway: ['Safeway #1234'],
+      'Safeway Gas': ['Safeway Fuel']
+    });
+  });
+
+  it('drops a group left without variations', () => {
+    const merged = StoreAnalysisService.mergeMappings(
+      { Trader: ['Trader Joes'] },
+      { "Trader Joe's": ['Trader Joes'] }
+    );
+
+    expect(merged).toEqual({ "Trader Joe's": ['Trader Joes'] });
+  });
+
+  it('leaves the base mappings unchanged', () => {
+    const base = { Safeway: ['Safeway #1234', 'Safeway Fuel'] };
+    StoreAnalysisService.mergeMappings(base, { 'Safeway Gas': ['Safeway Fuel'] });
+
+    expect(base).toEqual({ Safeway: ['Safeway #1234', 'Safeway Fuel'] });
+  });
+});
+
+describe('StoreAnalysisService mapping changes', () => {
+  const before = { Safeway: ['Safeway #1234'], 'Safeway Fuel': ['Safeway Gas'], Mayuri: ['Mayuri Foods'] };
+  const after = { Safeway: ['Safeway #1234', 'Safeway Fuel', 'Safeway Gas'], Mayuri: ['Mayuri Foods'] };
+
+  it('lists only the groups an edit changed', () => {
+    expect(StoreAnalysisService.diffMappings(before, after)).toEqual([
+      { canonicalName: 'Safeway', before: ['Safeway #1234'], after: ['Safeway #1234', 'Safeway Fuel', 'Safeway Gas'] },
+      { canonicalName: 'Safeway Fuel', before: ['Safeway Gas'], after: null }
+    ]);
+  });
+
+  it('undoes and redoes an edit', () => {
+    const changes = StoreAnalysisService.diffMappings(before, after);
+
+    expect(StoreAnalysisService.applyMappingChanges(after, changes, 'before')).toEqual(before);
+    expect(StoreAnalysisService.applyMappingChanges(before, changes, 'after')).toEqual(after);
+  });
+
+  it('keeps groups changed since the edit by anything else', () => {
+    const changes = StoreAnalysisService.diffMappings(before, after);
+    const sinceUpload = { ...after, Mayuri: ['Mayuri Foods', 'MAYURI'], Costco: ['Costco Wholesale'] };
+
+    expect(StoreAnalysisService.applyMappingChanges(sinceUpload, changes, 'before')).toEqual({
+      ...before,
+      Mayuri: ['Mayuri Foods', 'MAYURI'],
+      Costco: ['Costco Wholesale']
+    });
+  });
+
+  it('takes a variation put back out of a group it joined since', () => {
+    const changes = StoreAnalysisService.diffMappings(before, after);
+    const sinceUpload = { ...after, Mayuri: ['Mayuri Foods', 'Safeway Gas'] };
+
+    expect(StoreAnalysisService.applyMappingChanges(sinceUpload, changes, 'before').Mayuri).toEqual(['Mayuri Foods']);
+  });
+});
@@ -1,76 +1,374 @@
-import levenshtein from 'fast-levenshtein';
-import { Transaction, StoreGrouping } from '../types/Transaction';
+import {
+  Transaction,
+  StoreGrouping,
+  SimilarityOptions,
+  StorePairFeedback,
+  StoreMappingChange,
+  StorePairVerdict,
+  VariationMatch
+} from '../types/Transaction';
+import { DEFAULT_STRATEGY, SIMILARITY_STRATEGIES } from './SimilarityStrategies';
+
+/**
+ * Store pair feedback prepared for quick lookups while grouping
+ */
+interface FeedbackLookup {
+  /** Verdict by pair key, see `pairKey` */
+  verdicts: Map<string, StorePairVerdict>;
+  /** Names each name was accepted together with */
+  acceptedWith: Map<string, string[]>;
+  /**
+   * Words an accepted pair shows can be left out when comparing either of its names, e.g. "foods"
+   * for Mayuri and for Mayuri Foods; other names keep the word
+   */
+  ignoredWords: Map<string, Set<string>>;
+}
+
+/** Most extra words an accepted pair may differ by for those words to be learned as ignorable */
+const MAX_LEARNED_WORDS_PER_PAIR = 2;
 
 export class StoreAnalysisService {
   /**
    * Analyzes store names in transactions and suggests groupings for similar names
-   * Uses Levenshtein distance to measure string similarity
+   * Similarity is measured with the chosen strategy (Levenshtein distance by default), comparing
+   * each name only with the candidates found by the strategy's index rather than with every other name
+   * Names covered by `knownMappings` only anchor suggestions: groups made up entirely of
+   * covered names are dropped, and a group containing a covered name keeps its canonical name
+   * `feedback` from earlier edits is honored: rejected pairs never end up in one group, accepted
+   * pairs are grouped whatever their score, and words that accepted pairs differ by are ignored
+   * when comparing either name of the pair with other names
    */
-  static analyzeSimilarStores(transactions: Transaction[]): StoreGrouping[] {
+  static analyzeSimilarStores(
+    transactions: Transaction[],
+    knownMappings: { [canonicalName: string]: string[] } = {},
+    options: SimilarityOptions = {},
+    feedback: StorePairFeedback[] = []
+  ): StoreGrouping[] {
+    const strategy = SIMILARITY_STRATEGIES[options.strategy ?? DEFAULT_STRATEGY];
+    const threshold = options.threshold ?? strategy.defaultThreshold;
+    const lookup = this.createFeedbackLookup(feedback);
+
     // Extract unique store names
     const storeNames = [...new Set(transactions.map(t => t.description))];
     
-    // Normalize store names (lowercase, remove punctuation)
+    // Normalize store names (lowercase, remove punctuation), leaving out the words learned for them
     const normalizedNames = storeNames.map(name => ({
       original: name,
-      normalized: name.toLowerCase().replace(/[^\w\s]/g, '')
+      normalized: this.normalizeName(name, options.stripStoreNumbers, lookup.ignoredWords.get(name))
     }));
+    const positions = new Map(storeNames.map((name, position) => [name, position]));
+    // The index compares names as normalized on their own, but a name with learned words is
+    // normalized differently against each other name, so it is compared with every name
+    const learnedPositions = storeNames
+      .map((name, position) => lookup.ignoredWords.has(name) ? position : -1)
+      .filter(position => position !== -1);
 
     // Group similar names
     const groups: { [key: string]: string[] } = {};
     const processedNames = new Set<string>();
+    const index = strategy.createIndex(normalizedNames.map(({ normalized }) => normalized), threshold);
+    const counts = this.countDescriptions(transactions);
 
-    normalizedNames.forEach(({ original, normalized }) => {
+    normalizedNames.forEach(({ original, normalized }, position) => {
       // Skip if this name is already in a group
       if (processedNames.has(original)) return;
 
       const similarNames = [original];
       processedNames.add(original);
+      index.remove(position);
 
-      // Find similar names using Levenshtein distance
-      normalizedNames.forEach(({ original: other, normalized: otherNorm }) => {
-        if (original !== other && !processedNames.has(other)) {
-          const distance = levenshtein.get(normalized, otherNorm);
-          const similarity = 1 - distance / Math.max(normalized.length, otherNorm.length);
-
-          // Consider names similar if they have high similarity
-          if (similarity > 0.8) {
-            similarNames.push(other);
-            processedNames.add(other);
-          }
+      // A name only joins when it was never rejected with a name already in the group
+      const canJoin = (other: string) =>
+        similarNames.every(name => lookup.verdicts.get(this.pairKey(name, other)) !== 'reject');
+      const join = (other: string, otherPosition: number) => {
+        similarNames.push(other);
+        processedNames.add(other);
+        index.remove(otherPosition);
+      };
+
+      // Names accepted together before are grouped whatever their score
+      (lookup.acceptedWith.get(original) || []).forEach(other => {
+        const otherPosition = positions.get(other);
+        if (otherPosition !== undefined && !processedNames.has(other) && canJoin(other)) {
+          join(other, otherPosition);
+        }
+      });
+
+      // Find similar names among the candidates
+      const candidates = lookup.ignoredWords.has(original)
+        ? storeNames.map((_, other) => other).filter(other => other !== position)
+        : [...new Set([...index.findCandidates(position), ...learnedPositions])]
+          .filter(other => other !== position)
+          .sort((a, b) => a - b);
+      candidates.forEach(candidate => {
+        const { original: other, normalized: otherNorm } = normalizedNames[candidate];
+
+        if (processedNames.has(other)) return;
+
+        // Consider names similar if they have high similarity
+        const [a, b] = lookup.ignoredWords.has(original) || lookup.ignoredWords.has(other)
+          ? this.normalizePair(original, other, options.stripStoreNumbers, lookup)
+          : [normalized, otherNorm];
+        if (strategy.score(a, b) > threshold && canJoin(other)) {
+          join(other, candidate);
         }
       });
 
       // Only create a group if there are variations
       if (similarNames.length > 1) {
         // Use the most frequent name as canonical
-        const canonicalName = this.findMostFrequent(similarNames, transactions);
+        const canonicalName = this.findMostFrequent(similarNames, counts);
         groups[canonicalName] = similarNames.filter(name => name !== canonicalName);
       }
     });
 
-    // Convert groups to array format
-    return Object.entries(groups).map(([canonicalName, variations]) => ({
-      canonicalName,
-      variations
-    }));
+    // Convert groups to array format, leaving out what is already mapped
+    const knownCanonical = this.createReverseMap(knownMappings);
+    return Object.entries(groups).flatMap(([canonicalName, variations]) => {
+      const names = [canonicalName, ...variations];
+      const uncovered = names.filter(name => !knownCanonical.has(name));
+      if (uncovered.length === 0) return [];
+
+      const covered = names.find(name => knownCanonical.has(name));
+      const canonical = covered ? knownCanonical.get(covered)! : canonicalName;
+      return [this.scoreGroupWith({
+        canonicalName: canonical,
+        variations: names.filter(name => name !== canonical)
+      }, options, lookup)];
+    });
   }
 
   /**
-   * Finds the most frequently used name from a list of similar names
+   * Adds how closely each variation matches the canonical name, with a short explanation
    */
-  private static findMostFrequent(names: string[], transactions: Transaction[]): string {
-    const counts = new Map<string, number>();
-    
-    // Count occurrences of each name
-    names.forEach(name => {
-      const count = transactions.filter(t => t.description === name).length;
-      counts.set(name, count);
+  static scoreGroup(
+    group: StoreGrouping,
+    options: SimilarityOptions = {},
+    feedback: StorePairFeedback[] = []
+  ): StoreGrouping {
+    return this.scoreGroupWith(group, options, this.createFeedbackLookup(feedback));
+  }
+
+  private static scoreGroupWith(
+    group: StoreGrouping,
+    options: SimilarityOptions,
+    lookup: FeedbackLookup
+  ): StoreGrouping {
+    const strategy = SIMILARITY_STRATEGIES[options.strategy ?? DEFAULT_STRATEGY];
+
+    const matches: VariationMatch[] = group.variations.map(variation => {
+      const [canonical, normalized] = this.normalizePair(
+        group.canonicalName,
+        variation,
+        options.stripStoreNumbers,
+        lookup
+      );
+      const score = strategy.score(canonical, normalized);
+      const explanation = strategy.explain(canonical, normalized);
+      const accepted = lookup.verdicts.get(this.pairKey(group.canonicalName, variation)) === 'accept';
+      return {
+        variation,
+        confidence: Number.isNaN(score) ? 0 : Math.round(score * 100) / 100,
+        explanation: accepted ? `Grouped together before; ${explanation}` : explanation
+      };
+    });
+
+    return { ...group, matches };
+  }
+
+  /**
+   * Normalizes a store name for comparison: lowercase without punctuation, optionally
+   * without store numbers such as "#1234" or a trailing "0042", and without ignored words
+   * unless the name consists of nothing else
+   */
+  private static normalizeName(
+    name: string,
+    stripStoreNumbers = false,
+    ignoredWords: Set<string> = new Set()
+  ): string {
+    let normalized = name.toLowerCase();
+    if (stripStoreNumbers) {
+      normalized = normalized
+        .replace(/(^|\s)(no\.?|#)?\s*#?\d+(?=\s|$)/g, ' ')
+        .replace(/[^\w\s]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    } else {
+      normalized = normalized.replace(/[^\w\s]/g, '');
+    }
+    if (ignoredWords.size === 0) return normalized;
+
+    const words = normalized.split(/\s+/).filter(Boolean);
+    const kept = words.filter(word => !ignoredWords.has(word));
+    return kept.length > 0 && kept.length < words.length ? kept.join(' ') : normalized;
+  }
+
+  /**
+   * Normalizes two names for comparing them with each other, leaving out the words learned for either
+   */
+  private static normalizePair(
+    a: string,
+    b: string,
+    stripStoreNumbers: boolean | undefined,
+    lookup: FeedbackLookup
+  ): [string, string] {
+    const ignoredWords = new Set([...(lookup.ignoredWords.get(a) || []), ...(lookup.ignoredWords.get(b) || [])]);
+    return [
+      this.normalizeName(a, stripStoreNumbers, ignoredWords),
+      this.normalizeName(b, stripStoreNumbers, ignoredWords)
+    ];
+  }
+
+  /**
+   * Key identifying a pair of names regardless of their order
+   */
+  private static pairKey(a: string, b: string): string {
+    return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+  }
+
+  private static createFeedbackLookup(feedback: StorePairFeedback[]): FeedbackLookup {
+    const verdicts = new Map<string, StorePairVerdict>();
+    const acceptedWith = new Map<string, string[]>();
+    const ignoredWords = new Map<string, Set<string>>();
+
+    feedback.forEach(({ nameA, nameB, verdict }) => {
+      verdicts.set(this.pairKey(nameA, nameB), verdict);
+      if (verdict !== 'accept') return;
+
+      acceptedWith.set(nameA, [...(acceptedWith.get(nameA) || []), nameB]);
+      acceptedWith.set(nameB, [...(acceptedWith.get(nameB) || []), nameA]);
+
+      // When one name is the other plus a word or two, those words do not tell stores apart
+      const wordsA = new Set(this.normalizeName(nameA).split(/\s+/).filter(Boolean));
+      const wordsB = new Set(this.normalizeName(nameB).split(/\s+/).filter(Boolean));
+      const [shorter, longer] = wordsA.size <= wordsB.size ? [wordsA, wordsB] : [wordsB, wordsA];
+      const extra = [...longer].filter(word => !shorter.has(word));
+      const isSubset = [...shorter].every(word => longer.has(word));
+      if (shorter.size > 0 && isSubset && extra.length > 0 && extra.length <= MAX_LEARNED_WORDS_PER_PAIR) {
+        [nameA, nameB].forEach(name => {
+          ignoredWords.set(name, new Set([...(ignoredWords.get(name) || []), ...extra]));
+        });
+      }
+    });
+
+    return { verdicts, acceptedWith, ignoredWords };
+  }
+
+  /**
+   * Picks the mappings whose variations occur in the given transactions
+   * Used to apply the mapping library to a new upload
+   */
+  static getMatchingMappings(
+    transactions: Transaction[],
+    mappings: { [canonicalName: string]: string[] }
+  ): { [canonicalName: string]: string[] } {
+    const descriptions = new Set(transactions.map(t => t.description));
+    const matching: { [canonicalName: string]: string[] } = {};
+
+    Object.entries(mappings).forEach(([canonical, variations]) => {
+      const found = variations.filter(variation => descriptions.has(variation));
+      if (found.length > 0) matching[canonical] = found;
+    });
+
+    return matching;
+  }
+
+  /**
+   * Combines two sets of mappings, keeping every variation of each canonical name once
+   * Additions win: a variation they map is taken out of the group it had in `base`, and a group
+   * left without variations is dropped
+   */
+  static mergeMappings(
+    base: { [canonicalName: string]: string[] },
+    additions: { [canonicalName: string]: string[] }
+  ): { [canonicalName: string]: string[] } {
+    const merged: { [canonicalName: string]: string[] } = { ...base };
+    Object.entries(additions).forEach(([canonical, variations]) => {
+      const moved = new Set(variations);
+      Object.entries(merged).forEach(([other, otherVariations]) => {
+        if (other === canonical) return;
+        const remaining = otherVariations.filter(variation => !moved.has(variation));
+        if (remaining.length === otherVariations.length) return;
+        if (remaining.length > 0) {
+          merged[other] = remaining;
+        } else {
+          delete merged[other];
+        }
+      });
+      merged[canonical] = [...new Set([...(merged[canonical] || []), ...variations])];
+    });
+    return merged;
+  }
+
+  /**
+   * Lists the groups that differ between two sets of mappings
+   */
+  static diffMappings(
+    before: { [canonicalName: string]: string[] },
+    after: { [canonicalName: string]: string[] }
+  ): StoreMappingChange[] {
+    const isSame = (a: string[] | undefined, b: string[] | undefined) =>
+      a !== undefined && b !== undefined && a.length === b.length && a.every((name, index) => name === b[index]);
+
+    return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(canonicalName => !isSame(before[canonicalName], after[canonicalName]))
+      .map(canonicalName => ({
+        canonicalName,
+        before: before[canonicalName] ?? null,
+        after: after[canonicalName] ?? null
+      }));
+  }
+
+  /**
+   * Puts back one side of recorded group changes: `before` to undo an edit, `after` to redo it
+   * Only the changed groups are replaced, so groups changed since by anything else, e.g. an upload, are
+   * kept; a variation put back is taken out of a group it has joined since
+   */
+  static applyMappingChanges(
+    mappings: { [canonicalName: string]: string[] },
+    changes: StoreMappingChange[],
+    side: 'before' | 'after'
+  ): { [canonicalName: string]: string[] } {
+    const untouched = { ...mappings };
+    changes.forEach(change => delete untouched[change.canonicalName]);
+
+    const restored: { [canonicalName: string]: string[] } = {};
+    changes.forEach(change => {
+      const variations = change[side];
+      if (variations) restored[change.canonicalName] = variations;
     });
+    return this.mergeMappings(untouched, restored);
+  }
 
-    // Return the name with highest count
-    return [...counts.entries()]
-      .sort((a, b) => b[1] - a[1])[0][0];
+  /**
+   * Maps every canonical name and variation to its canonical name
+   */
+  private static createReverseMap(mappings: { [canonicalName: string]: string[] }): Map<string, string> {
+    const reverseMap = new Map<string, string>();
+    Object.entries(mappings).forEach(([canonical, variations]) => {
+      reverseMap.set(canonical, canonical);
+      variations.forEach(variation => reverseMap.set(variation, canonical));
+    });
+    return reverseMap;
+  }
+
+  /**
+   * Counts how many transactions use each description
+   */
+  private static countDescriptions(transactions: Transaction[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    transactions.forEach(t => counts.set(t.description, (counts.get(t.description) || 0) + 1));
+    return counts;
+  }
+
+  /**
+   * Finds the most frequently used name from a list of similar names
+   * Ties go to the name listed first
+   */
+  private static findMostFrequent(names: string[], counts: Map<string, number>): string {
+    return names.reduce((best, name) =>
+      (counts.get(name) || 0) > (counts.get(best) || 0) ? name : best
+    );
   }
 
   /**
@@ -93,18 +391,18 @@ export class StoreAnalysisService {
     ];
 
     // Find the most frequent name to use as canonical
-    const canonicalName = this.findMostFrequent(allNames, transactions);
+    const canonicalName = this.findMostFrequent(allNames, this.countDescriptions(transactions));
 
     // Create new group with all variations
     const variations = allNames.filter(name => name !== canonicalName);
     const newGroup: StoreGrouping = { canonicalName, variations };
 
-    // Update transactions with new canonical name
+    // Point transactions at the new canonical name
     const updatedTransactions = transactions.map(transaction => {
       if (allNames.includes(transaction.description)) {
         return {
           ...transaction,
-          description: canonicalName
+          store: canonicalName
         };
       }
       return transaction;
@@ -132,18 +430,18 @@ export class StoreAnalysisService {
     };
 
     // Create new group from split variations
-    const canonicalName = this.findMostFrequent(variationsToSplit, transactions);
+    const canonicalName = this.findMostFrequent(variationsToSplit, this.countDescriptions(transactions));
     const newGroup: StoreGrouping = {
       canonicalName,
       variations: variationsToSplit.filter(v => v !== canonicalName)
     };
 
-    // Update transactions for the new group
+    // Point transactions of the new group at its canonical name
     const updatedTransactions = transactions.map(transaction => {
       if (variationsToSplit.includes(transaction.description)) {
         return {
           ...transaction,
-          description: canonicalName
+          store: canonicalName
         };
       }
       return transaction;
@@ -152,32 +450,59 @@ export class StoreAnalysisService {
     return { originalGroup, newGroup, updatedTransactions };
   }
 
+  /**
+   * Renames a group's canonical name
+   * A variation promoted to canonical name is removed from the variations
+   */
+  static renameGroup(group: StoreGrouping, newName: string): StoreGrouping {
+    const variations = [group.canonicalName, ...group.variations]
+      .filter(name => name !== newName);
+
+    return { canonicalName: newName, variations };
+  }
+
+  /**
+   * Converts mappings to the list of groups shown to the user
+   */
+  static toGroups(mappings: { [canonicalName: string]: string[] }): StoreGrouping[] {
+    return Object.entries(mappings).map(([canonicalName, variations]) => ({
+      canonicalName,
+      variations
+    }));
+  }
+
+  /**
+   * Replaces groups in a set of mappings
+   * Groups named in `removed` are dropped and `added` groups are appended
+   */
+  static replaceGroups(
+    mappings: { [canonicalName: string]: string[] },
+    removed: string[],
+    added: StoreGrouping[]
+  ): { [canonicalName: string]: string[] } {
+    const updated = Object.fromEntries(
+      Object.entries(mappings).filter(([canonical]) => !removed.includes(canonical))
+    );
+    added.forEach(group => {
+      updated[group.canonicalName] = group.variations;
+    });
+    return updated;
+  }
+
   /**
    * Applies store name mappings to transactions
-   * Updates transaction descriptions to use canonical names
+   * Sets each transaction's canonical store from its original description, leaving the
+   * description untouched; descriptions not in the mappings become their own store
    */
   static applyStoreMappings(
     transactions: Transaction[],
     mappings: { [canonicalName: string]: string[] }
   ): Transaction[] {
-    // Create reverse mapping for quick lookup
-    const reverseMap = new Map<string, string>();
-    Object.entries(mappings).forEach(([canonical, variations]) => {
-      variations.forEach(variation => {
-        reverseMap.set(variation, canonical);
-      });
-    });
+    const reverseMap = this.createReverseMap(mappings);
 
-    // Update transaction descriptions
     return transactions.map(transaction => {
-      const canonicalName = reverseMap.get(transaction.description);
-      if (canonicalName) {
-        return {
-          ...transaction,
-          description: canonicalName
-        };
-      }
-      return transaction;
+      const store = reverseMap.get(transaction.description) || transaction.description;
+      return store === transaction.store ? transaction : { ...transaction, store };
     });
   }
 }
\ No newline at end of file
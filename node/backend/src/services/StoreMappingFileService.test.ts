@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { StoreMappingFileService } from './StoreMappingFileService';
+
+const MAPPINGS = {
+  Safeway: ['SAFEWAY #1234', 'Safeway Fuel'],
+  "Trader Joe's": ['TRADER JOE\'S #552', 'Trader Joes, Oakland']
+};
+
+describe('StoreMappingFileService', () => {
+  describe('export and import', () => {
+    it.each(['csv', 'json'] as const)('reads back what it writes as %s', async format => {
+      const content = StoreMappingFileService.serialize(MAPPINGS, format);
+      const { mappings, errors } = await StoreMappingFileService.parse(Buffer.from(content), format);
+
+      expect(errors).toEqual([]);
+      expect(mappings).toEqual(MAPPINGS);
+    });
+
+    it('quotes CSV fields with commas', () => {
+      const content = StoreMappingFileService.serialize({ "Trader Joe's": ['Trader Joes, Oakland'] }, 'csv');
+
+      expect(content).toBe('canonicalName,variation\nTrader Joe\'s,"Trader Joes, Oakland"\n');
+    });
+
+    it('reports names listed under two canonical names', async () => {
+      const content = 'canonicalName,variation\nSafeway,Safeway Fuel\nShell,Safeway Fuel\n';
+      const { errors } = await StoreMappingFileService.parse(Buffer.from(content), 'csv');
+
+      expect(errors).toEqual(['"Safeway Fuel" is listed under both "Safeway" and "Shell"']);
+    });
+
+    it('detects the format from the file name', () => {
+      expect(StoreMappingFileService.detectFormat('mappings.JSON')).toBe('json');
+      expect(StoreMappingFileService.detectFormat('mappings.csv')).toBe('csv');
+    });
+  });
+
+  describe('importMappings', () => {
+    it('adds new names to their groups', () => {
+      const result = StoreMappingFileService.importMappings(
+        { Safeway: ['SAFEWAY #1234'] },
+        { Safeway: ['Safeway Fuel'], Target: ['TARGET 00012'] },
+        'skip'
+      );
+
+      expect(result).toEqual({
+        mappings: { Safeway: ['SAFEWAY #1234', 'Safeway Fuel'], Target: ['TARGET 00012'] },
+        conflicts: [],
+        namesImported: 2
+      });
+    });
+
+    it('keeps names mapped elsewhere where they are when skipping conflicts', () => {
+      const result = StoreMappingFileService.importMappings(
+        { Safeway: ['Safeway Fuel'] },
+        { 'Safeway Gas': ['Safeway Fuel'] },
+        'skip'
+      );
+
+      expect(result.mappings).toEqual({ Safeway: ['Safeway Fuel'], 'Safeway Gas': [] });
+      expect(result.conflicts).toEqual([
+        { name: 'Safeway Fuel', currentCanonicalName: 'Safeway', importedCanonicalName: 'Safeway Gas' }
+      ]);
+      expect(result.namesImported).toBe(0);
+    });
+
+    it('moves names mapped elsewhere when overwriting conflicts', () => {
+      const result = StoreMappingFileService.importMappings(
+        { Safeway: ['SAFEWAY #1234', 'Safeway Fuel'] },
+        { 'Safeway Gas': ['Safeway Fuel'] },
+        'overwrite'
+      );
+
+      expect(result.mappings).toEqual({ Safeway: ['SAFEWAY #1234'], 'Safeway Gas': ['Safeway Fuel'] });
+      expect(result.namesImported).toBe(1);
+    });
+
+    it('moves a canonical name together with its variations', () => {
+      const result = StoreMappingFileService.importMappings(
+        { 'Safeway Fuel': ['SAFEWAY FUEL 0042'] },
+        { Safeway: ['Safeway Fuel'] },
+        'overwrite'
+      );
+
+      expect(result.mappings).toEqual({ Safeway: ['SAFEWAY FUEL 0042', 'Safeway Fuel'] });
+    });
+
+    it('keeps an imported canonical name without variations when overwriting', () => {
+      const result = StoreMappingFileService.importMappings(
+        { Safeway: ['SAFEWAY #1234', 'Safeway Fuel'] },
+        { 'Safeway Fuel': [] },
+        'overwrite'
+      );
+
+      expect(result.mappings).toEqual({ Safeway: ['SAFEWAY #1234'], 'Safeway Fuel': [] });
+      expect(result.conflicts).toEqual([
+        { name: 'Safeway Fuel', currentCanonicalName: 'Safeway', importedCanonicalName: 'Safeway Fuel' }
+      ]);
+      expect(result.namesImported).toBe(1);
+    });
+
+    it('leaves the existing mappings unchanged', () => {
+      const existing = { Safeway: ['SAFEWAY #1234', 'Safeway Fuel'] };
+      StoreMappingFileService.importMappings(existing, { 'Safeway Gas': ['Safeway Fuel'] }, 'overwrite');
+
+      expect(existing).toEqual({ Safeway: ['SAFEWAY #1234', 'Safeway Fuel'] });
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+import {
+  StoreMappingConflict,
+  StoreMappingConflictResolution,
+  StoreMappingFileFormat
+} from '../types/Transaction';
+
+type StoreMappings = { [canonicalName: string]: string[] };
+
+/** Header row written to exported CSV files */
+const CSV_HEADERS = ['canonicalName', 'variation'];
+
+/**
+ * Result of reading a mapping file
+ */
+export interface ParsedMappingFile {
+  mappings: StoreMappings;
+  /** Problems found in the file; nothing is imported when there are any */
+  errors: string[];
+}
+
+/**
+ * Result of combining imported mappings with a dataset's own
+ */
+export interface MappingImportResult {
+  mappings: StoreMappings;
+  conflicts: StoreMappingConflict[];
+  /** Names whose canonical name changed */
+  namesImported: number;
+}
+
+/**
+ * Reads and writes store mapping files so normalizations can be shared between people and datasets
+ */
+export class StoreMappingFileService {
+  /**
+   * Guesses the format of an uploaded file from its name, defaulting to CSV
+   */
+  static detectFormat(fileName: string): StoreMappingFileFormat {
+    return fileName.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  }
+
+  /**
+   * Writes mappings in the given format
+   */
+  static serialize(mappings: StoreMappings, format: StoreMappingFileFormat): string {
+    if (format === 'json') {
+      return JSON.stringify(mappings, null, 2);
+    }
+
+    const rows = Object.entries(mappings).flatMap(([canonicalName, variations]) =>
+      variations.map(variation => [canonicalName, variation])
+    );
+    return [CSV_HEADERS, ...rows].map(row => row.map(this.escapeCsvField).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Reads a mapping file, reporting malformed rows and names listed under more than one canonical name
+   */
+  static async parse(buffer: Buffer, format: StoreMappingFileFormat): Promise<ParsedMappingFile> {
+    const { pairs, errors } = format === 'json'
+      ? this.readJson(buffer.toString('utf8'))
+      : await this.readCsv(buffer);
+
+    const mappings: StoreMappings = {};
+    const canonicalOf = new Map<string, string>();
+    const assign = (name: string, canonicalName: string) => {
+      const existing = canonicalOf.get(name);
+      if (existing === undefined) {
+        canonicalOf.set(name, canonicalName);
+        return true;
+      }
+      if (existing !== canonicalName) {
+        errors.push(`"${name}" is listed under both "${existing}" and "${canonicalName}"`);
+      }
+      return false;
+    };
+
+    pairs.forEach(([canonicalName, variation]) => {
+      if (!mappings[canonicalName]) {
+        assign(canonicalName, canonicalName);
+        mappings[canonicalName] = [];
+      }
+      if (variation && variation !== canonicalName && assign(variation, canonicalName)) {
+        mappings[canonicalName].push(variation);
+      }
+    });
+
+    if (errors.length === 0 && pairs.length === 0) {
+      errors.push('The file contains no mappings');
+    }
+
+    return { mappings, errors };
+  }
+
+  /**
+   * Adds imported mappings to a dataset's mappings
+   * A name already mapped to a different canonical name is reported as a conflict, and is only
+   * moved when conflicts are overwritten; a moved canonical name takes its variations along
+   * An imported canonical name that is not left mapped to another name keeps a group of its own,
+   * even when it has no variations
+   */
+  static importMappings(
+    existing: StoreMappings,
+    imported: StoreMappings,
+    resolution: StoreMappingConflictResolution
+  ): MappingImportResult {
+    const mappings: StoreMappings = Object.fromEntries(
+      Object.entries(existing).map(([canonicalName, variations]) => [canonicalName, [...variations]])
+    );
+    const conflicts: StoreMappingConflict[] = [];
+    let namesImported = 0;
+
+    Object.entries(imported).forEach(([canonicalName, variations]) => {
+      [canonicalName, ...variations].forEach(name => {
+        const current = this.findCanonical(mappings, name);
+        if (current === canonicalName || (current === undefined && name === canonicalName)) return;
+
+        if (current !== undefined) {
+          conflicts.push({ name, currentCanonicalName: current, importedCanonicalName: canonicalName });
+          if (resolution === 'skip') return;
+
+          if (name === current) {
+            // The name leads a group of its own, which joins the imported group
+            const moved = mappings[name];
+            delete mappings[name];
+            if (name !== canonicalName) {
+              mappings[canonicalName] = [...new Set([...(mappings[canonicalName] || []), ...moved])];
+            }
+          } else {
+            mappings[current] = mappings[current].filter(variation => variation !== name);
+          }
+        }
+
+        if (name !== canonicalName) {
+          (mappings[canonicalName] ||= []).push(name);
+        }
+        namesImported++;
+      });
+
+      if (this.findCanonical(mappings, canonicalName) === undefined) {
+        mappings[canonicalName] = [];
+      }
+    });
+
+    return { mappings, conflicts, namesImported };
+  }
+
+  /**
+   * Returns the canonical name a name currently maps to, if any
+   */
+  private static findCanonical(mappings: StoreMappings, name: string): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(mappings, name)) return name;
+    return Object.keys(mappings).find(canonicalName => mappings[canonicalName].includes(name));
+  }
+
+  /**
+   * Reads an object of canonical name to variations, as written by the JSON export
+   */
+  private static readJson(content: string): { pairs: [string, string?][]; errors: string[] } {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      return { pairs: [], errors: [`File is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { pairs: [], errors: ['Expected an object with canonical names as keys and lists of variations as values'] };
+    }
+
+    const pairs: [string, string?][] = [];
+    const errors: string[] = [];
+    Object.entries(data).forEach(([key, variations]) => {
+      const canonicalName = key.trim();
+      if (!canonicalName) {
+        errors.push('Canonical names cannot be empty');
+      } else if (!Array.isArray(variations) || !variations.every(variation => typeof variation === 'string')) {
+        errors.push(`Variations of "${canonicalName}" must be a list of names`);
+      } else {
+        pairs.push([canonicalName]);
+        variations.forEach(variation => pairs.push([canonicalName, variation.trim()]));
+      }
+    });
+
+    return { pairs, errors };
+  }
+
+  /**
+   * Reads "canonicalName,variation" rows, as written by the CSV export
+   * Header names are matched ignoring case, spaces and underscores
+   */
+  private static async readCsv(buffer: Buffer): Promise<{ pairs: [string, string?][]; errors: string[] }> {
+    const { headers, rows } = await new Promise<{ headers: string[]; rows: { [column: string]: string }[] }>(
+      (resolve, reject) => {
+        let headers: string[] = [];
+        const rows: { [column: string]: string }[] = [];
+        Readable.from(buffer)
+          .pipe(csv())
+          .on('headers', (headerList: string[]) => {
+            headers = headerList;
+          })
+          .on('data', (values: { [column: string]: string }) => rows.push(values))
+          .on('end', () => resolve({ headers, rows }))
+          .on('error', reject);
+      }
+    );
+
+    const findHeader = (name: string) =>
+      headers.find(header => header.replace(/[\s_]/g, '').toLowerCase() === name.toLowerCase());
+    const canonicalColumn = findHeader('canonicalName');
+    const variationColumn = findHeader('variation');
+    if (!canonicalColumn || !variationColumn) {
+      return { pairs: [], errors: [`Expected a header row with the columns: ${CSV_HEADERS.join(', ')}`] };
+    }
+
+    const pairs: [string, string?][] = [];
+    const errors: string[] = [];
+    rows.forEach((values, index) => {
+      const canonicalName = values[canonicalColumn]?.trim();
+      const variation = values[variationColumn]?.trim();
+      // The header is line 1, so the first data row is line 2
+      if (canonicalName) {
+        pairs.push([canonicalName, variation]);
+      } else if (variation) {
+        errors.push(`Row ${index + 2}: canonicalName is required`);
+      }
+    });
+
+    return { pairs, errors };
+  }
+
+  /**
+   * Quotes a CSV field when it contains a separator, quote or line break
+   */
+  private static escapeCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { StoreMetadataService } from './StoreMetadataService';
+
+describe('StoreMetadataService', () => {
+  describe('validateMetadata', () => {
+    it('accepts complete store details', () => {
+      expect(StoreMetadataService.validateMetadata({
+        chain: 'Safeway',
+        storeType: 'supermarket',
+        neighborhood: 'Rockridge',
+        tags: ['weekly']
+      })).toEqual([]);
+    });
+
+    it.each([null, 'Safeway', ['Safeway']])('rejects %j', input => {
+      expect(StoreMetadataService.validateMetadata(input)).toEqual(['Store details must be an object']);
+    });
+
+    it('rejects unknown store types and tags that are not text', () => {
+      expect(StoreMetadataService.validateMetadata({ storeType: 'castle', tags: [1] })).toEqual([
+        expect.stringMatching(/^storeType must be one of: /),
+        'tags must be a list of text labels'
+      ]);
+    });
+  });
+
+  describe('createMetadata', () => {
+    it('trims values, leaves blank ones unset and drops repeated tags', () => {
+      expect(StoreMetadataService.createMetadata('Safeway', {
+        chain: ' Safeway ',
+        storeType: null,
+        neighborhood: '  ',
+        tags: ['weekly', ' weekly', '']
+      })).toEqual({
+        storeName: 'Safeway',
+        chain: 'Safeway',
+        storeType: undefined,
+        neighborhood: undefined,
+        tags: ['weekly']
+      });
+    });
+  });
+});
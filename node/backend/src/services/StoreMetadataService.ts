@@ -0,0 +1,163 @@
+import {
+  StoreAttribute,
+  StoreAttributeFilters,
+  StoreAttributeValues,
+  StoreMetadata,
+  StoreMetadataInput,
+  StoreType
+} from '../types/StoreMetadata';
+
+export const STORE_TYPES: StoreType[] = [
+  'supermarket',
+  'restaurant',
+  'cafe',
+  'online',
+  'pharmacy',
+  'household',
+  'clothing',
+  'entertainment',
+  'travel',
+  'other'
+];
+
+export const STORE_ATTRIBUTES: StoreAttribute[] = ['chain', 'storeType', 'neighborhood', 'storeTag'];
+
+/** Label for stores without a value when grouping by an attribute */
+export const UNASSIGNED_LABEL = 'Unassigned';
+
+/** Filter holding the accepted values of each attribute */
+const ATTRIBUTE_FILTERS: Record<StoreAttribute, keyof StoreAttributeFilters> = {
+  chain: 'chains',
+  storeType: 'storeTypes',
+  neighborhood: 'neighborhoods',
+  storeTag: 'storeTags'
+};
+
+/** Longest chain, neighborhood or tag accepted */
+const MAX_TEXT_LENGTH = 100;
+
+/** Most tags a store can have */
+const MAX_TAGS = 20;
+
+export class StoreMetadataService {
+  /**
+   * Checks store details submitted by the client
+   * Returns a list of problems, empty when the details are usable
+   */
+  static validateMetadata(input: unknown): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Store details must be an object'];
+    }
+
+    const errors: string[] = [];
+    const details = input as { [field: string]: unknown };
+    (['chain', 'neighborhood'] as const).forEach(field => {
+      const value = details[field];
+      if (value === undefined || value === null) return;
+      if (typeof value !== 'string') {
+        errors.push(`${field} must be text`);
+      } else if (value.trim().length > MAX_TEXT_LENGTH) {
+        errors.push(`${field} must be at most ${MAX_TEXT_LENGTH} characters`);
+      }
+    });
+    if (details.storeType !== undefined && details.storeType !== null
+      && !STORE_TYPES.includes(details.storeType as StoreType)) {
+      errors.push(`storeType must be one of: ${STORE_TYPES.join(', ')}`);
+    }
+    if (details.tags !== undefined) {
+      const tags = details.tags;
+      if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+        errors.push('tags must be a list of text labels');
+      } else if (tags.length > MAX_TAGS) {
+        errors.push(`A store can have at most ${MAX_TAGS} tags`);
+      } else if (tags.some(tag => tag.trim().length > MAX_TEXT_LENGTH)) {
+        errors.push(`Tags must be at most ${MAX_TEXT_LENGTH} characters`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Builds store details from validated client input, dropping empty values
+   */
+  static createMetadata(storeName: string, input: StoreMetadataInput): StoreMetadata {
+    const text = (value: string | null | undefined) => value?.trim() || undefined;
+    return {
+      storeName,
+      chain: text(input.chain),
+      storeType: input.storeType || undefined,
+      neighborhood: text(input.neighborhood),
+      tags: [...new Set((input.tags || []).map(tag => tag.trim()).filter(Boolean))]
+    };
+  }
+
+  /**
+   * Indexes store details by canonical store name
+   */
+  static createLookup(metadata: StoreMetadata[]): Map<string, StoreMetadata> {
+    return new Map(metadata.map(entry => [entry.storeName, entry]));
+  }
+
+  /**
+   * Values a store has for an attribute; only tags can have several
+   */
+  static getAttributeValues(metadata: StoreMetadata | undefined, attribute: StoreAttribute): string[] {
+    if (!metadata) return [];
+    if (attribute === 'storeTag') return metadata.tags;
+
+    const value = metadata[attribute];
+    return value ? [value] : [];
+  }
+
+  /**
+   * Labels a store is grouped under for an attribute, using UNASSIGNED_LABEL when it has no value
+   */
+  static getGroupLabels(metadata: StoreMetadata | undefined, attribute: StoreAttribute): string[] {
+    const values = this.getAttributeValues(metadata, attribute);
+    return values.length > 0 ? values : [UNASSIGNED_LABEL];
+  }
+
+  /**
+   * Whether a store has one of the accepted values for every attribute filter that is set
+   */
+  static matchesFilters(metadata: StoreMetadata | undefined, filters: StoreAttributeFilters): boolean {
+    return STORE_ATTRIBUTES.every(attribute => {
+      const accepted = filters[ATTRIBUTE_FILTERS[attribute]];
+      if (!accepted?.length) return true;
+      return this.getAttributeValues(metadata, attribute).some(value => accepted.includes(value));
+    });
+  }
+
+  /**
+   * Collects the attribute values used by the given stores
+   */
+  static getAttributeOptions(
+    storeNames: string[],
+    lookup: Map<string, StoreMetadata>
+  ): StoreAttributeValues {
+    const collect = (attribute: StoreAttribute) => [...new Set(
+      storeNames.flatMap(storeName => this.getAttributeValues(lookup.get(storeName), attribute))
+    )].sort();
+
+    return {
+      chains: collect('chain'),
+      storeTypes: collect('storeType') as StoreType[],
+      neighborhoods: collect('neighborhood'),
+      storeTags: collect('storeTag')
+    };
+  }
+
+  /**
+   * Reads attribute filters from comma-separated query parameters
+   */
+  static parseFilters(query: { [key: string]: unknown }): StoreAttributeFilters {
+    const list = (value: unknown) => typeof value === 'string' && value ? value.split(',') : undefined;
+    return {
+      chains: list(query.chains),
+      storeTypes: list(query.storeTypes),
+      neighborhoods: list(query.neighborhoods),
+      storeTags: list(query.storeTags)
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { SIMILARITY_STRATEGIES } from './SimilarityStrategies';
+import { BlockingIndex, StoreNameIndex } from './StoreNameIndex';
+
+const score = SIMILARITY_STRATEGIES.levenshtein.score;
+
+/**
+ * Store names of 1 to 30 characters with typos, dropped and added characters and extra words,
+ * generated from a fixed seed so failures can be reproduced
+ */
+const generateNames = (count: number): string[] => {
+  let seed = 42;
+  const random = (below: number) => {
+    seed = (seed * 48271) % 2147483647;
+    return seed % below;
+  };
+  const letters = 'abcdefghij ';
+  const bases = ['safeway', 'mayuri foods', 'trader joes', 'costco wholesale', 'a', 'ab', 'xyz', 'target optical'];
+
+  const names = new Set<string>(bases);
+  while (names.size < count) {
+    const base = random(2) === 0
+      ? bases[random(bases.length)]
+      : Array.from({ length: 1 + random(30) }, () => letters[random(letters.length)]).join('');
+    const chars = [...base];
+    for (let edits = random(4); edits > 0; edits--) {
+      const at = random(chars.length + 1);
+      const edit = random(3);
+      if (edit === 0) chars.splice(at, 1);
+      else if (edit === 1) chars.splice(at, 0, letters[random(letters.length)]);
+      else chars[at] = letters[random(letters.length)];
+    }
+    const name = chars.join('').trim().slice(0, 30);
+    if (name) names.add(name);
+  }
+  return [...names];
+};
+
+/**
+ * Indexes of the names scoring above the threshold against the name at `index`, found by comparing every pair
+ */
+const bruteForce = (names: string[], index: number, threshold: number): number[] =>
+  names.flatMap((name, other) => other !== index && score(names[index], name) > threshold ? [other] : []);
+
+describe('StoreNameIndex', () => {
+  const names = generateNames(400);
+
+  it.each([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95])('finds every name above a threshold of %s', threshold => {
+    const index = new StoreNameIndex(names, threshold);
+
+    names.forEach((_, i) => {
+      const candidates = new Set(index.findCandidates(i));
+      const missed = bruteForce(names, i, threshold).filter(other => !candidates.has(other));
+      expect(missed.map(other => [names[i], names[other]])).toEqual([]);
+    });
+  });
+
+  it('narrows the candidates down at the default threshold', () => {
+    const index = new StoreNameIndex(names, 0.8);
+    const candidatePairs = names.reduce((sum, _, i) => sum + index.findCandidates(i).length, 0);
+
+    expect(candidatePairs).toBeLessThan(names.length * (names.length - 1) / 10);
+  });
+
+  it('returns candidates in index order without the name itself', () => {
+    const index = new StoreNameIndex(['safeway', 'safewya', 'mayuri', 'safeway'], 0.7);
+
+    expect(index.findCandidates(0)).toEqual([1, 3]);
+  });
+
+  it('leaves removed names out', () => {
+    const index = new StoreNameIndex(['safeway', 'safewya', 'safeway'], 0.7);
+    index.remove(2);
+
+    expect(index.findCandidates(0)).toEqual([1]);
+  });
+});
+
+describe('BlockingIndex', () => {
+  it('finds names that share a key', () => {
+    const index = new BlockingIndex([['^sa', 'w:safeway'], ['^ma'], ['^sa', 'w:sam']]);
+
+    expect(index.findCandidates(0)).toEqual([2]);
+    expect(index.findCandidates(1)).toEqual([]);
+  });
+});
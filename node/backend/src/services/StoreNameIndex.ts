@@ -0,0 +1,212 @@
+/**
+ * Finds the names worth comparing with a given name, so not every pair has to be scored
+ */
+export interface CandidateIndex {
+  /** Indexes of names that may be similar to the name at `index`, in index order */
+  findCandidates(index: number): number[];
+  /** Leaves a name out of future lookups, e.g. once it has been grouped */
+  remove(index: number): void;
+}
+
+/** Marks the start and end of a name so its first and last characters form bigrams too */
+const PAD = '\u0000';
+
+/**
+ * Inverted index of normalized store names used to find candidates whose Levenshtein
+ * similarity may be above a threshold
+ *
+ * Each name is split into padded character bigrams. Two names within edit distance d
+ * share at least `max(length) + 1 - 2d` bigrams, so for names above the similarity
+ * threshold the overlap has a known lower bound. Prefix filtering turns that bound into
+ * a cheap lookup: with bigrams ordered rarest first, two names sharing at least t bigrams
+ * must share one among the first `count - t + 1` bigrams of each name. Only those prefixes
+ * are indexed, and candidates are further narrowed by length and by their full bigram
+ * overlap before any edit distance is computed. At low thresholds the bound can drop to
+ * zero, so a similar name need not share any bigram; names for which it does are also
+ * compared with every other such name. The filters never drop a pair whose similarity is
+ * above the threshold.
+ */
+export class StoreNameIndex implements CandidateIndex {
+  /** Bigram ids of each name; bigrams are numbered so they can be compared cheaply */
+  private readonly grams: number[][];
+  /** Rarest bigrams of each name, the only ones that are indexed */
+  private readonly prefixes: number[][];
+  /** Names whose prefix contains each bigram, by bigram id */
+  private readonly postings: number[][];
+  /** Names that can be similar to a name they share no bigram with */
+  private readonly unbounded: number[];
+  private readonly removed: Uint8Array;
+  /** Marks names already collected by the current lookup, to avoid a Set per lookup */
+  private readonly seenBy: Int32Array;
+  /** Marks the bigrams of the name being looked up */
+  private readonly gramOwner: Int32Array;
+
+  /**
+   * @param names Normalized store names
+   * @param threshold Levenshtein similarity that candidates must be able to exceed
+   */
+  constructor(private readonly names: string[], private readonly threshold: number) {
+    const gramIds = new Map<string, number>();
+    this.grams = names.map(name => StoreNameIndex.toBigrams(name).map(gram => {
+      let id = gramIds.get(gram);
+      if (id === undefined) {
+        id = gramIds.size;
+        gramIds.set(gram, id);
+      }
+      return id;
+    }));
+
+    // Order bigrams by how many names contain them, rarest first
+    const frequency = new Array<number>(gramIds.size).fill(0);
+    this.grams.forEach(nameGrams => nameGrams.forEach(id => frequency[id]++));
+    const byRarity = (a: number, b: number) => frequency[a] - frequency[b] || a - b;
+
+    const minShared = names.map(name => this.minSharedBigrams(name.length));
+    this.prefixes = this.grams.map((nameGrams, index) =>
+      [...nameGrams].sort(byRarity).slice(0, nameGrams.length - Math.max(minShared[index], 1) + 1)
+    );
+    this.unbounded = minShared.flatMap((minimum, index) => minimum <= 0 ? [index] : []);
+
+    this.postings = Array.from({ length: gramIds.size }, () => []);
+    this.prefixes.forEach((prefix, index) => prefix.forEach(id => this.postings[id].push(index)));
+
+    this.removed = new Uint8Array(names.length);
+    this.seenBy = new Int32Array(names.length).fill(-1);
+    this.gramOwner = new Int32Array(gramIds.size).fill(-1);
+  }
+
+  /**
+   * Returns the indexes of names that may be similar to the name at `index`, in index order
+   * Every name above the similarity threshold is included; some below it may be too.
+   * Removed names are never returned.
+   */
+  findCandidates(index: number): number[] {
+    const length = this.names[index].length;
+    const candidates: number[] = [];
+    this.grams[index].forEach(id => { this.gramOwner[id] = index; });
+
+    const consider = (other: number) => {
+      if (other === index || this.removed[other] || this.seenBy[other] === index) return;
+      this.seenBy[other] = index;
+      const otherLength = this.names[other].length;
+      if (!this.lengthsCompatible(length, otherLength)) return;
+
+      const shared = this.grams[other].filter(id => this.gramOwner[id] === index).length;
+      if (shared >= this.sharedBigramsNeeded(Math.max(length, otherLength))) {
+        candidates.push(other);
+      }
+    };
+
+    this.prefixes[index].forEach(id => this.postings[id].forEach(consider));
+    // A pair that needs no shared bigram has no bound for either name, see `minSharedBigrams`
+    if (this.minSharedBigrams(length) <= 0) this.unbounded.forEach(consider);
+
+    return candidates.sort((a, b) => a - b);
+  }
+
+  remove(index: number): void {
+    this.removed[index] = 1;
+  }
+
+  /**
+   * Splits a name into bigrams, numbering repeats so the list behaves as a multiset
+   */
+  private static toBigrams(name: string): string[] {
+    const padded = `${PAD}${name}${PAD}`;
+    const seen = new Map<string, number>();
+    const grams: string[] = [];
+
+    for (let i = 0; i < padded.length - 1; i++) {
+      const gram = padded.slice(i, i + 2);
+      const occurrence = (seen.get(gram) || 0) + 1;
+      seen.set(gram, occurrence);
+      grams.push(`${gram}${occurrence}`);
+    }
+
+    return grams;
+  }
+
+  /**
+   * Largest edit distance that still counts as similar for names whose longer length is `maxLength`
+   * Checked with the score's own arithmetic, which can round e.g. 1 - 7 / 10 to just above 0.3
+   */
+  private maxDistance(maxLength: number): number {
+    let distance = Math.ceil((1 - this.threshold) * maxLength);
+    while (distance >= 0 && !(1 - distance / maxLength > this.threshold)) distance--;
+    return distance;
+  }
+
+  /**
+   * Longest partner length a name can have and still be similar to it
+   */
+  private maxPartnerLength(length: number): number {
+    return Math.floor(length / this.threshold) + 1;
+  }
+
+  /**
+   * Whether two lengths differ by few enough characters for the names to be similar
+   * The length difference is a lower bound on the edit distance
+   */
+  private lengthsCompatible(a: number, b: number): boolean {
+    return Math.abs(a - b) <= this.maxDistance(Math.max(a, b));
+  }
+
+  /**
+   * Fewest bigrams two similar names share when the longer one has `maxLength` characters
+   * Each edit changes at most two of the `maxLength + 1` bigrams of the longer name
+   */
+  private sharedBigramsNeeded(maxLength: number): number {
+    return maxLength + 1 - 2 * this.maxDistance(maxLength);
+  }
+
+  /**
+   * Fewest bigrams a name of this length shares with any name similar to it; zero or less when a
+   * similar name may share none
+   * A pair whose longer name has `maxLength` characters is covered by the range of both names, so
+   * when the pair needs no shared bigram, neither name has a bound
+   */
+  private minSharedBigrams(length: number): number {
+    let minimum = Infinity;
+    for (let maxLength = length; maxLength <= this.maxPartnerLength(length); maxLength++) {
+      minimum = Math.min(minimum, this.sharedBigramsNeeded(maxLength));
+    }
+    return minimum;
+  }
+}
+
+/**
+ * Index that treats names as candidates when they share a blocking key, such as a word or
+ * their first few characters
+ */
+export class BlockingIndex implements CandidateIndex {
+  private readonly keys: string[][];
+  private readonly postings = new Map<string, number[]>();
+  private readonly removed: Uint8Array;
+
+  /**
+   * @param keys Blocking keys of each name
+   */
+  constructor(keys: string[][]) {
+    this.keys = keys;
+    this.removed = new Uint8Array(keys.length);
+    keys.forEach((nameKeys, index) => new Set(nameKeys).forEach(key => {
+      const posting = this.postings.get(key);
+      if (posting) posting.push(index);
+      else this.postings.set(key, [index]);
+    }));
+  }
+
+  findCandidates(index: number): number[] {
+    const candidates = new Set<number>();
+    this.keys[index].forEach(key => {
+      this.postings.get(key)!.forEach(other => {
+        if (other !== index && !this.removed[other]) candidates.add(other);
+      });
+    });
+    return [...candidates].sort((a, b) => a - b);
+  }
+
+  remove(index: number): void {
+    this.removed[index] = 1;
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { StoreRule, StoreRuleInput } from '../types/StoreRule';
+import { Transaction } from '../types/Transaction';
+import { StoreRuleService } from './StoreRuleService';
+
+const rule = (input: StoreRuleInput, id = input.pattern): StoreRule => StoreRuleService.createRule(input, id);
+
+const transactionsAt = (...descriptions: string[]): Transaction[] =>
+  descriptions.map((description, index) => ({
+    id: `t${index}`,
+    date: '2025-01-01',
+    description,
+    store: description,
+    category: 'Groceries',
+    cost: 1000,
+    currency: 'USD',
+    shares: []
+  }));
+
+describe('StoreRuleService', () => {
+  describe('validateRule', () => {
+    it('accepts a complete rule', () => {
+      expect(StoreRuleService.validateRule({ matchType: 'regex', pattern: '^COSTCO', canonicalName: 'Costco' }))
+        .toEqual([]);
+    });
+
+    it.each([null, 'Costco', [{ matchType: 'prefix' }]])('rejects %j', input => {
+      expect(StoreRuleService.validateRule(input)).toEqual(['Rule must be an object']);
+    });
+
+    it('reports every missing or invalid field', () => {
+      expect(StoreRuleService.validateRule({ matchType: 'glob', caseSensitive: 'yes', enabled: 1 })).toEqual([
+        'matchType must be one of: regex, contains, prefix',
+        'pattern is required',
+        'canonicalName is required',
+        'caseSensitive must be true or false',
+        'enabled must be true or false'
+      ]);
+    });
+
+    it('rejects a pattern that is not a valid regular expression', () => {
+      const [error] = StoreRuleService.validateRule({ matchType: 'regex', pattern: 'COSTCO (', canonicalName: 'Costco' });
+
+      expect(error).toMatch(/^pattern is not a valid regular expression: /);
+    });
+
+    it('accepts the same text as a plain pattern', () => {
+      expect(StoreRuleService.validateRule({ matchType: 'contains', pattern: 'COSTCO (', canonicalName: 'Costco' }))
+        .toEqual([]);
+    });
+
+    it('rejects blank and overly long patterns', () => {
+      expect(StoreRuleService.validateRule({ matchType: 'prefix', pattern: '  ', canonicalName: 'Costco' }))
+        .toEqual(['pattern is required']);
+      expect(StoreRuleService.validateRule({ matchType: 'prefix', pattern: 'C'.repeat(201), canonicalName: 'Costco' }))
+        .toEqual(['pattern must be at most 200 characters']);
+    });
+  });
+
+  describe('createRule', () => {
+    it('fills in defaults and trims everything but regular expressions', () => {
+      expect(rule({ matchType: 'prefix', pattern: ' COSTCO ', canonicalName: ' Costco ' }, 'r1')).toEqual({
+        id: 'r1',
+        matchType: 'prefix',
+        pattern: 'COSTCO',
+        canonicalName: 'Costco',
+        caseSensitive: false,
+        enabled: true
+      });
+      expect(rule({ matchType: 'regex', pattern: 'COSTCO ', canonicalName: 'Costco' }).pattern).toBe('COSTCO ');
+    });
+  });
+
+  describe('createMatcher', () => {
+    it.each([
+      ['regex', '^costco whse #\\d+$', ['COSTCO WHSE #1234'], ['COSTCO GAS #1234']],
+      ['contains', 'costco', ['COSTCO WHSE #1234', 'SQ *COSTCO GAS'], ['COSTC0']],
+      ['prefix', 'costco', ['COSTCO WHSE #1234'], ['SQ *COSTCO GAS']]
+    ] as const)('matches %s rules', (matchType, pattern, matching, other) => {
+      const matches = StoreRuleService.createMatcher(rule({ matchType, pattern, canonicalName: 'Costco' }));
+
+      matching.forEach(description => expect(matches(description)).toBe(true));
+      other.forEach(description => expect(matches(description)).toBe(false));
+    });
+
+    it('ignores case unless the rule is case-sensitive', () => {
+      const input: StoreRuleInput = { matchType: 'contains', pattern: 'Costco', canonicalName: 'Costco' };
+
+      expect(StoreRuleService.createMatcher(rule(input))('COSTCO WHSE')).toBe(true);
+      expect(StoreRuleService.createMatcher(rule({ ...input, caseSensitive: true }))('COSTCO WHSE')).toBe(false);
+    });
+
+    it('never matches with a disabled rule', () => {
+      const matches = StoreRuleService.createMatcher(
+        rule({ matchType: 'contains', pattern: 'costco', canonicalName: 'Costco', enabled: false })
+      );
+
+      expect(matches('COSTCO WHSE')).toBe(false);
+    });
+  });
+
+  describe('rule order', () => {
+    const rules = [
+      rule({ matchType: 'prefix', pattern: 'costco gas', canonicalName: 'Costco Gas' }),
+      rule({ matchType: 'prefix', pattern: 'costco', canonicalName: 'Costco' })
+    ];
+
+    it('maps a description with the first rule that matches it', () => {
+      expect(StoreRuleService.getRuleMappings(rules, ['COSTCO GAS #12', 'COSTCO WHSE', 'Safeway'])).toEqual({
+        'Costco Gas': ['COSTCO GAS #12'],
+        Costco: ['COSTCO WHSE']
+      });
+      expect(StoreRuleService.getRuleMappings([...rules].reverse(), ['COSTCO GAS #12'])).toEqual({
+        Costco: ['COSTCO GAS #12']
+      });
+    });
+
+    it('skips disabled rules in favour of later ones', () => {
+      const [gas, costco] = rules;
+
+      expect(StoreRuleService.getRuleMappings([{ ...gas, enabled: false }, costco], ['COSTCO GAS #12'])).toEqual({
+        Costco: ['COSTCO GAS #12']
+      });
+    });
+
+    it('leaves out descriptions that already are the rule\'s store', () => {
+      expect(StoreRuleService.getRuleMappings(rules, ['Costco'])).toEqual({});
+    });
+
+    it('lists a description only under the first rule that matches it when testing all rules', () => {
+      const results = StoreRuleService.testRules(rules, transactionsAt('COSTCO GAS #12', 'COSTCO GAS #12', 'COSTCO WHSE'));
+
+      expect(results.map(({ ruleId, matches, transactionCount }) => ({
+        ruleId,
+        descriptions: matches.map(match => match.description),
+        transactionCount
+      }))).toEqual([
+        { ruleId: 'costco gas', descriptions: ['COSTCO GAS #12'], transactionCount: 2 },
+        { ruleId: 'costco', descriptions: ['COSTCO WHSE'], transactionCount: 1 }
+      ]);
+    });
+
+    it('tests a single rule on its own, even when it is disabled', () => {
+      const [, costco] = rules;
+      const result = StoreRuleService.testRule({ ...costco, enabled: false }, transactionsAt('COSTCO GAS #12'));
+
+      expect(result.matches.map(match => match.description)).toEqual(['COSTCO GAS #12']);
+    });
+  });
+});
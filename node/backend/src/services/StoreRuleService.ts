@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { Transaction } from '../types/Transaction';
+import {
+  StoreRule,
+  StoreRuleInput,
+  StoreRuleMatch,
+  StoreRuleMatchType,
+  StoreRuleTestResult
+} from '../types/StoreRule';
+
+const MATCH_TYPES: StoreRuleMatchType[] = ['regex', 'contains', 'prefix'];
+
+/** Longest pattern accepted, to keep rules readable and regular expressions cheap */
+const MAX_PATTERN_LENGTH = 200;
+
+export class StoreRuleService {
+  /**
+   * Checks a rule submitted by the client
+   * Returns a list of problems, empty when the rule is usable
+   */
+  static validateRule(input: unknown): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Rule must be an object'];
+    }
+
+    const errors: string[] = [];
+    const { matchType, pattern, canonicalName, caseSensitive, enabled } = input as { [field: string]: unknown };
+    if (!MATCH_TYPES.includes(matchType as StoreRuleMatchType)) {
+      errors.push(`matchType must be one of: ${MATCH_TYPES.join(', ')}`);
+    }
+    if (typeof pattern !== 'string' || !pattern.trim()) {
+      errors.push('pattern is required');
+    } else if (pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+    } else if (matchType === 'regex') {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        errors.push(`pattern is not a valid regular expression: ${(error as Error).message}`);
+      }
+    }
+    if (typeof canonicalName !== 'string' || !canonicalName.trim()) {
+      errors.push('canonicalName is required');
+    }
+    if (caseSensitive !== undefined && typeof caseSensitive !== 'boolean') {
+      errors.push('caseSensitive must be true or false');
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      errors.push('enabled must be true or false');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Builds a rule from validated client input, filling in defaults
+   */
+  static createRule(input: StoreRuleInput, id: string = randomUUID()): StoreRule {
+    return {
+      id,
+      matchType: input.matchType,
+      // Regular expressions keep their whitespace, which may be significant
+      pattern: input.matchType === 'regex' ? input.pattern : input.pattern.trim(),
+      canonicalName: input.canonicalName.trim(),
+      caseSensitive: input.caseSensitive ?? false,
+      enabled: input.enabled ?? true
+    };
+  }
+
+  /**
+   * Builds a function telling whether a description matches the rule
+   */
+  static createMatcher(rule: StoreRule): (description: string) => boolean {
+    if (!rule.enabled) return () => false;
+
+    if (rule.matchType === 'regex') {
+      const regex = new RegExp(rule.pattern, rule.caseSensitive ? '' : 'i');
+      return description => regex.test(description);
+    }
+
+    const pattern = rule.caseSensitive ? rule.pattern : rule.pattern.toLowerCase();
+    const prepare = (description: string) => rule.caseSensitive ? description : description.toLowerCase();
+    return rule.matchType === 'prefix'
+      ? description => prepare(description).startsWith(pattern)
+      : description => prepare(description).includes(pattern);
+  }
+
+  /**
+   * Maps descriptions to canonical stores using the first matching rule
+   * Descriptions no rule matches, or that already equal the rule's store, are left out
+   */
+  static getRuleMappings(
+    rules: StoreRule[],
+    descriptions: string[]
+  ): { [canonicalName: string]: string[] } {
+    const matchers = rules.map(rule => ({ rule, matches: this.createMatcher(rule) }));
+    const mappings: { [canonicalName: string]: string[] } = {};
+
+    [...new Set(descriptions)].forEach(description => {
+      const rule = matchers.find(({ matches }) => matches(description))?.rule;
+      if (rule && rule.canonicalName !== description) {
+        (mappings[rule.canonicalName] ||= []).push(description);
+      }
+    });
+
+    return mappings;
+  }
+
+  /**
+   * Shows which descriptions each rule would map
+   * A description matched by several rules is only listed under the first of them
+   */
+  static testRules(rules: StoreRule[], transactions: Transaction[]): StoreRuleTestResult[] {
+    const descriptions = this.describeTransactions(transactions);
+    const matchers = rules.map(rule => this.createMatcher(rule));
+    const matchesByRule: StoreRuleMatch[][] = rules.map(() => []);
+
+    descriptions.forEach(match => {
+      const ruleIndex = matchers.findIndex(matches => matches(match.description));
+      if (ruleIndex !== -1) matchesByRule[ruleIndex].push(match);
+    });
+
+    return rules.map((rule, index) => this.toTestResult(matchesByRule[index], rule.id));
+  }
+
+  /**
+   * Shows which descriptions a single rule would match, ignoring all other rules
+   */
+  static testRule(rule: StoreRule, transactions: Transaction[]): StoreRuleTestResult {
+    const matches = this.createMatcher({ ...rule, enabled: true });
+    return this.toTestResult(
+      this.describeTransactions(transactions).filter(match => matches(match.description))
+    );
+  }
+
+  /**
+   * Lists each distinct description with its transaction count and current store
+   */
+  private static describeTransactions(transactions: Transaction[]): StoreRuleMatch[] {
+    const byDescription = new Map<string, StoreRuleMatch>();
+    transactions.forEach(transaction => {
+      const match = byDescription.get(transaction.description);
+      if (match) {
+        match.transactionCount++;
+      } else {
+        byDescription.set(transaction.description, {
+          description: transaction.description,
+          transactionCount: 1,
+          currentStore: transaction.store
+        });
+      }
+    });
+    return [...byDescription.values()];
+  }
+
+  private static toTestResult(matches: StoreRuleMatch[], ruleId?: string): StoreRuleTestResult {
+    return {
+      ruleId,
+      matches,
+      transactionCount: matches.reduce((sum, match) => sum + match.transactionCount, 0)
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types/Transaction';
+import { TransactionService } from './TransactionService';
+
+const DINNER = {
+  date: '2025-02-24',
+  description: 'Mayuri',
+  cost: 4256,
+  currency: 'USD',
+  shares: [{ name: 'Sharath', amount: 2128 }, { name: 'Surabhi', amount: -2128 }]
+};
+
+const existing = (id: string, tags?: string[]): Transaction => ({
+  id,
+  ...DINNER,
+  store: DINNER.description,
+  category: 'Dining out',
+  ...(tags ? { tags } : {})
+});
+
+describe('TransactionService', () => {
+  describe('validate', () => {
+    it('accepts a complete transaction', () => {
+      expect(TransactionService.validate(DINNER)).toEqual([]);
+    });
+
+    it.each([null, 'Mayuri', [DINNER]])('rejects %j', input => {
+      expect(TransactionService.validate(input)).toEqual(['Transaction must be an object']);
+    });
+
+    it('requires every field of a new transaction', () => {
+      expect(TransactionService.validate({})).toEqual([
+        'date must be a YYYY-MM-DD date',
+        'description is required',
+        'cost must be a whole number of minor units, e.g. 1250 for 12.50',
+        'currency must be a three-letter currency code such as USD'
+      ]);
+    });
+
+    it('checks only the fields being changed on an edit', () => {
+      expect(TransactionService.validate({ kind: 'refund' }, existing('t1'))).toEqual([
+        'kind must be one of: expense, settlement'
+      ]);
+      expect(TransactionService.validate({}, existing('t1'))).toEqual([
+        expect.stringMatching(/^At least one of /)
+      ]);
+    });
+
+    it('requires shares to add up to zero', () => {
+      expect(TransactionService.validate({ shares: [{ name: 'Sharath', amount: 100 }] }, existing('t1'))).toEqual([
+        'shares must add up to zero: what payers are owed back (positive) must equal what the others owe (negative)'
+      ]);
+    });
+  });
+
+  describe('validateTagging', () => {
+    it('accepts IDs and tags', () => {
+      expect(TransactionService.validateTagging({ ids: ['t1'], tags: ['trip'] })).toEqual([]);
+    });
+
+    it('rejects missing IDs and blank tags', () => {
+      expect(TransactionService.validateTagging({ ids: [], tags: [' '] })).toEqual([
+        'ids must be a non-empty list of transaction IDs',
+        'At least one tag is required'
+      ]);
+      expect(TransactionService.validateTagging([])).toEqual(['Tagging must be an object']);
+    });
+  });
+
+  describe('tag limits', () => {
+    const manyTags = (count: number, prefix = 'tag') => Array.from({ length: count }, (_, index) => `${prefix}${index}`);
+
+    it('accepts up to 20 tags on a transaction', () => {
+      expect(TransactionService.validate({ tags: manyTags(20) }, existing('t1'))).toEqual([]);
+      expect(TransactionService.validate({ tags: manyTags(21) }, existing('t1'))).toEqual([
+        'A transaction can have at most 20 tags'
+      ]);
+    });
+
+    it('counts the tags a transaction already has when adding more', () => {
+      const transactions = [existing('t1', manyTags(15)), existing('t2', manyTags(5))];
+
+      expect(TransactionService.validateAddedTags(transactions, ['t1', 't2'], manyTags(6, 'new'))).toEqual([
+        'Transaction t1 would have more than 20 tags'
+      ]);
+    });
+
+    it('does not count tags the transaction already has twice', () => {
+      const transactions = [existing('t1', manyTags(20))];
+
+      expect(TransactionService.validateAddedTags(transactions, ['t1'], [' tag0', 'tag1'])).toEqual([]);
+    });
+
+    it('reserves the label of transactions without tags', () => {
+      expect(TransactionService.validateTagging({ ids: ['t1'], tags: [' untagged'] })).toEqual([
+        '"Untagged" is reserved for transactions without tags'
+      ]);
+    });
+  });
+
+  describe('addTags', () => {
+    it('keeps the tags a transaction already has', () => {
+      const [tagged, untouched] = TransactionService.addTags(
+        [existing('t1', ['dinner']), existing('t2')],
+        ['t1'],
+        ['trip', 'dinner']
+      );
+
+      expect(tagged.tags).toEqual(['dinner', 'trip']);
+      expect(untouched.tags).toBeUndefined();
+    });
+  });
+});
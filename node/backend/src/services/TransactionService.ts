@@ -0,0 +1,292 @@
+import { isValid, parse } from 'date-fns';
+import { PersonShare, Transaction, TransactionInput, TransactionKind } from '../types/Transaction';
+import { UNTAGGED_LABEL } from './AnalysisService';
+import { CurrencyService } from './CurrencyService';
+import { DatasetMergeService } from './DatasetMergeService';
+import { MoneyService } from './MoneyService';
+
+const KINDS: TransactionKind[] = ['expense', 'settlement'];
+
+/** Fields a client can set on a transaction */
+const EDITABLE_FIELDS: (keyof TransactionInput)[] = [
+  'date', 'description', 'category', 'cost', 'currency', 'shares', 'kind', 'tags', 'notes'
+];
+
+/** Most tags a transaction can have */
+const MAX_TAGS = 20;
+
+/** Longest tag accepted */
+const MAX_TAG_LENGTH = 100;
+
+/** Longest note accepted */
+const MAX_NOTES_LENGTH = 2000;
+
+/**
+ * Manual entries, edits to single transactions and tagging
+ * Store and person mappings are applied by the caller, as they are for imported transactions
+ */
+export class TransactionService {
+  /**
+   * Checks a new transaction, or changes to an existing one, submitted by the client
+   * Amounts are in minor units; returns a list of problems, empty when the input is usable
+   * @param current - The transaction being edited; without it every required field must be present
+   */
+  static validate(input: unknown, current?: Transaction): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Transaction must be an object'];
+    }
+
+    const errors: string[] = [];
+    const fields = input as { [field: string]: unknown };
+    const isSet = (field: keyof TransactionInput) => fields[field] !== undefined;
+
+    if (current && !EDITABLE_FIELDS.some(isSet)) {
+      errors.push(`At least one of ${EDITABLE_FIELDS.join(', ')} is required`);
+    }
+    if ((!current || isSet('date')) && !this.isDate(fields.date)) {
+      errors.push('date must be a YYYY-MM-DD date');
+    }
+    if ((!current || isSet('description')) && (typeof fields.description !== 'string' || !fields.description.trim())) {
+      errors.push('description is required');
+    }
+    if (isSet('category') && typeof fields.category !== 'string') {
+      errors.push('category must be a string');
+    }
+    if ((!current || isSet('cost')) && !Number.isInteger(fields.cost)) {
+      errors.push('cost must be a whole number of minor units, e.g. 1250 for 12.50');
+    }
+    if ((!current || isSet('currency')) && !CurrencyService.isCurrencyCode(fields.currency)) {
+      errors.push('currency must be a three-letter currency code such as USD');
+    }
+    if (isSet('kind') && !KINDS.includes(fields.kind as TransactionKind)) {
+      errors.push(`kind must be one of: ${KINDS.join(', ')}`);
+    }
+    if (isSet('tags')) {
+      errors.push(...this.validateTags(fields.tags));
+    }
+    if (isSet('notes') && (typeof fields.notes !== 'string' || fields.notes.trim().length > MAX_NOTES_LENGTH)) {
+      errors.push(`notes must be text of at most ${MAX_NOTES_LENGTH} characters`);
+    }
+
+    if (isSet('shares')) {
+      errors.push(...this.validateShares(fields.shares));
+    } else if (current && isSet('cost') && current.cost === 0 && current.shares.some(share => share.amount !== 0)) {
+      // Shares are scaled with the cost, which is impossible from zero
+      errors.push('shares are required when changing the cost of a transaction that cost nothing');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Builds a manually entered transaction from validated client input
+   * @param takenIds - IDs of the dataset's transactions, which the new ID must not repeat
+   */
+  static create(input: TransactionInput, takenIds: Iterable<string>): Transaction {
+    const description = input.description!.trim();
+    const [transaction] = DatasetMergeService.assignIds([{
+      id: '',
+      date: input.date!,
+      description,
+      store: description,
+      category: input.category?.trim() ?? '',
+      cost: input.cost!,
+      currency: input.currency!,
+      shares: this.trimNames(input.shares ?? []),
+      kind: input.kind ?? 'expense'
+    }], takenIds);
+    return this.annotate(transaction, input);
+  }
+
+  /**
+   * Applies validated changes to a transaction, keeping its ID
+   * - a changed category keeps the imported one as the original category
+   * - a changed cost scales the shares with it, unless new shares are given
+   * - changed shares replace the imported shares, so person mappings are applied to them afresh
+   */
+  static update(transaction: Transaction, input: TransactionInput): Transaction {
+    const updated: Transaction = { ...transaction };
+
+    if (input.date !== undefined) updated.date = input.date;
+    if (input.currency !== undefined) updated.currency = input.currency;
+    if (input.kind !== undefined) updated.kind = input.kind;
+
+    if (input.description !== undefined) {
+      updated.description = input.description.trim();
+      updated.store = updated.description;
+    }
+
+    if (input.category !== undefined && input.category.trim() !== transaction.category) {
+      const original = transaction.originalCategory ?? transaction.category;
+      updated.category = input.category.trim();
+      if (updated.category === original) {
+        delete updated.originalCategory;
+      } else {
+        updated.originalCategory = original;
+      }
+    }
+
+    if (input.shares !== undefined) {
+      updated.shares = this.trimNames(input.shares);
+      delete updated.originalShares;
+    } else if (input.cost !== undefined && input.cost !== transaction.cost && transaction.cost !== 0) {
+      const imported = transaction.originalShares ?? transaction.shares;
+      const amounts = MoneyService.scaleAll(imported.map(share => share.amount), input.cost / transaction.cost);
+      updated.shares = imported.map((share, index) => ({ name: share.name, amount: amounts[index] }));
+      delete updated.originalShares;
+    }
+    if (input.cost !== undefined) updated.cost = input.cost;
+
+    return this.annotate(updated, input);
+  }
+
+  /**
+   * Checks a bulk tagging request: { ids, tags }
+   * Returns a list of problems, empty when the request is usable
+   */
+  static validateTagging(input: unknown): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Tagging must be an object'];
+    }
+
+    const errors: string[] = [];
+    const { ids, tags } = input as { ids?: unknown; tags?: unknown };
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      errors.push('ids must be a non-empty list of transaction IDs');
+    }
+    const tagErrors = this.validateTags(tags);
+    if (tagErrors.length > 0) {
+      errors.push(...tagErrors);
+    } else if (Array.isArray(tags) && this.normalizeTags(tags).length === 0) {
+      errors.push('At least one tag is required');
+    }
+    return errors;
+  }
+
+  /**
+   * Checks that adding tags keeps every selected transaction within the tag limit
+   * Returns a list of problems, empty when the tags fit
+   */
+  static validateAddedTags(transactions: Transaction[], ids: string[], tags: string[]): string[] {
+    const selected = new Set(ids);
+    const added = this.normalizeTags(tags);
+    return transactions
+      .filter(transaction => selected.has(transaction.id))
+      .filter(transaction => this.normalizeTags([...(transaction.tags ?? []), ...added]).length > MAX_TAGS)
+      .map(transaction => `Transaction ${transaction.id} would have more than ${MAX_TAGS} tags`);
+  }
+
+  /**
+   * Adds tags to the transactions with the given IDs, keeping the tags they already have
+   * Callers check validateAddedTags first
+   */
+  static addTags(transactions: Transaction[], ids: string[], tags: string[]): Transaction[] {
+    const added = this.normalizeTags(tags);
+    return this.retag(transactions, ids, current => this.normalizeTags([...current, ...added]));
+  }
+
+  /**
+   * Removes tags from the transactions with the given IDs
+   */
+  static removeTags(transactions: Transaction[], ids: string[], tags: string[]): Transaction[] {
+    const removed = new Set(this.normalizeTags(tags));
+    return this.retag(transactions, ids, current => current.filter(tag => !removed.has(tag)));
+  }
+
+  private static retag(
+    transactions: Transaction[],
+    ids: string[],
+    change: (tags: string[]) => string[]
+  ): Transaction[] {
+    const selected = new Set(ids);
+    return transactions.map(transaction => selected.has(transaction.id)
+      ? this.annotate(transaction, { tags: change(transaction.tags ?? []) })
+      : transaction);
+  }
+
+  /**
+   * Sets the tags and notes given in the input, dropping empty ones
+   */
+  private static annotate(transaction: Transaction, input: TransactionInput): Transaction {
+    const annotated = { ...transaction };
+    if (input.tags !== undefined) {
+      const tags = this.normalizeTags(input.tags);
+      if (tags.length > 0) {
+        annotated.tags = tags;
+      } else {
+        delete annotated.tags;
+      }
+    }
+    if (input.notes !== undefined) {
+      if (input.notes.trim()) {
+        annotated.notes = input.notes.trim();
+      } else {
+        delete annotated.notes;
+      }
+    }
+    return annotated;
+  }
+
+  private static normalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+  }
+
+  /**
+   * Tags are separated by commas in analysis filters, so they cannot contain one
+   * UNTAGGED_LABEL is reserved: spending grouped by tag shows transactions without tags under it
+   */
+  private static validateTags(tags: unknown): string[] {
+    if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+      return ['tags must be a list of text labels'];
+    }
+    if (tags.length > MAX_TAGS) {
+      return [`A transaction can have at most ${MAX_TAGS} tags`];
+    }
+    if (tags.some(tag => tag.trim().length > MAX_TAG_LENGTH)) {
+      return [`Tags must be at most ${MAX_TAG_LENGTH} characters`];
+    }
+    if (tags.some(tag => tag.includes(','))) {
+      return ['Tags cannot contain commas'];
+    }
+    if (tags.some(tag => tag.trim().toLowerCase() === UNTAGGED_LABEL.toLowerCase())) {
+      return [`"${UNTAGGED_LABEL}" is reserved for transactions without tags`];
+    }
+    return [];
+  }
+
+  private static trimNames(shares: PersonShare[]): PersonShare[] {
+    return shares.map(({ name, amount }) => ({ name: name.trim(), amount }));
+  }
+
+  private static validateShares(shares: unknown): string[] {
+    if (!Array.isArray(shares)) {
+      return ['shares must be a list of { name, amount }'];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    shares.forEach((share, index) => {
+      if (!share || typeof share.name !== 'string' || !share.name.trim()) {
+        errors.push(`shares[${index}].name is required`);
+      } else if (names.has(share.name.trim())) {
+        errors.push(`shares[${index}].name repeats ${share.name.trim()}`);
+      } else {
+        names.add(share.name.trim());
+      }
+      if (!Number.isInteger(share?.amount)) {
+        errors.push(`shares[${index}].amount must be a whole number of minor units`);
+      }
+    });
+
+    if (errors.length === 0 && MoneyService.sum(shares.map(share => share.amount)) !== 0) {
+      errors.push('shares must add up to zero: what payers are owed back (positive) must equal what the others owe (negative)');
+    }
+    return errors;
+  }
+
+  private static isDate(value: unknown): value is string {
+    return typeof value === 'string'
+      && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      && isValid(parse(value, 'yyyy-MM-dd', new Date()));
+  }
+}
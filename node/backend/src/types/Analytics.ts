@@ -1,9 +1,12 @@
 /**
  * Advanced analytics types for the Spending Analyzer application
- * These interfaces define the structure for complex spending pattern analysis
+ * These interfaces define the structure for complex spending pattern analysis;
+ * every amount, balance and average is in integer minor units
  */
 
 import { Transaction } from './Transaction';
+import { Cents } from './Money';
+import { StoreMetadata } from './StoreMetadata';
 
 /**
  * Detailed payment pattern analysis for individual users
@@ -13,15 +16,15 @@ export interface PaymentPattern {
   /** Name of the person being analyzed */
   person: string;
   /** Breakdown of spending by category with amount and transaction count */
-  categoryBreakdown: { [category: string]: { amount: number; count: number } };
+  categoryBreakdown: { [category: string]: { amount: Cents; count: number } };
   /** List of preferred stores ranked by frequency and total spending */
-  preferredStores: { store: string; frequency: number; totalSpent: number }[];
+  preferredStores: { store: string; frequency: number; totalSpent: Cents }[];
   /** Average transaction size for this person */
-  averageTransactionSize: number;
+  averageTransactionSize: Cents;
   /** Number of transactions per day of the week */
   paymentFrequency: { [dayOfWeek: string]: number };
   /** Monthly spending totals */
-  monthlySpending: { [month: string]: number };
+  monthlySpending: { [month: string]: Cents };
 }
 
 /**
@@ -29,14 +32,18 @@ export interface PaymentPattern {
  * Tracks visit patterns, spending trends, and customer behavior
  */
 export interface StoreAnalytics {
-  /** Canonical store name */
+  /** Canonical store name, or the attribute value when stores are grouped by a store attribute */
   storeName: string;
+  /** Details of the store; only set when not grouping by an attribute */
+  metadata?: StoreMetadata;
+  /** Canonical stores in the group; only set when grouping by an attribute */
+  stores?: string[];
   /** Number of visits to this store */
   visitFrequency: number;
   /** Average amount spent per visit */
-  averageSpend: number;
+  averageSpend: Cents;
   /** Total amount spent at this store */
-  totalSpent: number;
+  totalSpent: Cents;
   /** Most popular visit days ranked by frequency */
   popularDays: { day: string; frequency: number }[];
   /** Categories of items purchased at this store */
@@ -46,7 +53,7 @@ export interface StoreAnalytics {
   /** Date of most recent visit (YYYY-MM-DD) */
   lastVisited: string;
   /** Monthly spending trend with visit counts */
-  monthlyTrend: { month: string; amount: number; visits: number }[];
+  monthlyTrend: { month: string; amount: Cents; visits: number }[];
 }
 
 /**
@@ -54,10 +61,14 @@ export interface StoreAnalytics {
  * Analyzes growth, transaction patterns, and store preferences by category
  */
 export interface CategoryTrend {
-  /** Category name */
+  /** Category name, or the parent group name when trends are rolled up */
   category: string;
+  /** Parent group of the category; set when trends are per category */
+  parentCategory?: string;
+  /** Categories rolled up into the parent group; set when trends are per parent group */
+  subcategories?: string[];
   /** Monthly spending progression with transaction counts */
-  monthlySpend: { month: string; amount: number; count: number }[];
+  monthlySpend: { month: string; amount: Cents; count: number }[];
   /** Month-over-month growth rate percentage */
   growthRate: number;
   /** Transaction with the highest amount in this category */
@@ -65,11 +76,11 @@ export interface CategoryTrend {
   /** Transaction with the lowest amount in this category */
   smallestTransaction: Transaction;
   /** Average transaction size for this category */
-  averageTransactionSize: number;
+  averageTransactionSize: Cents;
   /** Preferred stores for this category ranked by amount and frequency */
-  commonStores: { store: string; amount: number; frequency: number }[];
+  commonStores: { store: string; amount: Cents; frequency: number }[];
   /** Spending distribution by day of week */
-  dayOfWeekPattern: { [day: string]: number };
+  dayOfWeekPattern: { [day: string]: Cents };
 }
 
 /**
@@ -78,15 +89,36 @@ export interface CategoryTrend {
  */
 export interface BalanceAnalytics {
   /** Current balance for each person (positive = owed money, negative = owes money) */
-  currentBalance: { [person: string]: number };
+  currentBalance: { [person: string]: Cents };
   /** Historical balance changes over time for each person */
-  balanceHistory: { date: string; balance: number; person: string }[];
+  balanceHistory: { date: string; balance: Cents; person: string }[];
   /** Monthly net balance changes for each person */
-  monthlyBalanceChange: { month: string; change: number }[];
+  monthlyBalanceChange: { month: string; change: Cents }[];
   /** Number of transactions each person was involved in */
   paymentFrequency: { [person: string]: number };
   /** Period with the largest imbalance between users */
-  largestImbalancePeriod: { start: string; end: string; maxImbalance: number };
+  largestImbalancePeriod: { start: string; end: string; maxImbalance: Cents };
+  /** Settle-up payments in chronological order */
+  settlementHistory: { date: string; from: string; to: string; amount: Cents }[];
+}
+
+/**
+ * Comparison of the exported "Total balance" row against computed balances
+ * Flags every person whose totals disagree by a cent or more
+ */
+export interface BalanceReconciliation {
+  /** True when every person's computed balance matches the exported total */
+  reconciled: boolean;
+  /** People whose computed balance differs from the exported total */
+  mismatches: {
+    person: string;
+    /** Balance reported in the export */
+    expected: Cents;
+    /** Balance computed from the parsed transactions */
+    computed: Cents;
+    /** computed - expected */
+    difference: Cents;
+  }[];
 }
 
 /**
@@ -97,7 +129,7 @@ export interface SpendingHeatmap {
   /** Date in YYYY-MM-DD format */
   date: string;
   /** Total amount spent on this date */
-  amount: number;
+  amount: Cents;
   /** Number of transactions on this date */
   transactionCount: number;
   /** Categories of spending that occurred on this date */
@@ -116,8 +148,8 @@ export interface BudgetIntelligence {
   /** Category-based budget recommendations with trend analysis */
   categoryRecommendations: {
     category: string;
-    suggestedBudget: number;
-    currentMonthlyAverage: number;
+    suggestedBudget: Cents;
+    currentMonthlyAverage: Cents;
     trend: 'increasing' | 'decreasing' | 'stable';
     confidence: number;
   }[];
@@ -130,7 +162,7 @@ export interface BudgetIntelligence {
   /** Predicted spending for next month by category */
   predictedNextMonthSpending: {
     category: string;
-    predictedAmount: number;
+    predictedAmount: Cents;
     confidence: number;
   }[];
 }
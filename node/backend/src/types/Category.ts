@@ -0,0 +1,48 @@
+import { Transaction } from './Transaction';
+
+/**
+ * Configurable category hierarchy, shared by all datasets
+ * Imported categories are kept on the transactions; the taxonomy is applied when analyzing them
+ */
+export interface CategoryTaxonomy {
+  /** Imported categories mapped to the category they are shown as, e.g. "Life - Other" to "Other" */
+  remappings: { [rawCategory: string]: string };
+  /** Categories mapped to the parent group they roll up into, e.g. "Dining out" to "Food" */
+  parents: { [category: string]: string };
+}
+
+/**
+ * Level of the hierarchy spending is grouped at
+ */
+export type CategoryLevel = 'category' | 'parent';
+
+/**
+ * A parent group with the categories that roll up into it
+ * Categories without a parent form a group of their own
+ */
+export interface CategoryGroup {
+  parent: string;
+  categories: string[];
+}
+
+/**
+ * Why the classifier suggests a category for a transaction
+ */
+export type CategorySuggestionReason = 'uncategorized' | 'miscategorized';
+
+export type CategorySuggestionVerdict = 'accept' | 'reject';
+
+/**
+ * A category the classifier suggests for one transaction, waiting in the review queue
+ */
+export interface CategorySuggestion {
+  /** ID of the transaction, which stays the same when the transaction is edited */
+  transactionId: string;
+  transaction: Transaction;
+  reason: CategorySuggestionReason;
+  suggestedCategory: string;
+  /** Score between 0 and 1 */
+  confidence: number;
+  /** Short reason for the suggestion, e.g. '5 of 6 transactions at Trader Joe's are Groceries' */
+  explanation: string;
+}
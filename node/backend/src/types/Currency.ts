@@ -0,0 +1,30 @@
+/**
+ * Exchange rate on a date: 1 unit of the base currency is worth `rate` units of the quote currency
+ */
+export interface ExchangeRate {
+  /** Date the rate applies from (YYYY-MM-DD) */
+  date: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+/**
+ * A currency the dataset's transactions could not be converted from, for lack of a rate
+ */
+export interface UnconvertedCurrency {
+  currency: string;
+  /** Transactions analytics cannot total because of it */
+  transactionCount: number;
+  /** Dates of the earliest and latest of those transactions (YYYY-MM-DD) */
+  firstDate: string;
+  lastDate: string;
+}
+
+/**
+ * Currency all analytics amounts are reported in
+ */
+export interface CurrencySummary {
+  reportingCurrency: string;
+  unconverted: UnconvertedCurrency[];
+}
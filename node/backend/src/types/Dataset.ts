@@ -0,0 +1,34 @@
+import { Transaction } from './Transaction';
+import { ImportedFile } from './Import';
+
+/**
+ * A persisted collection of transactions and the mappings applied to them
+ */
+export interface Dataset {
+  id: string;
+  /** User-facing name, e.g. "Apartment 2025" */
+  name: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** ISO timestamp of the last change to the dataset's contents */
+  updatedAt: string;
+}
+
+/**
+ * Dataset as listed in the dataset switcher
+ */
+export interface DatasetSummary extends Dataset {
+  transactionCount: number;
+}
+
+/**
+ * Everything stored for a dataset
+ */
+export interface DatasetContents {
+  /** Parsed transactions, in import order */
+  transactions: Transaction[];
+  /** Mapping of canonical store names to their variations */
+  storeMappings: { [canonicalName: string]: string[] };
+  /** Files the transactions were imported from, with their "Total balance" rows */
+  sources: ImportedFile[];
+}
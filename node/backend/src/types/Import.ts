@@ -0,0 +1,203 @@
+/**
+ * Types describing how uploaded CSV files are imported and validated
+ */
+
+import { Transaction, TotalBalance } from './Transaction';
+import { BalanceReconciliation } from './Analytics';
+
+/**
+ * How serious a validation problem is
+ * Errors keep the row out of the dataset, warnings are imported as-is
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found while validating an uploaded row
+ */
+export interface ValidationIssue {
+  /** Line number in the CSV file (the header is line 1) */
+  rowNumber: number;
+  /** Column the problem was found in, or "Shares" for the person columns as a whole */
+  field: string;
+  /** Human-readable description of the problem */
+  problem: string;
+  /** Whether the row was rejected (error) or imported with a warning */
+  severity: ValidationSeverity;
+}
+
+/**
+ * Row-level validation results for an uploaded file
+ */
+export interface ValidationReport {
+  /** Number of data rows inspected (blank separator rows are not counted) */
+  rowsChecked: number;
+  /** Number of rows rejected because of errors */
+  rowsRejected: number;
+  /** Total error-severity issues */
+  errorCount: number;
+  /** Total warning-severity issues */
+  warningCount: number;
+  /** Every issue found, in file order */
+  issues: ValidationIssue[];
+}
+
+/**
+ * What to do with a file that has error-severity issues
+ * - reject: refuse the whole upload and leave the session untouched
+ * - skip: import the valid rows and report the rest
+ */
+export type ValidationMode = 'reject' | 'skip';
+
+/**
+ * What a CSV column is used for during import
+ * Every column mapped to "person" becomes a share in the transaction
+ * "debit" and "credit" are for statements that split amounts across two columns
+ */
+export type ColumnRole =
+  | 'date'
+  | 'description'
+  | 'category'
+  | 'cost'
+  | 'debit'
+  | 'credit'
+  | 'currency'
+  | 'person'
+  | 'ignore';
+
+/**
+ * Assignment of CSV column headers to their import role
+ */
+export interface ColumnMapping {
+  [column: string]: ColumnRole;
+}
+
+/**
+ * Type guessed from a column's sample values
+ */
+export type InferredColumnType = 'date' | 'number' | 'text' | 'empty';
+
+/**
+ * Description of a single CSV column in an upload preview
+ */
+export interface ColumnPreview {
+  /** Column header as it appears in the file */
+  name: string;
+  /** Role the importer will use for this column */
+  role: ColumnRole;
+  /** Type guessed from the sampled values */
+  inferredType: InferredColumnType;
+  /** First few non-empty values from the column */
+  sampleValues: string[];
+}
+
+/**
+ * Dry-run result for an uploaded file; nothing is stored in the session
+ */
+export interface UploadPreview {
+  /** Every column detected in the header row */
+  columns: ColumnPreview[];
+  /** Columns that will be imported as people */
+  people: string[];
+  /** Transactions built from the sampled rows using the column roles */
+  sampleTransactions: Transaction[];
+  /** Validation results for the sampled rows only */
+  validation: ValidationReport;
+}
+
+/**
+ * Which sign a single amount column uses for money spent
+ * - positive-debit: purchases are positive (Splitwise, most card statements)
+ * - negative-debit: purchases are negative (most bank statements)
+ */
+export type AmountSign = 'positive-debit' | 'negative-debit';
+
+/**
+ * What to do with credits (refunds, incoming payments) in a statement
+ * - skip: leave them out of the dataset
+ * - refund: import them with a negative cost
+ */
+export type CreditHandling = 'skip' | 'refund';
+
+/**
+ * Saved settings for importing a particular kind of CSV file
+ */
+export interface ImportProfile {
+  /** Unique identifier */
+  id: string;
+  /** Display name (e.g., "Chase credit card") */
+  name: string;
+  /** Roles for known column headers */
+  columnMapping: ColumnMapping;
+  /** Role given to columns not listed in the mapping */
+  unmappedColumns: 'person' | 'ignore';
+  /** date-fns format of the date column (e.g., "MM/dd/yyyy") */
+  dateFormat: string;
+  /** Sign convention of a single amount column */
+  amountSign: AmountSign;
+  /** How credits are imported */
+  creditHandling: CreditHandling;
+  /** Currency used when the file has no currency column */
+  defaultCurrency?: string;
+  /** Person who paid, used when the file has no share columns */
+  defaultOwner?: string;
+  /** Percentage of each cost owed by each person; defaults to 100% for the owner */
+  defaultSplit?: { [person: string]: number };
+  /** Built-in profiles cannot be edited or deleted */
+  builtIn?: boolean;
+}
+
+/**
+ * Profile fields a client submits when saving a profile; omitted options get their defaults
+ */
+export type ImportProfileInput = Pick<ImportProfile, 'name' | 'columnMapping'>
+  & Partial<Omit<ImportProfile, 'id' | 'name' | 'columnMapping' | 'builtIn'>>;
+
+/**
+ * Whether an upload starts a new dataset or adds to the current one
+ */
+export type UploadMode = 'replace' | 'append';
+
+/**
+ * What to do with an uploaded transaction that matches one already in the dataset
+ * - skip: leave it out
+ * - flag: import it marked as a possible duplicate for review
+ */
+export type DuplicateHandling = 'skip' | 'flag';
+
+/**
+ * A file that contributed transactions to the current dataset
+ */
+export interface ImportedFile {
+  /** Original file name */
+  fileName: string;
+  /** When the file was imported (ISO timestamp) */
+  importedAt: string;
+  /** Number of transactions added from this file */
+  transactionCount: number;
+  /** Totals from the file's "Total balance" footer row, if present */
+  totalBalance?: TotalBalance;
+}
+
+/**
+ * Outcome of importing one file in an upload
+ */
+export interface FileImportResult {
+  /** Original file name */
+  fileName: string;
+  /** Transactions parsed from the file after validation */
+  transactionsParsed: number;
+  /** New transactions added to the dataset */
+  added: number;
+  /** Duplicates left out of the dataset */
+  duplicatesSkipped: number;
+  /** Duplicates imported and marked for review */
+  duplicatesFlagged: number;
+  /** Transactions renamed using the store mapping library */
+  storeNamesMapped: number;
+  /** Totals from the file's "Total balance" footer row, if present */
+  totalBalance?: TotalBalance;
+  /** File totals compared against the balances computed from the file's rows */
+  reconciliation?: BalanceReconciliation;
+  /** Row-level validation results */
+  validation: ValidationReport;
+}
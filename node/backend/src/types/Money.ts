@@ -0,0 +1,10 @@
+/**
+ * Money types for the Spending Analyzer application
+ */
+
+/**
+ * An amount in integer minor units of its currency (cents for USD, paise for INR)
+ * Every cost, share, balance and aggregate is held and returned in minor units, so sums are exact
+ * and balances reconcile to the cent with the exported totals
+ */
+export type Cents = number;
@@ -0,0 +1,29 @@
+/**
+ * Mapping of canonical person names to the names they were imported under
+ */
+export type PersonMappings = { [canonicalName: string]: string[] };
+
+/**
+ * A person as shown across all analytics
+ */
+export interface Person {
+  /** Canonical name, shown everywhere instead of the aliases */
+  name: string;
+  /** Other names the person was imported under, e.g. CSV headers from older exports */
+  aliases: string[];
+  /** Transactions the person has a share in */
+  transactionCount: number;
+}
+
+/**
+ * Two people that look like the same person
+ */
+export interface PersonMergeSuggestion {
+  /** Name to keep; the person with more transactions */
+  canonicalName: string;
+  aliases: string[];
+  /** Score between 0 and 1 */
+  confidence: number;
+  /** Short reason the names were matched, e.g. 'All words of "Sharath" appear in "Sharath S Bhargav"' */
+  explanation: string;
+}
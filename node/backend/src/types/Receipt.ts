@@ -0,0 +1,15 @@
+/**
+ * A receipt photo or PDF attached to a transaction
+ * Receipts follow the transaction's ID, so they stay attached when it is edited or imported again
+ */
+export interface Receipt {
+  id: string;
+  transactionId: string;
+  /** Name of the uploaded file */
+  fileName: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** ISO timestamp */
+  uploadedAt: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * Kind of place a store is
+ */
+export type StoreType =
+  | 'supermarket'
+  | 'restaurant'
+  | 'cafe'
+  | 'online'
+  | 'pharmacy'
+  | 'household'
+  | 'clothing'
+  | 'entertainment'
+  | 'travel'
+  | 'other';
+
+/**
+ * Descriptive details attached to a canonical store, shared by all datasets
+ */
+export interface StoreMetadata {
+  /** Canonical store name the details belong to */
+  storeName: string;
+  /** Chain or brand, e.g. "Costco" for "Costco Sunnyvale" */
+  chain?: string;
+  storeType?: StoreType;
+  neighborhood?: string;
+  /** Free-form labels such as "organic" or "weekly" */
+  tags: string[];
+}
+
+/**
+ * Store details submitted by the client; empty and null values are left unset
+ */
+export interface StoreMetadataInput {
+  chain?: string | null;
+  storeType?: StoreType | null;
+  neighborhood?: string | null;
+  tags?: string[];
+}
+
+/**
+ * Store details spending can be grouped and filtered by
+ */
+export type StoreAttribute = 'chain' | 'storeType' | 'neighborhood' | 'storeTag';
+
+/**
+ * Values of each store attribute, as offered by the dashboard filters
+ */
+export interface StoreAttributeValues {
+  chains: string[];
+  storeTypes: StoreType[];
+  neighborhoods: string[];
+  storeTags: string[];
+}
+
+/**
+ * Restricts analysis to stores with any of the listed attribute values
+ */
+export interface StoreAttributeFilters {
+  chains?: string[];
+  storeTypes?: string[];
+  neighborhoods?: string[];
+  storeTags?: string[];
+}
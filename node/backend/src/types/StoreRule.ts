@@ -0,0 +1,54 @@
+/**
+ * How a store rule's pattern is compared with a transaction description
+ */
+export type StoreRuleMatchType = 'regex' | 'contains' | 'prefix';
+
+/**
+ * Maps every description matching a pattern to one canonical store,
+ * e.g. /^COSTCO WHSE/ to "Costco"
+ * Rules are evaluated in order and the first matching one wins
+ */
+export interface StoreRule {
+  /** Unique identifier */
+  id: string;
+  matchType: StoreRuleMatchType;
+  /** Regular expression source, or plain text for contains and prefix rules */
+  pattern: string;
+  /** Store that matching descriptions are mapped to */
+  canonicalName: string;
+  caseSensitive: boolean;
+  /** Disabled rules are kept but never match */
+  enabled: boolean;
+}
+
+/**
+ * A store rule submitted by the client; rules are case-insensitive and enabled unless it says otherwise
+ */
+export interface StoreRuleInput {
+  matchType: StoreRuleMatchType;
+  pattern: string;
+  canonicalName: string;
+  caseSensitive?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * A description a rule matches in the current dataset
+ */
+export interface StoreRuleMatch {
+  description: string;
+  transactionCount: number;
+  /** Store the description is currently shown as */
+  currentStore: string;
+}
+
+/**
+ * Descriptions a rule matches, as shown by the rule tester
+ */
+export interface StoreRuleTestResult {
+  /** Missing when testing a rule that has not been saved */
+  ruleId?: string;
+  matches: StoreRuleMatch[];
+  /** Transactions across all matched descriptions */
+  transactionCount: number;
+}
@@ -3,32 +3,88 @@
  * These interfaces define the structure of transaction data and related entities
  */
 
+import { CategoryGroup } from './Category';
+import { CurrencySummary } from './Currency';
+import { Cents } from './Money';
+import { StoreAttribute, StoreAttributeFilters, StoreAttributeValues } from './StoreMetadata';
+
 /**
  * Represents a single person's share in a transaction
  */
 export interface PersonShare {
   /** Name of the person */
   name: string;
-  /** Amount this person owes or is owed (negative means they paid, positive means they owe) */
-  amount: number;
+  /** Amount in minor units: positive when the person paid and is owed back, negative when they owe */
+  amount: Cents;
 }
 
+/**
+ * Distinguishes shared expenses from settle-up payments between people
+ */
+export type TransactionKind = 'expense' | 'settlement';
+
 /**
  * Represents a single transaction from the CSV file
  */
 export interface Transaction {
+  /** Stable identifier, derived from the content the transaction was imported with and kept through edits */
+  id: string;
   /** Transaction date in YYYY-MM-DD format */
   date: string;
-  /** Store name or description */
+  /** Store name or description, exactly as imported */
   description: string;
-  /** Spending category (e.g., Groceries, Dining out) */
+  /** Canonical store name after store mappings; equals the description when unmapped */
+  store: string;
+  /** Spending category (e.g., Groceries, Dining out); remapped by the category taxonomy when analyzed */
   category: string;
-  /** Total cost of the transaction */
-  cost: number;
+  /** Category exactly as imported; only set when a reviewed suggestion or a category remapping changed it */
+  originalCategory?: string;
+  /** Parent group the category rolls up into; set on analyzed transactions */
+  parentCategory?: string;
+  /** Total cost of the transaction in minor units; in the reporting currency on analyzed transactions */
+  cost: Cents;
   /** Currency code (e.g., USD) */
   currency: string;
-  /** Array of each person's share in this transaction */
+  /** Cost in the currency it was paid in; only set on analyzed transactions that were converted */
+  originalCost?: Cents;
+  /** Currency the transaction was paid in; only set on analyzed transactions that were converted */
+  originalCurrency?: string;
+  /** Rate the cost and shares were converted with */
+  exchangeRate?: number;
+  /** Each person's share, under their canonical names after person mappings; converted like the cost */
   shares: PersonShare[];
+  /** Shares exactly as imported; only set when person mappings renamed or combined them */
+  originalShares?: PersonShare[];
+  /** Whether this row is an expense or a settlement payment (defaults to expense) */
+  kind?: TransactionKind;
+  /** Set when an appended row matched an existing transaction and was kept for review */
+  possibleDuplicate?: boolean;
+  /** Free-form labels such as "trip:tahoe" or "reimbursable", independent of the category; only set when tagged */
+  tags?: string[];
+  /** Free-form note; only set when one was written */
+  notes?: string;
+  /** Number of receipts attached; only set on detailed transactions that have receipts */
+  receiptCount?: number;
+}
+
+/**
+ * Fields a client can set when entering a transaction by hand or editing one; amounts in minor units
+ */
+export type TransactionInput = Partial<Pick<
+  Transaction,
+  'date' | 'description' | 'category' | 'cost' | 'currency' | 'shares' | 'kind' | 'tags' | 'notes'
+>>;
+
+/**
+ * Per-person totals reported by the Splitwise "Total balance" footer row
+ */
+export interface TotalBalance {
+  /** Date printed on the footer row (YYYY-MM-DD) */
+  date: string;
+  /** Currency code of the totals */
+  currency: string;
+  /** Final balance Splitwise reports for each person, in minor units */
+  balances: { [person: string]: Cents };
 }
 
 /**
@@ -39,12 +95,132 @@ export interface StoreGrouping {
   canonicalName: string;
   /** Array of variations found in the data */
   variations: string[];
+  /** How closely each variation matches the canonical name, when scored */
+  matches?: VariationMatch[];
+}
+
+/**
+ * Similarity of one variation to its group's canonical name
+ */
+export interface VariationMatch {
+  variation: string;
+  /** Similarity score between 0 and 1 */
+  confidence: number;
+  /** Short human-readable reason, e.g. "Shares the words: mayuri" */
+  explanation: string;
+}
+
+/**
+ * Ways of measuring how similar two store names are
+ */
+export type SimilarityStrategyName = 'levenshtein' | 'token-set' | 'jaro-winkler' | 'prefix';
+
+/**
+ * Options for suggesting store groupings
+ */
+export interface SimilarityOptions {
+  strategy?: SimilarityStrategyName;
+  /** Names are grouped when their score is above this; defaults to the strategy's own threshold */
+  threshold?: number;
+  /**
+   * Ignore store numbers such as "#1234" or a trailing "0042" when comparing names
+   * A flag rather than a strategy because it changes the names being compared, not how they are
+   * scored, so it can be combined with any strategy
+   */
+  stripStoreNumbers?: boolean;
+}
+
+/**
+ * Whether two store names were confirmed as the same store or marked as never to be grouped
+ */
+export type StorePairVerdict = 'accept' | 'reject';
+
+/**
+ * Feedback on whether two store names belong together, learned from editing store groups
+ */
+export interface StorePairFeedback {
+  nameA: string;
+  nameB: string;
+  verdict: StorePairVerdict;
+  /** ISO timestamp */
+  updatedAt: string;
 }
 
+/**
+ * Kinds of edits made to a dataset's store groups
+ */
+export type StoreGroupOperation =
+  'add' | 'merge' | 'split' | 'rename' | 'remove-variation' | 'delete' | 'apply-rules' | 'import';
+
+/**
+ * A verdict recorded by a store group edit, with the verdict it replaced so the edit can be undone
+ */
+export interface StorePairFeedbackChange {
+  nameA: string;
+  nameB: string;
+  /** Verdict before the edit; null when the pair had none */
+  before: StorePairVerdict | null;
+  after: StorePairVerdict;
+}
+
+/**
+ * A store group changed by a store group edit, so the edit can be undone without touching other groups
+ */
+export interface StoreMappingChange {
+  canonicalName: string;
+  /** Variations before the edit; null when the group did not exist */
+  before: string[] | null;
+  /** Variations after the edit; null when the edit removed the group */
+  after: string[] | null;
+}
+
+/**
+ * One recorded edit to a dataset's store groups
+ */
+export interface StoreGroupHistoryEntry {
+  id: number;
+  operation: StoreGroupOperation;
+  /** Human-readable description, e.g. "Merged Safeway into Safeway Inc" */
+  summary: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** Whether the edit has been undone (and can be redone) */
+  undone: boolean;
+}
+
+/**
+ * File format for exporting and importing store mappings
+ * CSV has one "canonicalName,variation" row per variation; JSON is an object of canonical name to variations
+ */
+export type StoreMappingFileFormat = 'csv' | 'json';
+
+/**
+ * What an import does with names already mapped to another canonical name
+ * - skip: keep the current mapping
+ * - overwrite: move the name to the imported canonical name
+ */
+export type StoreMappingConflictResolution = 'skip' | 'overwrite';
+
+/**
+ * A name the imported file maps differently from the dataset
+ */
+export interface StoreMappingConflict {
+  name: string;
+  currentCanonicalName: string;
+  importedCanonicalName: string;
+}
+
+/**
+ * Dimensions spending can be grouped by, including the details of canonical stores and transaction tags
+ */
+export type SpendingDimension = 'category' | 'parentCategory' | 'store' | 'person' | 'tag' | StoreAttribute;
+
 /**
  * Filter object for data analysis queries
+ * Store attribute filters (chains, storeTypes, neighborhoods, storeTags) match the details of each
+ * transaction's canonical store
  */
-export interface AnalysisFilters {
+export interface AnalysisFilters extends StoreAttributeFilters {
   /** Start date for filtering (YYYY-MM-DD) */
   startDate?: string;
   /** End date for filtering (YYYY-MM-DD) */
@@ -53,8 +229,14 @@ export interface AnalysisFilters {
   people?: string[];
   /** Array of categories to include */
   categories?: string[];
+  /** Array of parent category groups to include */
+  parentCategories?: string[];
   /** Array of store names to include */
   stores?: string[];
+  /** Array of transaction tags; transactions with any of them are included */
+  tags?: string[];
+  /** Include settlement payments alongside expenses (excluded by default) */
+  includeSettlements?: boolean;
 }
 
 /**
@@ -63,10 +245,10 @@ export interface AnalysisFilters {
 export interface SpendingData {
   /** Label for this data point (e.g., date, category name, person name) */
   label: string;
-  /** Total amount spent */
-  amount: number;
+  /** Total amount spent, in minor units */
+  amount: Cents;
   /** Optional breakdown by subcategory */
-  breakdown?: { [key: string]: number };
+  breakdown?: { [key: string]: Cents };
 }
 
 /**
@@ -75,10 +257,18 @@ export interface SpendingData {
 export interface DatasetMetadata {
   /** All unique person names in the dataset */
   people: string[];
-  /** All unique categories in the dataset */
+  /** All unique categories in the dataset, after category remappings */
   categories: string[];
+  /** Parent groups of the categories */
+  categoryGroups: CategoryGroup[];
+  /** Currency the amounts are reported in, and currencies left out for lack of exchange rates */
+  currency: CurrencySummary;
   /** All unique store names in the dataset */
   stores: string[];
+  /** Chains, store types, neighborhoods and tags of the dataset's stores */
+  storeAttributes: StoreAttributeValues;
+  /** All tags on the dataset's transactions */
+  tags: string[];
   /** Date range of the dataset */
   dateRange: {
     start: string;
@@ -1,18 +1,11 @@
-import { Transaction } from './Transaction';
 import 'express-session';
 
-/**
- * Session data structure for storing user's transaction data
- */
-interface SpendingSessionData {
-  /** Array of parsed transactions */
-  transactions: Transaction[];
-  /** Mapping of canonical store names to their variations */
-  storeMappings: { [canonicalName: string]: string[] };
-}
-
 declare module 'express-session' {
   interface SessionData {
-    data?: SpendingSessionData;
+    /**
+     * Dataset selected in this browser session; its contents live in the database, where every
+     * session can see them, since the app has no user accounts
+     */
+    datasetId?: string;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,14 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    env: {
+      // Each test file gets its own empty database
+      DATABASE_PATH: ':memory:',
+      // Receipt files are kept per dataset, and every test dataset has a new ID
+      RECEIPTS_PATH: path.join(os.tmpdir(), 'spending-analyzer-test-receipts')
+    }
+  }
+});
@@ -0,0 +1,130 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { isAxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import { acceptCategorySuggestions, getCategorySuggestions, rejectCategorySuggestions } from '../services/api';
+import type { ApiErrorResponse, CategorySuggestion, ReviewedCategorySuggestion } from '../types';
+import { formatAmount } from './common/ReportingCurrency';
+
+const toReviewed = (suggestion: CategorySuggestion): ReviewedCategorySuggestion => ({
+  transactionId: suggestion.transactionId,
+  category: suggestion.suggestedCategory
+});
+
+/**
+ * Refine Data review queue for categories suggested by the dataset's own store and description history
+ * Covers transactions imported without a category and ones whose category looks wrong;
+ * rejected suggestions are not shown again
+ */
+export const CategoryReviewSection = () => {
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCategorySuggestions()
+      .then(setSuggestions)
+      .catch(err => console.error('Error loading category suggestions:', err));
+  }, []);
+
+  const review = async (reviewed: CategorySuggestion[], accept: boolean) => {
+    try {
+      setIsReviewing(true);
+      setError(null);
+      const items = reviewed.map(toReviewed);
+      setSuggestions(accept ? await acceptCategorySuggestions(items) : await rejectCategorySuggestions(items));
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.error || 'Error reviewing category suggestions. Please try again.');
+      console.error('Error reviewing category suggestions:', err);
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const uncategorized = suggestions.filter(suggestion => suggestion.reason === 'uncategorized');
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h5">
+          Category Review ({suggestions.length})
+        </Typography>
+        {uncategorized.length > 0 && (
+          <Button onClick={() => review(uncategorized, true)} disabled={isReviewing}>
+            Accept All for Uncategorized ({uncategorized.length})
+          </Button>
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Categories suggested from how this dataset categorizes the same stores and description words.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {suggestions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Every transaction has a category that matches the rest of the dataset.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Store</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell>Current</TableCell>
+              <TableCell>Suggested</TableCell>
+              <TableCell>Why</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {suggestions.map((suggestion, index) => (
+              <TableRow key={`${suggestion.transactionId}-${index}`}>
+                <TableCell>{suggestion.transaction.date}</TableCell>
+                <TableCell>{suggestion.transaction.store}</TableCell>
+                <TableCell align="right">
+                  {formatAmount(suggestion.transaction.cost)} {suggestion.transaction.currency}
+                </TableCell>
+                <TableCell>
+                  {suggestion.reason === 'uncategorized'
+                    ? <Chip size="small" label="Uncategorized" />
+                    : <Chip size="small" color="warning" label={suggestion.transaction.category} />}
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    color="primary"
+                    label={`${suggestion.suggestedCategory} (${Math.round(suggestion.confidence * 100)}%)`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">{suggestion.explanation}</Typography>
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Button size="small" onClick={() => review([suggestion], true)} disabled={isReviewing}>
+                    Accept
+                  </Button>
+                  <Button size="small" color="inherit" onClick={() => review([suggestion], false)} disabled={isReviewing}>
+                    Reject
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,163 @@
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Edit as EditIcon } from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import {
+  deleteCategoryParent,
+  deleteCategoryRemapping,
+  getCategoryTaxonomy,
+  saveCategoryParent,
+  saveCategoryRemapping
+} from '../services/api';
+import type { ApiErrorResponse, CategoryTaxonomy } from '../types';
+
+const EMPTY_TAXONOMY: CategoryTaxonomy = { remappings: {}, parents: {} };
+
+/**
+ * Refine Data section for the category hierarchy
+ * Imported categories can be shown under another name and grouped under parents such as
+ * Food → Groceries/Dining out; the taxonomy is shared by all datasets
+ */
+export const CategoryTaxonomySection = () => {
+  const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy>(EMPTY_TAXONOMY);
+  const [rawCategories, setRawCategories] = useState<string[]>([]);
+  const [rawCategory, setRawCategory] = useState<string | null>(null);
+  const [shownAs, setShownAs] = useState('');
+  const [parent, setParent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCategoryTaxonomy()
+      .then(response => {
+        setTaxonomy(response.taxonomy);
+        setRawCategories(response.rawCategories);
+      })
+      .catch(err => console.error('Error loading category taxonomy:', err));
+  }, []);
+
+  const shownCategory = (category: string) => taxonomy.remappings[category] ?? category;
+  // Remappings saved from other datasets can be edited too
+  const categoryOptions = [...new Set([...rawCategories, ...Object.keys(taxonomy.remappings)])].sort();
+  const parentOptions = [...new Set(Object.values(taxonomy.parents))].sort();
+
+  const selectCategory = (category: string | null) => {
+    setRawCategory(category);
+    setShownAs(category ? shownCategory(category) : '');
+    setParent(category ? taxonomy.parents[shownCategory(category)] ?? null : null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!rawCategory) return;
+    const category = shownAs.trim() || rawCategory;
+    try {
+      setError(null);
+      let updated = taxonomy;
+      if (category !== rawCategory) {
+        updated = await saveCategoryRemapping(rawCategory, category);
+      } else if (taxonomy.remappings[rawCategory]) {
+        updated = await deleteCategoryRemapping(rawCategory);
+      }
+
+      const parentName = parent?.trim();
+      if (parentName && parentName !== category) {
+        updated = await saveCategoryParent(category, parentName);
+      } else if (updated.parents[category]) {
+        updated = await deleteCategoryParent(category);
+      }
+
+      setTaxonomy(updated);
+      selectCategory(null);
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details ? data.details.join('; ') : 'Error saving category. Please try again.');
+      console.error('Error saving category:', err);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom>
+        Categories ({categoryOptions.length})
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Rename imported categories and group them under parents; the dashboard shows parent groups
+        and lets you drill into their categories.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Autocomplete
+          size="small"
+          options={categoryOptions}
+          value={rawCategory}
+          onChange={(_, value) => selectCategory(value)}
+          renderInput={params => <TextField {...params} label="Imported category" />}
+          sx={{ minWidth: 220 }}
+        />
+        <TextField
+          size="small"
+          label="Shown as"
+          value={shownAs}
+          onChange={e => setShownAs(e.target.value)}
+          disabled={!rawCategory}
+        />
+        <Autocomplete
+          freeSolo
+          size="small"
+          options={parentOptions}
+          value={parent}
+          onChange={(_, value) => setParent(value)}
+          onInputChange={(_, value) => setParent(value || null)}
+          renderInput={params => <TextField {...params} label="Parent group" />}
+          disabled={!rawCategory}
+          sx={{ minWidth: 220 }}
+        />
+        <Button variant="contained" onClick={handleSave} disabled={!rawCategory}>
+          Save Category
+        </Button>
+      </Box>
+
+      {categoryOptions.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Imported category</TableCell>
+              <TableCell>Shown as</TableCell>
+              <TableCell>Parent group</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {categoryOptions.map(category => (
+              <TableRow key={category} selected={category === rawCategory}>
+                <TableCell>{category}</TableCell>
+                <TableCell>{taxonomy.remappings[category] ?? '-'}</TableCell>
+                <TableCell>{taxonomy.parents[shownCategory(category)] ?? '-'}</TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" onClick={() => selectCategory(category)}>
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,217 @@
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Delete as DeleteIcon, Upload as UploadIcon } from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { type ChangeEvent, useEffect, useState } from 'react';
+import {
+  addExchangeRate,
+  deleteExchangeRate,
+  getCurrencySettings,
+  importExchangeRates,
+  setReportingCurrency
+} from '../services/api';
+import type { ApiErrorResponse, CurrencySettings } from '../types';
+import { useReportingCurrency } from './common/ReportingCurrency';
+
+const EMPTY_RATE = { date: '', baseCurrency: '', quoteCurrency: '', rate: '' };
+
+/**
+ * Refine Data section for the reporting currency and the local exchange-rate table
+ * Rates are shared by all datasets and can be typed in or imported from a CSV file of dated rates
+ */
+export const CurrencySection = () => {
+  const { refresh } = useReportingCurrency();
+  const [settings, setSettings] = useState<CurrencySettings | null>(null);
+  const [rate, setRate] = useState(EMPTY_RATE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrencySettings()
+      .then(setSettings)
+      .catch(err => console.error('Error loading currencies:', err));
+  }, []);
+
+  /**
+   * Runs a change and shows the updated settings, or the server's problems with it
+   */
+  const update = async <T extends CurrencySettings>(change: () => Promise<T>, failure: string): Promise<T | null> => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      setMessage(null);
+      const updated = await change();
+      setSettings(updated);
+      refresh();
+      return updated;
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details ? data.details.join('; ') : data?.error || failure);
+      console.error(failure, err);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddRate = async () => {
+    const added = await update(() => addExchangeRate({
+      date: rate.date,
+      baseCurrency: rate.baseCurrency.trim().toUpperCase(),
+      quoteCurrency: rate.quoteCurrency.trim().toUpperCase(),
+      rate: Number(rate.rate)
+    }), 'Error saving exchange rate. Please try again.');
+    if (added) setRate(EMPTY_RATE);
+  };
+
+  const handleFileSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    // Allow choosing the same file again after fixing it
+    event.target.value = '';
+    if (!selected) return;
+
+    const imported = await update(() => importExchangeRates(selected), 'Error importing exchange rates. Please try again.');
+    if (imported) setMessage(`Imported ${imported.ratesImported} exchange rate(s) from ${selected.name}`);
+  };
+
+  if (!settings) return null;
+
+  const currencyOptions = [...new Set([
+    ...settings.datasetCurrencies,
+    ...settings.rates.flatMap(r => [r.baseCurrency, r.quoteCurrency])
+  ])].sort();
+  const canAddRate = rate.date && rate.baseCurrency.trim() && rate.quoteCurrency.trim() && Number(rate.rate) > 0;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h5">
+          Currencies
+        </Typography>
+        <Button startIcon={<UploadIcon />} component="label" disabled={isSaving}>
+          Import Rates
+          <input type="file" accept=".csv" hidden onChange={handleFileSelect} />
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        All totals are converted into the reporting currency using the latest rate on or before each
+        transaction's date. Rate files need the columns date, baseCurrency, quoteCurrency and rate.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {message && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>{message}</Alert>}
+      {settings.unconverted.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          No rate converts{' '}
+          {settings.unconverted.map(({ currency, transactionCount }) => `${currency} (${transactionCount})`).join(', ')}
+          {' '}into {settings.reportingCurrency}; analytics are unavailable until every currency has a rate.
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 3 }}>
+        <Autocomplete
+          freeSolo
+          size="small"
+          options={currencyOptions}
+          value={settings.configuredReportingCurrency}
+          onChange={(_, value) => update(
+            () => setReportingCurrency(value ? value.trim().toUpperCase() : null),
+            'Error setting reporting currency. Please try again.'
+          )}
+          renderInput={params => (
+            <TextField
+              {...params}
+              label="Reporting currency"
+              placeholder={settings.reportingCurrency}
+              helperText={settings.configuredReportingCurrency ? undefined : 'Most common currency in the dataset'}
+            />
+          )}
+          disabled={isSaving}
+          sx={{ minWidth: 220 }}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+        <TextField
+          size="small"
+          type="date"
+          label="Date"
+          value={rate.date}
+          onChange={e => setRate({ ...rate, date: e.target.value })}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          size="small"
+          label="1 unit of"
+          placeholder="EUR"
+          value={rate.baseCurrency}
+          onChange={e => setRate({ ...rate, baseCurrency: e.target.value })}
+          sx={{ width: 110 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="is worth"
+          value={rate.rate}
+          onChange={e => setRate({ ...rate, rate: e.target.value })}
+          sx={{ width: 130 }}
+        />
+        <TextField
+          size="small"
+          label="of"
+          placeholder="USD"
+          value={rate.quoteCurrency}
+          onChange={e => setRate({ ...rate, quoteCurrency: e.target.value })}
+          sx={{ width: 110 }}
+        />
+        <Button variant="contained" onClick={handleAddRate} disabled={!canAddRate || isSaving}>
+          Add Rate
+        </Button>
+      </Box>
+
+      {settings.rates.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Currencies</TableCell>
+              <TableCell align="right">Rate</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {settings.rates.map(r => (
+              <TableRow key={`${r.baseCurrency}-${r.quoteCurrency}-${r.date}`}>
+                <TableCell>{r.date}</TableCell>
+                <TableCell>{r.baseCurrency} → {r.quoteCurrency}</TableCell>
+                <TableCell align="right">{r.rate}</TableCell>
+                <TableCell align="right">
+                  <IconButton
+                    size="small"
+                    onClick={() => update(() => deleteExchangeRate(r), 'Error deleting exchange rate. Please try again.')}
+                    disabled={isSaving}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,201 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon
+} from '@mui/icons-material';
+import { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+  createDataset,
+  deleteDataset,
+  getDatasets,
+  renameDataset,
+  selectDataset
+} from '../services/api';
+import type { DatasetSummary } from '../types';
+
+interface Props {
+  /** Called after the selected dataset changes so pages can reload their data */
+  onDatasetChange: () => void;
+}
+
+const NEW_DATASET = '__new__';
+
+/**
+ * App bar control for switching between named datasets
+ * Also creates, renames and deletes datasets; they are shared by everyone using this app, only the
+ * selection is per browser session
+ */
+export const DatasetSwitcher = ({ onDatasetChange }: Props) => {
+  const location = useLocation();
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [currentDatasetId, setCurrentDatasetId] = useState<string | null>(null);
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const currentDataset = datasets.find(dataset => dataset.id === currentDatasetId);
+
+  const loadDatasets = async () => {
+    try {
+      const response = await getDatasets();
+      setDatasets(response.datasets);
+      setCurrentDatasetId(response.currentDatasetId);
+    } catch (err) {
+      console.error('Error loading datasets:', err);
+    }
+  };
+
+  // Uploads can create a dataset, so refresh whenever the page changes
+  useEffect(() => {
+    loadDatasets();
+  }, [location.pathname]);
+
+  const handleSelect = async (value: string) => {
+    if (value === NEW_DATASET) {
+      openNameDialog('create');
+      return;
+    }
+
+    try {
+      await selectDataset(value);
+      setCurrentDatasetId(value);
+      onDatasetChange();
+    } catch (err) {
+      console.error('Error switching dataset:', err);
+    }
+  };
+
+  const openNameDialog = (mode: 'create' | 'rename') => {
+    setName(mode === 'rename' && currentDataset ? currentDataset.name : '');
+    setError(null);
+    setNameDialog(mode);
+  };
+
+  const handleSaveName = async () => {
+    try {
+      setError(null);
+      if (nameDialog === 'create') {
+        await createDataset(name);
+        onDatasetChange();
+      } else if (currentDatasetId) {
+        await renameDataset(currentDatasetId, name);
+      }
+      setNameDialog(null);
+      await loadDatasets();
+    } catch (err) {
+      setError('Error saving dataset name. Please try again.');
+      console.error('Error saving dataset:', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!currentDatasetId) return;
+
+    try {
+      await deleteDataset(currentDatasetId);
+      setDeleteDialogOpen(false);
+      await loadDatasets();
+      onDatasetChange();
+    } catch (err) {
+      console.error('Error deleting dataset:', err);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+      <Select
+        size="small"
+        value={currentDatasetId ?? ''}
+        displayEmpty
+        onChange={e => handleSelect(e.target.value)}
+        renderValue={() => currentDataset?.name ?? 'No dataset'}
+        sx={{
+          minWidth: 200,
+          color: 'white',
+          '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.5)' },
+          '& .MuiSvgIcon-root': { color: 'white' }
+        }}
+      >
+        {datasets.map(dataset => (
+          <MenuItem key={dataset.id} value={dataset.id}>
+            {dataset.name} ({dataset.transactionCount} transactions)
+          </MenuItem>
+        ))}
+        <MenuItem value={NEW_DATASET}>
+          <AddIcon fontSize="small" sx={{ mr: 1 }} />
+          New dataset
+        </MenuItem>
+      </Select>
+
+      <Tooltip title="Rename dataset">
+        <span>
+          <IconButton color="inherit" onClick={() => openNameDialog('rename')} disabled={!currentDataset}>
+            <EditIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Delete dataset">
+        <span>
+          <IconButton color="inherit" onClick={() => setDeleteDialogOpen(true)} disabled={!currentDataset}>
+            <DeleteIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      <Dialog open={nameDialog !== null} onClose={() => setNameDialog(null)} fullWidth maxWidth="xs">
+        <DialogTitle>{nameDialog === 'create' ? 'New Dataset' : 'Rename Dataset'}</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            label="Dataset name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            fullWidth
+            autoFocus
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNameDialog(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveName} disabled={!name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
+        <DialogTitle>Delete Dataset</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Delete "{currentDataset?.name}" with all of its transactions and store mappings?
+            Datasets are shared by everyone using this app, so it is deleted for all of them.
+            This cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteDialogOpen(false)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -1,16 +1,63 @@
-import { Box, Button, Paper, Typography } from '@mui/material';
-import { useCallback, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Typography
+} from '@mui/material';
+import { isAxiosError } from 'axios';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { uploadCSV } from '../services/api';
+import { getImportProfiles, previewCSV, uploadCSV } from '../services/api';
+import type {
+  ColumnMapping,
+  ColumnRole,
+  DuplicateHandling,
+  ImportProfile,
+  UploadPreview as UploadPreviewData,
+  UploadRejectedResponse,
+  UploadResponse,
+  ValidationReport as ValidationReportData
+} from '../types';
+import { ImportProfileDialog } from './ImportProfileDialog';
+import { UploadPreview } from './UploadPreview';
+import { ValidationReport } from './ValidationReport';
 
 /**
  * File upload component with drag-and-drop functionality
+ * Selected files are previewed first so column roles can be confirmed before importing
  */
 export const FileUpload = () => {
   const navigate = useNavigate();
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [rejectOnErrors, setRejectOnErrors] = useState(false);
+  const [appendToDataset, setAppendToDataset] = useState(false);
+  const [duplicateHandling, setDuplicateHandling] = useState<DuplicateHandling>('skip');
+  const [reports, setReports] = useState<{ fileName: string; validation: ValidationReportData }[]>([]);
+  const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [preview, setPreview] = useState<UploadPreviewData | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState('splitwise');
+  const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  // Read by the memoized drop/select handlers, which would otherwise see a stale profile
+  const profileIdRef = useRef(profileId);
+  profileIdRef.current = profileId;
+
+  useEffect(() => {
+    getImportProfiles()
+      .then(setProfiles)
+      .catch(err => console.error('Error loading import profiles:', err));
+  }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -27,36 +74,92 @@ export const FileUpload = () => {
     setIsDragging(false);
     setError(null);
 
-    const file = e.dataTransfer.files[0];
-    if (!file) return;
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0) return;
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please upload a CSV file');
+    if (!files.every(file => file.name.toLowerCase().endsWith('.csv'))) {
+      setError('Please upload CSV files only');
       return;
     }
 
-    await handleFileUpload(file);
+    await handleFilePreview(files);
   }, []);
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please upload a CSV file');
+    if (!files.every(file => file.name.toLowerCase().endsWith('.csv'))) {
+      setError('Please upload CSV files only');
       return;
     }
 
-    await handleFileUpload(file);
+    await handleFilePreview(files);
   }, []);
 
-  const handleFileUpload = async (file: File) => {
+  /**
+   * Previews the first file; the confirmed mapping is applied to every selected file
+   */
+  const handleFilePreview = async (files: File[], mapping: ColumnMapping = {}) => {
+    try {
+      setIsUploading(true);
+      setError(null);
+      setReports([]);
+      setUploadResult(null);
+      const response = await previewCSV(files[0], mapping, undefined, profileIdRef.current);
+      setSelectedFiles(files);
+      setPreview(response);
+      setColumnMapping(Object.fromEntries(response.columns.map(column => [column.name, column.role])));
+    } catch (err) {
+      setError('Error reading file. Please try again.');
+      console.error('Preview error:', err);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRoleChange = (column: string, role: ColumnRole) => {
+    setColumnMapping(prev => ({ ...prev, [column]: role }));
+  };
+
+  const handleCancelPreview = () => {
+    setSelectedFiles([]);
+    setPreview(null);
+    setColumnMapping({});
+  };
+
+  const handleFileUpload = async () => {
+    if (selectedFiles.length === 0) return;
+
     try {
       setIsUploading(true);
       setError(null);
-      await uploadCSV(file);
+      setReports([]);
+      const response = await uploadCSV(
+        selectedFiles,
+        rejectOnErrors ? 'reject' : 'skip',
+        columnMapping,
+        profileId,
+        appendToDataset ? 'append' : 'replace',
+        duplicateHandling
+      );
+      setPreview(null);
+
+      // Stay on the page so problems and duplicates can be reviewed before moving on
+      const { duplicatesSkipped, duplicatesFlagged } = response.summary;
+      const filesWithIssues = response.files.filter(file => file.validation.issues.length > 0);
+      if (filesWithIssues.length > 0 || duplicatesSkipped > 0 || duplicatesFlagged > 0) {
+        setUploadResult(response);
+        setReports(filesWithIssues);
+        return;
+      }
       navigate('/refine-data');
     } catch (err) {
+      if (isAxiosError<UploadRejectedResponse>(err) && err.response?.status === 422) {
+        setError(err.response.data.error);
+        setReports(err.response.data.files.filter(file => file.validation.issues.length > 0));
+        return;
+      }
       setError('Error uploading file. Please try again.');
       console.error('Upload error:', err);
     } finally {
@@ -97,6 +200,7 @@ export const FileUpload = () => {
         <input
           type="file"
           accept=".csv"
+          multiple
           onChange={handleFileSelect}
           style={{ display: 'none' }}
           id="file-input"
@@ -113,7 +217,7 @@ export const FileUpload = () => {
             }}
           >
             <Typography variant="h6" color="text.secondary">
-              {isDragging ? 'Drop CSV file here' : 'Drag & drop CSV file here'}
+              {isDragging ? 'Drop CSV files here' : 'Drag & drop CSV files here'}
             </Typography>
             <Typography variant="body2" color="text.secondary">
               or
@@ -125,11 +229,117 @@ export const FileUpload = () => {
         </label>
       </Paper>
 
+      <FormControl sx={{ minWidth: 300 }}>
+        <InputLabel>Import profile</InputLabel>
+        <Select
+          label="Import profile"
+          value={profileId}
+          onChange={e => setProfileId(e.target.value)}
+          disabled={Boolean(preview)}
+        >
+          {profiles.map(profile => (
+            <MenuItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={rejectOnErrors}
+            onChange={e => setRejectOnErrors(e.target.checked)}
+          />
+        }
+        label="Reject the upload if any row has errors"
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={appendToDataset}
+              onChange={e => setAppendToDataset(e.target.checked)}
+            />
+          }
+          label="Append to current dataset"
+        />
+        <FormControl sx={{ minWidth: 220 }} size="small">
+          <InputLabel>Duplicates</InputLabel>
+          <Select
+            label="Duplicates"
+            value={duplicateHandling}
+            onChange={e => setDuplicateHandling(e.target.value as DuplicateHandling)}
+          >
+            <MenuItem value="skip">Skip duplicates</MenuItem>
+            <MenuItem value="flag">Keep and flag duplicates</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+
       {error && (
         <Typography color="error" variant="body2">
           {error}
         </Typography>
       )}
+
+      {preview && selectedFiles.length > 1 && (
+        <Typography variant="body2" color="text.secondary">
+          Previewing {selectedFiles[0].name}. The same mapping will be used for all {selectedFiles.length} files.
+        </Typography>
+      )}
+
+      {preview && selectedFiles.length > 0 && (
+        <UploadPreview
+          preview={preview}
+          columnMapping={columnMapping}
+          isBusy={isUploading}
+          onRoleChange={handleRoleChange}
+          onRefresh={() => handleFilePreview(selectedFiles, columnMapping)}
+          onSaveProfile={() => setProfileDialogOpen(true)}
+          onConfirm={handleFileUpload}
+          onCancel={handleCancelPreview}
+        />
+      )}
+
+      <ImportProfileDialog
+        open={profileDialogOpen}
+        columnMapping={columnMapping}
+        onClose={() => setProfileDialogOpen(false)}
+        onSaved={profile => {
+          setProfiles(prev => [...prev, profile]);
+          setProfileId(profile.id);
+          setProfileDialogOpen(false);
+        }}
+      />
+
+      {uploadResult && (
+        <Alert severity={uploadResult.summary.duplicatesFlagged > 0 ? 'warning' : 'info'} sx={{ width: '100%', maxWidth: 800 }}>
+          Imported {uploadResult.files.length} file(s): {uploadResult.summary.added} new transaction(s),{' '}
+          {uploadResult.summary.duplicatesSkipped} duplicate(s) skipped,{' '}
+          {uploadResult.summary.duplicatesFlagged} duplicate(s) flagged for review.
+          {uploadResult.summary.storeNamesMapped > 0 &&
+            ` ${uploadResult.summary.storeNamesMapped} store name(s) renamed from your saved mappings.`}
+        </Alert>
+      )}
+
+      {(uploadResult || reports.length > 0) && (
+        <>
+          {reports.map(file => (
+            <ValidationReport
+              key={file.fileName}
+              report={file.validation}
+              title={`Validation Report: ${file.fileName}`}
+            />
+          ))}
+          {!error && (
+            <Button variant="contained" onClick={() => navigate('/refine-data')}>
+              Continue with Imported Rows
+            </Button>
+          )}
+        </>
+      )}
     </Box>
   );
 };
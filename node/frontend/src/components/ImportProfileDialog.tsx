@@ -0,0 +1,163 @@
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField
+} from '@mui/material';
+import { useState } from 'react';
+import { createImportProfile } from '../services/api';
+import type { AmountSign, ColumnMapping, CreditHandling, ImportProfile } from '../types';
+
+interface Props {
+  open: boolean;
+  columnMapping: ColumnMapping;
+  onClose: () => void;
+  onSaved: (profile: ImportProfile) => void;
+}
+
+/**
+ * Parses "Alice: 50, Bob: 50" into a percentage split
+ */
+const parseSplit = (value: string): { [person: string]: number } | undefined => {
+  const entries = value
+    .split(',')
+    .map(part => part.split(':').map(piece => piece.trim()))
+    .filter(([person, percentage]) => person && percentage);
+  if (entries.length === 0) return undefined;
+  return Object.fromEntries(entries.map(([person, percentage]) => [person, Number(percentage)]));
+};
+
+/**
+ * Dialog for saving the current column mapping as a reusable import profile
+ * Captures date format, sign convention and default split for statements without share columns
+ */
+export const ImportProfileDialog = ({ open, columnMapping, onClose, onSaved }: Props) => {
+  const [name, setName] = useState('');
+  const [dateFormat, setDateFormat] = useState('yyyy-MM-dd');
+  const [amountSign, setAmountSign] = useState<AmountSign>('positive-debit');
+  const [creditHandling, setCreditHandling] = useState<CreditHandling>('skip');
+  const [unmappedColumns, setUnmappedColumns] = useState<'person' | 'ignore'>('ignore');
+  const [defaultCurrency, setDefaultCurrency] = useState('');
+  const [defaultOwner, setDefaultOwner] = useState('');
+  const [defaultSplit, setDefaultSplit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const profile = await createImportProfile({
+        name,
+        columnMapping,
+        unmappedColumns,
+        dateFormat,
+        amountSign,
+        creditHandling,
+        defaultCurrency: defaultCurrency || undefined,
+        defaultOwner: defaultOwner || undefined,
+        defaultSplit: parseSplit(defaultSplit)
+      });
+      onSaved(profile);
+    } catch (err) {
+      setError('Error saving import profile. Check the fields and try again.');
+      console.error('Error saving import profile:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Save Import Profile</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            label="Profile name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            required
+            autoFocus
+          />
+          <TextField
+            label="Date format"
+            value={dateFormat}
+            onChange={e => setDateFormat(e.target.value)}
+            helperText="date-fns pattern, e.g. MM/dd/yyyy"
+          />
+          <FormControl fullWidth>
+            <InputLabel>Amount sign</InputLabel>
+            <Select
+              label="Amount sign"
+              value={amountSign}
+              onChange={e => setAmountSign(e.target.value as AmountSign)}
+            >
+              <MenuItem value="positive-debit">Purchases are positive</MenuItem>
+              <MenuItem value="negative-debit">Purchases are negative</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl fullWidth>
+            <InputLabel>Credits</InputLabel>
+            <Select
+              label="Credits"
+              value={creditHandling}
+              onChange={e => setCreditHandling(e.target.value as CreditHandling)}
+            >
+              <MenuItem value="skip">Skip credits</MenuItem>
+              <MenuItem value="refund">Import as refunds</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl fullWidth>
+            <InputLabel>Other columns</InputLabel>
+            <Select
+              label="Other columns"
+              value={unmappedColumns}
+              onChange={e => setUnmappedColumns(e.target.value as 'person' | 'ignore')}
+            >
+              <MenuItem value="ignore">Ignore</MenuItem>
+              <MenuItem value="person">Treat as people</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            label="Default currency"
+            value={defaultCurrency}
+            onChange={e => setDefaultCurrency(e.target.value)}
+            helperText="Used when the file has no currency column"
+          />
+          <TextField
+            label="Default owner"
+            value={defaultOwner}
+            onChange={e => setDefaultOwner(e.target.value)}
+            helperText="Person who paid, used when the file has no share columns"
+          />
+          <TextField
+            label="Default split"
+            value={defaultSplit}
+            onChange={e => setDefaultSplit(e.target.value)}
+            helperText="Percentages per person, e.g. Alice: 50, Bob: 50"
+            disabled={!defaultOwner}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!name.trim() || isSaving}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
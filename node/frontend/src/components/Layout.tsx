@@ -16,6 +16,9 @@ import {
   Analytics as AnalyticsIcon
 } from '@mui/icons-material';
 import { Outlet, useNavigate, useLocation } from 'react-router-dom';
+import { useState } from 'react';
+import { DatasetSwitcher } from './DatasetSwitcher';
+import { ReportingCurrencyProvider } from './common/ReportingCurrency';
 
 /**
  * Main layout component that wraps all pages
@@ -26,6 +29,8 @@ export const Layout = () => {
   const location = useLocation();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  // Bumped when the selected dataset changes so the current page and reporting currency remount and reload
+  const [datasetVersion, setDatasetVersion] = useState(0);
 
   // Define navigation items
   const navigationItems = [
@@ -94,6 +99,8 @@ export const Layout = () => {
               ))}
             </Tabs>
           )}
+
+          <DatasetSwitcher onDatasetChange={() => setDatasetVersion(version => version + 1)} />
         </Toolbar>
 
         {/* Mobile Navigation */}
@@ -132,7 +139,9 @@ export const Layout = () => {
       </AppBar>
       
       <Container maxWidth="xl" sx={{ mt: 2, mb: 4, flex: 1 }}>
-        <Outlet />
+        <ReportingCurrencyProvider key={datasetVersion}>
+          <Outlet />
+        </ReportingCurrencyProvider>
       </Container>
     </Box>
   );
@@ -0,0 +1,225 @@
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Checkbox,
+  Chip,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Check as CheckIcon,
+  Close as CloseIcon,
+  Edit as EditIcon
+} from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import { getPeople, getPersonSuggestions, mergePeople, removePersonAlias, renamePerson } from '../services/api';
+import type { ApiErrorResponse, Person, PersonMergeSuggestion } from '../types';
+
+const suggestionKey = (suggestion: PersonMergeSuggestion) =>
+  [suggestion.canonicalName, ...suggestion.aliases].join('\u0000');
+
+/**
+ * Refine Data section for people, who are named after the columns of the imported files
+ * Merging and renaming people changes the names used by every chart and analysis of the dataset;
+ * the names from the files are kept as aliases so they can be split off again
+ */
+export const PeopleSection = () => {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [suggestions, setSuggestions] = useState<PersonMergeSuggestion[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergedName, setMergedName] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ name: string; newName: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSuggestions = async () => {
+    try {
+      setSuggestions(await getPersonSuggestions());
+    } catch (err) {
+      console.error('Error loading person suggestions:', err);
+    }
+  };
+
+  useEffect(() => {
+    getPeople()
+      .then(setPeople)
+      .catch(err => console.error('Error loading people:', err));
+    loadSuggestions();
+  }, []);
+
+  /**
+   * Runs a change to the people and shows the result, reporting failures with the server's message
+   */
+  const runEdit = async (edit: () => Promise<Person[]>, action: string) => {
+    try {
+      setError(null);
+      setPeople(await edit());
+      setSelected([]);
+      setMergedName(null);
+      setEditing(null);
+      await loadSuggestions();
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.error || `Failed to ${action}. Please try again.`);
+      console.error(`Error trying to ${action}:`, err);
+    }
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(existing => existing !== name) : [...prev, name]);
+  };
+
+  const visibleSuggestions = suggestions.filter(suggestion => !dismissed.has(suggestionKey(suggestion)));
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom>
+        People ({people.length})
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Merge people that were exported under different names and choose the name shown in all analytics.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {visibleSuggestions.length > 0 && (
+        <Stack spacing={2} sx={{ mb: 3 }}>
+          {visibleSuggestions.map(suggestion => (
+            <Card key={suggestionKey(suggestion)} variant="outlined">
+              <CardContent>
+                <Typography variant="subtitle1">
+                  {suggestion.aliases.join(', ')} → {suggestion.canonicalName}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {suggestion.explanation} ({Math.round(suggestion.confidence * 100)}% confidence)
+                </Typography>
+              </CardContent>
+              <CardActions>
+                <Button
+                  size="small"
+                  variant="contained"
+                  onClick={() => runEdit(
+                    () => mergePeople([suggestion.canonicalName, ...suggestion.aliases], suggestion.canonicalName),
+                    'merge the people'
+                  )}
+                >
+                  Merge
+                </Button>
+                <Button
+                  size="small"
+                  onClick={() => setDismissed(prev => new Set(prev).add(suggestionKey(suggestion)))}
+                >
+                  Dismiss
+                </Button>
+              </CardActions>
+            </Card>
+          ))}
+        </Stack>
+      )}
+
+      {selected.length >= 2 && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Autocomplete
+            freeSolo
+            size="small"
+            options={selected}
+            value={mergedName}
+            onChange={(_, value) => setMergedName(value)}
+            onInputChange={(_, value) => setMergedName(value || null)}
+            renderInput={params => <TextField {...params} label="Name after merging" />}
+            sx={{ minWidth: 260 }}
+          />
+          <Button
+            variant="contained"
+            onClick={() => runEdit(() => mergePeople(selected, mergedName ?? undefined), 'merge the people')}
+          >
+            Merge {selected.length} People
+          </Button>
+          <Button onClick={() => setSelected([])}>Clear Selection</Button>
+        </Box>
+      )}
+
+      {people.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell>Name</TableCell>
+              <TableCell>Also imported as</TableCell>
+              <TableCell align="right">Transactions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {people.map(person => (
+              <TableRow key={person.name} selected={selected.includes(person.name)}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={selected.includes(person.name)}
+                    onChange={() => toggleSelected(person.name)}
+                  />
+                </TableCell>
+                <TableCell>
+                  {editing?.name === person.name ? (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <TextField
+                        size="small"
+                        value={editing.newName}
+                        onChange={e => setEditing({ ...editing, newName: e.target.value })}
+                        autoFocus
+                      />
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        disabled={!editing.newName.trim()}
+                        onClick={() => runEdit(() => renamePerson(person.name, editing.newName), 'rename the person')}
+                      >
+                        <CheckIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => setEditing(null)}>
+                        <CloseIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  ) : (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {person.name}
+                      <IconButton size="small" onClick={() => setEditing({ name: person.name, newName: person.name })}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {person.aliases.map(alias => (
+                      <Chip
+                        key={alias}
+                        size="small"
+                        label={alias}
+                        onDelete={() => runEdit(() => removePersonAlias(person.name, alias), 'remove the alias')}
+                      />
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell align="right">{person.transactionCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
@@ -3,7 +3,6 @@ import {
   Button,
   Card,
   CardContent,
-  Chip,
   IconButton,
   Menu,
   MenuItem,
@@ -27,12 +26,14 @@ import {
   MoreVert as MoreVertIcon
 } from '@mui/icons-material';
 import { useState } from 'react';
-import { StoreGrouping } from '../types';
+import type { StoreGrouping } from '../types';
+import { VariationChip } from './VariationChip';
 
 interface Props {
   group: StoreGrouping;
   allGroups: StoreGrouping[];
-  onUpdate: (oldName: string, newGroup: StoreGrouping) => void;
+  onRename: (canonicalName: string, newName: string) => void;
+  onRemoveVariation: (canonicalName: string, variation: string) => void;
   onDelete: (canonicalName: string) => void;
   onMerge: (group1: StoreGrouping, group2: StoreGrouping) => void;
   onSplit: (group: StoreGrouping, variationsToSplit: string[]) => void;
@@ -41,11 +42,13 @@ interface Props {
 /**
  * Component for editing a store name group
  * Allows editing the canonical name, managing variations, merging groups, and splitting variations
+ * Variations show how confidently they match the canonical name when the group has been scored
  */
 export const StoreGroupEditor = ({
   group,
   allGroups,
-  onUpdate,
+  onRename,
+  onRemoveVariation,
   onDelete,
   onMerge,
   onSplit
@@ -58,23 +61,15 @@ export const StoreGroupEditor = ({
   const [selectedGroup, setSelectedGroup] = useState<StoreGrouping | null>(null);
   const [selectedVariations, setSelectedVariations] = useState<string[]>([]);
 
+  const matchesByVariation = new Map(group.matches?.map(match => [match.variation, match]));
+
   const handleSave = () => {
-    if (editedName.trim() && editedName !== group.canonicalName) {
-      onUpdate(group.canonicalName, {
-        ...group,
-        canonicalName: editedName.trim()
-      });
+    if (editedName.trim() && editedName.trim() !== group.canonicalName) {
+      onRename(group.canonicalName, editedName.trim());
     }
     setIsEditing(false);
   };
 
-  const handleRemoveVariation = (variation: string) => {
-    onUpdate(group.canonicalName, {
-      ...group,
-      variations: group.variations.filter(v => v !== variation)
-    });
-  };
-
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     setMenuAnchor(event.currentTarget);
   };
@@ -156,10 +151,11 @@ export const StoreGroupEditor = ({
 
           <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
             {group.variations.map(variation => (
-              <Chip
+              <VariationChip
                 key={variation}
-                label={variation}
-                onDelete={() => handleRemoveVariation(variation)}
+                variation={variation}
+                match={matchesByVariation.get(variation)}
+                onDelete={() => onRemoveVariation(group.canonicalName, variation)}
               />
             ))}
           </Box>
@@ -232,7 +228,10 @@ export const StoreGroupEditor = ({
                   checked={selectedVariations.includes(variation)}
                   onChange={() => handleVariationToggle(variation)}
                 />
-                <ListItemText primary={variation} />
+                <ListItemText
+                  primary={variation}
+                  secondary={matchesByVariation.get(variation)?.explanation}
+                />
               </ListItem>
             ))}
           </List>
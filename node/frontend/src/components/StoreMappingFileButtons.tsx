@@ -0,0 +1,175 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Upload as UploadIcon
+} from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { type ChangeEvent, useState } from 'react';
+import { exportStoreMappings, importStoreMappings } from '../services/api';
+import type {
+  ApiErrorResponse,
+  StoreGroupsResponse,
+  StoreMappingConflictResolution,
+  StoreMappingFileFormat,
+  StoreMappingImportResponse
+} from '../types';
+
+interface Props {
+  /** Called with the updated store groups after mappings were imported */
+  onImported: (state: StoreGroupsResponse) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Buttons for exporting the dataset's store mappings and importing a shared mapping file
+ * An import is tried out first; names the file maps differently from the dataset are listed
+ * so the user can choose which mapping to keep
+ */
+export const StoreMappingFileButtons = ({ onImported, onError }: Props) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<StoreMappingImportResponse | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = async (format: StoreMappingFileFormat) => {
+    try {
+      const blob = await exportStoreMappings(format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `store-mappings.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      onError('Error exporting store mappings. Please try again.');
+      console.error('Error exporting store mappings:', err);
+    }
+  };
+
+  const handleImport = async (selected: File, conflicts: StoreMappingConflictResolution, dryRun: boolean) => {
+    try {
+      setIsImporting(true);
+      return await importStoreMappings(selected, conflicts, dryRun);
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      onError(data?.details
+        ? `Invalid mapping file: ${data.details.join('; ')}`
+        : data?.error || 'Error importing store mappings. Please try again.');
+      console.error('Error importing store mappings:', err);
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFileSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    // Allow choosing the same file again after fixing it
+    event.target.value = '';
+    if (!selected) return;
+
+    const result = await handleImport(selected, 'skip', true);
+    if (!result) return;
+
+    if (result.conflicts.length === 0 && result.namesImported > 0) {
+      const imported = await handleImport(selected, 'skip', false);
+      if (imported) onImported(imported);
+    } else {
+      setFile(selected);
+      setPreview(result);
+    }
+  };
+
+  const handleResolve = async (conflicts: StoreMappingConflictResolution) => {
+    if (!file) return;
+    const imported = await handleImport(file, conflicts, false);
+    if (imported) onImported(imported);
+    handleClose();
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const conflictCount = preview?.conflicts.length ?? 0;
+
+  return (
+    <>
+      <Button startIcon={<DownloadIcon />} onClick={() => handleExport('csv')}>
+        Export CSV
+      </Button>
+      <Button startIcon={<DownloadIcon />} onClick={() => handleExport('json')}>
+        Export JSON
+      </Button>
+      <Button startIcon={<UploadIcon />} component="label" disabled={isImporting}>
+        Import
+        <input type="file" accept=".csv,.json" hidden onChange={handleFileSelect} />
+      </Button>
+
+      <Dialog open={preview !== null} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>Import {file?.name}</DialogTitle>
+        <DialogContent>
+          {conflictCount === 0 ? (
+            <DialogContentText>
+              Every mapping in the file is already part of this dataset's store groups.
+            </DialogContentText>
+          ) : (
+            <>
+              <DialogContentText sx={{ mb: 2 }}>
+                {conflictCount} name(s) in the file are already grouped under a different store.
+                {preview!.namesImported > conflictCount
+                  ? ` The other ${preview!.namesImported - conflictCount} name(s) will be imported either way.`
+                  : ''}
+              </DialogContentText>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Current store</TableCell>
+                    <TableCell>Store in file</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview!.conflicts.map(conflict => (
+                    <TableRow key={conflict.name}>
+                      <TableCell>{conflict.name}</TableCell>
+                      <TableCell>{conflict.currentCanonicalName}</TableCell>
+                      <TableCell>{conflict.importedCanonicalName}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose} disabled={isImporting}>
+            {conflictCount === 0 ? 'Close' : 'Cancel'}
+          </Button>
+          {conflictCount > 0 && (
+            <>
+              <Button onClick={() => handleResolve('skip')} disabled={isImporting}>
+                Keep Current
+              </Button>
+              <Button variant="contained" onClick={() => handleResolve('overwrite')} disabled={isImporting}>
+                Use File
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,221 @@
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Edit as EditIcon
+} from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import { deleteStoreMetadata, getMetadata, getStoreMetadata, saveStoreMetadata } from '../services/api';
+import type { ApiErrorResponse, StoreGrouping, StoreMetadata, StoreMetadataInput, StoreType } from '../types';
+
+interface Props {
+  /** Current store groups; the list of stores is reloaded when they change */
+  groups: StoreGrouping[];
+}
+
+const STORE_TYPE_LABELS: Record<StoreType, string> = {
+  supermarket: 'Supermarket',
+  restaurant: 'Restaurant',
+  cafe: 'Cafe',
+  online: 'Online',
+  pharmacy: 'Pharmacy',
+  household: 'Household',
+  clothing: 'Clothing',
+  entertainment: 'Entertainment',
+  travel: 'Travel',
+  other: 'Other'
+};
+
+const EMPTY_DETAILS: StoreMetadataInput = { tags: [] };
+
+/**
+ * Refine Data section for the chain, type, neighborhood and tags of canonical stores
+ * Details are shared by all datasets and let the dashboard group and filter spending by them
+ */
+export const StoreMetadataSection = ({ groups }: Props) => {
+  const [stores, setStores] = useState<string[]>([]);
+  const [metadata, setMetadata] = useState<StoreMetadata[]>([]);
+  const [storeName, setStoreName] = useState<string | null>(null);
+  const [details, setDetails] = useState<StoreMetadataInput>(EMPTY_DETAILS);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMetadata = async () => {
+    try {
+      setMetadata(await getStoreMetadata());
+    } catch (err) {
+      console.error('Error loading store details:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadMetadata();
+  }, []);
+
+  useEffect(() => {
+    getMetadata()
+      .then(datasetMetadata => setStores(datasetMetadata.stores))
+      .catch(err => console.error('Error loading stores:', err));
+  }, [groups]);
+
+  const existingTags = [...new Set(metadata.flatMap(entry => entry.tags))].sort();
+  // Details saved from other datasets can be edited too
+  const storeOptions = [...new Set([...stores, ...metadata.map(entry => entry.storeName)])].sort();
+
+  const selectStore = (name: string | null) => {
+    setStoreName(name);
+    const saved = metadata.find(entry => entry.storeName === name);
+    setDetails(saved
+      ? { chain: saved.chain, storeType: saved.storeType, neighborhood: saved.neighborhood, tags: saved.tags }
+      : EMPTY_DETAILS);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!storeName) return;
+    try {
+      setError(null);
+      await saveStoreMetadata(storeName, details);
+      selectStore(null);
+      await loadMetadata();
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details ? data.details.join('; ') : 'Error saving store details. Please try again.');
+      console.error('Error saving store details:', err);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      setError(null);
+      await deleteStoreMetadata(name);
+      if (name === storeName) selectStore(null);
+      await loadMetadata();
+    } catch (err) {
+      setError('Error deleting store details. Please try again.');
+      console.error('Error deleting store details:', err);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom>
+        Store Details ({metadata.length})
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Describe stores by chain, type, neighborhood and tags to group and filter spending by them on the dashboard.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Autocomplete
+          size="small"
+          options={storeOptions}
+          value={storeName}
+          onChange={(_, value) => selectStore(value)}
+          renderInput={params => <TextField {...params} label="Store" />}
+          sx={{ minWidth: 220 }}
+        />
+        <TextField
+          size="small"
+          label="Chain"
+          value={details.chain ?? ''}
+          onChange={e => setDetails(prev => ({ ...prev, chain: e.target.value }))}
+          disabled={!storeName}
+        />
+        <FormControl size="small" sx={{ minWidth: 160 }} disabled={!storeName}>
+          <InputLabel>Type</InputLabel>
+          <Select
+            label="Type"
+            value={details.storeType ?? ''}
+            onChange={e => setDetails(prev => ({ ...prev, storeType: (e.target.value || undefined) as StoreType | undefined }))}
+          >
+            <MenuItem value="">
+              <em>None</em>
+            </MenuItem>
+            {Object.entries(STORE_TYPE_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>{label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Neighborhood"
+          value={details.neighborhood ?? ''}
+          onChange={e => setDetails(prev => ({ ...prev, neighborhood: e.target.value }))}
+          disabled={!storeName}
+        />
+        <Autocomplete
+          multiple
+          freeSolo
+          size="small"
+          options={existingTags}
+          value={details.tags}
+          onChange={(_, value) => setDetails(prev => ({ ...prev, tags: value }))}
+          renderInput={params => <TextField {...params} label="Tags" placeholder="Type and press Enter" />}
+          disabled={!storeName}
+          sx={{ minWidth: 260 }}
+        />
+        <Button variant="contained" onClick={handleSave} disabled={!storeName}>
+          Save Details
+        </Button>
+      </Box>
+
+      {metadata.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Store</TableCell>
+              <TableCell>Chain</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Neighborhood</TableCell>
+              <TableCell>Tags</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {metadata.map(entry => (
+              <TableRow key={entry.storeName} selected={entry.storeName === storeName}>
+                <TableCell>{entry.storeName}</TableCell>
+                <TableCell>{entry.chain ?? '-'}</TableCell>
+                <TableCell>{entry.storeType ? STORE_TYPE_LABELS[entry.storeType] : '-'}</TableCell>
+                <TableCell>{entry.neighborhood ?? '-'}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {entry.tags.map(tag => <Chip key={tag} size="small" label={tag} />)}
+                  </Box>
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <IconButton size="small" onClick={() => selectStore(entry.storeName)}>
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(entry.storeName)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
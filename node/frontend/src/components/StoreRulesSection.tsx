@@ -0,0 +1,318 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  ArrowDownward as ArrowDownIcon,
+  ArrowUpward as ArrowUpIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon
+} from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import {
+  applyStoreRules,
+  createStoreRule,
+  deleteStoreRule,
+  getStoreRules,
+  reorderStoreRules,
+  testStoreRules,
+  updateStoreRule
+} from '../services/api';
+import type {
+  ApiErrorResponse,
+  StoreGroupsResponse,
+  StoreRule,
+  StoreRuleInput,
+  StoreRuleMatchType,
+  StoreRuleTestResult
+} from '../types';
+
+interface Props {
+  /** Called with the updated store groups after the rules were applied to the dataset */
+  onApplied: (state: StoreGroupsResponse) => void;
+}
+
+const EMPTY_RULE: StoreRuleInput = {
+  matchType: 'contains',
+  pattern: '',
+  canonicalName: '',
+  caseSensitive: false,
+  enabled: true
+};
+
+const MATCH_TYPE_LABELS: Record<StoreRuleMatchType, string> = {
+  contains: 'Contains',
+  prefix: 'Starts with',
+  regex: 'Regular expression'
+};
+
+/** Number of matched descriptions listed by the rule tester */
+const TEST_MATCHES_SHOWN = 20;
+
+/**
+ * Refine Data section for ordered store rules, e.g. "COSTCO WHSE #1234 SUNNYVALE" → Costco
+ * Rules can be tried out before saving and are applied before fuzzy suggestions
+ */
+export const StoreRulesSection = ({ onApplied }: Props) => {
+  const [rules, setRules] = useState<StoreRule[]>([]);
+  const [results, setResults] = useState<StoreRuleTestResult[]>([]);
+  const [form, setForm] = useState<StoreRuleInput>(EMPTY_RULE);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<StoreRuleTestResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = async () => {
+    try {
+      const [savedRules, savedResults] = await Promise.all([getStoreRules(), testStoreRules()]);
+      setRules(savedRules);
+      setResults(savedResults);
+    } catch (err) {
+      console.error('Error loading store rules:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  /**
+   * Runs a rule change, showing the server's validation problems when it is rejected
+   */
+  const run = async (action: () => Promise<unknown>, description: string) => {
+    try {
+      setError(null);
+      setMessage(null);
+      await action();
+      return true;
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details ? data.details.join('; ') : `Error trying to ${description}. Please try again.`);
+      console.error(`Error trying to ${description}:`, err);
+      return false;
+    }
+  };
+
+  const updateForm = (changes: Partial<StoreRuleInput>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_RULE);
+    setEditingId(null);
+    setTestResult(null);
+  };
+
+  const handleTest = () => run(async () => {
+    const [result] = await testStoreRules(form);
+    setTestResult(result);
+  }, 'test the rule');
+
+  const handleSave = async () => {
+    const saved = await run(
+      () => editingId ? updateStoreRule(editingId, form) : createStoreRule(form),
+      'save the rule'
+    );
+    if (saved) {
+      resetForm();
+      await loadRules();
+    }
+  };
+
+  const handleEdit = (rule: StoreRule) => {
+    const { id, ...input } = rule;
+    setForm(input);
+    setEditingId(id);
+    setTestResult(null);
+  };
+
+  const handleToggle = async (rule: StoreRule) => {
+    const { id, ...input } = rule;
+    if (await run(() => updateStoreRule(id, { ...input, enabled: !rule.enabled }), 'update the rule')) {
+      await loadRules();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (await run(() => deleteStoreRule(id), 'delete the rule')) {
+      if (editingId === id) resetForm();
+      await loadRules();
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = rules.map(rule => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    if (await run(() => reorderStoreRules(ids), 'reorder the rules')) {
+      await loadRules();
+    }
+  };
+
+  const handleApply = () => run(async () => {
+    const { namesMapped, ...state } = await applyStoreRules();
+    onApplied(state);
+    setMessage(namesMapped > 0
+      ? `Grouped ${namesMapped} store name(s) using the rules.`
+      : 'No ungrouped store names match the rules.');
+  }, 'apply the rules');
+
+  const resultFor = (ruleId: string) => results.find(result => result.ruleId === ruleId);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h5" sx={{ flex: 1 }}>
+          Store Rules ({rules.length})
+        </Typography>
+        <Button variant="outlined" onClick={handleApply} disabled={rules.length === 0}>
+          Apply Rules to Dataset
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Map descriptions such as "COSTCO WHSE #1234 SUNNYVALE" to one store. Rules run in order
+        before fuzzy suggestions and the first matching rule wins; names you grouped by hand keep their group.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {message && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>{message}</Alert>}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel>Match</InputLabel>
+          <Select
+            label="Match"
+            value={form.matchType}
+            onChange={e => updateForm({ matchType: e.target.value as StoreRuleMatchType })}
+          >
+            {Object.entries(MATCH_TYPE_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>{label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Pattern"
+          placeholder={form.matchType === 'regex' ? '^COSTCO WHSE' : 'COSTCO'}
+          value={form.pattern}
+          onChange={e => updateForm({ pattern: e.target.value })}
+        />
+        <TextField
+          size="small"
+          label="Store"
+          placeholder="Costco"
+          value={form.canonicalName}
+          onChange={e => updateForm({ canonicalName: e.target.value })}
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={form.caseSensitive}
+              onChange={e => updateForm({ caseSensitive: e.target.checked })}
+            />
+          }
+          label="Case sensitive"
+        />
+        <Button onClick={handleTest} disabled={!form.pattern.trim()}>
+          Test
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!form.pattern.trim() || !form.canonicalName.trim()}
+        >
+          {editingId ? 'Update Rule' : 'Add Rule'}
+        </Button>
+        {editingId && <Button color="inherit" onClick={resetForm}>Cancel</Button>}
+      </Box>
+
+      {testResult && (
+        <Alert severity={testResult.matches.length > 0 ? 'info' : 'warning'} sx={{ mb: 2 }}>
+          Matches {testResult.matches.length} description(s) in {testResult.transactionCount} transaction(s)
+          {testResult.matches.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+              {testResult.matches.slice(0, TEST_MATCHES_SHOWN).map(match => (
+                <Tooltip key={match.description} title={`Currently shown as ${match.currentStore}`}>
+                  <Chip size="small" label={`${match.description} (${match.transactionCount})`} />
+                </Tooltip>
+              ))}
+              {testResult.matches.length > TEST_MATCHES_SHOWN && (
+                <Chip size="small" label={`+${testResult.matches.length - TEST_MATCHES_SHOWN} more`} />
+              )}
+            </Box>
+          )}
+        </Alert>
+      )}
+
+      {rules.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>#</TableCell>
+              <TableCell>Match</TableCell>
+              <TableCell>Pattern</TableCell>
+              <TableCell>Store</TableCell>
+              <TableCell align="right">Matches</TableCell>
+              <TableCell>Enabled</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rules.map((rule, index) => {
+              const result = resultFor(rule.id);
+              return (
+                <TableRow key={rule.id} selected={rule.id === editingId}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>{MATCH_TYPE_LABELS[rule.matchType]}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{rule.pattern}</TableCell>
+                  <TableCell>{rule.canonicalName}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={result?.matches.map(match => match.description).join(', ') || 'No matches'}>
+                      <span>{result ? `${result.matches.length} (${result.transactionCount} txns)` : '-'}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <Switch size="small" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton size="small" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                      <ArrowUpIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleMove(index, 1)} disabled={index === rules.length - 1}>
+                      <ArrowDownIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleEdit(rule)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(rule.id)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,158 @@
+import {
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import type { ColumnMapping, ColumnRole, UploadPreview as UploadPreviewData } from '../types';
+import { formatAmount } from './common/ReportingCurrency';
+
+interface Props {
+  preview: UploadPreviewData;
+  columnMapping: ColumnMapping;
+  isBusy: boolean;
+  onRoleChange: (column: string, role: ColumnRole) => void;
+  onRefresh: () => void;
+  onSaveProfile: () => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const COLUMN_ROLES: { value: ColumnRole; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'description', label: 'Description' },
+  { value: 'category', label: 'Category' },
+  { value: 'cost', label: 'Cost' },
+  { value: 'debit', label: 'Debit' },
+  { value: 'credit', label: 'Credit' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'person', label: 'Person' },
+  { value: 'ignore', label: 'Ignore' }
+];
+
+/**
+ * Dry-run view of an uploaded CSV
+ * Shows the detected columns with editable roles and the transactions they produce
+ */
+export const UploadPreview = ({
+  preview,
+  columnMapping,
+  isBusy,
+  onRoleChange,
+  onRefresh,
+  onSaveProfile,
+  onConfirm,
+  onCancel
+}: Props) => {
+  return (
+    <Paper sx={{ p: 2, width: '100%', maxWidth: 1000 }}>
+      <Typography variant="h6" gutterBottom>
+        Column Mapping
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Check how each column will be imported. Columns marked as Person become individual shares.
+      </Typography>
+
+      <TableContainer sx={{ mb: 3 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Column</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>Detected Type</TableCell>
+              <TableCell>Sample Values</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {preview.columns.map(column => (
+              <TableRow key={column.name}>
+                <TableCell>{column.name || <em>(blank)</em>}</TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={columnMapping[column.name] || column.role}
+                    onChange={e => onRoleChange(column.name, e.target.value as ColumnRole)}
+                  >
+                    {COLUMN_ROLES.map(role => (
+                      <MenuItem key={role.value} value={role.value}>
+                        {role.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Chip size="small" label={column.inferredType} />
+                </TableCell>
+                <TableCell>{column.sampleValues.join(', ')}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="h6" gutterBottom>
+        Sample Transactions
+      </Typography>
+      <TableContainer sx={{ mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Description</TableCell>
+              <TableCell>Category</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell>Shares</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {preview.sampleTransactions.map((transaction, index) => (
+              <TableRow key={index}>
+                <TableCell>{transaction.date}</TableCell>
+                <TableCell>{transaction.description}</TableCell>
+                <TableCell>{transaction.category}</TableCell>
+                <TableCell align="right">
+                  {formatAmount(transaction.cost)} {transaction.currency}
+                </TableCell>
+                <TableCell>
+                  {transaction.shares
+                    .map(share => `${share.name}: ${formatAmount(share.amount)}`)
+                    .join(', ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {preview.validation.issues.length > 0 && (
+        <Typography variant="body2" color="warning.main" gutterBottom>
+          {preview.validation.errorCount} error(s) and {preview.validation.warningCount} warning(s) in the sampled rows.
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button onClick={onCancel} disabled={isBusy}>
+          Cancel
+        </Button>
+        <Button onClick={onRefresh} disabled={isBusy}>
+          Refresh Preview
+        </Button>
+        <Button onClick={onSaveProfile} disabled={isBusy}>
+          Save as Profile
+        </Button>
+        <Button variant="contained" onClick={onConfirm} disabled={isBusy}>
+          {isBusy ? 'Working...' : 'Import'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
@@ -0,0 +1,73 @@
+import {
+  Alert,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import type { ValidationReport as ValidationReportData } from '../types';
+
+interface Props {
+  report: ValidationReportData;
+  title?: string;
+}
+
+/**
+ * Table listing the row-level problems found in an uploaded CSV
+ */
+export const ValidationReport = ({ report, title = 'Validation Report' }: Props) => {
+  return (
+    <Paper sx={{ p: 2, width: '100%', maxWidth: 800 }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+
+      {report.issues.length === 0 ? (
+        <Alert severity="success">
+          All {report.rowsChecked} rows passed validation.
+        </Alert>
+      ) : (
+        <Alert severity={report.errorCount > 0 ? 'error' : 'warning'} sx={{ mb: 2 }}>
+          Checked {report.rowsChecked} rows: {report.errorCount} error(s), {report.warningCount} warning(s).
+          {report.rowsRejected > 0 && ` ${report.rowsRejected} row(s) were not imported.`}
+        </Alert>
+      )}
+
+      {report.issues.length > 0 && (
+        <TableContainer sx={{ maxHeight: 400 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Row</TableCell>
+                <TableCell>Field</TableCell>
+                <TableCell>Problem</TableCell>
+                <TableCell>Severity</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.issues.map((issue, index) => (
+                <TableRow key={`${issue.rowNumber}-${issue.field}-${index}`}>
+                  <TableCell>{issue.rowNumber}</TableCell>
+                  <TableCell>{issue.field}</TableCell>
+                  <TableCell>{issue.problem}</TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={issue.severity}
+                      color={issue.severity === 'error' ? 'error' : 'warning'}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,32 @@
+import { Chip, type ChipProps, Tooltip } from '@mui/material';
+import type { VariationMatch } from '../types';
+
+interface Props {
+  variation: string;
+  /** Similarity to the group's canonical name, when known */
+  match?: VariationMatch;
+  onDelete?: ChipProps['onDelete'];
+}
+
+/**
+ * Chip for a store name variation
+ * Shows the match confidence, with the explanation in a tooltip
+ */
+export const VariationChip = ({ variation, match, onDelete }: Props) => {
+  if (!match) {
+    return <Chip label={variation} onDelete={onDelete} />;
+  }
+
+  const color = match.confidence >= 0.9 ? 'success' : match.confidence >= 0.75 ? 'primary' : 'warning';
+
+  return (
+    <Tooltip title={match.explanation}>
+      <Chip
+        label={`${variation} · ${Math.round(match.confidence * 100)}%`}
+        color={color}
+        variant="outlined"
+        onDelete={onDelete}
+      />
+    </Tooltip>
+  );
+};
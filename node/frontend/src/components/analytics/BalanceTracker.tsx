@@ -13,9 +13,14 @@ import {
   Alert,
   Button,
   Skeleton,
-  Chip
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
 } from '@mui/material';
-import { Grid, GridProps } from '@mui/material';
+import { Grid, type GridProps } from '@mui/material';
 import {
   LineChart,
   Line,
@@ -28,8 +33,9 @@ import {
   ResponsiveContainer,
   Legend
 } from 'recharts';
-import { BalanceAnalytics } from '../../types/analytics';
+import type { BalanceAnalytics } from '../../types/analytics';
 import { getBalanceAnalytics } from '../../services/api';
+import { useCurrencyFormatter } from '../common/ReportingCurrency';
 
 // Color palette for consistent theming across charts
 const CHART_COLORS = {
@@ -74,15 +80,7 @@ export const BalanceTracker: React.FC = () => {
     fetchData();
   }, []);
 
-  /**
-   * Formats currency values for display
-   */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  const formatCurrency = useCurrencyFormatter();
 
   /**
    * Determines the color for balance display based on amount
@@ -352,6 +350,39 @@ export const BalanceTracker: React.FC = () => {
         </Grid>
       )}
 
+      {/* Settlement History */}
+      {data.settlementHistory.length > 0 && (
+        <Grid container spacing={3} sx={{ mt: 2 }}>
+          <Grid item xs={12}>
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="h6" gutterBottom>
+                Settlement History
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>From</TableCell>
+                    <TableCell>To</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {data.settlementHistory.map((settlement, index) => (
+                    <TableRow key={`${settlement.date}-${settlement.from}-${settlement.to}-${index}`}>
+                      <TableCell>{settlement.date}</TableCell>
+                      <TableCell>{settlement.from}</TableCell>
+                      <TableCell>{settlement.to}</TableCell>
+                      <TableCell align="right">{formatCurrency(settlement.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+
       {/* Largest Imbalance Period Info */}
       {data.largestImbalancePeriod.maxImbalance > 0 && (
         <Grid container spacing={3} sx={{ mt: 2 }}>
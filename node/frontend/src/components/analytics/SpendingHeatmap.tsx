@@ -21,11 +21,12 @@ import {
   Card,
   CardContent,
   Chip,
-  SelectChangeEvent
+  type SelectChangeEvent
 } from '@mui/material';
 import { format, startOfYear, endOfYear, eachDayOfInterval, getDay } from 'date-fns';
-import { SpendingHeatmap as SpendingHeatmapData } from '../../types/analytics';
+import type { SpendingHeatmap as SpendingHeatmapData } from '../../types/analytics';
 import { getSpendingHeatmap } from '../../services/api';
+import { useCurrencyFormatter } from '../common/ReportingCurrency';
 
 // Color intensity levels for heatmap visualization
 const HEATMAP_COLORS = {
@@ -137,15 +138,7 @@ export const SpendingHeatmap: React.FC = () => {
     return 6;
   };
 
-  /**
-   * Formats currency values for display
-   */
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  const formatCurrency = useCurrencyFormatter();
 
   /**
    * Creates calendar grid structure
@@ -1,7 +1,7 @@
 /**
  * Utility Grid component to work around TypeScript strict type checking
  */
-import { Grid, GridProps } from '@mui/material';
+import { Grid, type GridProps } from '@mui/material';
 import React from 'react';
 
 interface GridItemProps extends Omit<GridProps, 'item'> {
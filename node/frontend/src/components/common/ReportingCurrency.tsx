@@ -0,0 +1,71 @@
+/**
+ * Reporting currency shared by every page that shows money, and formatting for the API's amounts,
+ * which are integer minor units (cents)
+ */
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { getCurrencySettings } from '../../services/api';
+
+interface ReportingCurrencyContextValue {
+  reportingCurrency: string;
+  /** Reloads the reporting currency after it was changed */
+  refresh: () => void;
+}
+
+const ReportingCurrencyContext = createContext<ReportingCurrencyContextValue>({
+  reportingCurrency: 'USD',
+  refresh: () => {}
+});
+
+/**
+ * Formats an amount in minor units in the given currency, e.g. 123450 → "$1,234.50"
+ */
+export const formatCurrency = (cents: number, currency: string): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency
+  }).format(cents / 100);
+};
+
+/**
+ * Formats an amount in minor units as a plain decimal, e.g. -1250 → "-12.50"
+ */
+export const formatAmount = (cents: number): string => (cents / 100).toFixed(2);
+
+/**
+ * Reads a plain decimal typed by the user as minor units, e.g. "12.5" → 1250; null when it is not a number
+ */
+export const parseAmount = (value: string): number | null => {
+  const amount = Number(value.replace(/,/g, '').trim());
+  return value.trim() && Number.isFinite(amount) ? Math.round(Number((amount * 100).toPrecision(12))) : null;
+};
+
+/**
+ * Loads the reporting currency once per mount; the layout remounts it when the selected dataset changes
+ */
+export const ReportingCurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [reportingCurrency, setReportingCurrency] = useState('USD');
+
+  const refresh = useCallback(() => {
+    getCurrencySettings()
+      .then(settings => setReportingCurrency(settings.reportingCurrency))
+      .catch(err => console.error('Error loading reporting currency:', err));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  return (
+    <ReportingCurrencyContext.Provider value={{ reportingCurrency, refresh }}>
+      {children}
+    </ReportingCurrencyContext.Provider>
+  );
+};
+
+export const useReportingCurrency = () => useContext(ReportingCurrencyContext);
+
+/**
+ * Formatter for amounts in the reporting currency
+ */
+export const useCurrencyFormatter = () => {
+  const { reportingCurrency } = useReportingCurrency();
+  return useCallback((amount: number) => formatCurrency(amount, reportingCurrency), [reportingCurrency]);
+};
@@ -1,9 +1,16 @@
-import { Box, Paper, Typography } from '@mui/material';
+import { Box, Breadcrumbs, Link, Paper, Typography } from '@mui/material';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
-import { SpendingData } from '../../types';
+import type { SpendingData } from '../../types';
+import { useCurrencyFormatter } from '../common/ReportingCurrency';
 
 interface Props {
+  /** Spending per parent group, or per category of the selected parent */
   data: SpendingData[];
+  /** Parent group being drilled into; null shows all parent groups */
+  parent: string | null;
+  /** Parent groups that have categories to drill into */
+  drillableParents: string[];
+  onParentChange: (parent: string | null) => void;
 }
 
 const COLORS = [
@@ -18,14 +25,33 @@ const COLORS = [
 ];
 
 /**
- * Pie chart showing spending by category
+ * Pie chart showing spending by parent category group
+ * Clicking a group drills into the categories that roll up into it
  */
-export const CategoryPieChart = ({ data }: Props) => {
+export const CategoryPieChart = ({ data, parent, drillableParents, onParentChange }: Props) => {
+  const formatCurrency = useCurrencyFormatter();
+
+  const handleSliceClick = (entry: SpendingData) => {
+    if (parent === null && drillableParents.includes(entry.label)) {
+      onParentChange(entry.label);
+    }
+  };
+
   return (
     <Paper sx={{ p: 2 }}>
       <Typography variant="h6" gutterBottom>
         Spending by Category
       </Typography>
+      <Breadcrumbs sx={{ mb: 1 }}>
+        {parent === null ? (
+          <Typography variant="body2" color="text.primary">All categories</Typography>
+        ) : (
+          <Link component="button" variant="body2" onClick={() => onParentChange(null)}>
+            All categories
+          </Link>
+        )}
+        {parent !== null && <Typography variant="body2" color="text.primary">{parent}</Typography>}
+      </Breadcrumbs>
       <Box sx={{ width: '100%', height: 300 }}>
         <ResponsiveContainer>
           <PieChart>
@@ -37,15 +63,17 @@ export const CategoryPieChart = ({ data }: Props) => {
               cy="50%"
               outerRadius={100}
               label={entry => entry.label}
+              onClick={handleSliceClick}
             >
-              {data.map((_, index) => (
+              {data.map((entry, index) => (
                 <Cell
                   key={`cell-${index}`}
                   fill={COLORS[index % COLORS.length]}
+                  cursor={parent === null && drillableParents.includes(entry.label) ? 'pointer' : undefined}
                 />
               ))}
             </Pie>
-            <Tooltip />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
           </PieChart>
         </ResponsiveContainer>
       </Box>
@@ -10,10 +10,18 @@ import {
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
-import { AnalysisFilters, DatasetMetadata } from '../../types';
+import type { AnalysisFilters, DatasetMetadata, StoreAttributeFilters } from '../../types';
 import { useEffect, useState } from 'react';
 import { format, parseISO } from 'date-fns';
 
+/** Store detail filters, shown once some of the dataset's stores have that detail */
+const STORE_ATTRIBUTE_FILTERS: { key: keyof StoreAttributeFilters; label: string }[] = [
+  { key: 'chains', label: 'Chains' },
+  { key: 'storeTypes', label: 'Store Types' },
+  { key: 'neighborhoods', label: 'Neighborhoods' },
+  { key: 'storeTags', label: 'Store Tags' }
+];
+
 interface Props {
   metadata: DatasetMetadata;
   onFiltersChange: (filters: AnalysisFilters) => void;
@@ -21,7 +29,7 @@ interface Props {
 
 /**
  * Component for filtering dashboard data
- * Includes date range, people, categories, and stores filters
+ * Includes date range, people, categories, stores, transaction tags and store detail filters
  */
 export const Filters = ({ metadata, onFiltersChange }: Props) => {
   const [startDate, setStartDate] = useState<Date | null>(
@@ -33,6 +41,8 @@ export const Filters = ({ metadata, onFiltersChange }: Props) => {
   const [selectedPeople, setSelectedPeople] = useState<string[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedStores, setSelectedStores] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedAttributes, setSelectedAttributes] = useState<StoreAttributeFilters>({});
 
   useEffect(() => {
     onFiltersChange({
@@ -40,9 +50,11 @@ export const Filters = ({ metadata, onFiltersChange }: Props) => {
       endDate: endDate ? format(endDate, 'yyyy-MM-dd') : undefined,
       people: selectedPeople.length > 0 ? selectedPeople : undefined,
       categories: selectedCategories.length > 0 ? selectedCategories : undefined,
-      stores: selectedStores.length > 0 ? selectedStores : undefined
+      stores: selectedStores.length > 0 ? selectedStores : undefined,
+      tags: selectedTags.length > 0 ? selectedTags : undefined,
+      ...selectedAttributes
     });
-  }, [startDate, endDate, selectedPeople, selectedCategories, selectedStores]);
+  }, [startDate, endDate, selectedPeople, selectedCategories, selectedStores, selectedTags, selectedAttributes]);
 
   return (
     <LocalizationProvider dateAdapter={AdapterDateFns}>
@@ -110,6 +122,47 @@ export const Filters = ({ metadata, onFiltersChange }: Props) => {
               ))}
             </Select>
           </FormControl>
+
+          {metadata.tags.length > 0 && (
+            <FormControl fullWidth>
+              <InputLabel>Tags</InputLabel>
+              <Select
+                multiple
+                value={selectedTags}
+                onChange={e => setSelectedTags(e.target.value as string[])}
+                renderValue={selected => selected.join(', ')}
+              >
+                {metadata.tags.map(tag => (
+                  <MenuItem key={tag} value={tag}>
+                    {tag}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          {STORE_ATTRIBUTE_FILTERS
+            .filter(({ key }) => metadata.storeAttributes[key].length > 0)
+            .map(({ key, label }) => (
+              <FormControl key={key} fullWidth>
+                <InputLabel>{label}</InputLabel>
+                <Select
+                  multiple
+                  value={selectedAttributes[key] ?? []}
+                  onChange={e => {
+                    const values = e.target.value as string[];
+                    setSelectedAttributes(prev => ({ ...prev, [key]: values.length > 0 ? values : undefined }));
+                  }}
+                  renderValue={selected => selected.join(', ')}
+                >
+                  {metadata.storeAttributes[key].map(value => (
+                    <MenuItem key={value} value={value}>
+                      {value}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ))}
         </Stack>
       </Paper>
     </LocalizationProvider>
@@ -0,0 +1,170 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography
+} from '@mui/material';
+import { AttachFile as AttachFileIcon } from '@mui/icons-material';
+import { isAxiosError } from 'axios';
+import { type ChangeEvent, useEffect, useState } from 'react';
+import { deleteReceipt, getReceiptFile, getReceipts, uploadReceipt } from '../../services/api';
+import type { ApiErrorResponse, Receipt, Transaction } from '../../types';
+
+/** File types the server accepts as receipts */
+const RECEIPT_TYPES = 'image/jpeg,image/png,image/gif,image/webp,application/pdf';
+
+interface Props {
+  open: boolean;
+  transaction: Transaction | null;
+  onClose: () => void;
+  /** Called after a receipt was attached or deleted */
+  onChanged: () => void;
+}
+
+/**
+ * Dialog listing a transaction's receipts, with a viewer for the selected one
+ * Images are shown inline and PDFs in the browser's own viewer
+ */
+export const ReceiptDialog = ({ open, transaction, onClose, onChanged }: Props) => {
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [selected, setSelected] = useState<Receipt | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !transaction) return;
+    setError(null);
+    setReceipts([]);
+    setSelected(null);
+    getReceipts(transaction.id)
+      .then(loaded => {
+        setReceipts(loaded);
+        setSelected(loaded[0] ?? null);
+      })
+      .catch(err => {
+        setError('Error loading receipts.');
+        console.error('Error loading receipts:', err);
+      });
+  }, [open, transaction]);
+
+  useEffect(() => {
+    if (!selected) {
+      setFileUrl(null);
+      return;
+    }
+
+    let url: string | null = null;
+    getReceiptFile(selected)
+      .then(blob => {
+        url = URL.createObjectURL(blob);
+        setFileUrl(url);
+      })
+      .catch(err => {
+        setError('Error loading receipt.');
+        console.error('Error loading receipt:', err);
+      });
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selected]);
+
+  /**
+   * Runs an upload or delete and reports the server's problem with it
+   */
+  const change = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await action();
+      onChanged();
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.error || failure);
+      console.error(failure, err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileSelect = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow choosing the same file again
+    event.target.value = '';
+    if (!file || !transaction) return;
+
+    change(async () => {
+      const receipt = await uploadReceipt(transaction.id, file);
+      setReceipts(current => [...current, receipt]);
+      setSelected(receipt);
+    }, 'Error attaching receipt. Please try again.');
+  };
+
+  const handleDelete = (receipt: Receipt) => {
+    change(async () => {
+      await deleteReceipt(receipt);
+      const remaining = receipts.filter(r => r.id !== receipt.id);
+      setReceipts(remaining);
+      if (selected?.id === receipt.id) setSelected(remaining[0] ?? null);
+    }, 'Error deleting receipt. Please try again.');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>
+        Receipts
+        {transaction && (
+          <Typography variant="body2" color="text.secondary">
+            {transaction.date} · {transaction.store}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+            {receipts.map(receipt => (
+              <Chip
+                key={receipt.id}
+                label={receipt.fileName}
+                color={selected?.id === receipt.id ? 'primary' : 'default'}
+                onClick={() => setSelected(receipt)}
+                onDelete={isBusy ? undefined : () => handleDelete(receipt)}
+              />
+            ))}
+            <Button startIcon={<AttachFileIcon />} component="label" disabled={isBusy}>
+              Attach Receipt
+              <input type="file" accept={RECEIPT_TYPES} hidden onChange={handleFileSelect} />
+            </Button>
+          </Box>
+          {receipts.length === 0 && !error && (
+            <Typography color="text.secondary">
+              No receipts yet. Attach a photo or PDF of up to 10 MB.
+            </Typography>
+          )}
+          {selected && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', minHeight: 300 }}>
+              {!fileUrl ? (
+                <CircularProgress sx={{ alignSelf: 'center' }} />
+              ) : selected.mimeType === 'application/pdf' ? (
+                <Box component="iframe" src={fileUrl} title={selected.fileName} sx={{ width: '100%', height: 600, border: 0 }} />
+              ) : (
+                <Box component="img" src={fileUrl} alt={selected.fileName} sx={{ maxWidth: '100%', maxHeight: 600 }} />
+              )}
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -8,7 +8,8 @@ import {
   Tooltip,
   ResponsiveContainer
 } from 'recharts';
-import { SpendingData } from '../../types';
+import type { SpendingData } from '../../types';
+import { useCurrencyFormatter } from '../common/ReportingCurrency';
 
 interface Props {
   data: SpendingData[];
@@ -18,6 +19,8 @@ interface Props {
  * Line chart showing spending over time
  */
 export const SpendingTimelineChart = ({ data }: Props) => {
+  const formatCurrency = useCurrencyFormatter();
+
   return (
     <Paper sx={{ p: 2 }}>
       <Typography variant="h6" gutterBottom>
@@ -28,8 +31,8 @@ export const SpendingTimelineChart = ({ data }: Props) => {
           <LineChart data={data}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis dataKey="label" />
-            <YAxis />
-            <Tooltip />
+            <YAxis tickFormatter={formatCurrency} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
             <Line
               type="monotone"
               dataKey="amount"
@@ -1,4 +1,4 @@
-import { Box, Paper, Typography } from '@mui/material';
+import { Box, FormControl, MenuItem, Paper, Select, Typography } from '@mui/material';
 import {
   BarChart,
   Bar,
@@ -8,16 +8,33 @@ import {
   Tooltip,
   ResponsiveContainer
 } from 'recharts';
-import { SpendingData } from '../../types';
+import type { SpendingData, StoreAttribute } from '../../types';
+import { useCurrencyFormatter } from '../common/ReportingCurrency';
+
+/** What the bars stand for: canonical stores, stores combined by a detail, or transaction tags */
+export type StoreChartGrouping = 'store' | StoreAttribute | 'tag';
+
+const GROUPING_LABELS: Record<StoreChartGrouping, string> = {
+  store: 'Stores',
+  chain: 'Chains',
+  storeType: 'Store Types',
+  neighborhood: 'Neighborhoods',
+  storeTag: 'Store Tags',
+  tag: 'Tags'
+};
 
 interface Props {
   data: SpendingData[];
+  grouping?: StoreChartGrouping;
+  onGroupingChange?: (grouping: StoreChartGrouping) => void;
 }
 
 /**
- * Bar chart showing spending by store
+ * Bar chart showing spending by store, by a store detail such as chain or type, or by transaction tag
  */
-export const StoreBarChart = ({ data }: Props) => {
+export const StoreBarChart = ({ data, grouping = 'store', onGroupingChange }: Props) => {
+  const formatCurrency = useCurrencyFormatter();
+
   // Sort data by amount and take top 10
   const sortedData = [...data]
     .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
@@ -25,9 +42,20 @@ export const StoreBarChart = ({ data }: Props) => {
 
   return (
     <Paper sx={{ p: 2 }}>
-      <Typography variant="h6" gutterBottom>
-        Top 10 Stores by Spending
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6" sx={{ flex: 1 }}>
+          Top 10 {GROUPING_LABELS[grouping]} by Spending
+        </Typography>
+        {onGroupingChange && (
+          <FormControl size="small">
+            <Select value={grouping} onChange={e => onGroupingChange(e.target.value as StoreChartGrouping)}>
+              {Object.entries(GROUPING_LABELS).map(([value, label]) => (
+                <MenuItem key={value} value={value}>{label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+      </Box>
       <Box sx={{ width: '100%', height: 300 }}>
         <ResponsiveContainer>
           <BarChart
@@ -36,9 +64,9 @@ export const StoreBarChart = ({ data }: Props) => {
             margin={{ top: 5, right: 30, left: 100, bottom: 5 }}
           >
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis type="number" />
+            <XAxis type="number" tickFormatter={formatCurrency} />
             <YAxis type="category" dataKey="label" />
-            <Tooltip />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
             <Bar dataKey="amount" fill="#8884d8" />
           </BarChart>
         </ResponsiveContainer>
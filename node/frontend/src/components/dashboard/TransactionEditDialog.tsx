@@ -0,0 +1,248 @@
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField
+} from '@mui/material';
+import { isAxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import { createTransaction, deleteTransaction, getTransaction, updateTransaction } from '../../services/api';
+import type { ApiErrorResponse, PersonShare, Transaction, TransactionInput, TransactionKind } from '../../types';
+import { formatAmount, parseAmount, useReportingCurrency } from '../common/ReportingCurrency';
+
+interface Props {
+  open: boolean;
+  /** Transaction to edit; a new transaction is entered when null */
+  transactionId: string | null;
+  onClose: () => void;
+  /** Called after the transaction was saved or deleted */
+  onSaved: () => void;
+}
+
+const EMPTY_FORM = {
+  date: '',
+  description: '',
+  category: '',
+  amount: '',
+  currency: '',
+  shares: '',
+  kind: 'expense' as TransactionKind,
+  tags: '',
+  notes: ''
+};
+
+type TransactionForm = typeof EMPTY_FORM;
+
+/**
+ * Shows the stored values, in the imported currency and category, not the converted ones of the table
+ */
+const toForm = (transaction: Transaction): TransactionForm => ({
+  date: transaction.date,
+  description: transaction.description,
+  category: transaction.category,
+  amount: formatAmount(transaction.cost),
+  currency: transaction.currency,
+  shares: transaction.shares.map(share => `${share.name}: ${formatAmount(share.amount)}`).join(', '),
+  kind: transaction.kind ?? 'expense',
+  tags: (transaction.tags ?? []).join(', '),
+  notes: transaction.notes ?? ''
+});
+
+/**
+ * Parses "Alice: 20.00, Bob: -20.00" into shares; null when a pair is malformed
+ */
+const parseShares = (value: string): PersonShare[] | null => {
+  const shares = value
+    .split(',')
+    .map(part => part.split(':').map(piece => piece.trim()))
+    .filter(([name, amount]) => name || amount)
+    .map(([name, amount]) => ({ name, amount: parseAmount(amount ?? '') }));
+  return shares.every(share => share.name && share.amount !== null) ? shares as PersonShare[] : null;
+};
+
+/**
+ * Dialog for fixing a transaction without re-uploading the file, or entering one by hand
+ * Only changed fields are sent, so an unchanged split is scaled with a changed amount
+ */
+export const TransactionEditDialog = ({ open, transactionId, onClose, onSaved }: Props) => {
+  const { reportingCurrency } = useReportingCurrency();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loaded, setLoaded] = useState<TransactionForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setLoaded(null);
+    if (transactionId === null) {
+      setForm({ ...EMPTY_FORM, currency: reportingCurrency });
+      return;
+    }
+
+    setForm(EMPTY_FORM);
+    getTransaction(transactionId)
+      .then(transaction => {
+        setForm(toForm(transaction));
+        setLoaded(toForm(transaction));
+      })
+      .catch(err => {
+        setError('Error loading transaction.');
+        console.error('Error loading transaction:', err);
+      });
+  }, [open, transactionId, reportingCurrency]);
+
+  const isNew = transactionId === null;
+  const changed = (field: keyof TransactionForm) => loaded === null || form[field] !== loaded[field];
+
+  /**
+   * Runs a save or delete and reports the server's problems with it
+   */
+  const submit = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      onSaved();
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details ? data.details.join('; ') : data?.error || failure);
+      console.error(failure, err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const cost = parseAmount(form.amount);
+    const shares = form.shares.trim() ? parseShares(form.shares) : [];
+    if (cost === null || shares === null) {
+      setError('Enter the amount as a number, and shares as "Name: amount" pairs separated by commas.');
+      return;
+    }
+
+    // Undefined fields are left out of the request
+    const input: TransactionInput = {
+      date: changed('date') ? form.date : undefined,
+      description: changed('description') ? form.description : undefined,
+      category: changed('category') ? form.category : undefined,
+      cost: changed('amount') ? cost : undefined,
+      currency: changed('currency') ? form.currency.trim().toUpperCase() : undefined,
+      shares: changed('shares') ? shares : undefined,
+      kind: changed('kind') ? form.kind : undefined,
+      tags: changed('tags') ? form.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      notes: changed('notes') ? form.notes : undefined
+    };
+    submit(
+      () => isNew ? createTransaction(input) : updateTransaction(transactionId, input),
+      'Error saving transaction. Please try again.'
+    );
+  };
+
+  const handleDelete = () => {
+    if (transactionId === null) return;
+    submit(() => deleteTransaction(transactionId), 'Error deleting transaction. Please try again.');
+  };
+
+  const canSave = isNew || (loaded !== null && (Object.keys(form) as (keyof TransactionForm)[]).some(changed));
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{isNew ? 'Add Transaction' : 'Edit Transaction'}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            type="date"
+            label="Date"
+            value={form.date}
+            onChange={e => setForm({ ...form, date: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            required
+          />
+          <TextField
+            label="Description"
+            value={form.description}
+            onChange={e => setForm({ ...form, description: e.target.value })}
+            helperText="The store is derived from this with the dataset's store mappings"
+            required
+          />
+          <TextField
+            label="Category"
+            value={form.category}
+            onChange={e => setForm({ ...form, category: e.target.value })}
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Amount"
+              value={form.amount}
+              onChange={e => setForm({ ...form, amount: e.target.value })}
+              inputProps={{ inputMode: 'decimal' }}
+              required
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Currency"
+              value={form.currency}
+              onChange={e => setForm({ ...form, currency: e.target.value })}
+              required
+              sx={{ width: 120 }}
+            />
+          </Box>
+          <TextField
+            label="Shares"
+            value={form.shares}
+            onChange={e => setForm({ ...form, shares: e.target.value })}
+            helperText={isNew
+              ? 'Positive for what someone is owed back, negative for what they owe, e.g. Alice: 20.00, Bob: -20.00'
+              : 'Leave unchanged to scale the shares with a changed amount'}
+          />
+          <FormControl fullWidth>
+            <InputLabel>Kind</InputLabel>
+            <Select
+              label="Kind"
+              value={form.kind}
+              onChange={e => setForm({ ...form, kind: e.target.value as TransactionKind })}
+            >
+              <MenuItem value="expense">Expense</MenuItem>
+              <MenuItem value="settlement">Settlement</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            label="Tags"
+            value={form.tags}
+            onChange={e => setForm({ ...form, tags: e.target.value })}
+            helperText="Separated by commas, e.g. trip:tahoe, reimbursable"
+          />
+          <TextField
+            label="Notes"
+            value={form.notes}
+            onChange={e => setForm({ ...form, notes: e.target.value })}
+            multiline
+            minRows={2}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {!isNew && (
+          <Button color="error" onClick={handleDelete} disabled={loaded === null || isSaving} sx={{ mr: 'auto' }}>
+            Delete
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!canSave || isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,4 +1,11 @@
 import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  IconButton,
   Paper,
   Table,
   TableBody,
@@ -7,23 +14,86 @@ import {
   TableHead,
   TableRow,
   TablePagination,
+  TextField,
   Typography
 } from '@mui/material';
+import { Add as AddIcon, AttachFile as AttachFileIcon, Edit as EditIcon } from '@mui/icons-material';
+import { isAxiosError } from 'axios';
 import { useState } from 'react';
-import { Transaction } from '../../types';
+import { addTransactionTags, removeTransactionTags } from '../../services/api';
+import type { ApiErrorResponse, Transaction, TransactionTaggingResponse } from '../../types';
+import { formatAmount } from '../common/ReportingCurrency';
+import { ReceiptDialog } from './ReceiptDialog';
+import { TransactionEditDialog } from './TransactionEditDialog';
 
 interface Props {
   transactions: Transaction[];
   total: number;
   onPageChange: (page: number, pageSize: number) => void;
+  /** Called after a transaction was added, edited or deleted */
+  onChanged: () => void;
 }
 
 /**
- * Table showing detailed transaction data
+ * Table showing detailed transaction data, where transactions can be fixed or entered by hand
+ * Selected transactions, on any page, can be tagged or untagged together, and receipts can be attached to each
  */
-export const TransactionsTable = ({ transactions, total, onPageChange }: Props) => {
+export const TransactionsTable = ({ transactions, total, onPageChange, onChanged }: Props) => {
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [receiptTransaction, setReceiptTransaction] = useState<Transaction | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [tagText, setTagText] = useState('');
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagError, setTagError] = useState<string | null>(null);
+
+  const openDialog = (transactionId: string | null) => {
+    setEditingId(transactionId);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaved = () => {
+    setIsDialogOpen(false);
+    onChanged();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  };
+
+  const pageIds = transactions.map(transaction => transaction.id);
+  const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+
+  const togglePage = () => {
+    setSelectedIds(isPageSelected
+      ? selectedIds.filter(id => !pageIds.includes(id))
+      : [...new Set([...selectedIds, ...pageIds])]);
+  };
+
+  /**
+   * Adds or removes the typed tags on the selected transactions
+   */
+  const handleTagging = async (
+    change: (ids: string[], tags: string[]) => Promise<TransactionTaggingResponse>,
+    failure: string
+  ) => {
+    try {
+      setIsTagging(true);
+      setTagError(null);
+      await change(selectedIds, tagText.split(',').map(tag => tag.trim()).filter(Boolean));
+      setSelectedIds([]);
+      setTagText('');
+      onChanged();
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setTagError(data?.details ? data.details.join('; ') : data?.error || failure);
+      console.error(failure, err);
+    } finally {
+      setIsTagging(false);
+    }
+  };
 
   const handleChangePage = (_: unknown, newPage: number) => {
     setPage(newPage);
@@ -39,34 +109,120 @@ export const TransactionsTable = ({ transactions, total, onPageChange }: Props)
 
   return (
     <Paper sx={{ p: 2 }}>
-      <Typography variant="h6" gutterBottom>
-        Transaction Details
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">
+          Transaction Details
+        </Typography>
+        <Button startIcon={<AddIcon />} onClick={() => openDialog(null)}>
+          Add Transaction
+        </Button>
+      </Box>
+      {tagError && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setTagError(null)}>{tagError}</Alert>}
+      {selectedIds.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Typography variant="body2">
+            {selectedIds.length} selected
+          </Typography>
+          <TextField
+            size="small"
+            label="Tags"
+            placeholder="trip:tahoe, reimbursable"
+            value={tagText}
+            onChange={e => setTagText(e.target.value)}
+            sx={{ minWidth: 260 }}
+          />
+          <Button
+            variant="contained"
+            onClick={() => handleTagging(addTransactionTags, 'Error adding tags. Please try again.')}
+            disabled={!tagText.trim() || isTagging}
+          >
+            Add Tags
+          </Button>
+          <Button
+            onClick={() => handleTagging(removeTransactionTags, 'Error removing tags. Please try again.')}
+            disabled={!tagText.trim() || isTagging}
+          >
+            Remove Tags
+          </Button>
+          <Button onClick={() => setSelectedIds([])}>
+            Clear Selection
+          </Button>
+        </Box>
+      )}
       <TableContainer>
         <Table>
           <TableHead>
             <TableRow>
+              <TableCell padding="checkbox">
+                <Checkbox
+                  checked={isPageSelected}
+                  indeterminate={!isPageSelected && pageIds.some(id => selectedIds.includes(id))}
+                  onChange={togglePage}
+                />
+              </TableCell>
               <TableCell>Date</TableCell>
-              <TableCell>Description</TableCell>
+              <TableCell>Store</TableCell>
+              <TableCell>Original Description</TableCell>
               <TableCell>Category</TableCell>
               <TableCell align="right">Amount</TableCell>
               <TableCell>Shares</TableCell>
+              <TableCell align="right">Actions</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
-            {transactions.map((transaction, index) => (
-              <TableRow key={index}>
+            {transactions.map(transaction => (
+              <TableRow key={transaction.id} selected={selectedIds.includes(transaction.id)}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selectedIds.includes(transaction.id)}
+                    onChange={() => toggleSelected(transaction.id)}
+                  />
+                </TableCell>
                 <TableCell>{transaction.date}</TableCell>
-                <TableCell>{transaction.description}</TableCell>
-                <TableCell>{transaction.category}</TableCell>
+                <TableCell>
+                  {transaction.store}
+                  {transaction.possibleDuplicate && (
+                    <Chip size="small" color="warning" label="Possible duplicate" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell sx={{ color: transaction.store === transaction.description ? 'text.disabled' : 'text.secondary' }}>
+                  {transaction.description}
+                  {transaction.notes && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {transaction.notes}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {transaction.category}
+                  {transaction.tags?.map(tag => (
+                    <Chip key={tag} size="small" variant="outlined" label={tag} sx={{ ml: 1 }} />
+                  ))}
+                </TableCell>
                 <TableCell align="right">
-                  {transaction.cost.toFixed(2)} {transaction.currency}
+                  {formatAmount(transaction.cost)} {transaction.currency}
+                  {transaction.originalCurrency && transaction.originalCost !== undefined && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {formatAmount(transaction.originalCost)} {transaction.originalCurrency}
+                      {transaction.exchangeRate !== undefined && ` @ ${transaction.exchangeRate.toFixed(4)}`}
+                    </Typography>
+                  )}
                 </TableCell>
                 <TableCell>
                   {transaction.shares
-                    .map(share => `${share.name}: ${share.amount.toFixed(2)}`)
+                    .map(share => `${share.name}: ${formatAmount(share.amount)}`)
                     .join(', ')}
                 </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <IconButton size="small" onClick={() => setReceiptTransaction(transaction)}>
+                    <Badge badgeContent={transaction.receiptCount} color="primary">
+                      <AttachFileIcon fontSize="small" color={transaction.receiptCount ? 'action' : 'disabled'} />
+                    </Badge>
+                  </IconButton>
+                  <IconButton size="small" onClick={() => openDialog(transaction.id)}>
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
@@ -80,6 +236,18 @@ export const TransactionsTable = ({ transactions, total, onPageChange }: Props)
         rowsPerPage={rowsPerPage}
         onRowsPerPageChange={handleChangeRowsPerPage}
       />
+      <TransactionEditDialog
+        open={isDialogOpen}
+        transactionId={editingId}
+        onClose={() => setIsDialogOpen(false)}
+        onSaved={handleSaved}
+      />
+      <ReceiptDialog
+        open={receiptTransaction !== null}
+        transaction={receiptTransaction}
+        onClose={() => setReceiptTransaction(null)}
+        onChanged={onChanged}
+      />
     </Paper>
   );
 };
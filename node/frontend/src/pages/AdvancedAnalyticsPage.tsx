@@ -18,7 +18,9 @@ import {
   Card,
   CardContent,
   Button,
-  Chip
+  Chip,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import {
   AccountBalance as BalanceIcon,
@@ -29,20 +31,23 @@ import {
   Person as PersonIcon,
   Analytics as AnalyticsIcon
 } from '@mui/icons-material';
+import { isAxiosError } from 'axios';
 import { BalanceTracker } from '../components/analytics/BalanceTracker';
 import { SpendingHeatmap } from '../components/analytics/SpendingHeatmap';
+import { useCurrencyFormatter } from '../components/common/ReportingCurrency';
 import { 
   getPaymentPatterns, 
   getStoreAnalytics, 
   getCategoryTrends, 
   getBudgetIntelligence 
 } from '../services/api';
-import {
+import type {
   PaymentPattern,
   StoreAnalytics,
   CategoryTrend,
   BudgetIntelligence
 } from '../types/analytics';
+import type { ApiErrorResponse } from '../types';
 
 // Tab interface for type safety
 interface TabPanelProps {
@@ -79,6 +84,7 @@ const OverviewTab: React.FC = () => {
   const [paymentPatterns, setPaymentPatterns] = useState<PaymentPattern[]>([]);
   const [storeAnalytics, setStoreAnalytics] = useState<StoreAnalytics[]>([]);
   const [categoryTrends, setCategoryTrends] = useState<CategoryTrend[]>([]);
+  const [rollUpCategories, setRollUpCategories] = useState(false);
   const [budgetIntelligence, setBudgetIntelligence] = useState<BudgetIntelligence | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -105,19 +111,26 @@ const OverviewTab: React.FC = () => {
       setBudgetIntelligence(intelligence);
     } catch (err) {
       console.error('Error loading overview data:', err);
-      setError('Failed to load analytics overview. Please try again.');
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details
+        ? `${data.error}: ${data.details.join('; ')}`
+        : 'Failed to load analytics overview. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  const handleRollUpChange = async (rollUp: boolean) => {
+    try {
+      setRollUpCategories(rollUp);
+      setCategoryTrends(await getCategoryTrends(rollUp ? 'parent' : 'category'));
+    } catch (err) {
+      console.error('Error loading category trends:', err);
+    }
   };
 
+  const formatCurrency = useCurrencyFormatter();
+
   if (loading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
@@ -215,11 +228,22 @@ const OverviewTab: React.FC = () => {
             <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
               <CategoryIcon color="primary" sx={{ mr: 1 }} />
               <Typography variant="h6">Category Trends</Typography>
+              <FormControlLabel
+                sx={{ ml: 'auto' }}
+                control={
+                  <Switch
+                    size="small"
+                    checked={rollUpCategories}
+                    onChange={e => handleRollUpChange(e.target.checked)}
+                  />
+                }
+                label="Parent groups"
+              />
             </Box>
             {categoryTrends.length > 0 ? (
               <Box>
                 <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Categories: {categoryTrends.length}
+                  {rollUpCategories ? 'Parent groups' : 'Categories'}: {categoryTrends.length}
                 </Typography>
                 {categoryTrends.slice(0, 3).map(trend => (
                   <Box key={trend.category} sx={{ mb: 1 }}>
@@ -233,6 +257,9 @@ const OverviewTab: React.FC = () => {
                     </Box>
                     <Typography variant="body2" color="text.secondary">
                       Avg: {formatCurrency(trend.averageTransactionSize)}
+                      {trend.subcategories && trend.subcategories.length > 1
+                        ? ` · ${trend.subcategories.join(', ')}`
+                        : ''}
                     </Typography>
                   </Box>
                 ))}
@@ -298,12 +325,7 @@ const PaymentPatternsTab: React.FC = () => {
       .finally(() => setLoading(false));
   }, []);
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  const formatCurrency = useCurrencyFormatter();
 
   if (loading) return <CircularProgress />;
   if (error) return <Alert severity="error">{error}</Alert>;
@@ -1,13 +1,15 @@
 import { Alert, Box, CircularProgress, Stack, Typography } from '@mui/material';
+import { isAxiosError } from 'axios';
 import { useEffect, useState } from 'react';
 import { Filters } from '../components/dashboard/Filters';
 import { SpendingTimelineChart } from '../components/dashboard/SpendingTimelineChart';
 import { CategoryPieChart } from '../components/dashboard/CategoryPieChart';
-import { StoreBarChart } from '../components/dashboard/StoreBarChart';
+import { StoreBarChart, type StoreChartGrouping } from '../components/dashboard/StoreBarChart';
 import { TransactionsTable } from '../components/dashboard/TransactionsTable';
 import { getMetadata, getSpendingAnalysis } from '../services/api';
-import {
+import type {
   AnalysisFilters,
+  ApiErrorResponse,
   DatasetMetadata,
   SpendingData,
   Transaction
@@ -19,9 +21,13 @@ export const DashboardPage = () => {
   const [metadata, setMetadata] = useState<DatasetMetadata | null>(null);
   const [timelineData, setTimelineData] = useState<SpendingData[]>([]);
   const [categoryData, setCategoryData] = useState<SpendingData[]>([]);
+  const [categoryParent, setCategoryParent] = useState<string | null>(null);
   const [storeData, setStoreData] = useState<SpendingData[]>([]);
+  const [storeGrouping, setStoreGrouping] = useState<StoreChartGrouping>('store');
+  const [filters, setFilters] = useState<AnalysisFilters>({});
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [totalTransactions, setTotalTransactions] = useState(0);
+  const [pagination, setPagination] = useState({ page: 1, pageSize: 10 });
 
   useEffect(() => {
     loadMetadata();
@@ -35,31 +41,35 @@ export const DashboardPage = () => {
       setMetadata(data);
       await loadDashboardData({});
     } catch (err) {
-      setError('Error loading data. Please try uploading your file again.');
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.details
+        ? `${data.error}: ${data.details.join('; ')}`
+        : 'Error loading data. Please try uploading your file again.');
       console.error('Error loading metadata:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const loadDashboardData = async (filters: AnalysisFilters) => {
+  const loadDashboardData = async (filters: AnalysisFilters, page = 1) => {
     try {
       setError(null);
+      setFilters(filters);
+      setPagination(current => ({ ...current, page }));
 
       // Load timeline data
       const timeline = await getSpendingAnalysis(filters, 'time', 'day');
       setTimelineData(timeline as SpendingData[]);
 
       // Load category data
-      const categories = await getSpendingAnalysis(filters, 'category');
-      setCategoryData(categories as SpendingData[]);
+      setCategoryData(await getCategoryData(filters, categoryParent));
 
       // Load store data
-      const stores = await getSpendingAnalysis(filters, 'store');
+      const stores = await getSpendingAnalysis(filters, storeGrouping);
       setStoreData(stores as SpendingData[]);
 
       // Load transactions
-      const result = await getSpendingAnalysis(filters, 'transactions', undefined, 1, 10);
+      const result = await getSpendingAnalysis(filters, 'transactions', undefined, page, pagination.pageSize);
       if ('transactions' in result) {
         setTransactions(result.transactions);
         setTotalTransactions(result.total);
@@ -70,13 +80,43 @@ export const DashboardPage = () => {
     }
   };
 
+  /**
+   * Spending per parent group, or per category within one parent group when drilled into
+   */
+  const getCategoryData = async (filters: AnalysisFilters, parent: string | null) => {
+    const data = parent === null
+      ? await getSpendingAnalysis(filters, 'parentCategory')
+      : await getSpendingAnalysis({ ...filters, parentCategories: [parent] }, 'category');
+    return data as SpendingData[];
+  };
+
+  const handleCategoryParentChange = async (parent: string | null) => {
+    try {
+      setCategoryParent(parent);
+      setCategoryData(await getCategoryData(filters, parent));
+    } catch (err) {
+      console.error('Error loading category data:', err);
+    }
+  };
+
   const handleFiltersChange = (filters: AnalysisFilters) => {
     loadDashboardData(filters);
   };
 
+  const handleStoreGroupingChange = async (grouping: StoreChartGrouping) => {
+    try {
+      setStoreGrouping(grouping);
+      const stores = await getSpendingAnalysis(filters, grouping);
+      setStoreData(stores as SpendingData[]);
+    } catch (err) {
+      console.error('Error loading store data:', err);
+    }
+  };
+
   const handlePageChange = async (page: number, pageSize: number) => {
     try {
-      const result = await getSpendingAnalysis({}, 'transactions', undefined, page, pageSize);
+      setPagination({ page, pageSize });
+      const result = await getSpendingAnalysis(filters, 'transactions', undefined, page, pageSize);
       if ('transactions' in result) {
         setTransactions(result.transactions);
       }
@@ -85,6 +125,18 @@ export const DashboardPage = () => {
     }
   };
 
+  /**
+   * Reloads everything an added, edited or deleted transaction can change, keeping the filters and page
+   */
+  const handleTransactionsChanged = async () => {
+    try {
+      setMetadata(await getMetadata());
+      await loadDashboardData(filters, pagination.page);
+    } catch (err) {
+      console.error('Error reloading dashboard:', err);
+    }
+  };
+
   if (isLoading || !metadata) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
@@ -116,10 +168,21 @@ export const DashboardPage = () => {
 
         <Stack direction={{ xs: 'column', md: 'row' }} spacing={3}>
           <Box flex={1}>
-            <CategoryPieChart data={categoryData} />
+            <CategoryPieChart
+              data={categoryData}
+              parent={categoryParent}
+              drillableParents={metadata.categoryGroups
+                .filter(group => group.categories.some(category => category !== group.parent))
+                .map(group => group.parent)}
+              onParentChange={handleCategoryParentChange}
+            />
           </Box>
           <Box flex={1}>
-            <StoreBarChart data={storeData} />
+            <StoreBarChart
+              data={storeData}
+              grouping={storeGrouping}
+              onGroupingChange={handleStoreGroupingChange}
+            />
           </Box>
         </Stack>
 
@@ -128,6 +191,7 @@ export const DashboardPage = () => {
             transactions={transactions}
             total={totalTransactions}
             onPageChange={handlePageChange}
+            onChanged={handleTransactionsChanged}
           />
         </Box>
       </Stack>
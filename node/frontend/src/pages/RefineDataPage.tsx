@@ -2,21 +2,88 @@ import {
   Alert,
   Box,
   Button,
+  Card,
+  CardActions,
+  CardContent,
   CircularProgress,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Slider,
   Stack,
+  Switch,
   Typography
 } from '@mui/material';
+import {
+  Redo as RedoIcon,
+  Undo as UndoIcon
+} from '@mui/icons-material';
+import { isAxiosError } from 'axios';
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { CategoryReviewSection } from '../components/CategoryReviewSection';
+import { CategoryTaxonomySection } from '../components/CategoryTaxonomySection';
+import { CurrencySection } from '../components/CurrencySection';
+import { PeopleSection } from '../components/PeopleSection';
 import { StoreGroupEditor } from '../components/StoreGroupEditor';
-import { getStoreGroupings, applyStoreMappings } from '../services/api';
-import { StoreGrouping } from '../types';
+import { StoreMetadataSection } from '../components/StoreMetadataSection';
+import { StoreMappingFileButtons } from '../components/StoreMappingFileButtons';
+import { StoreRulesSection } from '../components/StoreRulesSection';
+import { VariationChip } from '../components/VariationChip';
+import {
+  addStoreGroups,
+  applyStoreMappings,
+  deleteStoreGroup,
+  getStoreGroupHistory,
+  getStoreGroupings,
+  getStoreGroups,
+  mergeStoreGroups,
+  redoStoreGroupEdit,
+  removeStoreVariation,
+  renameStoreGroup,
+  sendStoreFeedback,
+  splitStoreGroup,
+  undoStoreGroupEdit
+} from '../services/api';
+import type {
+  ApiErrorResponse,
+  SimilarityOptions,
+  SimilarityStrategyName,
+  StoreGroupHistoryEntry,
+  StoreGrouping,
+  StoreGroupsResponse
+} from '../types';
+
+/** Number of recent edits listed under the undo/redo buttons */
+const HISTORY_ITEMS_SHOWN = 5;
+
+const STRATEGIES: { value: SimilarityStrategyName; label: string }[] = [
+  { value: 'levenshtein', label: 'Spelling (Levenshtein)' },
+  { value: 'token-set', label: 'Shared words (token set)' },
+  { value: 'jaro-winkler', label: 'Similar start (Jaro-Winkler)' },
+  { value: 'prefix', label: 'Same prefix' }
+];
 
 export const RefineDataPage = () => {
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [groups, setGroups] = useState<StoreGrouping[]>([]);
+  const [suggestions, setSuggestions] = useState<StoreGrouping[]>([]);
+  const [coveredStoreNames, setCoveredStoreNames] = useState(0);
+  const [similarity, setSimilarity] = useState<SimilarityOptions>({});
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+  const [groupsState, setGroupsState] = useState<StoreGroupsResponse>({
+    groups: [],
+    canUndo: false,
+    canRedo: false
+  });
+  const [history, setHistory] = useState<StoreGroupHistoryEntry[]>([]);
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
@@ -27,8 +94,20 @@ export const RefineDataPage = () => {
     try {
       setIsLoading(true);
       setError(null);
-      const response = await getStoreGroupings();
-      setGroups(response.suggestions);
+      const [suggestionsResponse, groupsResponse, historyEntries] = await Promise.all([
+        getStoreGroupings(),
+        getStoreGroups(),
+        getStoreGroupHistory()
+      ]);
+      setSuggestions(suggestionsResponse.suggestions);
+      setCoveredStoreNames(suggestionsResponse.coveredStoreNames);
+      setSimilarity({
+        strategy: suggestionsResponse.strategy,
+        threshold: suggestionsResponse.threshold,
+        stripStoreNumbers: suggestionsResponse.stripStoreNumbers
+      });
+      setGroupsState(groupsResponse);
+      setHistory(historyEntries);
     } catch (err) {
       setError('Error loading store groupings. Please try uploading your file again.');
       console.error('Error loading store groupings:', err);
@@ -37,63 +116,67 @@ export const RefineDataPage = () => {
     }
   };
 
-  const handleUpdateGroup = (oldName: string, newGroup: StoreGrouping) => {
-    setGroups(prevGroups =>
-      prevGroups.map(group =>
-        group.canonicalName === oldName ? newGroup : group
-      )
-    );
+  /**
+   * Reloads the suggestions with other similarity settings
+   * Leaving out the threshold uses the strategy's default
+   */
+  const loadSuggestions = async (options: SimilarityOptions) => {
+    try {
+      setIsLoadingSuggestions(true);
+      setError(null);
+      const response = await getStoreGroupings(options);
+      setSuggestions(response.suggestions);
+      setSimilarity({
+        strategy: response.strategy,
+        threshold: response.threshold,
+        stripStoreNumbers: response.stripStoreNumbers
+      });
+    } catch (err) {
+      setError('Error loading store suggestions. Please try again.');
+      console.error('Error loading store suggestions:', err);
+    } finally {
+      setIsLoadingSuggestions(false);
+    }
   };
 
-  const handleDeleteGroup = (canonicalName: string) => {
-    setGroups(prevGroups =>
-      prevGroups.filter(group => group.canonicalName !== canonicalName)
-    );
+  /**
+   * Runs a group edit on the server and refreshes the groups and history
+   */
+  const runEdit = async (edit: () => Promise<StoreGroupsResponse>, description: string) => {
+    try {
+      setError(null);
+      setGroupsState(await edit());
+      setHistory(await getStoreGroupHistory());
+    } catch (err) {
+      const data = isAxiosError<ApiErrorResponse>(err) ? err.response?.data : undefined;
+      setError(data?.error || `Error trying to ${description}. Please try again.`);
+      console.error(`Error trying to ${description}:`, err);
+    }
   };
 
-  const handleMergeGroups = (group1: StoreGrouping, group2: StoreGrouping) => {
-    // Remove both groups
-    const remainingGroups = groups.filter(
-      g => g.canonicalName !== group1.canonicalName && g.canonicalName !== group2.canonicalName
-    );
+  /**
+   * Shows the groups after rules were applied or mappings imported; newly grouped names drop out of the suggestions
+   */
+  const handleGroupsReplaced = async (state: StoreGroupsResponse) => {
+    setGroupsState(state);
+    setHistory(await getStoreGroupHistory());
+    await loadSuggestions(similarity);
+  };
 
-    // Create new merged group
-    const allNames = [
-      group1.canonicalName,
-      ...group1.variations,
-      group2.canonicalName,
-      ...group2.variations
-    ];
-
-    // Use the first group's canonical name as default
-    const newGroup: StoreGrouping = {
-      canonicalName: group1.canonicalName,
-      variations: allNames.filter(name => name !== group1.canonicalName)
-    };
-
-    // Add new merged group
-    setGroups([...remainingGroups, newGroup]);
+  const handleAcceptSuggestions = async (accepted: StoreGrouping[]) => {
+    await runEdit(() => addStoreGroups(accepted), 'add store groups');
+    const acceptedNames = accepted.map(group => group.canonicalName);
+    setSuggestions(prev => prev.filter(group => !acceptedNames.includes(group.canonicalName)));
   };
 
-  const handleSplitGroup = (group: StoreGrouping, variationsToSplit: string[]) => {
-    // Update original group
-    const updatedOriginalGroup: StoreGrouping = {
-      canonicalName: group.canonicalName,
-      variations: group.variations.filter(v => !variationsToSplit.includes(v))
-    };
-
-    // Create new group from split variations
-    const newGroup: StoreGrouping = {
-      canonicalName: variationsToSplit[0], // Use first variation as canonical name
-      variations: variationsToSplit.slice(1)
-    };
-
-    // Update groups list
-    setGroups(prevGroups => [
-      ...prevGroups.filter(g => g.canonicalName !== group.canonicalName),
-      updatedOriginalGroup,
-      newGroup
-    ]);
+  const handleDismissSuggestion = async (suggestion: StoreGrouping) => {
+    setSuggestions(prev => prev.filter(group => group.canonicalName !== suggestion.canonicalName));
+    try {
+      // Remember the rejection so the same grouping is not suggested again
+      await sendStoreFeedback('reject', [suggestion.canonicalName, ...suggestion.variations]);
+    } catch (err) {
+      console.error('Error saving store feedback:', err);
+    }
   };
 
   const handleSave = async () => {
@@ -101,9 +184,9 @@ export const RefineDataPage = () => {
       setIsSaving(true);
       setError(null);
 
-      // Convert groups to the format expected by the API
+      // Re-posting the groups also saves them to the mapping library for future uploads
       const mappings: { [key: string]: string[] } = {};
-      groups.forEach(group => {
+      groupsState.groups.forEach(group => {
         mappings[group.canonicalName] = group.variations;
       });
 
@@ -125,35 +208,219 @@ export const RefineDataPage = () => {
     );
   }
 
+  const recentEdits = history.filter(entry => !entry.undone).slice(-HISTORY_ITEMS_SHOWN).reverse();
+
   return (
     <Box>
       <Typography variant="h4" component="h1" gutterBottom align="center">
         Refine Store Names
       </Typography>
       <Typography variant="body1" color="text.secondary" align="center" gutterBottom>
-        Review and edit the suggested store name groupings below. You can merge similar stores
-        or split incorrectly grouped variations.
+        Accept the suggested store name groupings, then merge similar stores or split incorrectly
+        grouped variations. Every change is saved straight away and can be undone. Dismissed,
+        split and removed names are remembered and not suggested together again.
       </Typography>
 
       {error && (
-        <Alert severity="error" sx={{ mb: 2 }}>
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
           {error}
         </Alert>
       )}
 
-      <Stack spacing={2} sx={{ mt: 4, mb: 4 }}>
-        {groups.map(group => (
-          <StoreGroupEditor
-            key={group.canonicalName}
-            group={group}
-            allGroups={groups}
-            onUpdate={handleUpdateGroup}
-            onDelete={handleDeleteGroup}
-            onMerge={handleMergeGroups}
-            onSplit={handleSplitGroup}
+      {coveredStoreNames > 0 && (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          {coveredStoreNames} store name(s) were already grouped using your saved mappings and are not
+          suggested again.
+        </Alert>
+      )}
+
+      <Box sx={{ mt: 4 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h5" sx={{ flex: 1 }}>
+            Suggested Groups ({suggestions.length})
+          </Typography>
+          <Button
+            variant="outlined"
+            onClick={() => handleAcceptSuggestions(suggestions)}
+            disabled={suggestions.length === 0}
+          >
+            Accept All
+          </Button>
+        </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 3, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel>Match by</InputLabel>
+            <Select
+              label="Match by"
+              value={similarity.strategy ?? 'levenshtein'}
+              onChange={e => loadSuggestions({
+                strategy: e.target.value as SimilarityStrategyName,
+                stripStoreNumbers: similarity.stripStoreNumbers
+              })}
+            >
+              {STRATEGIES.map(strategy => (
+                <MenuItem key={strategy.value} value={strategy.value}>{strategy.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ width: 240 }}>
+            <Typography variant="caption" color="text.secondary">
+              Minimum similarity: {Math.round((similarity.threshold ?? 0) * 100)}%
+            </Typography>
+            <Slider
+              size="small"
+              min={0.5}
+              max={0.99}
+              step={0.01}
+              value={similarity.threshold ?? 0.8}
+              onChange={(_, value) => setSimilarity(prev => ({ ...prev, threshold: value as number }))}
+              onChangeCommitted={(_, value) => loadSuggestions({ ...similarity, threshold: value as number })}
+            />
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={similarity.stripStoreNumbers ?? false}
+                onChange={e => loadSuggestions({ ...similarity, stripStoreNumbers: e.target.checked })}
+              />
+            }
+            label="Ignore store numbers"
           />
-        ))}
-      </Stack>
+          {isLoadingSuggestions && <CircularProgress size={24} />}
+        </Box>
+
+        {suggestions.length === 0 && (
+          <Typography color="text.secondary">
+            No suggestions with these settings.
+          </Typography>
+        )}
+
+        <Stack spacing={2}>
+          {suggestions.map(suggestion => (
+            <Card key={suggestion.canonicalName} variant="outlined">
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  {suggestion.canonicalName}
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {suggestion.variations.map(variation => (
+                    <VariationChip
+                      key={variation}
+                      variation={variation}
+                      match={suggestion.matches?.find(match => match.variation === variation)}
+                    />
+                  ))}
+                </Box>
+              </CardContent>
+              <CardActions>
+                <Button size="small" onClick={() => handleAcceptSuggestions([suggestion])}>
+                  Accept
+                </Button>
+                <Button size="small" color="inherit" onClick={() => handleDismissSuggestion(suggestion)}>
+                  Dismiss
+                </Button>
+              </CardActions>
+            </Card>
+          ))}
+        </Stack>
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      <StoreRulesSection onApplied={handleGroupsReplaced} />
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h5" sx={{ flex: 1 }}>
+          Store Groups ({groupsState.groups.length})
+        </Typography>
+        <StoreMappingFileButtons onImported={handleGroupsReplaced} onError={setError} />
+        <Button
+          startIcon={<UndoIcon />}
+          onClick={() => runEdit(undoStoreGroupEdit, 'undo')}
+          disabled={!groupsState.canUndo}
+        >
+          Undo
+        </Button>
+        <Button
+          startIcon={<RedoIcon />}
+          onClick={() => runEdit(redoStoreGroupEdit, 'redo')}
+          disabled={!groupsState.canRedo}
+        >
+          Redo
+        </Button>
+      </Box>
+
+      {recentEdits.length > 0 && (
+        <List dense sx={{ mb: 2 }}>
+          {recentEdits.map(entry => (
+            <ListItem key={entry.id} disableGutters>
+              <ListItemText
+                primary={entry.summary}
+                secondary={new Date(entry.createdAt).toLocaleString()}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {groupsState.groups.length === 0 ? (
+        <Typography color="text.secondary" sx={{ mb: 4 }}>
+          No store groups yet. Accept a suggestion above to create one.
+        </Typography>
+      ) : (
+        <Stack spacing={2} sx={{ mb: 4 }}>
+          {groupsState.groups.map(group => (
+            <StoreGroupEditor
+              key={group.canonicalName}
+              group={group}
+              allGroups={groupsState.groups}
+              onRename={(canonicalName, newName) =>
+                runEdit(() => renameStoreGroup(canonicalName, newName), 'rename the store group')}
+              onRemoveVariation={(canonicalName, variation) =>
+                runEdit(() => removeStoreVariation(canonicalName, variation), 'remove the variation')}
+              onDelete={canonicalName =>
+                runEdit(() => deleteStoreGroup(canonicalName), 'delete the store group')}
+              onMerge={(group1, group2) =>
+                runEdit(() => mergeStoreGroups(group1.canonicalName, group2.canonicalName), 'merge the store groups')}
+              onSplit={(splitFrom, variations) =>
+                runEdit(() => splitStoreGroup(splitFrom.canonicalName, variations), 'split the store group')}
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ mb: 4 }}>
+        <StoreMetadataSection groups={groupsState.groups} />
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ mb: 4 }}>
+        <PeopleSection />
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ mb: 4 }}>
+        <CategoryTaxonomySection />
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ mb: 4 }}>
+        <CategoryReviewSection />
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      <Box sx={{ mb: 4 }}>
+        <CurrencySection />
+      </Box>
 
       <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2 }}>
         <Button
@@ -167,4 +434,4 @@ export const RefineDataPage = () => {
       </Box>
     </Box>
   );
-};
\ No newline at end of file
+};
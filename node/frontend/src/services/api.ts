@@ -1,14 +1,52 @@
 import axios from 'axios';
-import {
+import type {
   UploadResponse,
+  ValidationMode,
+  UploadMode,
+  DuplicateHandling,
+  ColumnMapping,
+  UploadPreview,
+  ImportProfile,
+  ImportProfileInput,
+  Dataset,
+  DatasetsResponse,
+  StoreGrouping,
   StoreGroupingsResponse,
+  StoreGroupsResponse,
+  StoreGroupHistoryEntry,
+  StoreMappingConflictResolution,
+  StoreMappingFileFormat,
+  StoreMappingImportResponse,
+  StoreMetadata,
+  StoreMetadataInput,
+  Person,
+  CategoryLevel,
+  CategoryTaxonomy,
+  CategoryTaxonomyResponse,
+  CategorySuggestion,
+  ReviewedCategorySuggestion,
+  CurrencySettings,
+  ExchangeRate,
+  PersonMergeSuggestion,
+  StoreAttribute,
+  StoreAttributeFilters,
+  SpendingDimension,
+  SimilarityOptions,
+  StorePairFeedback,
+  StorePairVerdict,
+  StoreRule,
+  StoreRuleInput,
+  StoreRuleTestResult,
   StoreMappingsResponse,
   DatasetMetadata,
   AnalysisFilters,
   SpendingData,
-  Transaction
+  Receipt,
+  Transaction,
+  TransactionInput,
+  TransactionTaggingResponse
 } from '../types';
-import {
+import type {
   PaymentPattern,
   StoreAnalytics,
   CategoryTrend,
@@ -23,9 +61,31 @@ const api = axios.create({
   withCredentials: true
 });
 
-export const uploadCSV = async (file: File): Promise<UploadResponse> => {
+/**
+ * Adds store attribute filters as comma-separated query params
+ */
+const appendStoreAttributeFilters = (params: URLSearchParams, filters: StoreAttributeFilters) => {
+  if (filters.chains?.length) params.append('chains', filters.chains.join(','));
+  if (filters.storeTypes?.length) params.append('storeTypes', filters.storeTypes.join(','));
+  if (filters.neighborhoods?.length) params.append('neighborhoods', filters.neighborhoods.join(','));
+  if (filters.storeTags?.length) params.append('storeTags', filters.storeTags.join(','));
+};
+
+export const uploadCSV = async (
+  files: File[],
+  validationMode: ValidationMode = 'skip',
+  columnMapping?: ColumnMapping,
+  profileId?: string,
+  mode: UploadMode = 'replace',
+  duplicates: DuplicateHandling = 'skip'
+): Promise<UploadResponse> => {
   const formData = new FormData();
-  formData.append('file', file);
+  files.forEach(file => formData.append('files', file));
+  formData.append('validationMode', validationMode);
+  formData.append('mode', mode);
+  formData.append('duplicates', duplicates);
+  if (profileId) formData.append('profileId', profileId);
+  if (columnMapping) formData.append('columnMapping', JSON.stringify(columnMapping));
   const response = await api.post<UploadResponse>('/upload', formData, {
     headers: {
       'Content-Type': 'multipart/form-data',
@@ -34,8 +94,71 @@ export const uploadCSV = async (file: File): Promise<UploadResponse> => {
   return response.data;
 };
 
-export const getStoreGroupings = async (): Promise<StoreGroupingsResponse> => {
-  const response = await api.get<StoreGroupingsResponse>('/stores/suggestions');
+/**
+ * Parse the first rows of a CSV without importing it
+ */
+export const previewCSV = async (
+  file: File,
+  columnMapping?: ColumnMapping,
+  rows?: number,
+  profileId?: string
+): Promise<UploadPreview> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (profileId) formData.append('profileId', profileId);
+  if (columnMapping) formData.append('columnMapping', JSON.stringify(columnMapping));
+  if (rows) formData.append('rows', rows.toString());
+  const response = await api.post<UploadPreview>('/upload/preview', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data;
+};
+
+export const getImportProfiles = async (): Promise<ImportProfile[]> => {
+  const response = await api.get<ImportProfile[]>('/import-profiles');
+  return response.data;
+};
+
+export const createImportProfile = async (profile: ImportProfileInput): Promise<ImportProfile> => {
+  const response = await api.post<ImportProfile>('/import-profiles', profile);
+  return response.data;
+};
+
+export const deleteImportProfile = async (id: string): Promise<void> => {
+  await api.delete(`/import-profiles/${encodeURIComponent(id)}`);
+};
+
+export const getDatasets = async (): Promise<DatasetsResponse> => {
+  const response = await api.get<DatasetsResponse>('/datasets');
+  return response.data;
+};
+
+/**
+ * Create an empty dataset; the session switches to it
+ */
+export const createDataset = async (name: string): Promise<Dataset> => {
+  const response = await api.post<Dataset>('/datasets', { name });
+  return response.data;
+};
+
+export const renameDataset = async (id: string, name: string): Promise<Dataset> => {
+  const response = await api.put<Dataset>(`/datasets/${encodeURIComponent(id)}`, { name });
+  return response.data;
+};
+
+export const selectDataset = async (id: string): Promise<Dataset> => {
+  const response = await api.post<Dataset>(`/datasets/${encodeURIComponent(id)}/select`);
+  return response.data;
+};
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  await api.delete(`/datasets/${encodeURIComponent(id)}`);
+};
+
+export const getStoreGroupings = async (options: SimilarityOptions = {}): Promise<StoreGroupingsResponse> => {
+  const response = await api.get<StoreGroupingsResponse>('/stores/suggestions', { params: options });
   return response.data;
 };
 
@@ -46,6 +169,385 @@ export const applyStoreMappings = async (
   return response.data;
 };
 
+/**
+ * Record whether the names belong together; rejected names are not suggested as a group again
+ */
+export const sendStoreFeedback = async (
+  verdict: StorePairVerdict,
+  names: string[]
+): Promise<StorePairFeedback[]> => {
+  const response = await api.post<{ feedback: StorePairFeedback[] }>('/stores/feedback', { verdict, names });
+  return response.data.feedback;
+};
+
+export const getStoreGroups = async (): Promise<StoreGroupsResponse> => {
+  const response = await api.get<StoreGroupsResponse>('/stores/groups');
+  return response.data;
+};
+
+/**
+ * Add groups to the dataset; variations of an existing group are added to it
+ */
+export const addStoreGroups = async (groups: StoreGrouping[]): Promise<StoreGroupsResponse> => {
+  const response = await api.post<StoreGroupsResponse>('/stores/groups', { groups });
+  return response.data;
+};
+
+export const mergeStoreGroups = async (
+  firstName: string,
+  secondName: string
+): Promise<StoreGroupsResponse> => {
+  const response = await api.post<StoreGroupsResponse>('/stores/groups/merge', {
+    canonicalNames: [firstName, secondName]
+  });
+  return response.data;
+};
+
+export const splitStoreGroup = async (
+  canonicalName: string,
+  variations: string[]
+): Promise<StoreGroupsResponse> => {
+  const response = await api.post<StoreGroupsResponse>('/stores/groups/split', { canonicalName, variations });
+  return response.data;
+};
+
+export const renameStoreGroup = async (canonicalName: string, newName: string): Promise<StoreGroupsResponse> => {
+  const response = await api.post<StoreGroupsResponse>('/stores/groups/rename', { canonicalName, newName });
+  return response.data;
+};
+
+export const removeStoreVariation = async (
+  canonicalName: string,
+  variation: string
+): Promise<StoreGroupsResponse> => {
+  const response = await api.delete<StoreGroupsResponse>(
+    `/stores/groups/${encodeURIComponent(canonicalName)}/variations/${encodeURIComponent(variation)}`
+  );
+  return response.data;
+};
+
+export const deleteStoreGroup = async (canonicalName: string): Promise<StoreGroupsResponse> => {
+  const response = await api.delete<StoreGroupsResponse>(`/stores/groups/${encodeURIComponent(canonicalName)}`);
+  return response.data;
+};
+
+export const getStoreGroupHistory = async (): Promise<StoreGroupHistoryEntry[]> => {
+  const response = await api.get<{ entries: StoreGroupHistoryEntry[] }>('/stores/groups/history');
+  return response.data.entries;
+};
+
+export const undoStoreGroupEdit = async (): Promise<StoreGroupsResponse> => {
+  const response = await api.post<StoreGroupsResponse>('/stores/groups/undo');
+  return response.data;
+};
+
+export const redoStoreGroupEdit = async (): Promise<StoreGroupsResponse> => {
+  const response = await api.post<StoreGroupsResponse>('/stores/groups/redo');
+  return response.data;
+};
+
+/**
+ * Download the dataset's store mappings as a file
+ */
+export const exportStoreMappings = async (format: StoreMappingFileFormat): Promise<Blob> => {
+  const response = await api.get<Blob>('/stores/groups/export', { params: { format }, responseType: 'blob' });
+  return response.data;
+};
+
+/**
+ * Import store mappings from a CSV or JSON file
+ * With dryRun, only reports what would change, including conflicts with existing mappings
+ */
+export const importStoreMappings = async (
+  file: File,
+  conflicts: StoreMappingConflictResolution = 'skip',
+  dryRun = false
+): Promise<StoreMappingImportResponse> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('conflicts', conflicts);
+  formData.append('dryRun', String(dryRun));
+  const response = await api.post<StoreMappingImportResponse>('/stores/groups/import', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data;
+};
+
+export const getStoreMetadata = async (): Promise<StoreMetadata[]> => {
+  const response = await api.get<{ metadata: StoreMetadata[] }>('/stores/metadata');
+  return response.data.metadata;
+};
+
+/**
+ * Set the chain, type, neighborhood and tags of a canonical store
+ */
+export const saveStoreMetadata = async (storeName: string, metadata: StoreMetadataInput): Promise<StoreMetadata> => {
+  const response = await api.put<StoreMetadata>(`/stores/metadata/${encodeURIComponent(storeName)}`, metadata);
+  return response.data;
+};
+
+export const deleteStoreMetadata = async (storeName: string): Promise<void> => {
+  await api.delete(`/stores/metadata/${encodeURIComponent(storeName)}`);
+};
+
+export const getPeople = async (): Promise<Person[]> => {
+  const response = await api.get<{ people: Person[] }>('/people');
+  return response.data.people;
+};
+
+export const getPersonSuggestions = async (): Promise<PersonMergeSuggestion[]> => {
+  const response = await api.get<{ suggestions: PersonMergeSuggestion[] }>('/people/suggestions');
+  return response.data.suggestions;
+};
+
+/**
+ * Merge people into one, shown under canonicalName or the first of the names
+ */
+export const mergePeople = async (names: string[], canonicalName?: string): Promise<Person[]> => {
+  const response = await api.post<{ people: Person[] }>('/people/merge', { names, canonicalName });
+  return response.data.people;
+};
+
+export const renamePerson = async (name: string, newName: string): Promise<Person[]> => {
+  const response = await api.post<{ people: Person[] }>('/people/rename', { name, newName });
+  return response.data.people;
+};
+
+export const removePersonAlias = async (name: string, alias: string): Promise<Person[]> => {
+  const response = await api.delete<{ people: Person[] }>(
+    `/people/${encodeURIComponent(name)}/aliases/${encodeURIComponent(alias)}`
+  );
+  return response.data.people;
+};
+
+export const getCategoryTaxonomy = async (): Promise<CategoryTaxonomyResponse> => {
+  const response = await api.get<CategoryTaxonomyResponse>('/categories');
+  return response.data;
+};
+
+/**
+ * Show an imported category as another category in all analytics
+ */
+export const saveCategoryRemapping = async (rawCategory: string, category: string): Promise<CategoryTaxonomy> => {
+  const response = await api.put<{ taxonomy: CategoryTaxonomy }>(
+    `/categories/remappings/${encodeURIComponent(rawCategory)}`,
+    { category }
+  );
+  return response.data.taxonomy;
+};
+
+export const deleteCategoryRemapping = async (rawCategory: string): Promise<CategoryTaxonomy> => {
+  const response = await api.delete<{ taxonomy: CategoryTaxonomy }>(
+    `/categories/remappings/${encodeURIComponent(rawCategory)}`
+  );
+  return response.data.taxonomy;
+};
+
+/**
+ * Place a category under a parent group it rolls up into
+ */
+export const saveCategoryParent = async (category: string, parent: string): Promise<CategoryTaxonomy> => {
+  const response = await api.put<{ taxonomy: CategoryTaxonomy }>(
+    `/categories/parents/${encodeURIComponent(category)}`,
+    { parent }
+  );
+  return response.data.taxonomy;
+};
+
+export const deleteCategoryParent = async (category: string): Promise<CategoryTaxonomy> => {
+  const response = await api.delete<{ taxonomy: CategoryTaxonomy }>(
+    `/categories/parents/${encodeURIComponent(category)}`
+  );
+  return response.data.taxonomy;
+};
+
+export const getCategorySuggestions = async (): Promise<CategorySuggestion[]> => {
+  const response = await api.get<{ suggestions: CategorySuggestion[] }>('/categories/suggestions');
+  return response.data.suggestions;
+};
+
+/**
+ * Set suggested categories on their transactions; returns the remaining review queue
+ */
+export const acceptCategorySuggestions = async (
+  suggestions: ReviewedCategorySuggestion[]
+): Promise<CategorySuggestion[]> => {
+  const response = await api.post<{ suggestions: CategorySuggestion[] }>(
+    '/categories/suggestions/accept',
+    { suggestions }
+  );
+  return response.data.suggestions;
+};
+
+export const rejectCategorySuggestions = async (
+  suggestions: ReviewedCategorySuggestion[]
+): Promise<CategorySuggestion[]> => {
+  const response = await api.post<{ suggestions: CategorySuggestion[] }>(
+    '/categories/suggestions/reject',
+    { suggestions }
+  );
+  return response.data.suggestions;
+};
+
+export const getStoreRules = async (): Promise<StoreRule[]> => {
+  const response = await api.get<{ rules: StoreRule[] }>('/stores/rules');
+  return response.data.rules;
+};
+
+export const createStoreRule = async (rule: StoreRuleInput): Promise<StoreRule> => {
+  const response = await api.post<StoreRule>('/stores/rules', rule);
+  return response.data;
+};
+
+export const updateStoreRule = async (id: string, rule: StoreRuleInput): Promise<StoreRule> => {
+  const response = await api.put<StoreRule>(`/stores/rules/${encodeURIComponent(id)}`, rule);
+  return response.data;
+};
+
+export const deleteStoreRule = async (id: string): Promise<void> => {
+  await api.delete(`/stores/rules/${encodeURIComponent(id)}`);
+};
+
+export const reorderStoreRules = async (ids: string[]): Promise<StoreRule[]> => {
+  const response = await api.put<{ rules: StoreRule[] }>('/stores/rules/order', { ids });
+  return response.data.rules;
+};
+
+/**
+ * Show which descriptions in the current dataset a rule matches
+ * Without a rule, every saved rule is tested in order
+ */
+export const testStoreRules = async (rule?: StoreRuleInput): Promise<StoreRuleTestResult[]> => {
+  const response = await api.post<{ results: StoreRuleTestResult[] }>('/stores/rules/test', rule ? { rule } : {});
+  return response.data.results;
+};
+
+/**
+ * Get the reporting currency, the exchange-rate table and the current dataset's currencies
+ */
+export const getCurrencySettings = async (): Promise<CurrencySettings> => {
+  const response = await api.get<CurrencySettings>('/currencies');
+  return response.data;
+};
+
+/**
+ * Set the currency analytics are reported in, or null to use the dataset's most common currency
+ */
+export const setReportingCurrency = async (currency: string | null): Promise<CurrencySettings> => {
+  const response = await api.put<CurrencySettings>('/currencies/reporting', { currency });
+  return response.data;
+};
+
+/**
+ * Add an exchange rate, replacing any rate for the same currencies and date
+ */
+export const addExchangeRate = async (rate: ExchangeRate): Promise<CurrencySettings> => {
+  const response = await api.post<CurrencySettings>('/currencies/rates', rate);
+  return response.data;
+};
+
+/**
+ * Delete one dated exchange rate
+ */
+export const deleteExchangeRate = async (rate: ExchangeRate): Promise<CurrencySettings> => {
+  const path = [rate.baseCurrency, rate.quoteCurrency, rate.date].map(encodeURIComponent).join('/');
+  const response = await api.delete<CurrencySettings>(`/currencies/rates/${path}`);
+  return response.data;
+};
+
+/**
+ * Import dated rates from a CSV file with the columns date, baseCurrency, quoteCurrency and rate
+ */
+export const importExchangeRates = async (file: File): Promise<CurrencySettings & { ratesImported: number }> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await api.post<CurrencySettings & { ratesImported: number }>('/currencies/rates/import', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data;
+};
+
+/**
+ * Group the dataset's ungrouped store names using the store rules
+ */
+export const applyStoreRules = async (): Promise<StoreGroupsResponse & { namesMapped: number }> => {
+  const response = await api.post<StoreGroupsResponse & { namesMapped: number }>('/stores/groups/apply-rules');
+  return response.data;
+};
+
+/**
+ * Get one transaction as stored, before category remappings and currency conversion
+ */
+export const getTransaction = async (id: string): Promise<Transaction> => {
+  const response = await api.get<Transaction>(`/transactions/${encodeURIComponent(id)}`);
+  return response.data;
+};
+
+export const createTransaction = async (transaction: TransactionInput): Promise<Transaction> => {
+  const response = await api.post<Transaction>('/transactions', transaction);
+  return response.data;
+};
+
+export const updateTransaction = async (id: string, changes: TransactionInput): Promise<Transaction> => {
+  const response = await api.patch<Transaction>(`/transactions/${encodeURIComponent(id)}`, changes);
+  return response.data;
+};
+
+export const deleteTransaction = async (id: string): Promise<void> => {
+  await api.delete(`/transactions/${encodeURIComponent(id)}`);
+};
+
+/**
+ * Add tags to several transactions, keeping the tags they already have
+ */
+export const addTransactionTags = async (ids: string[], tags: string[]): Promise<TransactionTaggingResponse> => {
+  const response = await api.post<TransactionTaggingResponse>('/transactions/tags', { ids, tags });
+  return response.data;
+};
+
+export const removeTransactionTags = async (ids: string[], tags: string[]): Promise<TransactionTaggingResponse> => {
+  const response = await api.post<TransactionTaggingResponse>('/transactions/tags/remove', { ids, tags });
+  return response.data;
+};
+
+export const getReceipts = async (transactionId: string): Promise<Receipt[]> => {
+  const response = await api.get<{ receipts: Receipt[] }>(`/transactions/${encodeURIComponent(transactionId)}/receipts`);
+  return response.data.receipts;
+};
+
+/**
+ * Attach an image or PDF receipt to a transaction
+ */
+export const uploadReceipt = async (transactionId: string, file: File): Promise<Receipt> => {
+  const formData = new FormData();
+  formData.append('receipt', file);
+  const response = await api.post<Receipt>(`/transactions/${encodeURIComponent(transactionId)}/receipts`, formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data;
+};
+
+/**
+ * Get a receipt's file, fetched with the session cookie so it can be shown from an object URL
+ */
+export const getReceiptFile = async (receipt: Receipt): Promise<Blob> => {
+  const response = await api.get<Blob>(
+    `/transactions/${encodeURIComponent(receipt.transactionId)}/receipts/${encodeURIComponent(receipt.id)}`,
+    { responseType: 'blob' }
+  );
+  return response.data;
+};
+
+export const deleteReceipt = async (receipt: Receipt): Promise<void> => {
+  await api.delete(`/transactions/${encodeURIComponent(receipt.transactionId)}/receipts/${encodeURIComponent(receipt.id)}`);
+};
+
 export const getMetadata = async (): Promise<DatasetMetadata> => {
   const response = await api.get<DatasetMetadata>('/analysis/metadata');
   return response.data;
@@ -53,7 +555,7 @@ export const getMetadata = async (): Promise<DatasetMetadata> => {
 
 export const getSpendingAnalysis = async (
   filters: AnalysisFilters,
-  groupBy: 'time' | 'category' | 'store' | 'person' | 'transactions',
+  groupBy: 'time' | SpendingDimension | 'transactions',
   timeInterval?: 'day' | 'week' | 'month',
   page?: number,
   pageSize?: number
@@ -65,7 +567,11 @@ export const getSpendingAnalysis = async (
   if (filters.endDate) params.append('endDate', filters.endDate);
   if (filters.people?.length) params.append('people', filters.people.join(','));
   if (filters.categories?.length) params.append('categories', filters.categories.join(','));
+  if (filters.parentCategories?.length) params.append('parentCategories', filters.parentCategories.join(','));
   if (filters.stores?.length) params.append('stores', filters.stores.join(','));
+  if (filters.tags?.length) params.append('tags', filters.tags.join(','));
+  if (filters.includeSettlements) params.append('includeSettlements', 'true');
+  appendStoreAttributeFilters(params, filters);
 
   // Add grouping params
   params.append('groupBy', groupBy);
@@ -102,16 +608,24 @@ export const getPaymentPatternForPerson = async (person: string): Promise<Paymen
 /**
  * Get detailed analytics for all stores
  */
-export const getStoreAnalytics = async (): Promise<StoreAnalytics[]> => {
-  const response = await api.get<StoreAnalytics[]>('/advanced-analytics/stores');
+/**
+ * Get analytics per store, or per store attribute value with groupBy
+ */
+export const getStoreAnalytics = async (
+  options: { groupBy?: StoreAttribute; filters?: StoreAttributeFilters } = {}
+): Promise<StoreAnalytics[]> => {
+  const params = new URLSearchParams();
+  if (options.groupBy) params.append('groupBy', options.groupBy);
+  if (options.filters) appendStoreAttributeFilters(params, options.filters);
+  const response = await api.get<StoreAnalytics[]>('/advanced-analytics/stores', { params });
   return response.data;
 };
 
 /**
  * Get trend analysis for all spending categories
  */
-export const getCategoryTrends = async (): Promise<CategoryTrend[]> => {
-  const response = await api.get<CategoryTrend[]>('/advanced-analytics/categories/trends');
+export const getCategoryTrends = async (level: CategoryLevel = 'category'): Promise<CategoryTrend[]> => {
+  const response = await api.get<CategoryTrend[]>('/advanced-analytics/categories/trends', { params: { level } });
   return response.data;
 };
 
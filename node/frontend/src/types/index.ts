@@ -2,53 +2,365 @@
  * Core data types for the frontend application
  */
 
+import type { BalanceReconciliation } from './analytics';
+
+/**
+ * An amount in integer minor units of its currency (cents); every amount the API returns is in minor units
+ */
+export type Cents = number;
+
 export interface PersonShare {
   name: string;
-  amount: number;
+  amount: Cents;
 }
 
+export type TransactionKind = 'expense' | 'settlement';
+
 export interface Transaction {
+  /** Stable identifier, kept through edits */
+  id: string;
   date: string;
+  /** Original description from the imported file */
   description: string;
+  /** Canonical store name after store mappings */
+  store: string;
+  /** Category after category remappings */
   category: string;
-  cost: number;
+  /** Category as imported, present when a reviewed suggestion or a remapping changed it */
+  originalCategory?: string;
+  /** Parent group the category rolls up into */
+  parentCategory?: string;
+  /** Cost in the reporting currency */
+  cost: Cents;
   currency: string;
+  /** Cost as imported, present when it was converted into the reporting currency */
+  originalCost?: Cents;
+  originalCurrency?: string;
+  /** Units of the reporting currency per unit of the original currency */
+  exchangeRate?: number;
+  /** Shares under canonical person names after person mappings */
   shares: PersonShare[];
+  /** Shares as imported, present when person mappings changed them */
+  originalShares?: PersonShare[];
+  kind?: TransactionKind;
+  possibleDuplicate?: boolean;
+  /** Free-form labels such as "trip:tahoe", independent of the category */
+  tags?: string[];
+  notes?: string;
+  /** Number of receipts attached, present when there are any */
+  receiptCount?: number;
+}
+
+/**
+ * A receipt photo or PDF attached to a transaction
+ */
+export interface Receipt {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  uploadedAt: string;
+}
+
+/**
+ * Fields that can be set when entering a transaction by hand or editing one; amounts in minor units
+ */
+export type TransactionInput = Partial<Pick<
+  Transaction,
+  'date' | 'description' | 'category' | 'cost' | 'currency' | 'shares' | 'kind' | 'tags' | 'notes'
+>>;
+
+export interface TransactionTaggingResponse {
+  message: string;
+  transactionCount: number;
+}
+
+export interface TotalBalance {
+  date: string;
+  currency: string;
+  balances: { [person: string]: Cents };
 }
 
 export interface StoreGrouping {
   canonicalName: string;
   variations: string[];
+  /** How closely each variation matches the canonical name, when scored */
+  matches?: VariationMatch[];
+}
+
+export interface VariationMatch {
+  variation: string;
+  /** Similarity score between 0 and 1 */
+  confidence: number;
+  explanation: string;
+}
+
+export type SimilarityStrategyName = 'levenshtein' | 'token-set' | 'jaro-winkler' | 'prefix';
+
+export interface SimilarityOptions {
+  strategy?: SimilarityStrategyName;
+  /** Names are grouped when their score is above this; defaults to the strategy's own threshold */
+  threshold?: number;
+  stripStoreNumbers?: boolean;
+}
+
+export interface StoreAttributeFilters {
+  chains?: string[];
+  storeTypes?: string[];
+  neighborhoods?: string[];
+  storeTags?: string[];
 }
 
-export interface AnalysisFilters {
+export interface AnalysisFilters extends StoreAttributeFilters {
   startDate?: string;
   endDate?: string;
   people?: string[];
   categories?: string[];
+  parentCategories?: string[];
   stores?: string[];
+  tags?: string[];
+  includeSettlements?: boolean;
 }
 
+export type StoreType =
+  | 'supermarket'
+  | 'restaurant'
+  | 'cafe'
+  | 'online'
+  | 'pharmacy'
+  | 'household'
+  | 'clothing'
+  | 'entertainment'
+  | 'travel'
+  | 'other';
+
+export interface StoreMetadata {
+  storeName: string;
+  chain?: string;
+  storeType?: StoreType;
+  neighborhood?: string;
+  tags: string[];
+}
+
+export type StoreMetadataInput = Omit<StoreMetadata, 'storeName'>;
+
+/**
+ * A person as shown across all analytics, with the other names they were imported under
+ */
+export interface Person {
+  name: string;
+  aliases: string[];
+  transactionCount: number;
+}
+
+export interface PersonMergeSuggestion {
+  canonicalName: string;
+  aliases: string[];
+  confidence: number;
+  explanation: string;
+}
+
+export type StoreAttribute = 'chain' | 'storeType' | 'neighborhood' | 'storeTag';
+
+export interface StoreAttributeValues {
+  chains: string[];
+  storeTypes: StoreType[];
+  neighborhoods: string[];
+  storeTags: string[];
+}
+
+export type SpendingDimension = 'category' | 'parentCategory' | 'store' | 'person' | 'tag' | StoreAttribute;
+
 export interface SpendingData {
   label: string;
-  amount: number;
-  breakdown?: { [key: string]: number };
+  amount: Cents;
+  breakdown?: { [key: string]: Cents };
+}
+
+/**
+ * Category remappings and parent groups, shared by all datasets
+ */
+export interface CategoryTaxonomy {
+  /** Imported categories mapped to the category they are shown as */
+  remappings: { [rawCategory: string]: string };
+  /** Categories mapped to the parent group they roll up into */
+  parents: { [category: string]: string };
+}
+
+export type CategoryLevel = 'category' | 'parent';
+
+export interface CategoryGroup {
+  parent: string;
+  categories: string[];
+}
+
+export interface CategoryTaxonomyResponse {
+  taxonomy: CategoryTaxonomy;
+  /** Categories as imported into the current dataset */
+  rawCategories: string[];
+}
+
+export type CategorySuggestionReason = 'uncategorized' | 'miscategorized';
+
+/**
+ * A category the classifier suggests for one transaction, waiting in the review queue
+ */
+export interface CategorySuggestion {
+  /** ID of the transaction, which stays the same when the transaction is edited */
+  transactionId: string;
+  transaction: Transaction;
+  reason: CategorySuggestionReason;
+  suggestedCategory: string;
+  confidence: number;
+  explanation: string;
+}
+
+export interface ReviewedCategorySuggestion {
+  transactionId: string;
+  category: string;
+}
+
+/**
+ * A dated exchange rate: 1 baseCurrency is worth rate quoteCurrency
+ */
+export interface ExchangeRate {
+  date: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+export interface UnconvertedCurrency {
+  currency: string;
+  transactionCount: number;
+  /** Dates of the earliest and latest of those transactions */
+  firstDate: string;
+  lastDate: string;
+}
+
+export interface CurrencySummary {
+  reportingCurrency: string;
+  /** Currencies without a usable exchange rate; analytics are unavailable until they have one */
+  unconverted: UnconvertedCurrency[];
+}
+
+export interface CurrencySettings extends CurrencySummary {
+  /** Configured reporting currency, or null to use the dataset's most common currency */
+  configuredReportingCurrency: string | null;
+  /** Currencies imported into the current dataset */
+  datasetCurrencies: string[];
+  rates: ExchangeRate[];
 }
 
 export interface DatasetMetadata {
   people: string[];
   categories: string[];
+  categoryGroups: CategoryGroup[];
   stores: string[];
+  storeAttributes: StoreAttributeValues;
+  tags: string[];
   dateRange: {
     start: string;
     end: string;
   };
+  currency: CurrencySummary;
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  rowNumber: number;
+  field: string;
+  problem: string;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationReport {
+  rowsChecked: number;
+  rowsRejected: number;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+export type ValidationMode = 'reject' | 'skip';
+
+export type UploadMode = 'replace' | 'append';
+
+export type DuplicateHandling = 'skip' | 'flag';
+
+export interface FileImportResult {
+  fileName: string;
+  transactionsParsed: number;
+  added: number;
+  duplicatesSkipped: number;
+  duplicatesFlagged: number;
+  storeNamesMapped: number;
+  totalBalance?: TotalBalance;
+  reconciliation?: BalanceReconciliation;
+  validation: ValidationReport;
+}
+
+export type ColumnRole =
+  | 'date'
+  | 'description'
+  | 'category'
+  | 'cost'
+  | 'debit'
+  | 'credit'
+  | 'currency'
+  | 'person'
+  | 'ignore';
+
+export interface ColumnMapping {
+  [column: string]: ColumnRole;
+}
+
+export interface ColumnPreview {
+  name: string;
+  role: ColumnRole;
+  inferredType: 'date' | 'number' | 'text' | 'empty';
+  sampleValues: string[];
+}
+
+export type AmountSign = 'positive-debit' | 'negative-debit';
+
+export type CreditHandling = 'skip' | 'refund';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  columnMapping: ColumnMapping;
+  unmappedColumns: 'person' | 'ignore';
+  dateFormat: string;
+  amountSign: AmountSign;
+  creditHandling: CreditHandling;
+  defaultCurrency?: string;
+  defaultOwner?: string;
+  defaultSplit?: { [person: string]: number };
+  builtIn?: boolean;
+}
+
+export type ImportProfileInput = Omit<ImportProfile, 'id' | 'builtIn'>;
+
+export interface UploadPreview {
+  columns: ColumnPreview[];
+  people: string[];
+  sampleTransactions: Transaction[];
+  validation: ValidationReport;
 }
 
 export interface UploadResponse {
   message: string;
   summary: {
     totalTransactions: number;
+    settlements: number;
+    added: number;
+    duplicatesSkipped: number;
+    duplicatesFlagged: number;
+    storeNamesMapped: number;
     dateRange: {
       start: string;
       end: string;
@@ -56,13 +368,119 @@ export interface UploadResponse {
     people: string[];
     categories: string[];
   };
+  files: FileImportResult[];
+}
+
+/**
+ * Body of an error response; `details` lists the problems with a rejected request
+ */
+export interface ApiErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+export interface UploadRejectedResponse {
+  error: string;
+  files: {
+    fileName: string;
+    validation: ValidationReport;
+  }[];
 }
 
 export interface StoreGroupingsResponse {
   suggestions: StoreGrouping[];
+  /** Store names in the dataset already handled by saved mappings */
+  coveredStoreNames: number;
+  /** Options the suggestions were made with, including default ones */
+  strategy: SimilarityStrategyName;
+  threshold: number;
+  stripStoreNumbers: boolean;
+}
+
+export type StorePairVerdict = 'accept' | 'reject';
+
+export interface StorePairFeedback {
+  nameA: string;
+  nameB: string;
+  verdict: StorePairVerdict;
+  updatedAt: string;
+}
+
+export interface StoreGroupsResponse {
+  groups: StoreGrouping[];
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export type StoreGroupOperation =
+  'add' | 'merge' | 'split' | 'rename' | 'remove-variation' | 'delete' | 'apply-rules' | 'import';
+
+export interface StoreGroupHistoryEntry {
+  id: number;
+  operation: StoreGroupOperation;
+  summary: string;
+  createdAt: string;
+  undone: boolean;
+}
+
+export type StoreMappingFileFormat = 'csv' | 'json';
+
+export type StoreMappingConflictResolution = 'skip' | 'overwrite';
+
+export interface StoreMappingConflict {
+  name: string;
+  currentCanonicalName: string;
+  importedCanonicalName: string;
+}
+
+export interface StoreMappingImportResponse extends StoreGroupsResponse {
+  namesImported: number;
+  conflicts: StoreMappingConflict[];
+  dryRun: boolean;
+}
+
+export type StoreRuleMatchType = 'regex' | 'contains' | 'prefix';
+
+export interface StoreRule {
+  id: string;
+  matchType: StoreRuleMatchType;
+  pattern: string;
+  canonicalName: string;
+  caseSensitive: boolean;
+  enabled: boolean;
+}
+
+export type StoreRuleInput = Omit<StoreRule, 'id'>;
+
+export interface StoreRuleMatch {
+  description: string;
+  transactionCount: number;
+  currentStore: string;
+}
+
+export interface StoreRuleTestResult {
+  ruleId?: string;
+  matches: StoreRuleMatch[];
+  transactionCount: number;
 }
 
 export interface StoreMappingsResponse {
   message: string;
   transactionCount: number;
 }
+
+export interface Dataset {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DatasetSummary extends Dataset {
+  transactionCount: number;
+}
+
+export interface DatasetsResponse {
+  datasets: DatasetSummary[];
+  currentDatasetId: string | null;
+}